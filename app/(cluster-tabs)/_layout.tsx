@@ -0,0 +1,72 @@
+/**
+ * Cluster Manager Tabs Layout
+ * Bottom tab navigation for cluster managers
+ */
+
+import React from 'react';
+import { Text, View, StyleSheet } from 'react-native';
+import { Tabs } from 'expo-router';
+import { colors } from '../../theme';
+import { OfflineBanner } from '../../components/ui';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function ClusterTabsLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.ClusterManager]}>
+      <View style={styles.container}>
+        <OfflineBanner message="Offline. Data will refresh when the connection is back." />
+        <Tabs
+          screenOptions={{
+            headerShown: false,
+            tabBarStyle: {
+              backgroundColor: colors.white,
+              borderTopLeftRadius: 16,
+              borderTopRightRadius: 16,
+              height: 70,
+              paddingBottom: 10,
+              paddingTop: 10,
+            },
+            tabBarActiveTintColor: colors.primary,
+            tabBarInactiveTintColor: colors.textSecondary,
+          }}
+        >
+          <Tabs.Screen
+            name="home"
+            options={{
+              title: 'Home',
+              tabBarIcon: () => <Text>🏠</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="groups"
+            options={{
+              title: 'Groups',
+              tabBarIcon: () => <Text>🏘️</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="supervisors"
+            options={{
+              title: 'Supervisors',
+              tabBarIcon: () => <Text>👥</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="profile"
+            options={{
+              title: 'Profile',
+              tabBarIcon: () => <Text>👤</Text>,
+            }}
+          />
+        </Tabs>
+      </View>
+    </ProtectedRoute>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
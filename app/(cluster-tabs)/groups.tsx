@@ -0,0 +1,7 @@
+/**
+ * Cluster Groups Tab Screen Route
+ */
+
+import { ClusterGroupsScreen } from '../../screens/cluster/ClusterGroupsScreen';
+
+export default ClusterGroupsScreen;
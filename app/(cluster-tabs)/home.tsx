@@ -0,0 +1,7 @@
+/**
+ * Cluster Home Tab Screen Route
+ */
+
+import { ClusterHomeScreen } from '../../screens/cluster/ClusterHomeScreen';
+
+export default ClusterHomeScreen;
@@ -0,0 +1,7 @@
+/**
+ * Profile Tab Screen Route
+ */
+
+import { ProfileScreen } from '../../screens/ProfileScreen';
+
+export default ProfileScreen;
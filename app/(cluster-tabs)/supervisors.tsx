@@ -0,0 +1,7 @@
+/**
+ * Cluster Supervisors Tab Screen Route
+ */
+
+import { ClusterSupervisorsScreen } from '../../screens/cluster/ClusterSupervisorsScreen';
+
+export default ClusterSupervisorsScreen;
@@ -0,0 +1,65 @@
+/**
+ * Agronomy Expert Tabs Layout
+ * Bottom tab navigation for agronomy experts
+ */
+
+import React from 'react';
+import { Text, View, StyleSheet } from 'react-native';
+import { Tabs } from 'expo-router';
+import { colors } from '../../theme';
+import { OfflineBanner } from '../../components/ui';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function ExpertTabsLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.AgronomyExpert]}>
+      <View style={styles.container}>
+        <OfflineBanner message="Offline. Data will refresh when the connection is back." />
+        <Tabs
+          screenOptions={{
+            headerShown: false,
+            tabBarStyle: {
+              backgroundColor: colors.white,
+              borderTopLeftRadius: 16,
+              borderTopRightRadius: 16,
+              height: 70,
+              paddingBottom: 10,
+              paddingTop: 10,
+            },
+            tabBarActiveTintColor: colors.primary,
+            tabBarInactiveTintColor: colors.textSecondary,
+          }}
+        >
+          <Tabs.Screen
+            name="reports"
+            options={{
+              title: 'Reports',
+              tabBarIcon: () => <Text>🐛</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="plans"
+            options={{
+              title: 'Plans',
+              tabBarIcon: () => <Text>📚</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="profile"
+            options={{
+              title: 'Profile',
+              tabBarIcon: () => <Text>👤</Text>,
+            }}
+          />
+        </Tabs>
+      </View>
+    </ProtectedRoute>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * Standard Plans Tab Screen Route
+ */
+
+import { StandardPlansScreen } from '../../screens/expert/StandardPlansScreen';
+
+export default StandardPlansScreen;
@@ -0,0 +1,7 @@
+/**
+ * Expert Reports Tab Screen Route
+ */
+
+import { ExpertReportsScreen } from '../../screens/expert/ExpertReportsScreen';
+
+export default ExpertReportsScreen;
@@ -4,104 +4,118 @@
  */
 
 import React from 'react';
+import { View, StyleSheet } from 'react-native';
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors } from '../../theme';
+import { OfflineBanner } from '../../components/ui';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
 
 export default function FarmerTabsLayout() {
   return (
-    <Tabs
-      screenOptions={{
-        headerShown: false,
-        tabBarStyle: {
-          backgroundColor: colors.white,
-          borderTopLeftRadius: 16,
-          borderTopRightRadius: 16,
-          height: 70,
-          paddingBottom: 10,
-          paddingTop: 10,
-          elevation: 8,
-          shadowColor: '#000',
-          shadowOffset: { width: 0, height: -2 },
-          shadowOpacity: 0.1,
-          shadowRadius: 8,
-        },
-        tabBarActiveTintColor: colors.primary,
-        tabBarInactiveTintColor: colors.textSecondary,
-        tabBarLabelStyle: {
-          fontSize: 12,
-          fontWeight: '600',
-          marginTop: 4,
-        },
-      }}
-    >
-      <Tabs.Screen
-        name="home"
-        options={{
-          title: 'Home',
-          tabBarIcon: ({ color, size, focused }) => (
-            <Ionicons 
-              name={focused ? 'home' : 'home-outline'} 
-              size={size} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="fields"
-        options={{
-          title: 'Fields',
-          tabBarIcon: ({ color, size, focused }) => (
-            <Ionicons 
-              name={focused ? 'leaf' : 'leaf-outline'} 
-              size={size} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="tasks"
-        options={{
-          title: 'Tasks',
-          tabBarIcon: ({ color, size, focused }) => (
-            <Ionicons 
-              name={focused ? 'checkbox' : 'checkbox-outline'} 
-              size={size} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="scanner"
-        options={{
-          title: 'Scanner',
-          tabBarIcon: ({ color, size, focused }) => (
-            <Ionicons 
-              name={focused ? 'scan' : 'scan-outline'} 
-              size={size} 
-              color={color} 
-            />
-          ),
-          tabBarStyle: { display: 'none' },
-        }}
-      />
-      <Tabs.Screen
-        name="profile"
-        options={{
-          title: 'Profile',
-          tabBarIcon: ({ color, size, focused }) => (
-            <Ionicons 
-              name={focused ? 'person' : 'person-outline'} 
-              size={size} 
-              color={color} 
-            />
-          ),
-        }}
-      />
-    </Tabs>
+    <ProtectedRoute allowedRoles={[ROLES.Farmer]}>
+      <View style={styles.container}>
+        <OfflineBanner />
+        <Tabs
+          screenOptions={{
+            headerShown: false,
+            tabBarStyle: {
+              backgroundColor: colors.white,
+              borderTopLeftRadius: 16,
+              borderTopRightRadius: 16,
+              height: 70,
+              paddingBottom: 10,
+              paddingTop: 10,
+              elevation: 8,
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: -2 },
+              shadowOpacity: 0.1,
+              shadowRadius: 8,
+            },
+            tabBarActiveTintColor: colors.primary,
+            tabBarInactiveTintColor: colors.textSecondary,
+            tabBarLabelStyle: {
+              fontSize: 12,
+              fontWeight: '600',
+              marginTop: 4,
+            },
+          }}
+        >
+          <Tabs.Screen
+            name="home"
+            options={{
+              title: 'Home',
+              tabBarIcon: ({ color, size, focused }) => (
+                <Ionicons 
+                  name={focused ? 'home' : 'home-outline'} 
+                  size={size} 
+                  color={color} 
+                />
+              ),
+            }}
+          />
+          <Tabs.Screen
+            name="fields"
+            options={{
+              title: 'Fields',
+              tabBarIcon: ({ color, size, focused }) => (
+                <Ionicons 
+                  name={focused ? 'leaf' : 'leaf-outline'} 
+                  size={size} 
+                  color={color} 
+                />
+              ),
+            }}
+          />
+          <Tabs.Screen
+            name="tasks"
+            options={{
+              title: 'Tasks',
+              tabBarIcon: ({ color, size, focused }) => (
+                <Ionicons 
+                  name={focused ? 'checkbox' : 'checkbox-outline'} 
+                  size={size} 
+                  color={color} 
+                />
+              ),
+            }}
+          />
+          <Tabs.Screen
+            name="scanner"
+            options={{
+              title: 'Scanner',
+              tabBarIcon: ({ color, size, focused }) => (
+                <Ionicons 
+                  name={focused ? 'scan' : 'scan-outline'} 
+                  size={size} 
+                  color={color} 
+                />
+              ),
+              tabBarStyle: { display: 'none' },
+            }}
+          />
+          <Tabs.Screen
+            name="profile"
+            options={{
+              title: 'Profile',
+              tabBarIcon: ({ color, size, focused }) => (
+                <Ionicons 
+                  name={focused ? 'person' : 'person-outline'} 
+                  size={size} 
+                  color={color} 
+                />
+              ),
+            }}
+          />
+        </Tabs>
+      </View>
+    </ProtectedRoute>
   );
 }
 
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
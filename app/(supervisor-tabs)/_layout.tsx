@@ -4,84 +4,97 @@
  */
 
 import React from 'react';
-import { Text } from 'react-native';
+import { Text, View, StyleSheet } from 'react-native';
 import { Tabs } from 'expo-router';
 import { colors } from '../../theme';
+import { OfflineBanner } from '../../components/ui';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
 
 export default function SupervisorTabsLayout() {
   return (
-    <Tabs
-      screenOptions={{
-        headerShown: false,
-        tabBarStyle: {
-          backgroundColor: colors.white,
-          borderTopLeftRadius: 16,
-          borderTopRightRadius: 16,
-          height: 70,
-          paddingBottom: 10,
-          paddingTop: 10,
-        },
-        tabBarActiveTintColor: colors.primary,
-        tabBarInactiveTintColor: colors.textSecondary,
-      }}
-    >
-      <Tabs.Screen
-        name="home"
-        options={{
-          title: 'Home',
-          tabBarIcon: () => <Text>🏠</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="farmers"
-        options={{
-          title: 'Farmers',
-          tabBarIcon: () => <Text>👥</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="tasks"
-        options={{
-          title: 'Tasks',
-          tabBarIcon: () => <Text>📋</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="farm-logs"
-        options={{
-          title: 'Logs',
-          tabBarIcon: () => <Text>📝</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="fields"
-        options={{
-          title: 'Fields',
-          tabBarIcon: () => <Text>🌾</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="economics"
-        options={{
-          title: 'Economics',
-          tabBarIcon: () => <Text>💰</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="alerts"
-        options={{
-          title: 'Alerts',
-          tabBarIcon: () => <Text>🔔</Text>,
-        }}
-      />
-      <Tabs.Screen
-        name="profile"
-        options={{
-          title: 'Profile',
-          tabBarIcon: () => <Text>👤</Text>,
-        }}
-      />
-    </Tabs>
+    <ProtectedRoute allowedRoles={[ROLES.Supervisor]}>
+      <View style={styles.container}>
+        <OfflineBanner message="Offline. Data will refresh when the connection is back." />
+        <Tabs
+          screenOptions={{
+            headerShown: false,
+            tabBarStyle: {
+              backgroundColor: colors.white,
+              borderTopLeftRadius: 16,
+              borderTopRightRadius: 16,
+              height: 70,
+              paddingBottom: 10,
+              paddingTop: 10,
+            },
+            tabBarActiveTintColor: colors.primary,
+            tabBarInactiveTintColor: colors.textSecondary,
+          }}
+        >
+          <Tabs.Screen
+            name="home"
+            options={{
+              title: 'Home',
+              tabBarIcon: () => <Text>🏠</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="farmers"
+            options={{
+              title: 'Farmers',
+              tabBarIcon: () => <Text>👥</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="tasks"
+            options={{
+              title: 'Tasks',
+              tabBarIcon: () => <Text>📋</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="farm-logs"
+            options={{
+              title: 'Logs',
+              tabBarIcon: () => <Text>📝</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="fields"
+            options={{
+              title: 'Fields',
+              tabBarIcon: () => <Text>🌾</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="economics"
+            options={{
+              title: 'Economics',
+              tabBarIcon: () => <Text>💰</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="alerts"
+            options={{
+              title: 'Alerts',
+              tabBarIcon: () => <Text>🔔</Text>,
+            }}
+          />
+          <Tabs.Screen
+            name="profile"
+            options={{
+              title: 'Profile',
+              tabBarIcon: () => <Text>👤</Text>,
+            }}
+          />
+        </Tabs>
+      </View>
+    </ProtectedRoute>
   );
 }
 
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -1,46 +1,65 @@
 import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
 import { Stack } from 'expo-router';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { loadFonts } from '../theme/fonts';
-import { Spinner } from '../components/ui';
-import Mapbox from '@rnmapbox/maps';
+import { Spinner, ToastHost } from '../components/ui';
+import { AppLockOverlay } from '../components/auth';
+import { onOutboxItemSent, setOutboxOwner, startOutboxSync } from '../libs/outbox';
+import { startSessionManager } from '../libs/session';
+import { startConnectivitySync } from '../libs/connectivity';
+import { queryConfig } from '../libs/react-query';
+import { invalidateAfter } from '../libs/query-keys';
+import { useSessionExpiryRedirect, useUser } from '../libs/auth';
+import { loadServerProfile } from '../libs/server-profile';
+import { restoreQueryCache, startQueryPersistence } from '../libs/query-persistence';
+import { loadAppLock, recordActivity, startAutoLock } from '../libs/app-lock';
+import { restoreLogEntries } from '../libs/logger';
 
-Mapbox.setAccessToken('pk.eyJ1IjoiZHVjbmd1eWVuMTIwNDA0IiwiYSI6ImNtamF4b3RuNDA3N3gzZnF4Z2RiZGNudGgifQ.frZ1ll3lizDPgi9DPb4kEw');
-import { env } from '../configs/env';
-
-// Initialize Mapbox once at app startup
-let mapboxInitialized = false;
-const initializeMapbox = () => {
-  if (mapboxInitialized) return;
-  
-  try {
-    const Mapbox = require('@rnmapbox/maps');
-    if (Mapbox && Mapbox.setAccessToken && env.MAPBOX_TOKEN) {
-      Mapbox.setAccessToken(env.MAPBOX_TOKEN);
-      mapboxInitialized = true;
-      console.log('[Mapbox] Initialized successfully');
-    }
-  } catch (error) {
-    console.warn('[Mapbox] Native module not available:', error);
-  }
-};
-
-// Create a query client
+// Create a query client with the shared retry/offline policy
 const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 1,
-      staleTime: 1000 * 60 * 5, // 5 minutes
-    },
-  },
+  defaultOptions: queryConfig,
 });
 
 function AppContent() {
   const [fontsLoaded, setFontsLoaded] = useState(false);
+  const [storageRestored, setStorageRestored] = useState(false);
+
+  // Route back to login when token refresh finally fails
+  useSessionExpiryRedirect();
 
+  // Queued submissions only replay for the account that made them
+  const { data: user } = useUser();
   useEffect(() => {
-    // Initialize Mapbox once when app starts
-    initializeMapbox();
+    setOutboxOwner(user?.id ?? null);
+  }, [user?.id]);
+
+  useEffect(() => {
+    // Bring back the log of the previous run, e.g. the one that crashed
+    restoreLogEntries();
+
+    // Restore the selected server profile (which also sets the Mapbox token),
+    // then the cached queries saved for it
+    Promise.all([
+      loadServerProfile().then(() => restoreQueryCache(queryClient)),
+      loadAppLock(),
+    ]).finally(() => setStorageRestored(true));
+    const stopQueryPersistence = startQueryPersistence(queryClient);
+
+    // Ask for the app PIN after the configured idle or background time
+    const stopAutoLock = startAutoLock();
+
+    // Pause queries while offline and refetch on reconnect
+    const stopConnectivitySync = startConnectivitySync();
+
+    // Refresh the access token ahead of expiry
+    const stopSessionManager = startSessionManager();
+
+    // Replay offline submissions and refresh the data they affect
+    const stopOutboxSync = startOutboxSync();
+    const unsubscribeOutboxSent = onOutboxItemSent((item) => {
+      invalidateAfter(queryClient, item.kind);
+    });
     
     loadFonts()
       .then(() => setFontsLoaded(true))
@@ -51,24 +70,50 @@ function AppContent() {
         // Continue without custom fonts
         setFontsLoaded(true);
       });
+
+    return () => {
+      stopQueryPersistence();
+      stopAutoLock();
+      stopConnectivitySync();
+      stopSessionManager();
+      stopOutboxSync();
+      unsubscribeOutboxSent();
+    };
   }, []);
 
-  if (!fontsLoaded) {
+  if (!fontsLoaded || !storageRestored) {
     return <Spinner fullScreen />;
   }
 
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="index" />
-      <Stack.Screen name="auth/onboarding" />
-      <Stack.Screen name="auth/login" />
-      <Stack.Screen name="(tabs)" />
-      <Stack.Screen name="(farmer-tabs)" />
-      <Stack.Screen name="(uav-tabs)" />
-      <Stack.Screen name="(supervisor-tabs)" />
-      <Stack.Screen name="supervisor" />
-      <Stack.Screen name="add-project" />
-    </Stack>
+    // Any touch counts as activity for the auto-lock idle timer
+    <View style={styles.container} onTouchStart={recordActivity}>
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="index" />
+        <Stack.Screen name="auth/onboarding" />
+        <Stack.Screen name="auth/login" />
+        <Stack.Screen name="auth/phone-login" />
+        <Stack.Screen name="auth/register" />
+        <Stack.Screen name="auth/forgot-password" />
+        <Stack.Screen name="(tabs)" />
+        <Stack.Screen name="(farmer-tabs)" />
+        <Stack.Screen name="(uav-tabs)" />
+        <Stack.Screen name="(supervisor-tabs)" />
+        <Stack.Screen name="(cluster-tabs)" />
+        <Stack.Screen name="(expert-tabs)" />
+        <Stack.Screen name="farmer" />
+        <Stack.Screen name="supervisor" />
+        <Stack.Screen name="uav" />
+        <Stack.Screen name="expert" />
+        <Stack.Screen name="add-project" />
+        <Stack.Screen name="diagnostics" />
+        <Stack.Screen name="server-settings" />
+        <Stack.Screen name="app-lock" />
+        <Stack.Screen name="forbidden" />
+      </Stack>
+      <AppLockOverlay />
+      <ToastHost />
+    </View>
   );
 }
 
@@ -78,4 +123,10 @@ export default function RootLayout() {
       <AppContent />
     </QueryClientProvider>
   );
-}
\ No newline at end of file
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * App Lock Route
+ */
+
+import { AppLockScreen } from '../screens/AppLockScreen';
+
+export default AppLockScreen;
@@ -0,0 +1,7 @@
+/**
+ * Forgot Password Screen Route
+ */
+
+import { ForgotPasswordScreen } from '../../screens/auth/ForgotPasswordScreen';
+
+export default ForgotPasswordScreen;
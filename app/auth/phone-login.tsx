@@ -0,0 +1,7 @@
+/**
+ * Phone Login Screen Route
+ */
+
+import { PhoneLoginScreen } from '../../screens/auth/PhoneLoginScreen';
+
+export default PhoneLoginScreen;
@@ -0,0 +1,7 @@
+/**
+ * Register Screen Route
+ */
+
+import { RegisterScreen } from '../../screens/auth/RegisterScreen';
+
+export default RegisterScreen;
@@ -0,0 +1,7 @@
+/**
+ * Diagnostics Route
+ */
+
+import { DiagnosticsScreen } from '../screens/DiagnosticsScreen';
+
+export default DiagnosticsScreen;
@@ -0,0 +1,17 @@
+/**
+ * Expert Stack Layout
+ * Standard plan screens opened from the agronomy expert tabs
+ */
+
+import React from 'react';
+import { Stack } from 'expo-router';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function ExpertLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.AgronomyExpert]}>
+      <Stack screenOptions={{ headerShown: false }} />
+    </ProtectedRoute>
+  );
+}
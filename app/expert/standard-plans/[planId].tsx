@@ -0,0 +1,7 @@
+/**
+ * Standard Plan Detail Screen Route
+ */
+
+import { StandardPlanDetailScreen } from '../../../screens/expert/StandardPlanDetailScreen';
+
+export default StandardPlanDetailScreen;
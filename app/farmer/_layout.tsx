@@ -0,0 +1,17 @@
+/**
+ * Farmer Stack Layout
+ * Detail screens opened from the farmer tabs
+ */
+
+import React from 'react';
+import { Stack } from 'expo-router';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function FarmerLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.Farmer]}>
+      <Stack screenOptions={{ headerShown: false }} />
+    </ProtectedRoute>
+  );
+}
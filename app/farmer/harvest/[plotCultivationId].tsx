@@ -0,0 +1,7 @@
+/**
+ * Farmer harvest recording route
+ */
+
+import { HarvestScreen } from '../../../screens/farmer/HarvestScreen';
+
+export default HarvestScreen;
@@ -0,0 +1,7 @@
+/**
+ * Verify Phone Route
+ */
+
+import { VerifyPhoneScreen } from '../../screens/farmer/VerifyPhoneScreen';
+
+export default VerifyPhoneScreen;
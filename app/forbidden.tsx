@@ -0,0 +1,7 @@
+/**
+ * Forbidden Route
+ */
+
+import { ForbiddenScreen } from '../screens/ForbiddenScreen';
+
+export default ForbiddenScreen;
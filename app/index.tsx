@@ -8,6 +8,7 @@ import { useRouter } from 'expo-router';
 import { Spinner } from '../components/ui';
 import { useUser } from '../libs/auth';
 import { ROLES } from '../libs/authorization';
+import { getAppLockState } from '../libs/app-lock';
 
 export default function Index() {
   const router = useRouter();
@@ -28,11 +29,21 @@ export default function Index() {
           router.replace('/(uav-tabs)/home');
         } else if (role === ROLES.Supervisor || role === 'Supervisor') {
           router.replace('/(supervisor-tabs)/home');
+        } else if (role === ROLES.ClusterManager) {
+          router.replace('/(cluster-tabs)/home');
+        } else if (role === ROLES.AgronomyExpert) {
+          router.replace('/(expert-tabs)/reports');
         } else {
           // Default to regular tabs for other roles
           console.log('Unknown role, redirecting to default tabs:', role);
           router.replace('/(tabs)/home');
         }
+
+        // Offer an app PIN once after the first sign-in
+        const appLock = getAppLockState();
+        if (!appLock.isEnabled && !appLock.setupOffered) {
+          router.push({ pathname: '/app-lock', params: { offer: '1' } } as any);
+        }
       } else {
         router.replace('/auth/login');
       }
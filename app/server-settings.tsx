@@ -0,0 +1,7 @@
+/**
+ * Server Settings Route
+ */
+
+import { ServerSettingsScreen } from '../screens/ServerSettingsScreen';
+
+export default ServerSettingsScreen;
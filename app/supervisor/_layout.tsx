@@ -0,0 +1,17 @@
+/**
+ * Supervisor Stack Layout
+ * Detail screens opened from the supervisor tabs
+ */
+
+import React from 'react';
+import { Stack } from 'expo-router';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function SupervisorLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.Supervisor]}>
+      <Stack screenOptions={{ headerShown: false }} />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * UAV Stack Layout
+ * Order screens opened from the UAV vendor tabs
+ */
+
+import React from 'react';
+import { Stack } from 'expo-router';
+import { ProtectedRoute } from '../../libs/auth';
+import { ROLES } from '../../libs/authorization';
+
+export default function UavLayout() {
+  return (
+    <ProtectedRoute allowedRoles={[ROLES.UavVendor]}>
+      <Stack screenOptions={{ headerShown: false }} />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * App Lock Overlay Component
+ * Covers the whole app while it is locked; too many wrong PINs sign the user out
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '../../theme';
+import { Body, BodySmall, H3 } from '../ui';
+import { PinInput } from './PinInput';
+import { unlockApp, useAppLock } from '../../libs/app-lock';
+import { useLogout } from '../../libs/auth';
+import { toast } from '../../libs/toast';
+
+export const AppLockOverlay = () => {
+  const router = useRouter();
+  const logout = useLogout();
+  const { isLocked, attemptsLeft } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  if (!isLocked) {
+    return null;
+  }
+
+  const signOut = async () => {
+    // Clears the session on this device even offline; also forgets the PIN and unlocks
+    await logout.mutateAsync(undefined);
+    router.replace('/auth/login');
+  };
+
+  const handleComplete = async (value: string) => {
+    setIsChecking(true);
+    try {
+      const result = await unlockApp(value);
+      setPin('');
+      if (result === 'unlocked') {
+        setError(undefined);
+      } else if (result === 'locked-out') {
+        toast.error('Nhập sai mã PIN quá nhiều lần. Vui lòng đăng nhập lại.');
+        await signOut();
+      } else {
+        setError('Mã PIN không đúng');
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <Ionicons name="lock-closed" size={48} color={colors.primary} />
+      <H3>Nhập mã PIN</H3>
+      <PinInput
+        value={pin}
+        onChange={setPin}
+        onComplete={handleComplete}
+        hasError={Boolean(error)}
+        disabled={isChecking || logout.isPending}
+      />
+      {error ? (
+        <BodySmall color={colors.error}>
+          {error}. Còn {attemptsLeft} lần thử.
+        </BodySmall>
+      ) : (
+        <BodySmall color={colors.textSecondary}>Ứng dụng đã khóa để bảo vệ dữ liệu của bạn</BodySmall>
+      )}
+      <TouchableOpacity onPress={signOut} disabled={logout.isPending} style={styles.signOut}>
+        <Body color={colors.primary}>Quên mã PIN? Đăng nhập lại</Body>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    padding: spacing.xl,
+    backgroundColor: colors.background,
+  },
+  signOut: {
+    marginTop: spacing.xl,
+  },
+});
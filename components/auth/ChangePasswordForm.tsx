@@ -0,0 +1,110 @@
+/**
+ * Change Password Form Component
+ * Current and new password entry for a signed-in user; other sessions are
+ * signed out once the password changes
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { colors, spacing } from '../../theme';
+import { BodySmall, Button, Input } from '../ui';
+import { changePasswordInputSchema, ChangePasswordInput, useChangePassword } from '../../libs/auth';
+import { toApiError } from '../../libs/api-error';
+import { toast } from '../../libs/toast';
+
+type FormErrors = Partial<Record<keyof ChangePasswordInput, string>>;
+
+type ChangePasswordFormProps = {
+  onDone: () => void;
+};
+
+const EMPTY_FORM: ChangePasswordInput = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+export const ChangePasswordForm = ({ onDone }: ChangePasswordFormProps) => {
+  const changePassword = useChangePassword();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const updateField = (field: keyof ChangePasswordInput) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async () => {
+    const result = changePasswordInputSchema.safeParse(form);
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors({
+        currentPassword: fieldErrors.currentPassword?.[0],
+        newPassword: fieldErrors.newPassword?.[0],
+        confirmPassword: fieldErrors.confirmPassword?.[0],
+      });
+      return;
+    }
+    try {
+      await changePassword.mutateAsync(result.data);
+      toast.success('Đã đổi mật khẩu. Các thiết bị khác đã được đăng xuất.');
+      setForm(EMPTY_FORM);
+      onDone();
+    } catch (error) {
+      const apiError = toApiError(error, 'Không thể đổi mật khẩu');
+      // A wrong current password comes back as a validation error
+      setErrors(
+        apiError.status === 400
+          ? { currentPassword: apiError.message }
+          : { newPassword: apiError.message },
+      );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Input
+        label="Mật khẩu hiện tại"
+        value={form.currentPassword}
+        onChangeText={updateField('currentPassword')}
+        secureTextEntry
+        autoCapitalize="none"
+        autoComplete="current-password"
+        error={errors.currentPassword}
+      />
+      <Input
+        label="Mật khẩu mới"
+        value={form.newPassword}
+        onChangeText={updateField('newPassword')}
+        secureTextEntry
+        autoCapitalize="none"
+        autoComplete="new-password"
+        error={errors.newPassword}
+      />
+      <Input
+        label="Nhập lại mật khẩu mới"
+        value={form.confirmPassword}
+        onChangeText={updateField('confirmPassword')}
+        secureTextEntry
+        autoCapitalize="none"
+        autoComplete="new-password"
+        error={errors.confirmPassword}
+      />
+      <BodySmall color={colors.textSecondary}>
+        Sau khi đổi mật khẩu, các thiết bị khác sẽ phải đăng nhập lại.
+      </BodySmall>
+      <Button onPress={handleSubmit} loading={changePassword.isPending} fullWidth>
+        Lưu mật khẩu mới
+      </Button>
+      <Button variant="ghost" onPress={onDone} disabled={changePassword.isPending} fullWidth>
+        Hủy
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+});
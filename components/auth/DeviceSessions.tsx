@@ -0,0 +1,148 @@
+/**
+ * Device Sessions Component
+ * Signed-in devices of the current account, with remote sign-out for a lost
+ * or sold phone
+ */
+
+import React from 'react';
+import { View, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import dayjs from 'dayjs';
+import { colors, spacing, borderRadius } from '../../theme';
+import { Body, BodySmall, BodySemibold, Button } from '../ui';
+import { useRevokeOtherSessions, useRevokeSession, useSessions } from '../../libs/auth';
+import { toApiError } from '../../libs/api-error';
+import { toast } from '../../libs/toast';
+import { AuthSession } from '../../types/api';
+
+const formatLastSeen = (session: AuthSession) =>
+  session.isCurrent
+    ? 'Đang hoạt động'
+    : `Hoạt động lần cuối ${dayjs(session.lastSeenAt).format('HH:mm DD/MM/YYYY')}`;
+
+export const DeviceSessions = () => {
+  const { data: sessions, isLoading, isError, refetch } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOthers = useRevokeOtherSessions();
+
+  const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+
+  const handleRevoke = (session: AuthSession) => {
+    Alert.alert(
+      'Đăng xuất thiết bị',
+      `Đăng xuất "${session.deviceName ?? 'Thiết bị không rõ'}" khỏi tài khoản?`,
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Đăng xuất',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeSession.mutateAsync(session.id);
+              toast.success('Đã đăng xuất thiết bị');
+            } catch (error) {
+              toast.error(toApiError(error, 'Không thể đăng xuất thiết bị').message);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Đăng xuất các thiết bị khác',
+      'Tất cả thiết bị khác sẽ phải đăng nhập lại. Thiết bị này vẫn giữ đăng nhập.',
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Đăng xuất tất cả',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeOthers.mutateAsync();
+              toast.success('Đã đăng xuất các thiết bị khác');
+            } catch (error) {
+              toast.error(toApiError(error, 'Không thể đăng xuất các thiết bị khác').message);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator color={colors.primary} />;
+  }
+
+  if (isError || !sessions) {
+    return (
+      <View style={styles.container}>
+        <BodySmall color={colors.error}>Không thể tải danh sách thiết bị</BodySmall>
+        <Button variant="ghost" size="sm" onPress={() => refetch()}>
+          Thử lại
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {sessions.map((session) => (
+        <View key={session.id} style={styles.sessionRow}>
+          <View style={styles.sessionInfo}>
+            <BodySemibold>
+              {session.deviceName ?? 'Thiết bị không rõ'}
+              {session.isCurrent ? ' (thiết bị này)' : ''}
+            </BodySemibold>
+            <BodySmall color={session.isCurrent ? colors.success : colors.textSecondary}>
+              {formatLastSeen(session)}
+            </BodySmall>
+            {session.location && (
+              <BodySmall color={colors.textTertiary}>Gần {session.location}</BodySmall>
+            )}
+          </View>
+          {!session.isCurrent && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onPress={() => handleRevoke(session)}
+              disabled={revokeSession.isPending || revokeOthers.isPending}
+            >
+              Đăng xuất
+            </Button>
+          )}
+        </View>
+      ))}
+
+      {otherSessions.length > 0 ? (
+        <Button
+          variant="outline"
+          onPress={handleRevokeOthers}
+          loading={revokeOthers.isPending}
+          fullWidth
+        >
+          Đăng xuất các thiết bị khác
+        </Button>
+      ) : (
+        <Body color={colors.textSecondary}>Không có thiết bị nào khác đang đăng nhập.</Body>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: 2,
+  },
+});
@@ -0,0 +1,111 @@
+/**
+ * Invite QR Scanner Component
+ * Full-screen camera that reads a cooperative or group invite QR code
+ */
+
+import React, { useRef } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, SafeAreaView } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { colors, spacing, borderRadius } from '../../theme';
+import { Body, BodySmall, Button } from '../ui';
+
+type InviteQrScannerProps = {
+  visible: boolean;
+  onScanned: (data: string) => void;
+  onClose: () => void;
+};
+
+export const InviteQrScanner = ({ visible, onScanned, onClose }: InviteQrScannerProps) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera keeps reporting the same code while it stays in frame
+  const handledRef = useRef(false);
+
+  const handleShow = () => {
+    handledRef.current = false;
+    if (permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  };
+
+  const handleScanned = ({ data }: { data: string }) => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+    onScanned(data);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={handleShow} onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Body color={colors.white}>✕</Body>
+          </TouchableOpacity>
+          <Body color={colors.white}>Quét mã QR hợp tác xã</Body>
+          <View style={styles.closeButton} />
+        </View>
+
+        {permission?.granted ? (
+          <View style={styles.cameraContainer}>
+            <CameraView
+              style={StyleSheet.absoluteFill}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              onBarcodeScanned={visible ? handleScanned : undefined}
+            />
+            <View style={styles.scanFrame} />
+            <BodySmall color={colors.white} style={styles.instruction}>
+              Đưa mã QR của tổ hoặc hợp tác xã vào khung hình
+            </BodySmall>
+          </View>
+        ) : (
+          <View style={styles.permissionContainer}>
+            <Body color={colors.white}>Cần quyền truy cập camera để quét mã QR</Body>
+            <Button onPress={requestPermission}>Cấp quyền camera</Button>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cameraContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderColor: colors.white,
+    borderRadius: borderRadius.lg,
+  },
+  instruction: {
+    marginTop: spacing.lg,
+    textAlign: 'center',
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.xl,
+  },
+});
@@ -0,0 +1,119 @@
+/**
+ * OTP Code Form Component
+ * Code entry for a sent SMS or email code, with the resend countdown and the
+ * number of tries left
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, spacing } from '../../theme';
+import { Body, BodySmall, Button, Input } from '../ui';
+import { OTP_LENGTH } from '../../libs/otp';
+
+type OtpCodeFormProps = {
+  // Phone number or email address the code was sent to
+  destination: string;
+  secondsUntilResend: number;
+  attemptsLeft: number;
+  isLocked: boolean;
+  isSubmitting: boolean;
+  isResending: boolean;
+  error?: string;
+  submitLabel?: string;
+  onSubmit: (code: string) => void;
+  onResend: () => void;
+  onChangeDestination?: () => void;
+  changeDestinationLabel?: string;
+};
+
+export const OtpCodeForm = ({
+  destination,
+  secondsUntilResend,
+  attemptsLeft,
+  isLocked,
+  isSubmitting,
+  isResending,
+  error,
+  submitLabel = 'Xác nhận',
+  onSubmit,
+  onResend,
+  onChangeDestination,
+  changeDestinationLabel = 'Đổi số điện thoại',
+}: OtpCodeFormProps) => {
+  const [code, setCode] = useState('');
+
+  const handleResend = () => {
+    setCode('');
+    onResend();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Body color={colors.textSecondary}>
+        Mã xác thực gồm {OTP_LENGTH} số đã được gửi tới {destination}
+      </Body>
+
+      <Input
+        value={code}
+        onChangeText={(value) => setCode(value.replace(/\D/g, '').slice(0, OTP_LENGTH))}
+        placeholder={'•'.repeat(OTP_LENGTH)}
+        keyboardType="number-pad"
+        textContentType="oneTimeCode"
+        autoComplete="sms-otp"
+        maxLength={OTP_LENGTH}
+        editable={!isLocked}
+        error={error}
+        style={styles.codeInput}
+      />
+
+      {isLocked ? (
+        <BodySmall color={colors.error}>
+          Mã đã hết hạn hoặc bạn đã nhập sai quá nhiều lần. Vui lòng gửi lại mã mới.
+        </BodySmall>
+      ) : (
+        <BodySmall color={colors.textSecondary}>Còn {attemptsLeft} lần thử</BodySmall>
+      )}
+
+      <Button
+        onPress={() => onSubmit(code)}
+        loading={isSubmitting}
+        disabled={isLocked || code.length !== OTP_LENGTH}
+        fullWidth
+      >
+        {submitLabel}
+      </Button>
+
+      <View style={styles.links}>
+        {secondsUntilResend > 0 ? (
+          <BodySmall color={colors.textSecondary}>Gửi lại mã sau {secondsUntilResend}s</BodySmall>
+        ) : (
+          <TouchableOpacity onPress={handleResend} disabled={isResending}>
+            <BodySmall color={colors.primary}>
+              {isResending ? 'Đang gửi lại...' : 'Gửi lại mã'}
+            </BodySmall>
+          </TouchableOpacity>
+        )}
+        {onChangeDestination && (
+          <TouchableOpacity onPress={onChangeDestination}>
+            <BodySmall color={colors.primary}>{changeDestinationLabel}</BodySmall>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+  codeInput: {
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  links: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+});
@@ -0,0 +1,85 @@
+/**
+ * PIN Input Component
+ * Row of dots backed by a hidden number-pad input
+ */
+
+import React, { useRef } from 'react';
+import { View, StyleSheet, TextInput, Pressable } from 'react-native';
+import { colors, spacing } from '../../theme';
+import { PIN_LENGTH } from '../../libs/app-lock';
+
+type PinInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all digits are entered
+  onComplete?: (pin: string) => void;
+  hasError?: boolean;
+  disabled?: boolean;
+};
+
+export const PinInput = ({ value, onChange, onComplete, hasError = false, disabled = false }: PinInputProps) => {
+  const inputRef = useRef<TextInput>(null);
+
+  const handleChange = (text: string) => {
+    const digits = text.replace(/\D/g, '').slice(0, PIN_LENGTH);
+    onChange(digits);
+    if (digits.length === PIN_LENGTH) {
+      onComplete?.(digits);
+    }
+  };
+
+  return (
+    <Pressable onPress={() => inputRef.current?.focus()} style={styles.container}>
+      {Array.from({ length: PIN_LENGTH }, (_, index) => (
+        <View
+          key={index}
+          style={[
+            styles.dot,
+            index < value.length && styles.dotFilled,
+            hasError && styles.dotError,
+          ]}
+        />
+      ))}
+      <TextInput
+        ref={inputRef}
+        value={value}
+        onChangeText={handleChange}
+        keyboardType="number-pad"
+        maxLength={PIN_LENGTH}
+        secureTextEntry
+        autoFocus
+        editable={!disabled}
+        caretHidden
+        style={styles.hiddenInput}
+      />
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  dot: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  dotFilled: {
+    backgroundColor: colors.primary,
+  },
+  dotError: {
+    borderColor: colors.error,
+  },
+  hiddenInput: {
+    position: 'absolute',
+    opacity: 0,
+    width: 1,
+    height: 1,
+  },
+});
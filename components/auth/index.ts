@@ -0,0 +1,10 @@
+/**
+ * Auth Components
+ */
+
+export { OtpCodeForm } from './OtpCodeForm';
+export { PinInput } from './PinInput';
+export { AppLockOverlay } from './AppLockOverlay';
+export { InviteQrScanner } from './InviteQrScanner';
+export { ChangePasswordForm } from './ChangePasswordForm';
+export { DeviceSessions } from './DeviceSessions';
@@ -0,0 +1,78 @@
+/**
+ * Plot Status Bar Component
+ * Stacked bar of plot counts per status, with an optional legend
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius } from '../../theme';
+import { BodySmall } from '../ui';
+import { PlotStatusCounts } from '../../types/api';
+
+const SEGMENTS: { key: keyof PlotStatusCounts; label: string; color: string }[] = [
+  { key: 'active', label: 'Active', color: colors.success },
+  { key: 'emergency', label: 'Emergency', color: colors.error },
+  { key: 'locked', label: 'Locked', color: colors.info },
+  { key: 'inactive', label: 'Inactive', color: colors.lightGray },
+];
+
+type PlotStatusBarProps = {
+  counts: PlotStatusCounts;
+  showLegend?: boolean;
+};
+
+export const PlotStatusBar: React.FC<PlotStatusBarProps> = ({ counts, showLegend = true }) => {
+  const total = SEGMENTS.reduce((sum, segment) => sum + counts[segment.key], 0);
+
+  return (
+    <View>
+      <View style={styles.bar}>
+        {total > 0 &&
+          SEGMENTS.filter((segment) => counts[segment.key] > 0).map((segment) => (
+            <View
+              key={segment.key}
+              style={{ flex: counts[segment.key], backgroundColor: segment.color }}
+            />
+          ))}
+      </View>
+      {showLegend && (
+        <View style={styles.legend}>
+          {SEGMENTS.map((segment) => (
+            <View key={segment.key} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: segment.color }]} />
+              <BodySmall color={colors.textSecondary}>
+                {segment.label} {counts[segment.key]}
+              </BodySmall>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: borderRadius.full,
+    overflow: 'hidden',
+    backgroundColor: colors.backgroundSecondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+});
@@ -0,0 +1,5 @@
+/**
+ * Cluster Components
+ */
+
+export { PlotStatusBar } from './PlotStatusBar';
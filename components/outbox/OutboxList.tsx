@@ -0,0 +1,141 @@
+/**
+ * Outbox List Component
+ * Shows submissions waiting in the offline outbox with their delivery status
+ */
+
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import dayjs from 'dayjs';
+import { colors, spacing, borderRadius } from '../../theme';
+import { Badge, BodySemibold, BodySmall, Card } from '../ui';
+import {
+  OutboxItem,
+  OutboxKind,
+  OutboxStatus,
+  discardOutboxItem,
+  retryOutboxItem,
+  useOutbox,
+} from '../../libs/outbox';
+
+type OutboxListProps = {
+  kind?: OutboxKind;
+  title?: string;
+};
+
+const STATUS_BADGES: Record<
+  OutboxStatus,
+  { label: string; variant: 'neutral' | 'info' | 'error' | 'success' }
+> = {
+  queued: { label: 'Đang chờ mạng', variant: 'neutral' },
+  sending: { label: 'Đang gửi', variant: 'info' },
+  failed: { label: 'Gửi thất bại', variant: 'error' },
+  sent: { label: 'Đã gửi', variant: 'success' },
+};
+
+const OutboxRow = ({ item }: { item: OutboxItem }) => {
+  const badge = STATUS_BADGES[item.status];
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <View style={styles.rowInfo}>
+          <BodySemibold numberOfLines={1}>{item.label}</BodySemibold>
+          <BodySmall color={colors.textSecondary}>
+            {dayjs(item.createdAt).format('DD/MM/YYYY HH:mm')}
+            {item.files.length > 0 ? ` • ${item.files.length} ảnh` : ''}
+          </BodySmall>
+        </View>
+        <Badge variant={badge.variant} size="sm">
+          {badge.label}
+        </Badge>
+      </View>
+
+      {item.lastError && item.status !== 'sent' && (
+        <BodySmall color={item.status === 'failed' ? colors.error : colors.textSecondary}>
+          {item.lastError}
+        </BodySmall>
+      )}
+
+      {item.status === 'failed' && (
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => retryOutboxItem(item.id)} style={styles.action}>
+            <BodySmall color={colors.info}>Thử lại</BodySmall>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => discardOutboxItem(item.id)} style={styles.action}>
+            <BodySmall color={colors.error}>Xóa</BodySmall>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {item.status === 'sent' && (
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => discardOutboxItem(item.id)} style={styles.action}>
+            <BodySmall color={colors.textSecondary}>Ẩn</BodySmall>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const OutboxList: React.FC<OutboxListProps> = ({
+  kind,
+  title = 'Dữ liệu chờ gửi',
+}) => {
+  const items = useOutbox(kind);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const pendingCount = items.filter((item) => item.status !== 'sent').length;
+
+  return (
+    <Card variant="outlined" style={styles.card}>
+      <View style={styles.header}>
+        <BodySemibold>{title}</BodySemibold>
+        {pendingCount > 0 && (
+          <BodySmall color={colors.textSecondary}>{pendingCount} mục chưa gửi</BodySmall>
+        )}
+      </View>
+      {items.map((item) => (
+        <OutboxRow key={item.id} item={item} />
+      ))}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: borderRadius.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  row: {
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+    gap: spacing.xs,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+  },
+  action: {
+    paddingVertical: spacing.xs,
+  },
+});
@@ -0,0 +1,5 @@
+/**
+ * Outbox Components
+ */
+
+export { OutboxList } from './OutboxList';
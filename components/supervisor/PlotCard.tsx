@@ -8,6 +8,7 @@ import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { colors, spacing, borderRadius } from '../../theme';
 import { BodySemibold, BodySmall, Button } from '../ui';
 import { PlotDTO, PlotStatus } from '../../libs/supervisor';
+import { useAuthorization } from '../../libs/authorization';
 
 type PlotCardProps = {
   plot: PlotDTO;
@@ -31,6 +32,8 @@ const getStatusColor = (status: PlotStatus): string => {
 };
 
 export const PlotCard: React.FC<PlotCardProps> = ({ plot, isFocused, isEditing, onFocus, onEdit }) => {
+  const { checkPolicy } = useAuthorization();
+
   return (
     <TouchableOpacity
       onPress={() => onFocus(plot)}
@@ -71,17 +74,19 @@ export const PlotCard: React.FC<PlotCardProps> = ({ plot, isFocused, isEditing,
         <BodySmall color={colors.success} style={styles.completedBadge}>
           ✓ Polygon available
         </BodySmall>
-        <TouchableOpacity
-          onPress={(e) => {
-            e.stopPropagation();
-            onEdit(plot);
-          }}
-          style={styles.editButton}
-        >
-          <BodySmall color={colors.primary} style={styles.editButtonText}>
-            ✏️ Edit
-          </BodySmall>
-        </TouchableOpacity>
+        {checkPolicy('plot:edit-boundary', plot) && (
+          <TouchableOpacity
+            onPress={(e) => {
+              e.stopPropagation();
+              onEdit(plot);
+            }}
+            style={styles.editButton}
+          >
+            <BodySmall color={colors.primary} style={styles.editButtonText}>
+              ✏️ Edit
+            </BodySmall>
+          </TouchableOpacity>
+        )}
       </View>
       {isEditing && (
         <BodySmall color={colors.warning || '#FF9500'} style={styles.editingLabel}>
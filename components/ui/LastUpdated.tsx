@@ -0,0 +1,51 @@
+/**
+ * Last Updated Component
+ * "Cập nhật X trước" note for data served from cache while offline or
+ * after it has gone stale
+ */
+
+import React from 'react';
+import { View, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '../../theme';
+import { Caption } from './Typography';
+import { useIsOnline } from '../../libs/connectivity';
+import { formatTimeAgo } from '../../utils/format';
+
+// Matches the default staleTime in libs/react-query.ts
+const STALE_AFTER_MS = 1000 * 60 * 5;
+
+interface LastUpdatedProps {
+  // dataUpdatedAt from the query
+  updatedAt: number;
+  style?: ViewStyle;
+}
+
+export const LastUpdated: React.FC<LastUpdatedProps> = ({ updatedAt, style }) => {
+  const isOnline = useIsOnline();
+
+  if (!updatedAt || (isOnline && Date.now() - updatedAt < STALE_AFTER_MS)) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <Ionicons
+        name={isOnline ? 'time-outline' : 'cloud-offline-outline'}
+        size={14}
+        color={colors.textSecondary}
+      />
+      <Caption color={colors.textSecondary}>
+        {isOnline ? 'Cập nhật' : 'Ngoại tuyến • cập nhật'} {formatTimeAgo(updatedAt)}
+      </Caption>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+});
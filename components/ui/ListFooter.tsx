@@ -0,0 +1,58 @@
+/**
+ * List Footer Component
+ * End-of-list state for paged lists: loading the next page, or a retry
+ * button when that page failed
+ */
+
+import React from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { colors, spacing } from '../../theme';
+import { BodySmall } from './Typography';
+import { Button } from './Button';
+
+interface ListFooterProps {
+  isLoading: boolean;
+  isError?: boolean;
+  onRetry?: () => void;
+  errorMessage?: string;
+  retryLabel?: string;
+}
+
+export const ListFooter: React.FC<ListFooterProps> = ({
+  isLoading,
+  isError = false,
+  onRetry,
+  errorMessage = 'Không thể tải thêm dữ liệu',
+  retryLabel = 'Thử lại',
+}) => {
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={styles.container}>
+        <BodySmall color={colors.error}>{errorMessage}</BodySmall>
+        {onRetry && (
+          <Button size="sm" variant="outline" onPress={onRetry}>
+            {retryLabel}
+          </Button>
+        )}
+      </View>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.lg,
+  },
+});
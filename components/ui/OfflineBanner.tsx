@@ -0,0 +1,50 @@
+/**
+ * Offline Banner Component
+ * Shown above the tab navigator while the device has no connection
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing } from '../../theme';
+import { BodySmall } from './Typography';
+import { useIsOnline } from '../../libs/connectivity';
+
+interface OfflineBannerProps {
+  message?: string;
+}
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({
+  message = 'Không có kết nối mạng. Dữ liệu sẽ tự cập nhật khi có mạng trở lại.',
+}) => {
+  const isOnline = useIsOnline();
+  const insets = useSafeAreaInsets();
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.banner, { paddingTop: insets.top + spacing.xs }]}>
+      <Ionicons name="cloud-offline-outline" size={16} color={colors.white} />
+      <BodySmall color={colors.white} style={styles.message}>
+        {message}
+      </BodySmall>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xs,
+    backgroundColor: colors.dark,
+  },
+  message: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,59 @@
+/**
+ * Toast Host Component
+ * Renders active toasts above the navigation stack
+ */
+
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, borderRadius, shadows } from '../../theme';
+import { BodySemibold, BodySmall } from './Typography';
+import { ToastType, toast, useToasts } from '../../libs/toast';
+
+const ACCENTS: Record<ToastType, string> = {
+  success: colors.success,
+  error: colors.error,
+  info: colors.info,
+};
+
+export const ToastHost: React.FC = () => {
+  const toasts = useToasts();
+  const insets = useSafeAreaInsets();
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View pointerEvents="box-none" style={[styles.container, { top: insets.top + spacing.sm }]}>
+      {toasts.map((item) => (
+        <TouchableOpacity
+          key={item.id}
+          activeOpacity={0.9}
+          onPress={() => toast.dismiss(item.id)}
+          style={[styles.toast, { borderLeftColor: ACCENTS[item.type] }]}
+        >
+          {item.title && <BodySemibold>{item.title}</BodySemibold>}
+          <BodySmall color={colors.textSecondary}>{item.message}</BodySmall>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: spacing.md,
+    right: spacing.md,
+    gap: spacing.sm,
+  },
+  toast: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderLeftWidth: 4,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    ...shadows.md,
+  },
+});
@@ -0,0 +1,68 @@
+/**
+ * Upload Progress Component
+ * Progress bar with a cancel action for multipart submissions
+ */
+
+import React from 'react';
+import { View, StyleSheet, ViewStyle } from 'react-native';
+import { colors, spacing, borderRadius } from '../../theme';
+import { BodySmall } from './Typography';
+import { Button } from './Button';
+
+interface UploadProgressProps {
+  // 0..1, or null while the total size is still unknown
+  progress: number | null;
+  label: string;
+  cancelLabel: string;
+  onCancel: () => void;
+  style?: ViewStyle;
+}
+
+export const UploadProgress: React.FC<UploadProgressProps> = ({
+  progress,
+  label,
+  cancelLabel,
+  onCancel,
+  style,
+}) => {
+  const percent = progress === null ? null : Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <BodySmall color={colors.textSecondary}>{label}</BodySmall>
+        {percent !== null && <BodySmall color={colors.textSecondary}>{percent}%</BodySmall>}
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${percent ?? 5}%` }]} />
+      </View>
+      <Button variant="ghost" size="sm" onPress={onCancel} style={styles.cancel}>
+        {cancelLabel}
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  track: {
+    height: 6,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.borderLight,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary,
+  },
+  cancel: {
+    alignSelf: 'center',
+  },
+});
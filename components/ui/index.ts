@@ -12,6 +12,11 @@ export { Badge } from './Badge';
 export { Spinner } from './Spinner';
 export { Avatar } from './Avatar';
 export { Spacer } from './Spacer';
+export { ToastHost } from './ToastHost';
+export { OfflineBanner } from './OfflineBanner';
+export { UploadProgress } from './UploadProgress';
+export { ListFooter } from './ListFooter';
+export { LastUpdated } from './LastUpdated';
 export { MapboxMap } from './MapboxMap';
 export type { PolygonData, MarkerData, PolylineData } from './MapboxMap';
 
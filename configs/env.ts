@@ -1,4 +1,20 @@
 import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+/**
+ * A backend the app can talk to. QA can switch between profiles at runtime
+ * from the hidden server settings screen (libs/server-profile.ts).
+ */
+export type ServerProfile = {
+  id: string;
+  name: string;
+  apiUrl: string;
+  aiApiUrl: string;
+  mapboxToken: string;
+};
+
+// Profile whose API URL is typed in on the device, e.g. an ngrok tunnel
+export const CUSTOM_PROFILE_ID = 'custom';
 
 // Get environment variables from .env files, app.json extra field, or use defaults
 const getEnvVars = () => {
@@ -22,11 +38,110 @@ const getEnvVars = () => {
     extra?.aiApiUrl ?? 
     '';
 
+  // Dev builds can opt in to throwing on responses that don't match types/api.ts
+  const strictApiValidation =
+    __DEV__ &&
+    String(
+      process.env.EXPO_PUBLIC_STRICT_API_VALIDATION ??
+      extra?.strictApiValidation ??
+      false
+    ) === 'true';
+
+  // Demo/training mode: every request is answered from local fixtures (libs/mock-api.ts)
+  const mockApi =
+    String(process.env.EXPO_PUBLIC_MOCK_API ?? extra?.mockApi ?? false) === 'true';
+
+  // Simulated network conditions for the mock API
+  const mockLatencyMs = Number(
+    process.env.EXPO_PUBLIC_MOCK_LATENCY_MS ?? extra?.mockLatencyMs ?? 600
+  );
+  const mockErrorRate = Number(
+    process.env.EXPO_PUBLIC_MOCK_ERROR_RATE ?? extra?.mockErrorRate ?? 0
+  );
+
+  // Runtime server switching (libs/server-profile.ts) for development and QA preview builds
+  // only; a production build must not send credentials to a typed-in URL
+  const allowServerSwitching =
+    __DEV__ ||
+    String(
+      process.env.EXPO_PUBLIC_ALLOW_SERVER_SWITCHING ?? extra?.allowServerSwitching ?? false
+    ) === 'true';
+
+  // Minimum level kept by libs/logger.ts: debug | info | warn | error
+  const logLevel =
+    process.env.EXPO_PUBLIC_LOG_LEVEL ??
+    extra?.logLevel ??
+    (__DEV__ ? 'debug' : 'info');
+
+  const buildProfile: ServerProfile = {
+    id: 'default',
+    name: 'Build default',
+    apiUrl,
+    aiApiUrl,
+    mapboxToken,
+  };
+
+  // Extra profiles from app config; tokens and AI URL default to the build's own
+  const configuredProfiles: Partial<ServerProfile>[] = Array.isArray(extra?.serverProfiles)
+    ? extra.serverProfiles
+    : [];
+  const stagingApiUrl = process.env.EXPO_PUBLIC_STAGING_API_URL ?? extra?.stagingApiUrl;
+
+  const serverProfiles: ServerProfile[] = [
+    buildProfile,
+    ...(stagingApiUrl
+      ? [{ ...buildProfile, id: 'staging', name: 'Staging', apiUrl: stagingApiUrl }]
+      : []),
+    ...configuredProfiles
+      .filter((profile) => profile.id && profile.apiUrl)
+      .map((profile) => ({ ...buildProfile, name: profile.id!, ...profile })),
+    {
+      ...buildProfile,
+      id: 'local',
+      name: 'Local backend',
+      // The Android emulator reaches the host machine through 10.0.2.2
+      apiUrl:
+        Platform.OS === 'android' ? 'http://10.0.2.2:5000/api' : 'http://localhost:5000/api',
+    },
+  ];
+
   return {
-    API_URL: apiUrl,
-    MAPBOX_TOKEN: mapboxToken,
-    AI_API_URL: aiApiUrl,
+    SERVER_PROFILES: serverProfiles,
+    DEFAULT_SERVER_PROFILE: buildProfile,
+    STRICT_API_VALIDATION: strictApiValidation,
+    MOCK_API: mockApi,
+    ALLOW_SERVER_SWITCHING: allowServerSwitching,
+    MOCK_LATENCY_MS: Number.isFinite(mockLatencyMs) ? mockLatencyMs : 600,
+    MOCK_ERROR_RATE: Number.isFinite(mockErrorRate) ? mockErrorRate : 0,
+    LOG_LEVEL: String(logLevel),
   };
 };
 
-export const env = getEnvVars();
+const envVars = getEnvVars();
+
+let activeProfile = envVars.DEFAULT_SERVER_PROFILE;
+
+/**
+ * Point the app at another backend. Callers go through libs/server-profile.ts,
+ * which also persists the choice and resets the session.
+ */
+export const setActiveServerProfile = (profile: ServerProfile) => {
+  activeProfile = profile;
+};
+
+export const env = {
+  ...envVars,
+  // Resolved from the active server profile on every read
+  get SERVER_PROFILE() {
+    return activeProfile;
+  },
+  get API_URL() {
+    return activeProfile.apiUrl;
+  },
+  get AI_API_URL() {
+    return activeProfile.aiApiUrl;
+  },
+  get MAPBOX_TOKEN() {
+    return activeProfile.mapboxToken;
+  },
+};
@@ -1,33 +1,50 @@
 import Axios, { InternalAxiosRequestConfig, AxiosError } from 'axios';
-import { Alert, Platform } from 'react-native';
 
 import { env } from '@/configs/env';
 import { tokenStorage } from './token-storage';
-import { Result, TokenData, LoginResponseData } from '@/types/api';
-
-let isRefreshing = false;
-let failedQueue: Array<{
-  resolve: (value?: unknown) => void;
-  reject: (reason?: unknown) => void;
-}> = [];
-
-const processQueue = (error: AxiosError | null, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
-    }
-  });
-
-  failedQueue = [];
+import { ApiError, parseErrorBody, toApiError } from './api-error';
+import { mockAdapter, mockUpload } from './mock-api';
+import { endSession, ensureFreshSession, isSessionRevoked, refreshSession } from './session';
+import { IDEMPOTENCY_HEADER, IdempotencyOptions, idempotencyHeaders } from './idempotency';
+import { createLogger } from './logger';
+import { finishNetworkCall, startNetworkCall } from './network-log';
+import { backoffDelay } from './react-query';
+import { loadServerProfile } from './server-profile';
+
+const log = createLogger('API');
+
+type TrackedRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+  // Entry in libs/network-log.ts for this request
+  _callId?: number;
 };
 
+// Called without a session (or while ending one): a 401 here is the answer, not a reason to refresh
+const isAuthEndpoint = (url?: string) =>
+  Boolean(
+    url?.includes('/Auth/login') ||
+      url?.includes('/Auth/logout') ||
+      url?.includes('/Auth/refresh') ||
+      url?.includes('/Auth/otp/') ||
+      url?.includes('/Auth/password-reset/') ||
+      url?.includes('/Auth/register-farmer') ||
+      url?.includes('/Auth/invites/'),
+  );
+
 async function authRequestInterceptor(config: InternalAxiosRequestConfig) {
   if (config.headers) {
     config.headers.Accept = 'application/json';
   }
 
+  // The server profile can change at runtime (see libs/server-profile.ts)
+  await loadServerProfile();
+  config.baseURL = env.API_URL;
+
+  // Refresh ahead of time so no request (especially a large upload) starts with an expiring token
+  if (!isAuthEndpoint(config.url)) {
+    await ensureFreshSession();
+  }
+
   // Attach access token to requests if available
   const accessToken = await tokenStorage.getAccessToken();
   if (accessToken && config.headers) {
@@ -50,63 +67,83 @@ async function authRequestInterceptor(config: InternalAxiosRequestConfig) {
         delete config.headers['content-type'];
       }
     }
-    
-    // Log FormData contents for debugging (Android specific issue tracking)
-    if (Platform.OS === 'android') {
-      console.log('📦 [API] Request data (FormData with Blobs)');
-      // @ts-ignore - FormData has getParts on React Native
-      const parts = config.data.getParts?.() || [];
-      parts.forEach((part: any) => {
-        console.log(`  - ${part.fieldName}: ${part.string || `[${part.headers?.['content-type'] || 'file'}]`}`);
-      });
-    }
   } else if (config.data && config.headers && !config.headers['Content-Type']) {
     // For JSON data, ensure Content-Type is set
     config.headers['Content-Type'] = 'application/json';
   }
 
   config.withCredentials = true;
-  
-  // Log all API requests
-  const fullUrl = `${config.baseURL}${config.url}`;
-  console.log(`🌐 [API] ${config.method?.toUpperCase()} ${fullUrl}`);
-  if (config.data && !config.url?.includes('login') && !(config.data instanceof FormData)) {
-    console.log('📦 [API] Request data:', config.data);
-  }
-  
+
+  // Request bodies (including FormData fields) are redacted by the logger
+  log.debug(`${config.method?.toUpperCase()} ${config.baseURL}${config.url}`, config.data);
+  (config as TrackedRequestConfig)._callId = startNetworkCall(config.method, config.url);
+
   return config;
 }
 
+/**
+ * 401 handling shared by axios requests and XHR uploads. Resolves with a fresh access
+ * token to retry with once; rejects when the session is over.
+ */
+const recoverFromUnauthorized = async (error: unknown): Promise<string> => {
+  // Signed out from another device: a refresh would be rejected too
+  if (isSessionRevoked(error)) {
+    log.warn('Session was revoked, signing out');
+    await endSession('revoked');
+    throw toApiError(error);
+  }
+
+  log.info('401 Unauthorized, refreshing token and retrying');
+  try {
+    // Concurrent 401s share a single refresh; a failed refresh clears the session
+    return await refreshSession();
+  } catch (refreshError) {
+    throw toApiError(refreshError);
+  }
+};
+
 export const api = Axios.create({
+  // Replaced per request with the active server profile's URL
   baseURL: env.API_URL,
   timeout: 120000, // 2 minutes default timeout for all requests
+  // Demo mode answers from local fixtures instead of the network
+  adapter: env.MOCK_API ? mockAdapter : undefined,
 });
 
 api.interceptors.request.use(authRequestInterceptor);
 api.interceptors.response.use(
   (response) => {
-    // Log successful responses
-    console.log(`✅ [API] ${response.status} ${response.config.method?.toUpperCase()} ${response.config.url}`);
-    
+    const { _callId } = response.config as TrackedRequestConfig;
+    log.debug(`${response.status} ${response.config.method?.toUpperCase()} ${response.config.url}`);
+
     // Handle Result<T> wrapper from backend
     const data = response.data;
 
     // If response has a 'succeeded' property, it's a Result<T> wrapper
     if (data && typeof data.succeeded === 'boolean') {
       if (!data.succeeded) {
-        console.error('❌ [API] Backend returned error:', data.message, data.errors);
-        
-        // Backend returned an error wrapped in Result<T>
-        const error = new Error(data.message || 'Request failed') as Error & {
-          errors?: string[];
-        };
-        error.errors = data.errors;
+        log.error(`Backend returned error for ${response.config.url}`, {
+          message: data.message,
+          errors: data.errors,
+        });
+        finishNetworkCall(_callId, {
+          state: 'error',
+          status: response.status,
+          error: data.message || 'Request failed',
+        });
 
-        // Show alert for errors on mobile
-        const errorMessage = data.errors?.join('\n') || data.message || 'Request failed';
-        Alert.alert('Error', errorMessage);
-
-        return Promise.reject(error);
+        // Backend returned an error wrapped in Result<T>
+        const { message, errors, fieldErrors, code } = parseErrorBody(data);
+        return Promise.reject(
+          new ApiError({
+            message: errors.length > 0 ? errors.join('\n') : message || 'Request failed',
+            status: response.status,
+            errors,
+            fieldErrors,
+            code,
+            endpoint: response.config.url,
+          }),
+        );
       }
 
       // Check if this is a PagedResult (has pagination fields)
@@ -116,175 +153,294 @@ api.interceptors.response.use(
         'totalPages' in data &&
         'totalCount' in data
       ) {
+        finishNetworkCall(_callId, { state: 'success', status: response.status });
         // Return the full PagedResult, don't unwrap
         return data;
       }
 
+      finishNetworkCall(_callId, { state: 'success', status: response.status });
       // Return the unwrapped data for successful results
       return data.data;
     }
 
+    finishNetworkCall(_callId, { state: 'success', status: response.status });
     // For responses without Result<T> wrapper, return as-is
     return data;
   },
   async (error: AxiosError) => {
-    const originalRequest = error.config as InternalAxiosRequestConfig & {
-      _retry?: boolean;
-    };
+    const originalRequest = error.config as TrackedRequestConfig | undefined;
+    const isCancelled = error.code === AxiosError.ERR_CANCELED;
+
+    finishNetworkCall(originalRequest?._callId, {
+      state: isCancelled ? 'cancelled' : 'error',
+      status: error.response?.status ?? null,
+      error: error.message,
+    });
 
-    // Log API errors
-    console.error(`❌ [API] ${error.response?.status || 'Network Error'} ${originalRequest?.method?.toUpperCase()} ${originalRequest?.url}`);
-    console.error(`📍 [API] Error message:`, error.message);
-    if (error.response?.data) {
-      console.error(`📦 [API] Error response:`, error.response.data);
+    if (isCancelled) {
+      log.debug(`Cancelled ${originalRequest?.method?.toUpperCase()} ${originalRequest?.url}`);
+    } else {
+      log.error(
+        `${error.response?.status || 'Network Error'} ${originalRequest?.method?.toUpperCase()} ${originalRequest?.url}`,
+        { message: error.message, response: error.response?.data },
+      );
     }
 
     // Handle 401 Unauthorized errors
     if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
-      console.warn('🔒 [API] 401 Unauthorized - attempting token refresh...');
-      
       // Don't retry for login/refresh endpoints
-      if (
-        originalRequest.url?.includes('/Auth/login') ||
-        originalRequest.url?.includes('/Auth/refresh')
-      ) {
-        console.error('❌ [API] Auth endpoint failed, cannot retry');
-        const message = (error.response?.data as any)?.message || error.message;
-        Alert.alert('Authentication Error', message);
-        return Promise.reject(error);
-      }
-
-      // If already refreshing, queue this request
-      if (isRefreshing) {
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then(() => {
-            return api(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
+      if (isAuthEndpoint(originalRequest.url)) {
+        log.warn('Auth endpoint returned 401, not retrying');
+        return Promise.reject(toApiError(error));
       }
 
       originalRequest._retry = true;
-      isRefreshing = true;
-
-      const refreshToken = await tokenStorage.getRefreshToken();
+      const newAccessToken = await recoverFromUnauthorized(error);
 
-      if (!refreshToken) {
-        // No refresh token available, clear tokens
-        isRefreshing = false;
-        await tokenStorage.clearTokens();
-        // In Expo, navigation should be handled by the app's navigation logic
-        // The useUser hook will detect no token and redirect appropriately
-        return Promise.reject(error);
+      // Update the Authorization header for the original request
+      if (originalRequest.headers) {
+        originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
       }
 
-      try {
-        // Try to refresh the token
-        const accessToken = await tokenStorage.getAccessToken();
-        const response = await Axios.post<Result<LoginResponseData>>(
-          `${env.API_URL}/Auth/refresh-token`,
-          { 
-            accessToken,
-            refreshToken 
-          },
-          { headers: { Accept: 'application/json' } },
-        );
-
-        const result = response.data;
-
-        if (result.succeeded && result.data) {
-          const { accessToken: newAccessToken, refreshToken: newRefreshToken, expiresAt } = result.data;
+      // Retry the original request
+      return api(originalRequest);
+    }
 
-          // Store new tokens
-          await tokenStorage.setTokens(newAccessToken, newRefreshToken, expiresAt);
+    // Screens decide how to present the failure (see libs/toast.ts)
+    return Promise.reject(toApiError(error));
+  },
+);
 
-          // Update the Authorization header for the original request
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
-          }
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  // 0..1, or null while the total size is unknown
+  fraction: number | null;
+};
 
-          processQueue(null, newAccessToken);
-          isRefreshing = false;
+export type UploadOptions = IdempotencyOptions & {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  // Extra attempts after the first one for retryable failures (network, 408, 429, 5xx)
+  retries?: number;
+  // Milliseconds before an attempt is abandoned; no limit by default
+  timeout?: number;
+};
 
-          // Retry the original request
-          return api(originalRequest);
-        } else {
-          throw new Error('Token refresh failed');
-        }
-      } catch (refreshError) {
-        processQueue(refreshError as AxiosError, null);
-        isRefreshing = false;
-        await tokenStorage.clearTokens();
+const UPLOAD_RETRIES = 2;
+const UPLOAD_BACKOFF_MS = 2000;
 
-        // In Expo, navigation should be handled by the app's navigation logic
-        // The useUser hook will detect no token and redirect appropriately
+const cancelledError = (endpoint: string) =>
+  new ApiError({ message: 'Upload cancelled', isCancelled: true, endpoint });
 
-        return Promise.reject(refreshError);
-      }
+// Resolves after the delay, or rejects as soon as the upload is cancelled
+const waitForRetry = (delay: number, endpoint: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError(endpoint));
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError(endpoint));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 
-    // Handle other errors
-    const responseData = error.response?.data as any;
-    
-    // Check for errors array first (validation errors), then message, then fallback
-    let message: string;
-    if (responseData?.errors && Array.isArray(responseData.errors) && responseData.errors.length > 0) {
-      // Join all validation errors with line breaks for better readability
-      message = responseData.errors.join('\n');
-    } else {
-      message = responseData?.message || error.message;
+/**
+ * Run an upload, retrying retryable failures with jittered exponential backoff (up to 2s, 4s, ...).
+ * Progress restarts from zero on every attempt. Every attempt sends the same
+ * idempotency key, so a retry after a lost response cannot create a duplicate.
+ */
+export const withUploadRetry = async <T>(
+  endpoint: string,
+  { signal, retries = UPLOAD_RETRIES }: UploadOptions,
+  attempt: () => Promise<T>,
+): Promise<T> => {
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) {
+      throw cancelledError(endpoint);
     }
-    
-    // Show alert for errors on mobile
-    Alert.alert('Error', message);
 
-    return Promise.reject(error);
-  },
-);
+    try {
+      return await attempt();
+    } catch (error) {
+      const apiError = toApiError(error, 'Upload failed');
+      if (!apiError.isRetryable || attemptIndex >= retries) {
+        throw apiError;
+      }
+      const delay = backoffDelay(attemptIndex, UPLOAD_BACKOFF_MS);
+      log.warn(`Upload to ${endpoint} failed (${apiError.message}), retrying in ${delay}ms`);
+      await waitForRetry(delay, endpoint, signal);
+    }
+  }
+};
 
-/**
- * Alternative file upload method using XMLHttpRequest.
- * Use this if Axios fails with "Network Error" on Android when sending FormData.
- */
-export const uploadFile = async (endpoint: string, formData: FormData) => {
+const sendMultipart = async (
+  endpoint: string,
+  formData: FormData,
+  { onProgress, signal, idempotencyKey, timeout }: UploadOptions,
+) => {
+  await loadServerProfile();
+  await ensureFreshSession();
   const token = await tokenStorage.getAccessToken();
   const url = `${env.API_URL}${endpoint}`;
 
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    xhr.open('POST', url);
-
-    if (token) {
-      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-    }
-    xhr.setRequestHeader('Accept', 'application/json');
-
-    xhr.onreadystatechange = () => {
-      if (xhr.readyState !== 4) return;
+  log.debug(`POST ${url} (multipart)`, formData);
+  const callId = startNetworkCall('POST', endpoint);
+  // The mock upload has no HTTP status of its own
+  let responseStatus: number | null = env.MOCK_API ? 200 : null;
+
+  const request = env.MOCK_API
+    ? mockUpload(endpoint, formData, { onProgress, signal, idempotencyKey }, token)
+    : new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', url);
+        if (timeout) {
+          xhr.timeout = timeout;
+        }
 
-      if (xhr.status >= 200 && xhr.status < 300) {
-        try {
-          const response = JSON.parse(xhr.responseText);
-          resolve(response);
-        } catch (e) {
-          resolve(xhr.responseText);
+        if (token) {
+          xhr.setRequestHeader('Authorization', `Bearer ${token}`);
         }
-      } else {
-        let errorMessage = 'Network request failed';
-        try {
-          const errorJson = JSON.parse(xhr.responseText);
-          // Handle ASP.NET Core ProblemDetails or standard API error format
-          errorMessage = errorJson.detail || errorJson.title || errorJson.message || errorMessage;
-        } catch (e) {
-          errorMessage = xhr.responseText || errorMessage;
+        xhr.setRequestHeader('Accept', 'application/json');
+        if (idempotencyKey) {
+          xhr.setRequestHeader(IDEMPOTENCY_HEADER, idempotencyKey);
         }
-        reject(new Error(errorMessage));
-      }
-    };
 
-    xhr.send(formData);
-  });
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        if (onProgress) {
+          xhr.upload.onprogress = (event) => {
+            onProgress({
+              loaded: event.loaded,
+              total: event.total,
+              fraction: event.lengthComputable && event.total > 0 ? event.loaded / event.total : null,
+            });
+          };
+        }
+
+        xhr.onabort = () => {
+          reject(cancelledError(endpoint));
+        };
+
+        xhr.ontimeout = () => {
+          reject(new ApiError({ message: 'Request timed out', isNetworkError: true, endpoint }));
+        };
+
+        xhr.onreadystatechange = () => {
+          if (xhr.readyState !== 4) return;
+          signal?.removeEventListener('abort', onAbort);
+          responseStatus = xhr.status || null;
+
+          // onabort rejects with the cancellation error
+          if (signal?.aborted) return;
+
+          if (xhr.status >= 200 && xhr.status < 300) {
+            try {
+              const response = JSON.parse(xhr.responseText);
+              resolve(response);
+            } catch (e) {
+              resolve(xhr.responseText);
+            }
+          } else {
+            let body: unknown = xhr.responseText;
+            try {
+              body = JSON.parse(xhr.responseText);
+            } catch (e) {
+              // Plain-text error body
+            }
+            // Handle ASP.NET Core ProblemDetails or standard API error format
+            const { message, errors, fieldErrors, code } = parseErrorBody(body);
+
+            // status is 0 when the request never reached the server
+            reject(
+              new ApiError({
+                message:
+                  errors.length > 0 ? errors.join('\n') : message || 'Network request failed',
+                status: xhr.status || null,
+                errors,
+                fieldErrors,
+                code,
+                isNetworkError: xhr.status === 0,
+                endpoint,
+              }),
+            );
+          }
+        };
+
+        xhr.send(formData);
+      });
+
+  return request.then(
+    (response) => {
+      finishNetworkCall(callId, { state: 'success', status: responseStatus });
+      return response;
+    },
+    (error) => {
+      const apiError = toApiError(error, 'Upload failed');
+      finishNetworkCall(callId, {
+        state: apiError.isCancelled ? 'cancelled' : 'error',
+        status: apiError.status,
+        error: apiError.message,
+      });
+      throw apiError;
+    },
+  );
 };
+
+// The XHR path bypasses the axios interceptors, so 401s are handled here
+const sendMultipartWithAuth = async (
+  endpoint: string,
+  formData: FormData,
+  options: UploadOptions,
+) => {
+  try {
+    return await sendMultipart(endpoint, formData, options);
+  } catch (error) {
+    if (toApiError(error).status !== 401) {
+      throw error;
+    }
+    // sendMultipart reads the refreshed token from storage
+    await recoverFromUnauthorized(error);
+    return sendMultipart(endpoint, formData, options);
+  }
+};
+
+/**
+ * Alternative file upload method using XMLHttpRequest.
+ * Use this if Axios fails with "Network Error" on Android when sending FormData.
+ * Reports upload progress, can be cancelled through options.signal and
+ * retries transient failures with backoff.
+ */
+export const uploadFile = (endpoint: string, formData: FormData, options: UploadOptions = {}) =>
+  withUploadRetry(endpoint, options, () => sendMultipartWithAuth(endpoint, formData, options));
+
+/**
+ * Axios equivalent of uploadFile for multipart endpoints that go through the api instance
+ */
+export const postFormData = <T>(
+  endpoint: string,
+  formData: FormData,
+  { onProgress, signal, ...options }: UploadOptions & { timeout?: number } = {},
+) =>
+  withUploadRetry(endpoint, { signal, ...options }, () =>
+    api.post<T, T>(endpoint, formData, {
+      signal,
+      timeout: options.timeout,
+      headers: idempotencyHeaders(options.idempotencyKey),
+      onUploadProgress: onProgress
+        ? (event) =>
+            onProgress({
+              loaded: event.loaded,
+              total: event.total ?? 0,
+              fraction: event.total ? event.loaded / event.total : null,
+            })
+        : undefined,
+    }),
+  );
@@ -0,0 +1,168 @@
+/**
+ * API Error Model
+ * Normalizes Axios, XHR and Result<T> failures into a single typed error
+ */
+
+import { AxiosError } from 'axios';
+
+type ApiErrorOptions = {
+  message: string;
+  status?: number | null;
+  errors?: string[];
+  fieldErrors?: Record<string, string[]>;
+  code?: string | null;
+  isNetworkError?: boolean;
+  isCancelled?: boolean;
+  endpoint?: string;
+};
+
+export class ApiError extends Error {
+  // HTTP status, or null when the request never got a response
+  readonly status: number | null;
+  // Messages from the backend Result<T>.errors array
+  readonly errors: string[];
+  // Validation messages keyed by camelCased form field ("materials[0].actualQuantityUsed")
+  readonly fieldErrors: Record<string, string[]>;
+  // Machine-readable reason from the backend, e.g. "SessionRevoked"
+  readonly code: string | null;
+  readonly isNetworkError: boolean;
+  // The caller aborted the request (e.g. the user tapped cancel on an upload)
+  readonly isCancelled: boolean;
+  readonly isRetryable: boolean;
+  readonly endpoint?: string;
+
+  constructor({
+    message,
+    status = null,
+    errors = [],
+    fieldErrors = {},
+    code = null,
+    isNetworkError = false,
+    isCancelled = false,
+    endpoint,
+  }: ApiErrorOptions) {
+    super(message);
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errors = errors;
+    this.fieldErrors = fieldErrors;
+    this.code = code;
+    this.isNetworkError = isNetworkError;
+    this.isCancelled = isCancelled;
+    this.isRetryable =
+      !isCancelled &&
+      (isNetworkError || status === 408 || status === 429 || (status !== null && status >= 500));
+    this.endpoint = endpoint;
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// "Materials[0].ActualQuantityUsed" -> "materials[0].actualQuantityUsed"
+const toFieldKey = (key: string) =>
+  key
+    .split('.')
+    .map((segment) => segment.charAt(0).toLowerCase() + segment.slice(1))
+    .join('.');
+
+/**
+ * Parse the body of a failed response.
+ * Handles our Result<T> wrapper ({ message, errors: string[] }) and
+ * ASP.NET Core ProblemDetails ({ title, detail, errors: { Field: string[] } }).
+ */
+export const parseErrorBody = (data: unknown) => {
+  const errors: string[] = [];
+  const fieldErrors: Record<string, string[]> = {};
+  let message: string | undefined;
+  let code: string | null = null;
+
+  if (typeof data === 'string') {
+    return { message: data || undefined, errors, fieldErrors, code };
+  }
+
+  if (data && typeof data === 'object') {
+    const body = data as {
+      message?: string;
+      title?: string;
+      detail?: string;
+      errors?: unknown;
+      errorCode?: unknown;
+    };
+
+    if (Array.isArray(body.errors)) {
+      errors.push(...body.errors.filter((item): item is string => typeof item === 'string'));
+    } else if (body.errors && typeof body.errors === 'object') {
+      Object.entries(body.errors as Record<string, unknown>).forEach(([key, value]) => {
+        const messages = (Array.isArray(value) ? value : [value]).filter(
+          (item): item is string => typeof item === 'string',
+        );
+        if (messages.length > 0) {
+          fieldErrors[toFieldKey(key)] = messages;
+          errors.push(...messages);
+        }
+      });
+    }
+
+    message = body.message || body.detail || body.title;
+    code = typeof body.errorCode === 'string' ? body.errorCode : null;
+  }
+
+  return { message, errors, fieldErrors, code };
+};
+
+/**
+ * Convert anything thrown by a request into an ApiError
+ */
+export const toApiError = (error: unknown, fallbackMessage = 'Request failed'): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof AxiosError) {
+    const endpoint = error.config?.url;
+
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return new ApiError({ message: 'Request cancelled', isCancelled: true, endpoint });
+    }
+
+    if (!error.response) {
+      return new ApiError({
+        message: error.message || fallbackMessage,
+        isNetworkError: true,
+        endpoint,
+      });
+    }
+
+    const { message, errors, fieldErrors, code } = parseErrorBody(error.response.data);
+    return new ApiError({
+      message: errors.length > 0 ? errors.join('\n') : message || error.message || fallbackMessage,
+      status: error.response.status,
+      errors,
+      fieldErrors,
+      code,
+      endpoint,
+    });
+  }
+
+  return new ApiError({
+    message: (error as Error)?.message || fallbackMessage,
+  });
+};
+
+/**
+ * First validation message per field, ready to pass to <Input error={...} />
+ */
+export const getFieldErrors = (error: unknown): Record<string, string> => {
+  if (!(error instanceof ApiError)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(error.fieldErrors).map(([field, messages]) => [field, messages[0]]),
+  );
+};
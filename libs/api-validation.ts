@@ -0,0 +1,69 @@
+/**
+ * API Response Validation
+ * Checks unwrapped responses against the schemas in types/api.ts so contract
+ * drift is reported at the request that caused it, not deep inside a screen
+ */
+
+import { z } from 'zod';
+
+import { env } from '@/configs/env';
+
+import { ApiError } from './api-error';
+import { createLogger } from './logger';
+
+const log = createLogger('API');
+
+export class ApiValidationError extends ApiError {
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    super({
+      message: `Unexpected response from ${endpoint}: ${describeIssues(issues)}`,
+      endpoint,
+    });
+    Object.setPrototypeOf(this, ApiValidationError.prototype);
+    this.name = 'ApiValidationError';
+    this.issues = issues;
+  }
+}
+
+// "[0].coordinate: Expected WKT "POINT (x y)"; [2].area: Expected number, received null"
+const describeIssues = (issues: z.ZodIssue[]) =>
+  issues
+    .slice(0, 5)
+    .map((issue) => {
+      const path = issue.path
+        .map((segment) => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`))
+        .join('')
+        .replace(/^\./, '');
+      return `${path || '(root)'}: ${issue.message}`;
+    })
+    .join('; ') + (issues.length > 5 ? ` (+${issues.length - 5} more)` : '');
+
+/**
+ * Validate a response against its schema.
+ * Mismatches are logged with the endpoint and failing paths; the raw data is
+ * still returned unless STRICT_API_VALIDATION is on (dev only), which throws.
+ * The raw data is returned on success too, so fields the schema doesn't
+ * describe (yet) are not stripped.
+ */
+export const parseResponse = <T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  endpoint: string,
+): z.infer<T> => {
+  const result = schema.safeParse(data);
+
+  if (result.success) {
+    return data as z.infer<T>;
+  }
+
+  const error = new ApiValidationError(endpoint, result.error.issues);
+
+  if (env.STRICT_API_VALIDATION) {
+    throw error;
+  }
+
+  log.warn(error.message);
+  return data as z.infer<T>;
+};
@@ -0,0 +1,223 @@
+/**
+ * App Lock
+ * Optional PIN that locks the app after it sits idle or in the background,
+ * so family members sharing the phone can't submit logs as the farmer.
+ * Only a salted hash of the PIN is stored.
+ */
+
+import { useEffect, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+
+import { createLogger } from './logger';
+
+const APP_LOCK_KEY = 'app-lock';
+
+export const PIN_LENGTH = 4;
+// Wrong PINs in a row before the user has to sign in again
+export const MAX_PIN_ATTEMPTS = 5;
+
+export const AUTO_LOCK_OPTIONS = [
+  { label: 'Ngay lập tức', delayMs: 0 },
+  { label: '1 phút', delayMs: 60 * 1000 },
+  { label: '5 phút', delayMs: 5 * 60 * 1000 },
+  { label: '15 phút', delayMs: 15 * 60 * 1000 },
+  { label: '30 phút', delayMs: 30 * 60 * 1000 },
+];
+const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
+
+const log = createLogger('LOCK');
+
+type StoredLock = {
+  pinHash: string | null;
+  salt: string | null;
+  autoLockMs: number;
+  failedAttempts: number;
+  // The set-up prompt after sign-in is only shown once
+  setupOffered: boolean;
+};
+
+export type AppLockState = {
+  isEnabled: boolean;
+  isLocked: boolean;
+  autoLockMs: number;
+  attemptsLeft: number;
+  setupOffered: boolean;
+};
+
+export type UnlockResult = 'unlocked' | 'wrong-pin' | 'locked-out';
+
+const EMPTY_LOCK: StoredLock = {
+  pinHash: null,
+  salt: null,
+  autoLockMs: DEFAULT_AUTO_LOCK_MS,
+  failedAttempts: 0,
+  setupOffered: false,
+};
+
+let stored: StoredLock = EMPTY_LOCK;
+let isLocked = false;
+let lastActivityAt = Date.now();
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<(state: AppLockState) => void>();
+
+export const getAppLockState = (): AppLockState => ({
+  isEnabled: Boolean(stored.pinHash),
+  isLocked,
+  autoLockMs: stored.autoLockMs,
+  attemptsLeft: Math.max(0, MAX_PIN_ATTEMPTS - stored.failedAttempts),
+  setupOffered: stored.setupOffered,
+});
+
+const emit = () => {
+  const state = getAppLockState();
+  listeners.forEach((listener) => listener(state));
+};
+
+const save = async (next: StoredLock) => {
+  stored = next;
+  emit();
+  await AsyncStorage.setItem(APP_LOCK_KEY, JSON.stringify(next));
+};
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+
+/**
+ * Read the saved settings. A cold start with a PIN set begins locked.
+ */
+export const loadAppLock = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const value = await AsyncStorage.getItem(APP_LOCK_KEY);
+        stored = value ? { ...EMPTY_LOCK, ...JSON.parse(value) } : EMPTY_LOCK;
+      } catch (error) {
+        log.error('Error loading app lock settings', error);
+        stored = EMPTY_LOCK;
+      }
+      isLocked = Boolean(stored.pinHash);
+      lastActivityAt = Date.now();
+      emit();
+    })();
+  }
+  return loadPromise;
+};
+
+export const setPin = async (pin: string) => {
+  const salt = Crypto.randomUUID();
+  const pinHash = await hashPin(pin, salt);
+  await save({ ...stored, pinHash, salt, failedAttempts: 0, setupOffered: true });
+  log.info('App PIN set');
+};
+
+export const removePin = async () => {
+  isLocked = false;
+  await save({ ...stored, pinHash: null, salt: null, failedAttempts: 0 });
+  log.info('App PIN removed');
+};
+
+export const setAutoLockDelay = (autoLockMs: number) => save({ ...stored, autoLockMs });
+
+export const markPinSetupOffered = () => save({ ...stored, setupOffered: true });
+
+/**
+ * Forget the PIN when the user signs out; the next user sets their own
+ */
+export const clearAppLock = async () => {
+  isLocked = false;
+  stored = EMPTY_LOCK;
+  emit();
+  await AsyncStorage.removeItem(APP_LOCK_KEY);
+};
+
+export const lockApp = () => {
+  if (!stored.pinHash || isLocked) return;
+  isLocked = true;
+  emit();
+};
+
+/**
+ * Check a PIN. Failed attempts survive restarts, so killing the app doesn't reset them.
+ * 'locked-out' means the caller must sign the user out.
+ */
+export const unlockApp = async (pin: string): Promise<UnlockResult> => {
+  if (!stored.pinHash || !stored.salt) {
+    isLocked = false;
+    emit();
+    return 'unlocked';
+  }
+
+  // The app may have been killed before the sign-out finished; no PIN opens it again
+  if (stored.failedAttempts >= MAX_PIN_ATTEMPTS) {
+    return 'locked-out';
+  }
+
+  if ((await hashPin(pin, stored.salt)) === stored.pinHash) {
+    isLocked = false;
+    lastActivityAt = Date.now();
+    await save({ ...stored, failedAttempts: 0 });
+    return 'unlocked';
+  }
+
+  const failedAttempts = stored.failedAttempts + 1;
+  await save({ ...stored, failedAttempts });
+  log.warn('Wrong app PIN', { failedAttempts });
+  return failedAttempts >= MAX_PIN_ATTEMPTS ? 'locked-out' : 'wrong-pin';
+};
+
+/**
+ * Reset the idle timer; call on user interaction
+ */
+export const recordActivity = () => {
+  lastActivityAt = Date.now();
+};
+
+/**
+ * Lock after the configured idle time or time in the background.
+ * Returns a cleanup function.
+ */
+export const startAutoLock = () => {
+  const lockIfIdle = () => {
+    if (Date.now() - lastActivityAt >= stored.autoLockMs) {
+      lockApp();
+    }
+  };
+
+  const subscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+    if (status === 'active') {
+      // Timers don't run in the background, so check on return
+      lockIfIdle();
+    } else if (status === 'background') {
+      lastActivityAt = Date.now();
+      if (stored.autoLockMs === 0) lockApp();
+    }
+  });
+  // "Immediately" only applies to leaving the app, not to idling in it
+  const timer = setInterval(() => {
+    if (stored.autoLockMs > 0) lockIfIdle();
+  }, IDLE_CHECK_INTERVAL_MS);
+
+  return () => {
+    subscription.remove();
+    clearInterval(timer);
+  };
+};
+
+export const useAppLock = (): AppLockState => {
+  const [current, setCurrent] = useState<AppLockState>(getAppLockState);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(getAppLockState());
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+};
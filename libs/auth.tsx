@@ -1,26 +1,62 @@
 import React from 'react';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
 import { useQuery, useMutation, useQueryClient, UseQueryResult } from '@tanstack/react-query';
-import { Redirect } from 'expo-router';
+import { Href, Redirect, useGlobalSearchParams, useRouter, useSegments } from 'expo-router';
+import * as Linking from 'expo-linking';
 import { z } from 'zod';
 import { AxiosError } from 'axios';
 
 import { 
+  authSessionSchema,
+  farmerInviteSchema,
+  loginResponseDataSchema,
+  userSchema,
   LoginResponse, 
   LoginResponseData,
   LoginRequest,
+  AuthSession,
+  ChangePasswordRequest,
+  DeviceInfo,
+  FarmerInvite,
   FastLoginRole,
   LogoutRequest,
+  RegisterFarmerRequest,
+  ResetPasswordRequest,
+  ResetTokenResponse,
+  VerifyResetCodeRequest,
+  VerifyOtpRequest,
+  resetTokenResponseSchema,
   RefreshTokenRequest,
   RefreshTokenResponse,
-  User 
+  User,
+  UserRole,
 } from '@/types/api';
 
 import { api } from './api-client';
+import { clearAppLock } from './app-lock';
+import { toApiError } from './api-error';
+import { ApiValidationError, parseResponse } from './api-validation';
+import { createLogger } from './logger';
+import { isEmailAddress, isValidPhoneNumber, normalizePhoneNumber } from './otp';
+import { authKeys, farmerKeys, removeUserScopedQueries, sessionKeys } from './query-keys';
+import { onSessionExpired } from './session';
 import { tokenStorage } from './token-storage';
 
+const log = createLogger('AUTH');
+
 // api call definitions for auth (types, schemas, requests):
 // these are not part of features as this is a module shared across features
 
+// Android reports the model; iOS only has the name the owner gave the phone
+const getDeviceInfo = (): DeviceInfo => ({
+  deviceName:
+    (Platform.OS === 'android'
+      ? (Platform.constants as { Model?: string }).Model
+      : Constants.deviceName) ?? null,
+  platform: `${Platform.OS} ${Platform.Version}`,
+});
+
 const getUser = async (): Promise<User | null> => {
   // If no token exists, return null instead of throwing an error
   // This allows the app to render without authentication
@@ -32,31 +68,39 @@ const getUser = async (): Promise<User | null> => {
   try {
     // The api client will automatically attach the Authorization header
     // and unwrap the Result<User> response
-    const user: User = await api.get('/Auth/me');
-    return user;
+    const user = await api.get('/Auth/me');
+    return parseResponse(userSchema, user, 'GET /Auth/me');
   } catch (error) {
+    // A contract mismatch in strict mode is a bug to surface, not a reason to sign out
+    if (error instanceof ApiValidationError) {
+      throw error;
+    }
+    // No coverage or a server hiccup: keep the session and any restored user
+    if (toApiError(error).isRetryable) {
+      throw error;
+    }
     // If the token is invalid/expired or the endpoint is missing, clear tokens quietly
     if (error instanceof AxiosError && error.response?.status === 404) {
-      console.warn('User profile endpoint returned 404. Clearing stale credentials.');
+      log.warn('User profile endpoint returned 404, clearing stale credentials');
     } else {
-      console.error('Failed to fetch user:', error);
+      log.error('Failed to fetch user', error);
     }
     await tokenStorage.clearTokens();
     return null;
   }
 };
 
-const logout = async (refreshToken?: string): Promise<void> => {
+// Best effort: tokens are already cleared locally, so they are passed in explicitly
+const revokeOnServer = async (accessToken: string | null, refreshToken: string | null) => {
+  if (!accessToken && !refreshToken) return;
   try {
-    // Call backend logout endpoint with optional refresh token
     const requestBody: LogoutRequest = refreshToken ? { refreshToken } : {};
-    await api.post('/Auth/logout', requestBody);
+    await api.post('/Auth/logout', requestBody, {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+    });
   } catch (error) {
-    // If logout endpoint fails, still clear local tokens
-    console.error('Logout API call failed:', error);
-  } finally {
-    // Always clear tokens from AsyncStorage
-    await tokenStorage.clearTokens();
+    // Offline or already revoked: the session expires on the server by itself
+    log.warn('Logout API call failed', error);
   }
 };
 
@@ -84,29 +128,22 @@ const loginWithCredentials = async (
     phoneNumber: data.phoneNumber || null,
     password: data.password,
     rememberMe: data.rememberMe ?? true,
+    ...getDeviceInfo(),
   };
 
-  console.log('🔐 [LOGIN] Starting login request...');
-  console.log('📧 [LOGIN] Login method:', data.email ? 'email' : 'phone');
-  console.log('📝 [LOGIN] Request payload:', {
-    email: request.email,
-    phoneNumber: request.phoneNumber,
-    password: '***' + (request.password?.slice(-2) || ''),
-    rememberMe: request.rememberMe,
-  });
+  // The logger redacts the password and masks the phone number
+  log.info(`Logging in with ${data.email ? 'email' : 'phone'}`, request);
 
   try {
     // The api client interceptor unwraps Result<T> responses, so we get LoginResponseData directly
-    const response: LoginResponseData = await api.post('/Auth/login', request);
-    
-    console.log('✅ [LOGIN] Login successful!');
-    console.log('👤 [LOGIN] User:', response.user?.userName || 'Unknown');
-    console.log('🎭 [LOGIN] Role:', response.user?.role || 'Unknown');
-    console.log('🔑 [LOGIN] Access token received:', response.accessToken ? 'Yes' : 'No');
-    console.log('🔄 [LOGIN] Refresh token received:', response.refreshToken ? 'Yes' : 'No');
+    const response = parseResponse(
+      loginResponseDataSchema,
+      await api.post('/Auth/login', request),
+      'POST /Auth/login',
+    );
 
     if (!response || !response.accessToken || !response.refreshToken) {
-      console.error('❌ [LOGIN] Invalid response data:', response);
+      log.error('Login response is missing tokens', response);
       throw new Error('Login failed: Invalid response data');
     }
 
@@ -116,19 +153,12 @@ const loginWithCredentials = async (
       response.refreshToken,
       response.expiresAt,
     );
-    
-    console.log('💾 [LOGIN] Tokens stored successfully');
+
+    log.info('Login successful', { user: response.user?.userName, role: response.user?.role });
 
     return response;
-  } catch (error: any) {
-    console.error('❌ [LOGIN] Login failed with error:', error.message);
-    console.error('📍 [LOGIN] Error details:', {
-      status: error.response?.status,
-      statusText: error.response?.statusText,
-      data: error.response?.data,
-      url: error.config?.url,
-      baseURL: error.config?.baseURL,
-    });
+  } catch (error) {
+    log.error('Login failed', error);
     throw error;
   }
 };
@@ -139,9 +169,11 @@ const loginFast = async (
   rememberMe: boolean = true,
 ): Promise<LoginResponseData> => {
   // The api client interceptor unwraps Result<T> responses, so we get LoginResponseData directly
-  const response: LoginResponseData = await api.get('/Auth/login-fast', {
-    params: { role, rememberMe },
-  });
+  const response = parseResponse(
+    loginResponseDataSchema,
+    await api.get('/Auth/login-fast', { params: { role, rememberMe } }),
+    'GET /Auth/login-fast',
+  );
 
   if (!response || !response.accessToken || !response.refreshToken) {
     throw new Error('Fast login failed: Invalid response data');
@@ -157,35 +189,193 @@ const loginFast = async (
   return response;
 };
 
-export const registerInputSchema = z
-  .object({
-    email: z.string().min(1, 'Required'),
-    firstName: z.string().min(1, 'Required'),
-    lastName: z.string().min(1, 'Required'),
-    password: z.string().min(5, 'Required'),
+// Send a one-time code by SMS; the response carries the resend cooldown and attempt limit
+const loginWithOtp = async (data: VerifyOtpRequest): Promise<LoginResponseData> => {
+  const request: VerifyOtpRequest = {
+    ...data,
+    rememberMe: data.rememberMe ?? true,
+    ...getDeviceInfo(),
+  };
+
+  // The api client interceptor unwraps Result<T> responses, so we get LoginResponseData directly
+  const response = parseResponse(
+    loginResponseDataSchema,
+    await api.post('/Auth/otp/login', request),
+    'POST /Auth/otp/login',
+  );
+
+  if (!response || !response.accessToken || !response.refreshToken) {
+    throw new Error('OTP login failed: Invalid response data');
+  }
+
+  // Store tokens in AsyncStorage
+  await tokenStorage.setTokens(
+    response.accessToken,
+    response.refreshToken,
+    response.expiresAt,
+  );
+
+  log.info('OTP login successful', { user: response.user?.userName, role: response.user?.role });
+
+  return response;
+};
+
+// Marks the signed-in user's phone number as verified
+const verifyPhone = async (data: VerifyOtpRequest): Promise<void> => {
+  await api.post('/Auth/verify-phone', data);
+};
+
+// Password rules shared by password reset and change password
+const newPasswordFields = z.object({
+  newPassword: z.string().min(5, 'Mật khẩu tối thiểu 5 ký tự'),
+  confirmPassword: z.string(),
+});
+
+const passwordsMatch = (data: z.infer<typeof newPasswordFields>) =>
+  data.newPassword === data.confirmPassword;
+
+const passwordsMatchError = { message: 'Mật khẩu xác nhận không khớp', path: ['confirmPassword'] };
+
+export const forgotPasswordInputSchema = z.object({
+  credential: z
+    .string()
+    .trim()
+    .min(1, 'Vui lòng nhập email hoặc số điện thoại')
+    .refine(
+      (value) => (isEmailAddress(value) ? /\S+@\S+\.\S+/.test(value) : isValidPhoneNumber(value)),
+      'Email hoặc số điện thoại không hợp lệ',
+    ),
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordInputSchema>;
+
+export const resetPasswordInputSchema = newPasswordFields.refine(passwordsMatch, passwordsMatchError);
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const changePasswordInputSchema = newPasswordFields
+  .extend({
+    currentPassword: z.string().min(1, 'Vui lòng nhập mật khẩu hiện tại'),
   })
-  .and(
-    z
-      .object({
-        teamId: z.string().min(1, 'Required'),
-        teamName: z.null().default(null),
-      })
-      .or(
-        z.object({
-          teamName: z.string().min(1, 'Required'),
-          teamId: z.null().default(null),
-        }),
-      ),
+  .refine(passwordsMatch, passwordsMatchError)
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'Mật khẩu mới phải khác mật khẩu hiện tại',
+    path: ['newPassword'],
+  });
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// A correct code is exchanged for a reset token, so the new password is a separate step
+const verifyResetCode = async (data: VerifyResetCodeRequest): Promise<ResetTokenResponse> =>
+  parseResponse(
+    resetTokenResponseSchema,
+    await api.post('/Auth/password-reset/verify', data),
+    'POST /Auth/password-reset/verify',
+  );
+
+// Every session of the account is signed out by the server
+const resetPassword = async (data: ResetPasswordRequest): Promise<void> => {
+  await api.post('/Auth/password-reset/complete', data);
+  log.info('Password reset completed');
+};
+
+const changePassword = async (data: ChangePasswordInput): Promise<LoginResponseData> => {
+  const request: ChangePasswordRequest = {
+    currentPassword: data.currentPassword,
+    newPassword: data.newPassword,
+    // Keeps this device signed in while every other session is revoked
+    refreshToken: await tokenStorage.getRefreshToken(),
+  };
+
+  const response = parseResponse(
+    loginResponseDataSchema,
+    await api.post('/Auth/change-password', request),
+    'POST /Auth/change-password',
+  );
+
+  if (!response || !response.accessToken || !response.refreshToken) {
+    throw new Error('Change password failed: Invalid response data');
+  }
+
+  // The old tokens were revoked with the other sessions
+  await tokenStorage.setTokens(
+    response.accessToken,
+    response.refreshToken,
+    response.expiresAt,
+  );
+
+  log.info('Password changed, other sessions revoked');
+
+  return response;
+};
+
+const getSessions = async (): Promise<AuthSession[]> =>
+  parseResponse(z.array(authSessionSchema), await api.get('/Auth/sessions'), 'GET /Auth/sessions');
+
+// Signs one other device out; this device signs out with logout
+const revokeSession = async (sessionId: string): Promise<void> => {
+  await api.delete(`/Auth/sessions/${sessionId}`);
+  log.info('Revoked session', { sessionId });
+};
+
+const revokeOtherSessions = async (): Promise<void> => {
+  await api.post('/Auth/sessions/revoke-others');
+  log.info('Revoked all other sessions');
+};
+
+// Invite links look like myapp://auth/register?code=HTX-TANHONG-3; a bare code also works
+export const parseInviteCode = (data: string): string => {
+  const trimmed = data.trim();
+  if (trimmed.includes('://')) {
+    const { queryParams } = Linking.parse(trimmed);
+    const code = queryParams?.code;
+    return (Array.isArray(code) ? code[0] : code)?.trim().toUpperCase() ?? '';
+  }
+  return trimmed.toUpperCase();
+};
+
+// Which group an invite code joins, shown before the farmer fills in their details
+const getFarmerInvite = async (inviteCode: string): Promise<FarmerInvite> =>
+  parseResponse(
+    farmerInviteSchema,
+    await api.get(`/Auth/invites/${encodeURIComponent(inviteCode)}`),
+    'GET /Auth/invites/{code}',
   );
 
+export const registerInputSchema = z.object({
+  fullName: z.string().trim().min(1, 'Vui lòng nhập họ và tên'),
+  phoneNumber: z
+    .string()
+    .refine((value) => isValidPhoneNumber(value), 'Số điện thoại không hợp lệ')
+    .transform((value) => normalizePhoneNumber(value)),
+  address: z.string().trim().min(1, 'Vui lòng nhập địa chỉ'),
+  password: z.string().min(5, 'Mật khẩu tối thiểu 5 ký tự'),
+});
+
 export type RegisterInput = z.infer<typeof registerInputSchema>;
 
-const registerWithEmailAndPassword = async (
-  data: RegisterInput,
+const registerFarmer = async (
+  data: RegisterInput & { invite: FarmerInvite },
 ): Promise<LoginResponseData> => {
+  const request: RegisterFarmerRequest = {
+    inviteCode: data.invite.inviteCode,
+    groupId: data.invite.groupId,
+    fullName: data.fullName,
+    phoneNumber: data.phoneNumber,
+    address: data.address,
+    password: data.password,
+    ...getDeviceInfo(),
+  };
+
+  log.info('Registering farmer', { inviteCode: request.inviteCode, groupId: request.groupId });
+
   // Registration also returns tokens and user
   // The api client interceptor unwraps Result<T> responses, so we get LoginResponseData directly
-  const response: LoginResponseData = await api.post('/api/auth/register', data);
+  const response = parseResponse(
+    loginResponseDataSchema,
+    await api.post('/Auth/register-farmer', request),
+    'POST /Auth/register-farmer',
+  );
 
   if (!response || !response.accessToken || !response.refreshToken) {
     throw new Error('Registration failed: Invalid response data');
@@ -202,7 +392,7 @@ const registerWithEmailAndPassword = async (
 };
 
 // Auth hooks using TanStack Query
-const userQueryKey = ['user'];
+const userQueryKey = authKeys.user();
 
 export const useUser = (): UseQueryResult<User | null, Error> => {
   return useQuery({
@@ -257,11 +447,49 @@ export const useFastLogin = () => {
   });
 };
 
+export const useOtpLogin = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: loginWithOtp,
+    onSuccess: (response) => {
+      // Update the user cache with the logged-in user
+      queryClient.setQueryData(userQueryKey, {
+        id: response.user.id,
+        email: response.user.email,
+        role: response.user.role,
+        firstName: response.user.userName.split(' ')[0] || response.user.userName,
+        lastName: response.user.userName.split(' ')[1] || '',
+        teamId: '',
+        bio: '',
+        createdAt: Date.now(),
+      } as User);
+    },
+  });
+};
+
+export const useVerifyPhone = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: verifyPhone,
+    onSuccess: () => {
+      // isVerified lives on the farmer profile
+      queryClient.invalidateQueries({ queryKey: farmerKeys.profile() });
+    },
+  });
+};
+
+export const useFarmerInvite = () =>
+  useMutation({
+    mutationFn: getFarmerInvite,
+  });
+
 export const useRegister = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: registerWithEmailAndPassword,
+    mutationFn: registerFarmer,
     onSuccess: (response) => {
       // Update the user cache with the registered user
       queryClient.setQueryData(userQueryKey, {
@@ -278,19 +506,97 @@ export const useRegister = () => {
   });
 };
 
+export const useVerifyResetCode = () =>
+  useMutation({
+    mutationFn: verifyResetCode,
+  });
+
+export const useResetPassword = () =>
+  useMutation({
+    mutationFn: resetPassword,
+  });
+
+export const useChangePassword = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: changePassword,
+    // Every other session was signed out by the server
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }),
+  });
+};
+
+export const useSessions = () =>
+  useQuery({
+    queryKey: sessionKeys.list(),
+    queryFn: getSessions,
+  });
+
+export const useRevokeSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeSession,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }),
+  });
+};
+
+export const useRevokeOtherSessions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeOtherSessions,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }),
+  });
+};
+
+/**
+ * Sign out on this device first, then revoke the session on the server if it can be
+ * reached. Signing out never waits on the network, which the app lock relies on.
+ */
 export const useLogout = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (refreshToken?: string) => logout(refreshToken),
-    onSuccess: () => {
-      // Clear the user cache
+    mutationFn: async (refreshToken?: string) => {
+      const [accessToken, storedRefreshToken] = await Promise.all([
+        tokenStorage.getAccessToken(),
+        tokenStorage.getRefreshToken(),
+      ]);
+
+      await tokenStorage.clearTokens();
+      // Nothing cached for this user may leak into the next session
+      removeUserScopedQueries(queryClient);
       queryClient.setQueryData(userQueryKey, null);
-      queryClient.clear();
+      // The app PIN belongs to this user too
+      await clearAppLock();
+
+      void revokeOnServer(accessToken, refreshToken ?? storedRefreshToken);
     },
   });
 };
 
+// Once the session can no longer be refreshed or was revoked, drop user-scoped data and
+// let app/index.tsx route to login (getUser resolves to null without tokens)
+export const useSessionExpiryRedirect = () => {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  React.useEffect(() => {
+    return onSessionExpired(async (reason) => {
+      removeUserScopedQueries(queryClient);
+      await clearAppLock();
+      await queryClient.invalidateQueries({ queryKey: userQueryKey });
+      // A sign-out from another device is explained on the login screen
+      router.replace(
+        reason === 'revoked'
+          ? { pathname: '/auth/login', params: { notice: 'session-revoked' } }
+          : '/',
+      );
+    });
+  }, [queryClient, router]);
+};
+
 // AuthLoader component for Expo - shows loading state while checking auth
 export const AuthLoader = ({ children }: { children: React.ReactNode }) => {
   const { isLoading } = useUser();
@@ -303,17 +609,66 @@ export const AuthLoader = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
-// ProtectedRoute component for Expo Router
-export const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
+/**
+ * Where to go after signing in. Only in-app paths are honoured, never the
+ * auth screens themselves; anything else falls back to the role home.
+ */
+export const getPostLoginRoute = (redirectTo?: string | string[]): Href => {
+  const target = Array.isArray(redirectTo) ? redirectTo[0] : redirectTo;
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/auth')) {
+    return '/';
+  }
+  return target as Href;
+};
+
+// The current route with its group segments, e.g. /(farmer-tabs)/tasks,
+// since several groups share paths like /home
+const useCurrentHref = () => {
+  const segments = useSegments();
+  const params = useGlobalSearchParams();
+  const query = { ...params };
+
+  const path = segments
+    .map((segment) => {
+      const dynamic = segment.match(/^\[(?:\.\.\.)?(.+)\]$/);
+      if (!dynamic) return segment;
+      const value = query[dynamic[1]];
+      delete query[dynamic[1]];
+      return Array.isArray(value) ? value.join('/') : value;
+    })
+    .join('/');
+
+  const search = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  return `/${path}${search ? `?${search}` : ''}`;
+};
+
+// ProtectedRoute component for Expo Router. Route group layouts pass the
+// roles allowed inside the group; signed-out users come back after login.
+export const ProtectedRoute = ({
+  allowedRoles,
+  children,
+}: {
+  allowedRoles?: UserRole[];
+  children: React.ReactNode;
+}) => {
   const { data: user, isLoading } = useUser();
+  const currentHref = useCurrentHref();
 
   if (isLoading) {
     return null; // or <LoadingScreen />
   }
 
   if (!user) {
-    // Redirect to login using Expo Router
-    return <Redirect href="/auth/login" />;
+    return <Redirect href={{ pathname: '/auth/login', params: { redirectTo: currentHref } }} />;
+  }
+
+  if (allowedRoles && !allowedRoles.includes(user.role)) {
+    log.warn('Blocked route for role', { role: user.role, route: currentHref });
+    return <Redirect href="/forbidden" />;
   }
 
   return <>{children}</>;
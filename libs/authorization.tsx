@@ -1,6 +1,6 @@
 import * as React from 'react';
 
-import { Comment, User, UserRole } from '@/types/api';
+import { User, UserRole } from '@/types/api';
 
 import { useUser } from './auth';
 
@@ -16,22 +16,68 @@ export enum ROLES {
 
 type RoleTypes = keyof typeof ROLES;
 
-export const POLICIES = {
-  'comment:delete': (user: User, comment: Comment) => {
-    // Admin has full access
-    if (user.role === 'Admin') {
-      return true;
-    }
+// Roles that review farmer work and manage plots in the field
+const REVIEWER_ROLES: UserRole[] = ['Admin', 'ClusterManager', 'Supervisor'];
 
-    // Users can delete their own comments
-    if (comment.author?.id === user.id) {
-      return true;
-    }
+const hasRole = (user: User, roles: UserRole[]) => roles.includes(user.role);
+
+// Farmer endpoints only return the caller's own records, so a record
+// without a farmerId belongs to the signed-in farmer
+const ownsRecord = (user: User, record: { farmerId?: string | null }) =>
+  !record.farmerId || record.farmerId === user.id;
 
-    return false;
-  },
+const isStatus = (status: string | null | undefined, ...allowed: string[]) =>
+  allowed.includes((status ?? '').toLowerCase());
+
+/**
+ * Domain action rules, keyed by "entity:action". Each takes the entity the
+ * action applies to, so buttons are hidden the same way on every screen.
+ */
+export const POLICIES = {
+  'farmlog:approve': (user: User, log: { status: string; farmerId?: string | null }) =>
+    hasRole(user, REVIEWER_ROLES) && isStatus(log.status, 'pending') && log.farmerId !== user.id,
+
+  'task:approve': (user: User, task: { status: string; farmerId?: string | null }) =>
+    hasRole(user, REVIEWER_ROLES) &&
+    isStatus(task.status, 'pending-approval') &&
+    task.farmerId !== user.id,
+
+  // Locked plots have a confirmed boundary that only the back office may change
+  'plot:edit-boundary': (user: User, plot: { status: string }) =>
+    hasRole(user, REVIEWER_ROLES) && !isStatus(plot.status, 'locked'),
+
+  'uav:report-plot': (
+    user: User,
+    { order, assignment }: { order: { status: string }; assignment: { status: string } },
+  ) =>
+    hasRole(user, ['UavVendor']) &&
+    !isStatus(order.status, 'cancelled', 'completed') &&
+    !isStatus(assignment.status, 'completed'),
+
+  // Approved tasks are started from the task list; to-do ones from the confirm flow
+  'task:start': (user: User, task: { status: string; farmerId?: string | null }) =>
+    hasRole(user, ['Farmer']) &&
+    ownsRecord(user, task) &&
+    isStatus(task.status, 'approved', 'pending', 'todo'),
+
+  // Recording the harvest closes the cultivation, so it happens once
+  'cultivation:harvest': (user: User, cultivation: { status: string; farmerId?: string | null }) =>
+    hasRole(user, ['Farmer']) &&
+    ownsRecord(user, cultivation) &&
+    !isStatus(cultivation.status, 'completed', 'cancelled'),
+
+  'report:review': (user: User, report: { status: string }) =>
+    hasRole(user, ['Admin', 'AgronomyExpert']) && isStatus(report.status, 'pending'),
+
+  'report:create': (user: User, plot: { status?: string | null; farmerId?: string | null }) =>
+    (hasRole(user, ['Farmer']) ? ownsRecord(user, plot) : hasRole(user, REVIEWER_ROLES)) &&
+    !isStatus(plot.status, 'inactive'),
 };
 
+export type PolicyName = keyof typeof POLICIES;
+
+export type PolicyEntity<P extends PolicyName> = Parameters<(typeof POLICIES)[P]>[1];
+
 export const useAuthorization = () => {
   const user = useUser();
 
@@ -50,7 +96,18 @@ export const useAuthorization = () => {
     [user.data],
   );
 
-  return { checkAccess, role: user.data.role };
+  const checkPolicy = React.useCallback(
+    <P extends PolicyName>(policy: P, entity: PolicyEntity<P>) => {
+      if (!user.data) {
+        return false;
+      }
+      const rule = POLICIES[policy] as (user: User, entity: PolicyEntity<P>) => boolean;
+      return rule(user.data, entity);
+    },
+    [user.data],
+  );
+
+  return { checkAccess, checkPolicy, role: user.data.role };
 };
 
 type AuthorizationProps = {
@@ -0,0 +1,70 @@
+/**
+ * Cluster Manager API Functions
+ * Cluster-wide view of farmer groups, their supervisors and plot status
+ */
+
+import { z } from 'zod';
+
+import { api } from './api-client';
+import { parseResponse } from './api-validation';
+import {
+  clusterGroupSchema,
+  clusterOverviewSchema,
+  clusterSupervisorSchema,
+  pagedResultSchema,
+  ClusterGroup,
+  ClusterOverview,
+  ClusterSupervisor,
+  PagedResult,
+} from '@/types/api';
+
+type PageParams = {
+  currentPage?: number;
+  pageSize?: number;
+};
+
+/**
+ * Get totals for the signed-in manager's cluster
+ */
+export const getClusterOverview = async (): Promise<ClusterOverview> => {
+  const response = await api.get<ClusterOverview>('/ClusterManager/overview');
+  return parseResponse(clusterOverviewSchema, response, 'GET /ClusterManager/overview');
+};
+
+/**
+ * Get the farmer groups in the cluster
+ */
+export const getClusterGroups = async (
+  params: PageParams = {},
+): Promise<PagedResult<ClusterGroup[]>> => {
+  const response = await api.get<PagedResult<ClusterGroup[]>>('/ClusterManager/groups', {
+    params: {
+      CurrentPage: params.currentPage || 1,
+      PageSize: params.pageSize || 20,
+    },
+  });
+  return parseResponse(
+    pagedResultSchema(z.array(clusterGroupSchema)),
+    response,
+    'GET /ClusterManager/groups',
+  );
+};
+
+/**
+ * Get the supervisors working in the cluster
+ */
+export const getClusterSupervisors = async (
+  params: PageParams = {},
+): Promise<PagedResult<ClusterSupervisor[]>> => {
+  const response = await api.get<PagedResult<ClusterSupervisor[]>>('/ClusterManager/supervisors', {
+    params: {
+      CurrentPage: params.currentPage || 1,
+      PageSize: params.pageSize || 20,
+    },
+  });
+  return parseResponse(
+    pagedResultSchema(z.array(clusterSupervisorSchema)),
+    response,
+    'GET /ClusterManager/supervisors',
+  );
+};
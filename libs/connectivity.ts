@@ -0,0 +1,38 @@
+/**
+ * Connectivity
+ * Feeds NetInfo into React Query's onlineManager, so queries pause while the
+ * device is offline and refetch when the connection comes back
+ */
+
+import { useEffect, useState } from 'react';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+
+/**
+ * isInternetReachable is null until NetInfo has checked, which counts as online
+ */
+export const isOnline = (state: NetInfoState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+/**
+ * Start tracking connectivity; returns a cleanup function
+ */
+export const startConnectivitySync = () => {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => setOnline(isOnline(state))),
+  );
+
+  // Stop listening to NetInfo and leave the last known state in place
+  return () => onlineManager.setEventListener(() => undefined);
+};
+
+export const useIsOnline = (): boolean => {
+  const [online, setOnline] = useState(onlineManager.isOnline());
+
+  useEffect(() => {
+    setOnline(onlineManager.isOnline());
+    return onlineManager.subscribe(setOnline);
+  }, []);
+
+  return online;
+};
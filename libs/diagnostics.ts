@@ -0,0 +1,55 @@
+/**
+ * Diagnostics Export
+ * Bundles the log buffer and recent API calls into a JSON file and opens the
+ * share sheet, so a field technician can send it to support
+ */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { env } from '@/configs/env';
+
+import { getLogEntries } from './logger';
+import { getNetworkCalls } from './network-log';
+
+export const buildDiagnosticsReport = () => ({
+  generatedAt: new Date().toISOString(),
+  app: {
+    version: Constants.expoConfig?.version ?? null,
+    platform: Platform.OS,
+    platformVersion: Platform.Version,
+  },
+  config: {
+    serverProfile: env.SERVER_PROFILE.id,
+    apiUrl: env.API_URL,
+    mockApi: env.MOCK_API,
+    logLevel: env.LOG_LEVEL,
+  },
+  // Entries were redacted when they were logged
+  logs: getLogEntries(),
+  network: getNetworkCalls(),
+});
+
+/**
+ * Write the report to the cache directory and share it.
+ * Returns false when sharing is not available on this device.
+ */
+export const exportDiagnostics = async (): Promise<boolean> => {
+  const report = buildDiagnosticsReport();
+  const file = new File(Paths.cache, `diagnostics-${Date.now()}.json`);
+  file.create();
+  file.write(JSON.stringify(report, null, 2));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    dialogTitle: 'Gửi nhật ký chẩn đoán',
+    UTI: 'public.json',
+  });
+  return true;
+};
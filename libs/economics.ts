@@ -0,0 +1,324 @@
+/**
+ * Farmer Season Economics
+ * Costs, revenue and profit per season and plot, worked out from the
+ * cultivation plans and farm logs the farmer already records
+ */
+
+import {
+  getCurrentFarmerPlots,
+  getFarmLogsByCultivation,
+  getPlotCultivationPlans,
+  getPlotPlanView,
+} from './farmer';
+import { createLogger } from './logger';
+import {
+  FarmerPlot,
+  FarmLogDetailResponse,
+  PagedResult,
+  PlotCultivationPlan,
+  PlotPlanTask,
+  PlotPlanView,
+} from '@/types/api';
+
+const log = createLogger('ECONOMICS');
+
+const PAGE_SIZE = 50;
+// Stops paging if the server never reports a last page
+const MAX_PAGES = 20;
+// Requests in flight at once, so a farmer with many plots doesn't flood a weak connection
+const MAX_CONCURRENT_REQUESTS = 4;
+
+export type CostBreakdown = {
+  materials: number;
+  services: number;
+  labor: number;
+  total: number;
+};
+
+export type StageVariance = {
+  stageName: string;
+  sequenceOrder: number;
+  // Material estimate for every task in the stage
+  plannedCost: number;
+  actualCost: CostBreakdown;
+  // Actual minus planned material cost, over completed tasks only so that
+  // upcoming work does not show up as savings
+  materialVariance: number;
+  completedTasks: number;
+  totalTasks: number;
+};
+
+export type PlotEconomics = {
+  plotId: string;
+  plotName: string;
+  area: number;
+  plotCultivationId: string;
+  seasonId: string;
+  seasonName: string;
+  plantingDate: string;
+  status: string;
+  costs: CostBreakdown;
+  plannedCost: number;
+  stages: StageVariance[];
+  yieldKg: number | null;
+  salePricePerKg: number | null;
+  // Null until the harvest yield and sale price are recorded
+  revenue: number | null;
+};
+
+export type SeasonEconomics = {
+  seasonId: string;
+  seasonName: string;
+  area: number;
+  costs: CostBreakdown;
+  plannedCost: number;
+  stages: StageVariance[];
+  revenue: number;
+  profit: number;
+  profitPerHectare: number;
+  harvestedPlots: number;
+  plots: PlotEconomics[];
+};
+
+const EMPTY_COSTS: CostBreakdown = { materials: 0, services: 0, labor: 0, total: 0 };
+
+const addCosts = (a: CostBreakdown, b: CostBreakdown): CostBreakdown => ({
+  materials: a.materials + b.materials,
+  services: a.services + b.services,
+  labor: a.labor + b.labor,
+  total: a.total + b.total,
+});
+
+const toCosts = (materials: number, services: number, labor: number): CostBreakdown => ({
+  materials,
+  services,
+  labor,
+  total: materials + services + labor,
+});
+
+const plannedTaskCost = (task: PlotPlanTask) =>
+  task.materials.reduce((sum, material) => sum + material.plannedEstimatedAmount, 0);
+
+const actualTaskMaterialCost = (task: PlotPlanTask) =>
+  task.materials.reduce((sum, material) => sum + material.actualCost, 0);
+
+// Older farm logs only carry the task name
+const logsForTask = (task: PlotPlanTask, logs: FarmLogDetailResponse[]) =>
+  logs.filter((log) =>
+    log.cultivationTaskId
+      ? log.cultivationTaskId === task.id
+      : log.cultivationTaskName === task.taskName,
+  );
+
+const buildStageVariances = (view: PlotPlanView, logs: FarmLogDetailResponse[]): StageVariance[] =>
+  [...view.stages]
+    .sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+    .map((stage) => {
+      const completed = stage.tasks.filter((task) => task.status === 'Completed');
+      const stageLogs = stage.tasks.flatMap((task) => logsForTask(task, logs));
+      const materials = stage.tasks.reduce((sum, task) => sum + actualTaskMaterialCost(task), 0);
+
+      return {
+        stageName: stage.stageName,
+        sequenceOrder: stage.sequenceOrder,
+        plannedCost: stage.tasks.reduce((sum, task) => sum + plannedTaskCost(task), 0),
+        actualCost: toCosts(
+          materials,
+          stageLogs.reduce((sum, log) => sum + (log.serviceCost ?? 0), 0),
+          stageLogs.reduce((sum, log) => sum + (log.laborCost ?? 0), 0),
+        ),
+        materialVariance: completed.reduce(
+          (sum, task) => sum + actualTaskMaterialCost(task) - plannedTaskCost(task),
+          0,
+        ),
+        completedTasks: completed.length,
+        totalTasks: stage.tasks.length,
+      };
+    });
+
+/**
+ * Economics of one plot cultivation. Material costs come from the plan view,
+ * service and labor costs from the farm logs.
+ */
+export const buildPlotEconomics = (
+  plot: FarmerPlot,
+  plan: PlotCultivationPlan,
+  view: PlotPlanView,
+  logs: FarmLogDetailResponse[],
+): PlotEconomics => {
+  const stages = buildStageVariances(view, logs);
+  // Logs that match no planned task still cost money
+  const costs = toCosts(
+    stages.reduce((sum, stage) => sum + stage.actualCost.materials, 0),
+    logs.reduce((sum, log) => sum + (log.serviceCost ?? 0), 0),
+    logs.reduce((sum, log) => sum + (log.laborCost ?? 0), 0),
+  );
+  const yieldKg = plan.actualYield ?? null;
+  const salePricePerKg = plan.salePricePerKg ?? null;
+
+  return {
+    plotId: plot.plotId,
+    plotName: `Thửa ${plot.soThua}, Tờ ${plot.soTo}`,
+    area: plan.area ?? plot.area,
+    plotCultivationId: plan.plotCultivationId,
+    seasonId: plan.seasonId,
+    seasonName: plan.seasonName,
+    plantingDate: plan.plantingDate,
+    status: plan.status,
+    costs,
+    plannedCost: stages.reduce((sum, stage) => sum + stage.plannedCost, 0),
+    stages,
+    yieldKg,
+    salePricePerKg,
+    revenue: yieldKg !== null && salePricePerKg !== null ? yieldKg * salePricePerKg : null,
+  };
+};
+
+// Stages line up across plots of a season by their position in the plan
+const mergeStages = (plots: PlotEconomics[]): StageVariance[] => {
+  const merged = new Map<number, StageVariance>();
+  plots.forEach((plot) =>
+    plot.stages.forEach((stage) => {
+      const current = merged.get(stage.sequenceOrder);
+      merged.set(
+        stage.sequenceOrder,
+        current
+          ? {
+              ...current,
+              plannedCost: current.plannedCost + stage.plannedCost,
+              actualCost: addCosts(current.actualCost, stage.actualCost),
+              materialVariance: current.materialVariance + stage.materialVariance,
+              completedTasks: current.completedTasks + stage.completedTasks,
+              totalTasks: current.totalTasks + stage.totalTasks,
+            }
+          : stage,
+      );
+    }),
+  );
+  return [...merged.values()].sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+};
+
+/**
+ * Season totals, newest season first. Profit counts only the costs of plots
+ * whose harvest has been sold, so an unfinished plot does not drag it down.
+ */
+export const groupBySeason = (plots: PlotEconomics[]): SeasonEconomics[] => {
+  const bySeason = new Map<string, PlotEconomics[]>();
+  plots.forEach((plot) =>
+    bySeason.set(plot.seasonId, [...(bySeason.get(plot.seasonId) ?? []), plot]),
+  );
+
+  const latestPlanting = (seasonPlots: PlotEconomics[]) =>
+    Math.max(...seasonPlots.map((plot) => new Date(plot.plantingDate).getTime()));
+
+  return [...bySeason.values()]
+    .sort((a, b) => latestPlanting(b) - latestPlanting(a))
+    .map((seasonPlots) => {
+      const harvested = seasonPlots.filter((plot) => plot.revenue !== null);
+      const revenue = harvested.reduce((sum, plot) => sum + (plot.revenue ?? 0), 0);
+      const harvestedCost = harvested.reduce((sum, plot) => sum + plot.costs.total, 0);
+      const harvestedArea = harvested.reduce((sum, plot) => sum + plot.area, 0);
+      const profit = revenue - harvestedCost;
+
+      return {
+        seasonId: seasonPlots[0].seasonId,
+        seasonName: seasonPlots[0].seasonName,
+        area: seasonPlots.reduce((sum, plot) => sum + plot.area, 0),
+        costs: seasonPlots.reduce((sum, plot) => addCosts(sum, plot.costs), EMPTY_COSTS),
+        plannedCost: seasonPlots.reduce((sum, plot) => sum + plot.plannedCost, 0),
+        stages: mergeStages(seasonPlots),
+        revenue,
+        profit,
+        profitPerHectare: harvestedArea > 0 ? profit / harvestedArea : 0,
+        harvestedPlots: harvested.length,
+        plots: seasonPlots,
+      };
+    });
+};
+
+type PageRequest = {
+  currentPage: number;
+  pageSize: number;
+};
+
+// Totals are wrong if any page is left out
+const fetchAllPages = async <T>(
+  fetchPage: (page: PageRequest) => Promise<PagedResult<T[]>>,
+): Promise<T[]> => {
+  const items: T[] = [];
+  for (let currentPage = 1; currentPage <= MAX_PAGES; currentPage++) {
+    const page = await fetchPage({ currentPage, pageSize: PAGE_SIZE });
+    items.push(...page.data);
+    if (!page.hasNext || page.data.length === 0) {
+      return items;
+    }
+  }
+  log.warn(`Stopped paging after ${MAX_PAGES} pages`);
+  return items;
+};
+
+// The plot list is a plain array; a short or empty page is the last one, and a
+// page repeating the previous one means the server ignored the page number
+const getAllFarmerPlots = async (): Promise<FarmerPlot[]> => {
+  const plots: FarmerPlot[] = [];
+  let previousIds = '';
+  for (let currentPage = 1; currentPage <= MAX_PAGES; currentPage++) {
+    const page = await getCurrentFarmerPlots({ currentPage, pageSize: PAGE_SIZE });
+    const ids = page.map((plot) => plot.plotId).join(',');
+    if (page.length === 0 || ids === previousIds) {
+      return plots;
+    }
+    plots.push(...page);
+    if (page.length < PAGE_SIZE) {
+      return plots;
+    }
+    previousIds = ids;
+  }
+  log.warn(`Stopped loading plots after ${MAX_PAGES} pages`);
+  return plots;
+};
+
+// Like Promise.all over items.map(task), with at most `limit` tasks running
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+/**
+ * Loads every cultivation of the farmer's plots with its plan view and farm
+ * logs, and works out the economics per season
+ */
+export const getFarmerSeasonEconomics = async (): Promise<SeasonEconomics[]> => {
+  const plots = await getAllFarmerPlots();
+
+  const cultivations = await mapWithConcurrency(plots, MAX_CONCURRENT_REQUESTS, async (plot) => {
+    const plans = await fetchAllPages((page) => getPlotCultivationPlans(plot.plotId, page));
+    return plans.map((plan) => ({ plot, plan }));
+  });
+
+  const plotEconomics = await mapWithConcurrency(
+    cultivations.flat(),
+    MAX_CONCURRENT_REQUESTS,
+    async ({ plot, plan }) => {
+      const view = await getPlotPlanView(plan.plotCultivationId);
+      const logs = await fetchAllPages((page) =>
+        getFarmLogsByCultivation({ plotCultivationId: plan.plotCultivationId, ...page }),
+      );
+      return buildPlotEconomics(plot, plan, view, logs);
+    },
+  );
+
+  return groupBySeason(plotEconomics);
+};
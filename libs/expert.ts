@@ -0,0 +1,86 @@
+/**
+ * Agronomy Expert API Functions
+ * Pest and disease report review, plus the standard plan and rice variety catalogue
+ */
+
+import { z } from 'zod';
+
+import { api } from './api-client';
+import { parseResponse } from './api-validation';
+import { IdempotencyOptions, idempotencyHeaders } from './idempotency';
+import {
+  pagedResultSchema,
+  pestReportSchema,
+  riceVarietySchema,
+  standardPlanDetailSchema,
+  PagedResult,
+  PestReport,
+  PestReportStatus,
+  RiceVariety,
+  StandardPlanDetail,
+} from '@/types/api';
+
+export type ReviewPestReportRequest = {
+  decision: 'Confirm' | 'Dismiss';
+  // Sent to the farmer with a confirmed report
+  recommendedTreatment?: string;
+  notes?: string;
+};
+
+type GetPestReportsParams = {
+  status?: 'all' | PestReportStatus;
+  currentPage?: number;
+  pageSize?: number;
+};
+
+/**
+ * Get pest and disease reports, oldest pending first
+ */
+export const getPestReports = async (
+  params: GetPestReportsParams = {},
+): Promise<PagedResult<PestReport[]>> => {
+  const response = await api.get<PagedResult<PestReport[]>>('/Expert/reports', {
+    params: {
+      Status: params.status || 'all',
+      CurrentPage: params.currentPage || 1,
+      PageSize: params.pageSize || 20,
+    },
+  });
+  return parseResponse(
+    pagedResultSchema(z.array(pestReportSchema)),
+    response,
+    'GET /Expert/reports',
+  );
+};
+
+/**
+ * Confirm or dismiss a report
+ */
+export const reviewPestReport = async (
+  reportId: string,
+  request: ReviewPestReportRequest,
+  { idempotencyKey }: IdempotencyOptions = {},
+): Promise<void> => {
+  await api.post(`/Expert/reports/${reportId}/review`, request, {
+    headers: idempotencyHeaders(idempotencyKey),
+  });
+};
+
+/**
+ * Get the rice variety catalogue
+ */
+export const getRiceVarieties = async (): Promise<RiceVariety[]> => {
+  const response = await api.get<RiceVariety[]>('/RiceVariety');
+  if (!Array.isArray(response)) {
+    return [];
+  }
+  return parseResponse(z.array(riceVarietySchema), response, 'GET /RiceVariety');
+};
+
+/**
+ * Get a standard plan with its stages and tasks
+ */
+export const getStandardPlanDetail = async (planId: string): Promise<StandardPlanDetail> => {
+  const response = await api.get<StandardPlanDetail>(`/StandardPlan/${planId}`);
+  return parseResponse(standardPlanDetailSchema, response, 'GET /StandardPlan/{id}');
+};
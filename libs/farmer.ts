@@ -1,9 +1,22 @@
-import { Platform } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import { api } from './api-client';
-import { env } from '@/configs/env';
-import { tokenStorage } from './token-storage';
+import { z } from 'zod';
+
+import { api, uploadFile, UploadOptions } from './api-client';
+import { parseResponse } from './api-validation';
+import { IdempotencyOptions, idempotencyHeaders } from './idempotency';
+import { prepareImage, prepareImages } from './image-preparation';
 import {
+  alertSchema,
+  cultivationTaskDetailResponseSchema,
+  farmActivitySchema,
+  farmerPlotSchema,
+  farmerProfileResponseSchema,
+  farmLogDetailResponseSchema,
+  pagedResultSchema,
+  pestDetectionResponseSchema,
+  plotCultivationPlanSchema,
+  plotPlanViewSchema,
+  startTaskResponseSchema,
+  todayTaskResponseSchema,
   FarmerPlot,
   PlotCultivationPlan,
   PlotPlanView,
@@ -17,6 +30,8 @@ import {
   StartTaskRequest,
   StartTaskResponse,
   FarmerProfileResponse,
+  Alert,
+  FarmActivity,
 } from '@/types/api';
 
 type GetFarmerPlotsParams = {
@@ -32,7 +47,7 @@ export const getCurrentFarmerPlots = async ({
     params: { CurrentPage: currentPage, PageSize: pageSize },
   });
 
-  return response as unknown as FarmerPlot[];
+  return parseResponse(z.array(farmerPlotSchema), response, 'GET /Plot/get-current-farmer-plots');
 };
 
 export const getPlotCultivationPlans = async (
@@ -46,7 +61,11 @@ export const getPlotCultivationPlans = async (
     },
   );
 
-  return response as unknown as PagedResult<PlotCultivationPlan[]>;
+  return parseResponse(
+    pagedResultSchema(z.array(plotCultivationPlanSchema)),
+    response,
+    'GET /cultivation-plan/by-plot/{plotId}',
+  );
 };
 
 export const getPlotPlanView = async (
@@ -56,7 +75,7 @@ export const getPlotPlanView = async (
     `/cultivation-plan/plan-view/${plotCultivationId}`,
   );
 
-  return response as unknown as PlotPlanView;
+  return parseResponse(plotPlanViewSchema, response, 'GET /cultivation-plan/plan-view/{id}');
 };
 
 type GetTodayTasksParams = {
@@ -78,7 +97,11 @@ export const getTodayTasks = async ({
     },
   );
 
-  return response as unknown as TodayTaskResponse[];
+  return parseResponse(
+    z.array(todayTaskResponseSchema),
+    response,
+    'GET /farmer/cultivation-tasks/outstanding-tasks',
+  );
 };
 
 export const getCultivationTaskDetail = async (
@@ -88,7 +111,11 @@ export const getCultivationTaskDetail = async (
     `/farmer/cultivation-tasks/${cultivationTaskId}`,
   );
 
-  return response as unknown as CultivationTaskDetailResponse;
+  return parseResponse(
+    cultivationTaskDetailResponseSchema,
+    response,
+    'GET /farmer/cultivation-tasks/{id}',
+  );
 };
 
 type GetFarmLogsByCultivationParams = {
@@ -113,12 +140,17 @@ export const getFarmLogsByCultivation = async ({
     },
   );
 
-  return response as unknown as PagedResult<FarmLogDetailResponse[]>;
+  return parseResponse(
+    pagedResultSchema(z.array(farmLogDetailResponseSchema)),
+    response,
+    'GET /Farmlog/farm-logs/by-cultivation',
+  );
 };
 
 export const createFarmLog = async (
   request: CreateFarmLogRequest,
   images: { uri: string; type: string; name: string }[],
+  options?: UploadOptions,
 ): Promise<string> => {
   const formData = new FormData();
 
@@ -130,12 +162,15 @@ export const createFarmLog = async (
   if (request.workDescription) {
     formData.append('WorkDescription', request.workDescription);
   }
-  if (request.actualAreaCovered !== undefined && request.actualAreaCovered !== null) {
+  if (request.actualAreaCovered) {
     formData.append('ActualAreaCovered', request.actualAreaCovered.toString());
   }
-  if (request.serviceCost !== undefined && request.serviceCost !== null) {
+  if (request.serviceCost) {
     formData.append('ServiceCost', request.serviceCost.toString());
   }
+  if (request.laborCost) {
+    formData.append('LaborCost', request.laborCost.toString());
+  }
   if (request.serviceNotes) {
     formData.append('ServiceNotes', request.serviceNotes);
   }
@@ -149,32 +184,23 @@ export const createFarmLog = async (
     formData.append('FarmerId', request.farmerId);
   }
 
-  // Add images
-  images.forEach((image) => {
-    const uri = Platform.OS === 'android' ? image.uri.replace('file://', '') : image.uri;
+  // Materials are sent as a single JSON field
+  if (request.materials && request.materials.length > 0) {
+    formData.append('Materials', JSON.stringify(request.materials));
+  }
+
+  // Add images, downscaled for upload
+  const proofImages = await prepareImages(images, 'proof');
+  proofImages.forEach((image, index) => {
     formData.append('ProofImages', {
-      uri,
-      type: image.type,
-      name: image.name,
+      uri: image.uri,
+      type: image.type || 'image/jpeg',
+      name: image.name || `proof_${index}.jpg`,
     } as any);
   });
 
-  // Add materials
-  if (request.materials && request.materials.length > 0) {
-    request.materials.forEach((material, index) => {
-      formData.append(`Materials[${index}].MaterialId`, material.materialId);
-      formData.append(
-        `Materials[${index}].ActualQuantityUsed`,
-        material.actualQuantityUsed.toString(),
-      );
-      if (material.notes) {
-        formData.append(`Materials[${index}].Notes`, material.notes);
-      }
-    });
-  }
-
-  // Axios will automatically set Content-Type with boundary for FormData
-  const response = await api.post<string>('/Farmlog/farm-logs', formData);
+  // Use the XHR upload path - Axios FormData uploads are unreliable on Android
+  const response = await uploadFile('/Farmer/create-farm-log', formData, options);
 
   return response as unknown as string;
 };
@@ -182,6 +208,7 @@ export const createFarmLog = async (
 export const createEmergencyReport = async (
   request: CreateEmergencyReportRequest,
   images: { uri: string; type: string; name: string }[],
+  options?: UploadOptions,
 ): Promise<string> => {
   const formData = new FormData();
 
@@ -198,43 +225,29 @@ export const createEmergencyReport = async (
 
   // Add required fields
   formData.append('AlertType', request.alertType);
-  formData.append('Title', request.title);
-  formData.append('Description', request.description);
+  formData.append('Title', request.title.trim());
+  formData.append('Description', request.description.trim());
   formData.append('Severity', request.severity);
 
-  // Add AI detection results if available (flatten the structure for FormData)
+  // AI detection results are sent as a single JSON field
   if (request.aiDetectionResult) {
-    formData.append('AiDetectionResult.HasPest', String(request.aiDetectionResult.hasPest));
-    formData.append('AiDetectionResult.TotalDetections', String(request.aiDetectionResult.totalDetections));
-    formData.append('AiDetectionResult.AverageConfidence', String(request.aiDetectionResult.averageConfidence));
-    
-    if (request.aiDetectionResult.imageInfo) {
-      formData.append('AiDetectionResult.ImageInfo.Width', String(request.aiDetectionResult.imageInfo.width));
-      formData.append('AiDetectionResult.ImageInfo.Height', String(request.aiDetectionResult.imageInfo.height));
-    }
-    
-    // Add detected pests as JSON string (FormData limitation)
-    request.aiDetectionResult.detectedPests.forEach((pest, index) => {
-      formData.append(`AiDetectionResult.DetectedPests[${index}].PestName`, pest.pestName);
-      formData.append(`AiDetectionResult.DetectedPests[${index}].Confidence`, String(pest.confidence));
-      formData.append(`AiDetectionResult.DetectedPests[${index}].ConfidenceLevel`, pest.confidenceLevel);
-    });
+    formData.append('AiDetectionResult', JSON.stringify(request.aiDetectionResult));
   }
 
-  // Add images
-  for (const image of images) {
+  // Add images, downscaled for upload
+  for (const image of await prepareImages(images, 'proof')) {
+    const fileName = image.name || image.uri.split('/').pop() || `report_${Date.now()}.jpg`;
+    const fileType = fileName.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+
     formData.append('Images', {
       uri: image.uri,
-      type: image.type,
-      name: image.name,
+      type: fileType,
+      name: fileName,
     } as any);
   }
 
-  // Use the correct endpoint: /Farmer/create-report
-  const response = await api.post<string>('/Farmer/create-report', formData, {
-    timeout: 120000,
-  });
-  
+  const response = await uploadFile('/Farmer/create-report', formData, options);
+
   return response as unknown as string;
 };
 
@@ -242,22 +255,34 @@ export const detectPestInImage = async (
   imageFile: { uri: string; type: string; name: string },
 ): Promise<PestDetectionResponse> => {
   const formData = new FormData();
+  // Keep enough resolution for the model while still trimming camera originals
+  const image = await prepareImage(imageFile, 'detection');
 
   // Backend expects 'files' (IFormFileCollection)
   formData.append('files', {
-    uri: imageFile.uri,
-    type: imageFile.type,
-    name: imageFile.name,
+    uri: image.uri,
+    type: image.type,
+    name: image.name,
   } as any);
 
-  // AI image analysis can take 2+ minutes, so we need a longer timeout
-  const response = await api.post<PestDetectionResponse[]>('/rice/check-pest', formData, {
+  // XHR upload, since axios FormData uploads fail with "Network Error" on Android.
+  // AI image analysis can take 2+ minutes, so we need a longer timeout, and a
+  // timed-out analysis is not worth starting over automatically
+  const response = await uploadFile('/rice/check-pest', formData, {
     timeout: 240000, // 4 minutes timeout for AI processing
+    retries: 0,
   });
 
+  // The upload path returns the raw body, with or without the Result<T> wrapper
+  const body = Array.isArray(response) ? response : (response as { data?: unknown })?.data;
+
   // Backend returns an array of results, we take the first one
-  const results = response as unknown as PestDetectionResponse[];
-  
+  const results = parseResponse(
+    z.array(pestDetectionResponseSchema),
+    body,
+    'POST /rice/check-pest',
+  );
+
   if (!results || results.length === 0) {
     throw new Error('No pest detection results returned from the server');
   }
@@ -265,19 +290,74 @@ export const detectPestInImage = async (
   return results[0];
 };
 
-export const startTask = async (request: StartTaskRequest): Promise<StartTaskResponse> => {
-  const response = await api.post<StartTaskResponse>('/farmer/cultivation-tasks/start', {
-    cultivationTaskId: request.cultivationTaskId,
-    weatherConditions: request.weatherConditions || null,
-    notes: request.notes || null,
-  });
+export const startTask = async (
+  request: StartTaskRequest,
+  { idempotencyKey }: IdempotencyOptions = {},
+): Promise<StartTaskResponse> => {
+  const response = await api.post<StartTaskResponse>(
+    '/farmer/cultivation-tasks/start',
+    {
+      cultivationTaskId: request.cultivationTaskId,
+      weatherConditions: request.weatherConditions || null,
+      notes: request.notes || null,
+    },
+    { headers: idempotencyHeaders(idempotencyKey) },
+  );
 
-  return response as unknown as StartTaskResponse;
+  return parseResponse(startTaskResponseSchema, response, 'POST /farmer/cultivation-tasks/start');
 };
 
 export const getFarmerProfile = async (): Promise<FarmerProfileResponse> => {
   const response = await api.get<FarmerProfileResponse>('/Farmer/profile');
 
-  return response as unknown as FarmerProfileResponse;
+  return parseResponse(farmerProfileResponseSchema, response, 'GET /Farmer/profile');
 };
 
+export type FarmerAlertFilters = {
+  type?: Alert['type'];
+  severity?: Alert['severity'];
+  plotId?: string;
+  // Acknowledged alerts are hidden unless asked for
+  includeAcknowledged?: boolean;
+};
+
+export const getFarmerAlerts = async ({
+  type,
+  severity,
+  plotId,
+  includeAcknowledged,
+}: FarmerAlertFilters = {}): Promise<Alert[]> => {
+  const response = await api.get<Alert[]>('/Farmer/alerts', {
+    params: {
+      Type: type,
+      Severity: severity,
+      PlotId: plotId,
+      IncludeAcknowledged: includeAcknowledged,
+    },
+  });
+
+  return parseResponse(z.array(alertSchema), response, 'GET /Farmer/alerts');
+};
+
+// Acknowledging twice keeps the first acknowledgement time
+export const acknowledgeAlert = async (alertId: string): Promise<Alert> => {
+  const response = await api.post<Alert>(`/Farmer/alerts/${alertId}/acknowledge`);
+
+  return parseResponse(alertSchema, response, 'POST /Farmer/alerts/{id}/acknowledge');
+};
+
+/**
+ * Adds the alert's recommended treatment to the plot's plan as a contingency task.
+ * An alert gets one task; asking again returns it so the farm log can be opened pre-filled.
+ */
+export const createTaskFromAlert = async (alertId: string): Promise<TodayTaskResponse> => {
+  const response = await api.post<TodayTaskResponse>(`/Farmer/alerts/${alertId}/create-task`);
+
+  return parseResponse(todayTaskResponseSchema, response, 'POST /Farmer/alerts/{id}/create-task');
+};
+
+export const getFarmActivities = async (): Promise<FarmActivity[]> => {
+  const response = await api.get<FarmActivity[]>('/Farmer/activities');
+
+  return parseResponse(z.array(farmActivitySchema), response, 'GET /Farmer/activities');
+};
@@ -0,0 +1,90 @@
+/**
+ * Harvest Recording
+ * Yield at standard moisture from the weighed wet paddy, and the upload that
+ * records the harvest and closes the cultivation
+ */
+
+import { z } from 'zod';
+
+import { uploadFile, UploadOptions } from './api-client';
+import { prepareImages } from './image-preparation';
+import { RecordHarvestRequest } from '@/types/api';
+
+// Paddy is traded and reported at 14% moisture
+export const STANDARD_MOISTURE_PERCENT = 14;
+
+/**
+ * Weight the wet paddy would have at standard moisture: the dry matter stays,
+ * only the water content changes
+ */
+export const toStandardMoistureWeight = (wetWeightKg: number, moisturePercent: number) =>
+  (wetWeightKg * (100 - moisturePercent)) / (100 - STANDARD_MOISTURE_PERCENT);
+
+export const dryYieldPerHa = (wetWeightKg: number, moisturePercent: number, areaHa: number) =>
+  areaHa > 0 ? toStandardMoistureWeight(wetWeightKg, moisturePercent) / areaHa : 0;
+
+// Form fields are typed text, so numbers arrive as strings with either decimal separator
+const decimalField = (message: string) =>
+  z
+    .string()
+    .trim()
+    .transform((value) => Number(value.replace(',', '.')))
+    .refine((value) => Number.isFinite(value) && value > 0, message);
+
+export const harvestInputSchema = z
+  .object({
+    harvestDate: z.string().min(1, 'Vui lòng chọn ngày thu hoạch'),
+    harvestedArea: decimalField('Diện tích thu hoạch phải lớn hơn 0'),
+    wetWeightKg: decimalField('Sản lượng lúa tươi phải lớn hơn 0'),
+    moisturePercent: decimalField('Độ ẩm không hợp lệ').refine(
+      (value) => value < 40,
+      'Độ ẩm phải nhỏ hơn 40%',
+    ),
+    buyerName: z.string().trim(),
+    salePricePerKg: decimalField('Giá bán phải lớn hơn 0'),
+    notes: z.string().trim(),
+  })
+  .transform((input) => ({
+    ...input,
+    dryYieldPerHa: Math.round(
+      dryYieldPerHa(input.wetWeightKg, input.moisturePercent, input.harvestedArea),
+    ),
+  }));
+
+export type HarvestFormValues = z.input<typeof harvestInputSchema>;
+export type HarvestInput = z.output<typeof harvestInputSchema>;
+
+export const recordHarvest = async (
+  request: RecordHarvestRequest,
+  images: { uri: string; type: string; name: string }[],
+  options?: UploadOptions,
+): Promise<string> => {
+  const formData = new FormData();
+
+  formData.append('PlotCultivationId', request.plotCultivationId);
+  formData.append('HarvestDate', request.harvestDate);
+  formData.append('HarvestedArea', request.harvestedArea.toString());
+  formData.append('WetWeightKg', request.wetWeightKg.toString());
+  formData.append('MoisturePercent', request.moisturePercent.toString());
+  formData.append('DryYieldPerHa', request.dryYieldPerHa.toString());
+  formData.append('SalePricePerKg', request.salePricePerKg.toString());
+  if (request.buyerName) {
+    formData.append('BuyerName', request.buyerName);
+  }
+  if (request.notes) {
+    formData.append('Notes', request.notes);
+  }
+
+  const photos = await prepareImages(images, 'proof');
+  photos.forEach((image, index) => {
+    formData.append('HarvestImages', {
+      uri: image.uri,
+      type: image.type || 'image/jpeg',
+      name: image.name || `harvest_${index}.jpg`,
+    } as any);
+  });
+
+  const response = await uploadFile('/Farmer/record-harvest', formData, options);
+
+  return response as unknown as string;
+};
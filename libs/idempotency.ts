@@ -0,0 +1,105 @@
+/**
+ * Idempotency Keys
+ * Every logical submission (farm log, report, task start, ...) carries a
+ * client-generated key so the backend can drop repeats caused by double taps,
+ * upload retries or outbox replays after a lost response
+ */
+
+import { useMemo, useRef } from 'react';
+
+import { toApiError } from './api-error';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Error code the backend sends with the 409 for a key it has already processed
+export const DUPLICATE_SUBMISSION_CODE = 'DuplicateRequest';
+
+export type IdempotencyOptions = {
+  // Reused across every attempt of the same submission
+  idempotencyKey?: string;
+};
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Random RFC 4122 version 4 UUID
+ */
+export const createIdempotencyKey = () => {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const idempotencyHeaders = (key?: string): Record<string, string> =>
+  key ? { [IDEMPOTENCY_HEADER]: key } : {};
+
+/**
+ * The backend answers 409 Conflict with the duplicate code when a key it has already
+ * processed comes back, meaning an earlier attempt went through. Other conflicts
+ * (a task completed by someone else, a state change that's no longer allowed) are
+ * real rejections.
+ */
+export const isDuplicateSubmission = (error: unknown) => {
+  const apiError = toApiError(error);
+  return apiError.status === 409 && apiError.code === DUPLICATE_SUBMISSION_CODE;
+};
+
+/**
+ * Treat a duplicate submission as success; resolves with null since the
+ * server does not repeat the original response
+ */
+export const ignoreDuplicate = async <T>(request: Promise<T>): Promise<T | null> => {
+  try {
+    return await request;
+  } catch (error) {
+    if (isDuplicateSubmission(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Key for the submission a form is about to make.
+ * The same key is handed out until the submission settles, so a double tap or a
+ * resubmit after a dropped connection is recognised as the same request.
+ */
+export const useSubmissionKey = () => {
+  const keyRef = useRef<string | null>(null);
+
+  return useMemo(
+    () => ({
+      get: () => {
+        if (!keyRef.current) {
+          keyRef.current = createIdempotencyKey();
+        }
+        return keyRef.current;
+      },
+      // Call when the submission finished. A new key is only needed after success or
+      // a definite rejection - the server may still have an interrupted attempt.
+      settle: (error?: unknown) => {
+        if (!error) {
+          keyRef.current = null;
+          return;
+        }
+        const apiError = toApiError(error);
+        if (apiError.status !== null && !apiError.isRetryable) {
+          keyRef.current = null;
+        }
+      },
+    }),
+    [],
+  );
+};
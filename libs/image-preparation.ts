@@ -0,0 +1,88 @@
+/**
+ * Image Preparation
+ * Downscales and re-encodes photos before upload so proof photos don't burn
+ * mobile data, while pest detection still gets the resolution the model needs
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { createLogger } from './logger';
+
+const log = createLogger('IMAGE');
+
+export type ImageFile = {
+  uri: string;
+  type: string;
+  name: string;
+};
+
+export type ImageProfile = {
+  // Longest edge in pixels; smaller images are never upscaled
+  maxDimension: number;
+  // JPEG quality, 0..1
+  quality: number;
+};
+
+export const IMAGE_PROFILES = {
+  // Farm log, emergency report, harvest and UAV proof photos - only need to be legible to a reviewer
+  proof: { maxDimension: 1600, quality: 0.7 },
+  // Input for /rice/check-pest - small pests must survive the downscale. The model only
+  // reads pixels, so this profile drops EXIF too
+  detection: { maxDimension: 2560, quality: 0.9 },
+} satisfies Record<string, ImageProfile>;
+
+export type ImageProfileName = keyof typeof IMAGE_PROFILES;
+
+const toJpegName = (name: string) => `${name.replace(/\.[^./]+$/, '') || 'image'}.jpg`;
+
+/**
+ * Resize and re-encode one image as JPEG.
+ * Re-encoding applies the EXIF orientation to the pixels and drops the
+ * remaining metadata (GPS, device info), so nothing depends on the server
+ * honouring EXIF. Falls back to the original file if the image can't be processed.
+ */
+export const prepareImage = async (
+  file: ImageFile,
+  profile: ImageProfileName | ImageProfile = 'proof',
+): Promise<ImageFile> => {
+  const { maxDimension, quality } =
+    typeof profile === 'string' ? IMAGE_PROFILES[profile] : profile;
+
+  try {
+    const context = ImageManipulator.manipulate(file.uri);
+    const original = await context.renderAsync();
+    const longestEdge = Math.max(original.width, original.height);
+
+    let image = original;
+    if (longestEdge > maxDimension) {
+      context.resize(
+        original.width >= original.height ? { width: maxDimension } : { height: maxDimension },
+      );
+      image = await context.renderAsync();
+    }
+
+    const result = await image.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+
+    return {
+      uri: result.uri,
+      type: 'image/jpeg',
+      name: toJpegName(file.name || file.uri.split('/').pop() || 'image'),
+    };
+  } catch (error) {
+    log.warn('Could not prepare image, uploading original', error);
+    return file;
+  }
+};
+
+/**
+ * Prepare several images one after another to keep memory use flat on low-end phones
+ */
+export const prepareImages = async (
+  files: ImageFile[],
+  profile: ImageProfileName | ImageProfile = 'proof',
+): Promise<ImageFile[]> => {
+  const prepared: ImageFile[] = [];
+  for (const file of files) {
+    prepared.push(await prepareImage(file, profile));
+  }
+  return prepared;
+};
@@ -0,0 +1,224 @@
+/**
+ * Logger
+ * Levelled logging with redaction of sensitive fields. Entries are echoed to the
+ * console and kept in a bounded ring buffer that the diagnostics screen can show
+ * and export. The buffer is saved to storage so it survives the restart after a crash.
+ */
+
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { env } from '@/configs/env';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogEntry = {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  data?: unknown;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const isLogLevel = (value: string): value is LogLevel => value in LEVEL_ORDER;
+
+const minLevel: LogLevel = isLogLevel(env.LOG_LEVEL) ? env.LOG_LEVEL : 'info';
+
+const MAX_ENTRIES = 500;
+const MAX_DEPTH = 5;
+const LOG_STORAGE_KEY = 'log-entries';
+// Writes are batched; errors are saved right away since a crash may follow
+const SAVE_DELAY_MS = 2000;
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY = /token|password|secret|authorization|cookie|otp|^pin$/i;
+const PHONE_KEY = /phone/i;
+// OTP and reset codes are sent as `code` next to the phone number or email they verify
+const VERIFICATION_CODE_KEY = /^code$/i;
+const VERIFIED_CONTACT_KEY = /phone|email/i;
+// Vietnamese mobile numbers, with or without the +84 prefix
+const PHONE_PATTERN = /(?:\+84|\b84|\b0)\d{9,10}\b/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+
+/**
+ * Keep the first three and last two digits so support can still tell numbers apart
+ */
+const maskPhone = (phone: string) =>
+  phone.length <= 5 ? '***' : `${phone.slice(0, 3)}${'*'.repeat(phone.length - 5)}${phone.slice(-2)}`;
+
+const redactString = (value: string) =>
+  value.replace(BEARER_PATTERN, `Bearer ${REDACTED}`).replace(PHONE_PATTERN, maskPhone);
+
+const isFormData = (value: unknown): value is FormData =>
+  typeof FormData !== 'undefined' && value instanceof FormData;
+
+// Field names and string values only, files are never read
+const summariseFormData = (formData: FormData) => {
+  const fields: Record<string, unknown> = {};
+  // @ts-ignore - FormData has getParts on React Native
+  const parts: any[] | undefined = formData.getParts?.();
+
+  if (parts) {
+    parts.forEach((part) => {
+      fields[part.fieldName] = typeof part.string === 'string' ? part.string : '[file]';
+    });
+  } else if (typeof (formData as any).forEach === 'function') {
+    (formData as any).forEach((value: unknown, key: string) => {
+      fields[key] = typeof value === 'string' ? value : '[file]';
+    });
+  }
+
+  return fields;
+};
+
+/**
+ * Copy a value with tokens, passwords and phone numbers masked, safe to log or export
+ */
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    // ApiError also carries the status and endpoint, both useful to support
+    const { status, endpoint } = value as Error & { status?: unknown; endpoint?: unknown };
+    return { name: value.name, message: redactString(value.message), status, endpoint };
+  }
+  if (isFormData(value)) {
+    return redact(summariseFormData(value), depth + 1, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  const isVerification = Object.keys(value).some((key) => VERIFIED_CONTACT_KEY.test(key));
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    if (SENSITIVE_KEY.test(key) || (isVerification && VERIFICATION_CODE_KEY.test(key))) {
+      result[key] = item == null || item === '' ? item : REDACTED;
+    } else if (PHONE_KEY.test(key) && typeof item === 'string') {
+      result[key] = maskPhone(item);
+    } else {
+      result[key] = redact(item, depth + 1, seen);
+    }
+  });
+  return result;
+};
+
+let entries: LogEntry[] = [];
+let nextId = 1;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let restorePromise: Promise<void> | null = null;
+const listeners = new Set<(entries: LogEntry[]) => void>();
+
+const emit = () => listeners.forEach((listener) => listener(entries));
+
+const saveEntries = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  // Entries are already redacted; a failed write must not log (and loop)
+  AsyncStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(entries)).catch(() => undefined);
+};
+
+const scheduleSave = (immediate: boolean) => {
+  if (immediate) {
+    saveEntries();
+  } else if (!saveTimer) {
+    saveTimer = setTimeout(saveEntries, SAVE_DELAY_MS);
+  }
+};
+
+/**
+ * Put the entries saved by the previous run in front of this run's entries
+ */
+export const restoreLogEntries = () => {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(LOG_STORAGE_KEY);
+        const previous: LogEntry[] = stored ? JSON.parse(stored) : [];
+        // Ids restart every run, so this run's entries are renumbered after the saved ones
+        const lastId = previous.reduce((max, entry) => Math.max(max, entry.id), 0);
+        const current = entries.map((entry, index) => ({ ...entry, id: lastId + index + 1 }));
+        entries = [...previous, ...current].slice(-MAX_ENTRIES);
+        nextId = lastId + current.length + 1;
+        emit();
+      } catch (error) {
+        console.warn('[LOG] Could not restore saved log entries', error);
+      }
+    })();
+  }
+  return restorePromise;
+};
+
+const CONSOLE: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: console.log,
+  info: console.log,
+  warn: console.warn,
+  error: console.error,
+};
+
+const write = (level: LogLevel, scope: string, message: string, data?: unknown) => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    level,
+    scope,
+    message: redactString(message),
+    data: data === undefined ? undefined : redact(data),
+  };
+
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  emit();
+  scheduleSave(level === 'error');
+
+  const line = `[${scope}] ${entry.message}`;
+  if (entry.data === undefined) {
+    CONSOLE[level](line);
+  } else {
+    CONSOLE[level](line, entry.data);
+  }
+};
+
+export type Logger = Record<LogLevel, (message: string, data?: unknown) => void>;
+
+/**
+ * Create a logger whose entries are tagged with the given scope, e.g. createLogger('API')
+ */
+export const createLogger = (scope: string): Logger => ({
+  debug: (message, data) => write('debug', scope, message, data),
+  info: (message, data) => write('info', scope, message, data),
+  warn: (message, data) => write('warn', scope, message, data),
+  error: (message, data) => write('error', scope, message, data),
+});
+
+export const getLogEntries = () => entries;
+
+export const clearLogEntries = () => {
+  entries = [];
+  emit();
+  saveEntries();
+};
+
+export const useLogEntries = (): LogEntry[] => {
+  const [current, setCurrent] = useState<LogEntry[]>(entries);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(entries);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+};
@@ -1,23 +1,23 @@
 import MapboxGL from '@rnmapbox/maps';
-import Constants from 'expo-constants';
 
-const extra = Constants.expoConfig?.extra as any;
-const accessToken: string | undefined = extra?.mapboxAccessToken;
+import { env } from '@/configs/env';
+import { loadServerProfile } from './server-profile';
 
-// Only initialize if not already initialized (safe for hot reload)
-if (accessToken && typeof MapboxGL.setAccessToken === 'function') {
+// The token belongs to the active server profile, which libs/server-profile.ts applies
+// once the saved profile is loaded and again on every switch. Reading env.MAPBOX_TOKEN
+// here at import time would pick up the build default instead.
+loadServerProfile().then(() => {
+  if (!env.MAPBOX_TOKEN) {
+    console.warn(
+      '[Mapbox] Missing Mapbox token for the active server profile. Map view will not render correctly.',
+    );
+    return;
+  }
   try {
-    MapboxGL.setAccessToken(accessToken);
     MapboxGL.setConnected(true);
   } catch (error) {
     console.warn('[Mapbox] Initialization error:', error);
   }
-} else if (!accessToken) {
-  console.warn(
-    '[Mapbox] Missing mapboxAccessToken in app.json extra.mapboxAccessToken. Map view will not render correctly.',
-  );
-}
+});
 
 export default MapboxGL;
-
-
@@ -0,0 +1,959 @@
+/**
+ * Mock API
+ * Answers every backend endpoint from local fixtures (libs/mock-fixtures.ts)
+ * when EXPO_PUBLIC_MOCK_API=true, for demos, training and UI work without a backend.
+ * Latency and failure rate are tunable through EXPO_PUBLIC_MOCK_LATENCY_MS and
+ * EXPO_PUBLIC_MOCK_ERROR_RATE so loading and error states can be exercised too.
+ */
+
+import dayjs from 'dayjs';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { env } from '@/configs/env';
+import { alertTypeSchema, severitySchema } from '@/types/api';
+import type { FastLoginRole, LoginResponseData, UserRole } from '@/types/api';
+
+import { ApiError, parseErrorBody } from './api-error';
+import type { UploadOptions } from './api-client';
+import { DUPLICATE_SUBMISSION_CODE, IDEMPOTENCY_HEADER } from './idempotency';
+import { createLogger } from './logger';
+import type { PestReport } from '@/types/api';
+import {
+  buildTaskDetail,
+  countActiveAlerts,
+  createMockDatabase,
+  MOCK_USERS,
+  plotName,
+} from './mock-fixtures';
+
+const log = createLogger('MOCK');
+
+type MockRequest = {
+  method: string;
+  path: string;
+  // Route parameters (":plotId") merged with the query string
+  params: Record<string, string>;
+  body: any;
+  headers: Record<string, unknown>;
+};
+
+type MockResponse = {
+  status: number;
+  data: unknown;
+};
+
+type MockHandler = (request: MockRequest) => MockResponse;
+
+type MockRoute = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+};
+
+const db = createMockDatabase();
+
+const ok = (data: unknown): MockResponse => ({
+  status: 200,
+  data: { succeeded: true, data, message: null, errors: [] },
+});
+
+const fail = (status: number, message: string, errorCode?: string): MockResponse => ({
+  status,
+  data: { succeeded: false, data: null, message, errors: [message], errorCode },
+});
+
+// PagedResult<T> for list endpoints; accepts both CurrentPage/PageSize and pageNumber/pageSize
+const paged = <T>(items: T[], params: Record<string, string>): MockResponse => {
+  const pageSize = Math.max(1, Number(params.PageSize ?? params.pageSize ?? 20));
+  const currentPage = Math.max(1, Number(params.CurrentPage ?? params.pageNumber ?? 1));
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+
+  return {
+    status: 200,
+    data: {
+      succeeded: true,
+      data: items.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+      message: null,
+      errors: [],
+      currentPage,
+      totalPages,
+      pageSize,
+      totalCount: items.length,
+      hasPrevious: currentPage > 1,
+      hasNext: currentPage < totalPages,
+    },
+  };
+};
+
+const newId = () =>
+  'xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx'.replace(/x/g, () =>
+    Math.floor(Math.random() * 16).toString(16),
+  );
+
+// Text fields of a multipart body (React Native FormData exposes getParts, web has entries)
+const formFields = (formData: unknown): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  const data = formData as {
+    getParts?: () => { fieldName: string; string?: string }[];
+    entries?: () => Iterable<[string, unknown]>;
+  };
+
+  if (typeof data?.getParts === 'function') {
+    data.getParts().forEach((part) => {
+      if (typeof part.string === 'string') fields[part.fieldName] = part.string;
+    });
+  } else if (typeof data?.entries === 'function') {
+    for (const [key, value] of data.entries()) {
+      if (typeof value === 'string') fields[key] = value;
+    }
+  }
+  return fields;
+};
+
+const readBody = (data: unknown) => {
+  if (typeof data !== 'string') return data ?? {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+};
+
+// --- Auth ---
+
+const ROLE_HINTS: [string, UserRole][] = [
+  ['supervisor', 'Supervisor'],
+  ['uav', 'UavVendor'],
+  ['drone', 'UavVendor'],
+  ['cluster', 'ClusterManager'],
+  ['expert', 'AgronomyExpert'],
+  ['admin', 'Admin'],
+];
+
+// The only one-time code the mock accepts
+const MOCK_OTP_CODE = '123456';
+
+const FAST_LOGIN_ROLES: Record<FastLoginRole, UserRole> = {
+  Admin: 'Admin',
+  Supervisor: 'Supervisor',
+  Expert: 'AgronomyExpert',
+  Uav: 'UavVendor',
+  ClusterManager: 'ClusterManager',
+};
+
+// Any credentials work; the role comes from the login ("supervisor@..." signs in as a supervisor)
+const roleFromLogin = (login: string): UserRole =>
+  ROLE_HINTS.find(([hint]) => login.toLowerCase().includes(hint))?.[1] ?? 'Farmer';
+
+// Tokens carry the role so /Auth/me and refresh know who is signed in
+const roleFromToken = (token: unknown): UserRole | null => {
+  const role = String(token ?? '').replace(/^Bearer /, '').split('.')[1];
+  return role && role in MOCK_USERS ? (role as UserRole) : null;
+};
+
+const issueTokens = (role: UserRole): LoginResponseData => ({
+  accessToken: `mock-access.${role}.${Date.now()}`,
+  refreshToken: `mock-refresh.${role}.${Date.now()}`,
+  expiresAt: dayjs().add(1, 'hour').toISOString(),
+  user: MOCK_USERS[role],
+});
+
+const findInvite = (code: unknown) =>
+  db.farmerInvites.find((invite) => invite.inviteCode === String(code ?? '').toUpperCase());
+
+// --- Farmer helpers ---
+
+const findPlanTask = (taskId: string) => {
+  for (const seed of db.plotSeeds) {
+    for (const stage of db.planViews[seed.cultivationId].stages) {
+      const task = stage.tasks.find((item) => item.id === taskId);
+      if (task) return { seed, task };
+    }
+  }
+  return null;
+};
+
+const outstandingTasks = ({ PlotId, StatusFilter }: Record<string, string>) =>
+  db.plotSeeds
+    .filter((seed) => !PlotId || seed.plotId === PlotId)
+    .flatMap((seed) =>
+      db.planViews[seed.cultivationId].stages.flatMap((stage) =>
+        stage.tasks.map((task) => ({ seed, task })),
+      ),
+    )
+    .filter(({ task }) =>
+      StatusFilter ? task.status === StatusFilter : task.status !== 'Completed',
+    )
+    .map(({ seed, task }) => ({
+      cultivationTaskId: task.id,
+      plotCultivationId: seed.cultivationId,
+      taskName: task.taskName,
+      description: task.description,
+      taskType: task.taskType,
+      status: task.status,
+      scheduledDate: task.scheduledDate,
+      priority: task.priority,
+      isOverdue: task.status !== 'Completed' && dayjs(task.scheduledDate).isBefore(dayjs(), 'day'),
+      plotSoThuaSoTo: plotName(seed),
+      plotArea: seed.area,
+      estimatedMaterialCost: task.materials.reduce((sum, m) => sum + m.plannedEstimatedAmount, 0),
+      materials: task.materials.map((m) => ({
+        materialId: m.materialId,
+        materialName: m.materialName,
+        materialUnit: m.materialUnit,
+        plannedQuantityTotal: m.plannedQuantityPerHa * seed.area,
+        estimatedAmount: m.plannedEstimatedAmount,
+      })),
+    }));
+
+const farmerAlerts = ({ Type, Severity, PlotId, IncludeAcknowledged }: Record<string, string>) =>
+  db.farmerAlerts.filter(
+    (alert) =>
+      (!Type || alert.type === Type) &&
+      (!Severity || alert.severity === Severity) &&
+      (!PlotId || alert.fieldId === PlotId) &&
+      (IncludeAcknowledged === 'true' || !alert.acknowledgedAt),
+  );
+
+const acknowledgeAlert = (alertId: string): MockResponse => {
+  const alert = db.farmerAlerts.find((item) => item.id === alertId);
+  if (!alert) return fail(404, 'Alert not found');
+
+  alert.acknowledgedAt = alert.acknowledgedAt ?? dayjs().toISOString();
+  const plot = db.farmerPlots.find((item) => item.plotId === alert.fieldId);
+  if (plot) plot.activeAlerts = countActiveAlerts(db.farmerAlerts, plot.plotId);
+  return ok(alert);
+};
+
+// The treatment becomes a contingency task in the stage the plot is currently in
+const createTaskFromAlert = (alertId: string): MockResponse => {
+  const alert = db.farmerAlerts.find((item) => item.id === alertId);
+  if (!alert) return fail(404, 'Alert not found');
+  if (!alert.recommendedTreatment) return fail(400, 'Alert has no recommended treatment');
+
+  const seed = db.plotSeeds.find((item) => item.cultivationId === alert.plotCultivationId);
+  if (!seed) return fail(400, 'Alert is not linked to an active cultivation');
+
+  if (!alert.treatmentTaskId) {
+    const { stages } = db.planViews[seed.cultivationId];
+    const stage =
+      stages.find((item) => item.tasks.some((task) => task.status !== 'Completed')) ??
+      stages[stages.length - 1];
+    const taskId = newId();
+    stage.tasks.push({
+      id: taskId,
+      taskName: `Xử lý: ${alert.title}`,
+      description: alert.recommendedTreatment,
+      taskType: alert.type === 'pest' ? 'Spraying' : 'Other',
+      scheduledDate: dayjs().toISOString(),
+      status: 'Approved',
+      priority: alert.severity === 'high' || alert.severity === 'critical' ? 'High' : 'Normal',
+      isContingency: true,
+      actualMaterialCost: null,
+      materials: [],
+    });
+    alert.treatmentTaskId = taskId;
+  }
+
+  const task = outstandingTasks({ PlotId: seed.plotId }).find(
+    (item) => item.cultivationTaskId === alert.treatmentTaskId,
+  );
+  return task ? ok(task) : fail(400, 'The treatment task is already completed');
+};
+
+const createFarmLog = (fields: Record<string, string>): MockResponse => {
+  const found = findPlanTask(fields.CultivationTaskId);
+  if (!found) return fail(404, 'Cultivation task not found');
+
+  const { seed, task } = found;
+  const materials: { materialId: string; actualQuantityUsed: number }[] = fields.Materials
+    ? readBody(fields.Materials)
+    : [];
+
+  const materialsUsed = materials.flatMap((used) => {
+    const planned = task.materials.find((m) => m.materialId === used.materialId);
+    if (!planned) return [];
+    const unitPrice =
+      planned.plannedQuantityPerHa > 0
+        ? planned.plannedEstimatedAmount / (planned.plannedQuantityPerHa * seed.area)
+        : 0;
+    planned.actualQuantity = used.actualQuantityUsed;
+    planned.actualCost = Math.round(used.actualQuantityUsed * unitPrice);
+    return [
+      {
+        materialName: planned.materialName,
+        actualQuantityUsed: used.actualQuantityUsed,
+        actualCost: planned.actualCost,
+      },
+    ];
+  });
+
+  const farmLogId = newId();
+  db.farmLogs[seed.cultivationId].unshift({
+    farmLogId,
+    cultivationTaskId: task.id,
+    cultivationTaskName: task.taskName,
+    plotName: plotName(seed),
+    loggedDate: dayjs().toISOString(),
+    workDescription: fields.WorkDescription ?? null,
+    completionPercentage: 100,
+    actualAreaCovered: fields.ActualAreaCovered ? Number(fields.ActualAreaCovered) : seed.area,
+    serviceCost: fields.ServiceCost ? Number(fields.ServiceCost) : null,
+    laborCost: fields.LaborCost ? Number(fields.LaborCost) : null,
+    serviceNotes: fields.ServiceNotes ?? null,
+    photoUrls: [],
+    weatherConditions: fields.WeatherConditions ?? null,
+    materialsUsed,
+  });
+
+  task.status = 'Completed';
+  task.actualMaterialCost = materialsUsed.reduce((sum, m) => sum + m.actualCost, 0);
+
+  return ok(farmLogId);
+};
+
+// Recording the harvest closes the cultivation and its harvesting tasks
+const recordHarvest = (fields: Record<string, string>): MockResponse => {
+  const seed = db.plotSeeds.find((item) => item.cultivationId === fields.PlotCultivationId);
+  if (!seed) return fail(404, 'Cultivation not found');
+
+  const plan = db.cultivationPlans[seed.plotId].find(
+    (item) => item.plotCultivationId === seed.cultivationId,
+  );
+  if (!plan) return fail(404, 'Cultivation not found');
+  if (plan.status === 'Completed') return fail(400, 'The harvest was already recorded');
+
+  plan.status = 'Completed';
+  plan.harvestedAt = fields.HarvestDate;
+  plan.actualYield = Math.round(Number(fields.DryYieldPerHa) * Number(fields.HarvestedArea));
+  plan.salePricePerKg = Number(fields.SalePricePerKg);
+
+  const view = db.planViews[seed.cultivationId];
+  view.planStatus = 'Completed';
+  view.stages
+    .flatMap((stage) => stage.tasks)
+    .filter((task) => task.taskType === 'Harvesting')
+    .forEach((task) => {
+      task.status = 'Completed';
+    });
+
+  return ok(seed.cultivationId);
+};
+
+const createEmergencyReport = (fields: Record<string, string>): MockResponse => {
+  const seed = db.plotSeeds.find((item) => item.cultivationId === fields.PlotCultivationId);
+  const farmer = db.supervisedFarmers[0];
+  const reportId = newId();
+
+  db.supervisedAlerts.unshift({
+    id: reportId,
+    type: fields.AlertType === 'Weather' ? 'weather' : fields.AlertType === 'Disease' ? 'disease' : 'pest',
+    priority: fields.Severity === 'Critical' ? 'critical' : fields.Severity === 'High' ? 'high' : 'normal',
+    farmerId: farmer.id,
+    farmerName: `${farmer.firstName} ${farmer.lastName}`,
+    plotId: seed?.plotId ?? '',
+    plotName: seed ? plotName(seed) : '',
+    title: fields.Title ?? '',
+    description: fields.Description ?? '',
+    date: dayjs().toISOString(),
+    status: 'unread',
+  });
+
+  // Every report also lands in the agronomy expert's review queue
+  db.pestReports.unshift({
+    id: reportId,
+    plotId: seed?.plotId ?? null,
+    plotName: seed ? plotName(seed) : null,
+    farmerName: `${farmer.firstName} ${farmer.lastName}`,
+    groupName: db.clusterGroups[0].groupName,
+    alertType: alertTypeSchema.catch('Other').parse(fields.AlertType),
+    severity: severitySchema.catch('Medium').parse(fields.Severity),
+    title: fields.Title ?? '',
+    description: fields.Description ?? '',
+    imageUrls: [],
+    aiDetectionResult: null,
+    status: 'Pending',
+    reportedAt: dayjs().toISOString(),
+  });
+
+  return ok(reportId);
+};
+
+// --- UAV helpers ---
+
+const reportUavCompletion = (
+  orderId: string,
+  plotId: string,
+  fields: Record<string, string>,
+): MockResponse => {
+  const order = db.uavOrders.find((item) => item.orderId === orderId);
+  const assignment = order?.plotAssignments.find((item) => item.plotId === plotId);
+  if (!order || !assignment) return fail(404, 'Order or plot not found');
+
+  assignment.status = 'Completed';
+  assignment.actualCost = Number(fields.ActualCost ?? 0);
+  assignment.completionDate = dayjs().toISOString();
+  assignment.reportNotes = fields.Notes ?? null;
+
+  const completed = order.plotAssignments.filter((item) => item.status === 'Completed');
+  order.actualCost = completed.reduce((sum, item) => sum + (item.actualCost ?? 0), 0);
+  order.completionPercentage = Math.round((completed.length / order.plotAssignments.length) * 100);
+  if (order.completionPercentage === 100) {
+    order.status = 'Completed';
+    order.completedAt = dayjs().toISOString();
+  }
+
+  return ok(orderId);
+};
+
+// --- Supervisor helpers ---
+
+// Rough area of a WKT polygon in hectares (equirectangular projection, fine at plot scale)
+const polygonAreaHa = (wkt: string) => {
+  const points = (wkt.match(/-?\d+(\.\d+)?\s+-?\d+(\.\d+)?/g) ?? []).map((pair) =>
+    pair.trim().split(/\s+/).map(Number),
+  );
+  if (points.length < 3) return 0;
+
+  const latScale = 110540;
+  const lngScale = 111320 * Math.cos((points[0][1] * Math.PI) / 180);
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * lngScale * (y2 * latScale) - x2 * lngScale * (y1 * latScale);
+  }
+  return Math.abs(sum) / 2 / 10000;
+};
+
+const planArea = ({ plotId, area }: { plotId?: string; area?: number }) =>
+  area ?? db.plots.find((plot) => plot.plotId === plotId)?.area ?? 1;
+
+const materialCostItems = (area: number) =>
+  db.standardPlanMaterials.map(({ material, quantityPerHa, packageSize }) => {
+    const totalQuantityNeeded = quantityPerHa * area;
+    const packagesNeeded = Math.ceil(totalQuantityNeeded / packageSize);
+    const totalCost = packagesNeeded * packageSize * material.price;
+    return {
+      materialId: material.id,
+      materialName: material.name,
+      unit: material.unit,
+      quantityPerHa,
+      totalQuantityNeeded,
+      amountPerMaterial: packageSize,
+      packagesNeeded,
+      actualQuantity: packagesNeeded * packageSize,
+      pricePerMaterial: material.price,
+      totalCost,
+      costPerHa: Math.round(totalCost / area),
+    };
+  });
+
+const byStatus = <T extends { status: string }>(items: T[], status?: string) =>
+  !status || status === 'all' ? items : items.filter((item) => item.status === status);
+
+// --- Cluster manager and expert helpers ---
+
+const clusterOverview = () => {
+  const sum = (pick: (group: (typeof db.clusterGroups)[number]) => number) =>
+    db.clusterGroups.reduce((total, group) => total + pick(group), 0);
+  return {
+    clusterId: 'cl000000-0000-4000-8000-000000000001',
+    clusterName: 'Cụm Tân Hồng',
+    totalGroups: db.clusterGroups.length,
+    totalSupervisors: db.clusterSupervisors.length,
+    totalFarmers: sum((group) => group.farmerCount),
+    totalPlots: sum((group) => group.plotCount),
+    totalArea: Math.round(sum((group) => group.totalArea) * 10) / 10,
+    openAlerts: db.pestReports.filter((report) => report.status === 'Pending').length,
+    plotStatus: {
+      active: sum((group) => group.plotStatus.active),
+      inactive: sum((group) => group.plotStatus.inactive),
+      emergency: sum((group) => group.plotStatus.emergency),
+      locked: sum((group) => group.plotStatus.locked),
+    },
+  };
+};
+
+// Pending reports first, oldest first, so nothing waits at the bottom of the queue
+const reviewQueueOrder = (a: PestReport, b: PestReport) => {
+  const aPending = a.status === 'Pending';
+  const bPending = b.status === 'Pending';
+  if (aPending !== bPending) return aPending ? -1 : 1;
+  const age = dayjs(a.reportedAt).valueOf() - dayjs(b.reportedAt).valueOf();
+  return aPending ? age : -age;
+};
+
+const reviewPestReport = (reportId: string, body: Record<string, string>): MockResponse => {
+  const report = db.pestReports.find((item) => item.id === reportId);
+  if (!report) return fail(404, 'Report not found');
+  if (report.status !== 'Pending') return fail(409, 'Report has already been reviewed');
+  report.status = body.decision === 'Dismiss' ? 'Dismissed' : 'Confirmed';
+  report.reviewedAt = dayjs().toISOString();
+  report.recommendedTreatment = body.recommendedTreatment || null;
+  report.expertNotes = body.notes || null;
+  return ok(null);
+};
+
+const supervisorLists = {
+  tasks: db.supervisedTasks,
+  'farm-logs': db.supervisedFarmLogs,
+};
+
+// The signed-in device shows up as the current session
+const signIn = (role: UserRole, body: Record<string, unknown>) => {
+  db.authSessions = db.authSessions.map((session) =>
+    session.isCurrent
+      ? {
+          ...session,
+          deviceName: typeof body.deviceName === 'string' ? body.deviceName : session.deviceName,
+          platform: typeof body.platform === 'string' ? body.platform : session.platform,
+          lastSeenAt: dayjs().toISOString(),
+        }
+      : session,
+  );
+  return ok(issueTokens(role));
+};
+
+const ROUTES: [string, string, MockHandler][] = [
+  // Auth
+  ['POST', '/Auth/login', ({ body }) =>
+    signIn(roleFromLogin(String(body.email || body.phoneNumber || '')), body)],
+  ['GET', '/Auth/login-fast', ({ params }) =>
+    ok(issueTokens(FAST_LOGIN_ROLES[params.role as FastLoginRole] ?? 'Farmer'))],
+  ['POST', '/Auth/refresh-token', ({ body }) => {
+    const role = roleFromToken(body.refreshToken);
+    return role ? ok(issueTokens(role)) : fail(401, 'Invalid refresh token');
+  }],
+  ['GET', '/Auth/me', ({ headers }) => {
+    const role = roleFromToken(headers.Authorization);
+    if (!role) return fail(401, 'Unauthorized');
+    const user = MOCK_USERS[role];
+    const [firstName, ...rest] = user.userName.split(' ');
+    return ok({
+      id: user.id,
+      createdAt: Date.now(),
+      firstName,
+      lastName: rest.join(' '),
+      email: user.email,
+      role,
+      teamId: '',
+      bio: '',
+    });
+  }],
+  ['POST', '/Auth/logout', () => ok(null)],
+  ['POST', '/Auth/otp/request', () =>
+    ok({ expiresInSeconds: 300, resendAfterSeconds: 60, maxAttempts: 5 })],
+  ['POST', '/Auth/otp/login', ({ body }) =>
+    body.code === MOCK_OTP_CODE ? signIn('Farmer', body) : fail(400, 'Invalid code')],
+  ['POST', '/Auth/verify-phone', ({ body }) => {
+    if (body.code !== MOCK_OTP_CODE) return fail(400, 'Invalid code');
+    db.farmerProfile.isVerified = true;
+    return ok(null);
+  }],
+  ['POST', '/Auth/password-reset/verify', ({ body }) =>
+    body.code === MOCK_OTP_CODE
+      ? ok({ resetToken: `mock-reset.${Date.now()}`, expiresAt: dayjs().add(15, 'minute').toISOString() })
+      : fail(400, 'Invalid code')],
+  ['POST', '/Auth/password-reset/complete', ({ body }) =>
+    String(body.resetToken).startsWith('mock-reset.') ? ok(null) : fail(400, 'Reset token expired')],
+  // Any current password is accepted; this device gets fresh tokens
+  ['POST', '/Auth/change-password', ({ headers }) => {
+    const role = roleFromToken(headers.Authorization);
+    return role ? ok(issueTokens(role)) : fail(401, 'Unauthorized');
+  }],
+  ['GET', '/Auth/sessions', ({ headers }) =>
+    roleFromToken(headers.Authorization) ? ok(db.authSessions) : fail(401, 'Unauthorized')],
+  ['DELETE', '/Auth/sessions/:sessionId', ({ params }) => {
+    const session = db.authSessions.find((item) => item.id === params.sessionId);
+    if (!session) return fail(404, 'Session not found');
+    if (session.isCurrent) return fail(400, 'Use logout to end the current session');
+    db.authSessions = db.authSessions.filter((item) => item.id !== session.id);
+    return ok(null);
+  }],
+  ['POST', '/Auth/sessions/revoke-others', () => {
+    db.authSessions = db.authSessions.filter((item) => item.isCurrent);
+    return ok(null);
+  }],
+  ['GET', '/Auth/invites/:code', ({ params }) => {
+    const invite = findInvite(params.code);
+    return invite ? ok(invite) : fail(404, 'Invite code not found or expired');
+  }],
+  ['POST', '/Auth/register-farmer', ({ body }) => {
+    const invite = findInvite(body.inviteCode);
+    if (!invite || invite.groupId !== body.groupId) return fail(400, 'Invalid invite code');
+    return signIn('Farmer', body);
+  }],
+
+  // Farmer
+  ['GET', '/Plot/get-current-farmer-plots', () => ok(db.farmerPlots)],
+  ['GET', '/cultivation-plan/by-plot/:plotId', ({ params }) =>
+    paged(db.cultivationPlans[params.plotId] ?? [], params)],
+  ['GET', '/cultivation-plan/plan-view/:id', ({ params }) =>
+    db.planViews[params.id] ? ok(db.planViews[params.id]) : fail(404, 'Plan not found')],
+  ['GET', '/farmer/cultivation-tasks/outstanding-tasks', ({ params }) =>
+    ok(outstandingTasks(params))],
+  ['POST', '/farmer/cultivation-tasks/start', ({ body }) => {
+    const found = findPlanTask(body.cultivationTaskId);
+    if (!found) return fail(404, 'Cultivation task not found');
+    found.task.status = 'InProgress';
+    return ok({ succeeded: true, data: found.task.id, message: 'Task started', errors: [] });
+  }],
+  ['GET', '/farmer/cultivation-tasks/:id', ({ params }) => {
+    const detail = buildTaskDetail(db, params.id);
+    return detail ? ok(detail) : fail(404, 'Cultivation task not found');
+  }],
+  ['GET', '/Farmlog/farm-logs/by-cultivation', ({ params }) =>
+    paged(db.farmLogs[params.PlotCultivationId] ?? [], params)],
+  ['POST', '/Farmer/create-farm-log', ({ body }) => createFarmLog(formFields(body))],
+  ['POST', '/Farmer/create-report', ({ body }) => createEmergencyReport(formFields(body))],
+  ['POST', '/Farmer/record-harvest', ({ body }) => recordHarvest(formFields(body))],
+  ['POST', '/rice/check-pest', () => ok([db.pestDetection])],
+  ['GET', '/Farmer/profile', () => ok(db.farmerProfile)],
+  ['GET', '/Farmer/alerts', ({ params }) => ok(farmerAlerts(params))],
+  ['POST', '/Farmer/alerts/:alertId/acknowledge', ({ params }) => acknowledgeAlert(params.alertId)],
+  ['POST', '/Farmer/alerts/:alertId/create-task', ({ params }) => createTaskFromAlert(params.alertId)],
+  ['GET', '/Farmer/activities', () => ok(db.farmActivities)],
+
+  // UAV
+  ['GET', '/uav/orders', ({ params }) =>
+    paged(
+      db.uavOrders
+        .filter((order) => !params.StatusFilter || order.status === params.StatusFilter)
+        .map(({ plotAssignments, materials, optimizedRouteJson, ...order }) => order),
+      params,
+    )],
+  ['GET', '/uav/orders/:orderId', ({ params }) => {
+    const order = db.uavOrders.find((item) => item.orderId === params.orderId);
+    return order ? ok(order) : fail(404, 'Order not found');
+  }],
+  ['POST', '/uav/orders/:orderId/plots/:plotId/report', ({ params, body }) =>
+    reportUavCompletion(params.orderId, params.plotId, formFields(body))],
+
+  // Supervisor
+  ['GET', '/supervisor/:supervisorId/farmers', ({ params }) =>
+    paged(byStatus(db.supervisedFarmers, params.StatusFilter), params)],
+  ['GET', '/supervisor/:supervisorId/tasks', ({ params }) =>
+    paged(byStatus(db.supervisedTasks, params.Status), params)],
+  ['GET', '/supervisor/:supervisorId/farm-logs', ({ params }) =>
+    paged(byStatus(db.supervisedFarmLogs, params.Status), params)],
+  ['GET', '/supervisor/:supervisorId/alerts', ({ params }) =>
+    paged(
+      db.supervisedAlerts.filter(
+        (alert) =>
+          (!params.Priority || params.Priority === 'all' || alert.priority === params.Priority) &&
+          (!params.Type || params.Type === 'all' || alert.type === params.Type),
+      ),
+      params,
+    )],
+  ['GET', '/supervisor/:supervisorId/plots', () => ok(db.plots)],
+  ['GET', '/Supervisor/polygon-tasks', ({ params }) =>
+    ok(db.polygonTasks.filter((task) => !params.status || task.status === params.status))],
+  ['POST', '/Supervisor/polygon/validate-area', ({ body }) => {
+    const plotAreaHa = planArea({ plotId: body.plotId });
+    const drawnAreaHa = Math.round(polygonAreaHa(String(body.polygonGeoJson ?? '')) * 100) / 100;
+    const tolerancePercent = Number(body.tolerancePercent ?? 10);
+    const differencePercent =
+      Math.round((Math.abs(drawnAreaHa - plotAreaHa) / plotAreaHa) * 1000) / 10;
+    const isValid = differencePercent <= tolerancePercent;
+    return ok({
+      isValid,
+      drawnAreaHa,
+      plotAreaHa,
+      differencePercent,
+      tolerancePercent,
+      message: isValid
+        ? 'Polygon area is within tolerance'
+        : `Drawn area differs from the registered area by ${differencePercent}%`,
+    });
+  }],
+  ['POST', '/Supervisor/polygon/:taskId/complete', ({ params, body }) => {
+    const task = db.polygonTasks.find((item) => item.id === params.taskId);
+    if (!task) return fail(404, 'Polygon task not found');
+    task.status = 'Completed';
+    task.completedAt = dayjs().toISOString();
+    const plot = db.plots.find((item) => item.plotId === task.plotId);
+    if (plot) plot.boundaryGeoJson = body.polygonGeoJson;
+    return ok(null);
+  }],
+  ['POST', '/supervisor/:supervisorId/:list/:itemId/:decision', ({ params }) => {
+    const items: { id: string; status: string }[] | undefined =
+      supervisorLists[params.list as keyof typeof supervisorLists];
+    const item = items?.find((entry) => entry.id === params.itemId);
+    if (!item || !['approve', 'reject'].includes(params.decision)) {
+      return fail(404, 'Not found');
+    }
+    if (params.list === 'tasks') {
+      item.status = params.decision === 'approve' ? 'completed' : 'in-progress';
+    } else {
+      item.status = params.decision === 'approve' ? 'approved' : 'rejected';
+    }
+    return ok(null);
+  }],
+  ['GET', '/Plot', ({ params }) => paged(db.plots, params)],
+  ['PUT', '/Plot', ({ body }) => {
+    const plot = db.plots.find((item) => item.plotId === body.plotId);
+    if (!plot) return fail(404, 'Plot not found');
+    plot.boundaryGeoJson = body.boundary ?? plot.boundaryGeoJson;
+    plot.coordinateGeoJson = body.coordinate ?? plot.coordinateGeoJson;
+    plot.area = body.area ?? plot.area;
+    return ok({
+      plotId: plot.plotId,
+      farmerId: plot.farmerId,
+      groupId: plot.groupId,
+      boundary: plot.boundaryGeoJson ?? '',
+      soThua: plot.soThua,
+      soTo: plot.soTo,
+      area: plot.area,
+      soilType: plot.soilType,
+      coordinate: plot.coordinateGeoJson ?? undefined,
+      status: body.status ?? 0,
+    });
+  }],
+  ['GET', '/StandardPlan', () => ok(db.standardPlans)],
+  ['GET', '/StandardPlan/:planId', ({ params }) =>
+    db.standardPlanDetails[params.planId]
+      ? ok(db.standardPlanDetails[params.planId])
+      : fail(404, 'Standard plan not found')],
+  ['POST', '/Material/calculate-standard-plan-material-cost', ({ body }) => {
+    const area = planArea(body);
+    const items = materialCostItems(area);
+    const totalCostForArea = items.reduce((sum, item) => sum + item.totalCost, 0);
+    return ok({
+      area,
+      totalCostPerHa: Math.round(totalCostForArea / area),
+      totalCostForArea,
+      materialCostItems: items,
+      priceWarnings: [],
+    });
+  }],
+  ['POST', '/Material/calculate-standard-plan-profit-analysis', ({ body }) => {
+    const area = planArea(body);
+    const items = materialCostItems(area);
+    const materialCostForArea = items.reduce((sum, item) => sum + item.totalCost, 0);
+    const materialCostPerHa = Math.round(materialCostForArea / area);
+    const otherServiceCostPerHa = Number(body.otherServiceCostPerHa ?? 0);
+    const expectedRevenuePerHa = Number(body.pricePerKgRice) * Number(body.expectedYieldPerHa);
+    const totalCostPerHa = materialCostPerHa + otherServiceCostPerHa;
+    const profitPerHa = expectedRevenuePerHa - totalCostPerHa;
+    const margin = (profit: number, revenue: number) =>
+      revenue > 0 ? Math.round((profit / revenue) * 1000) / 10 : 0;
+    return ok({
+      area,
+      pricePerKgRice: Number(body.pricePerKgRice),
+      expectedYieldPerHa: Number(body.expectedYieldPerHa),
+      expectedRevenuePerHa,
+      materialCostPerHa,
+      otherServiceCostPerHa,
+      totalCostPerHa,
+      profitPerHa,
+      profitMarginPerHa: margin(profitPerHa, expectedRevenuePerHa),
+      expectedRevenueForArea: expectedRevenuePerHa * area,
+      materialCostForArea,
+      otherServiceCostForArea: otherServiceCostPerHa * area,
+      totalCostForArea: totalCostPerHa * area,
+      profitForArea: profitPerHa * area,
+      profitMarginForArea: margin(profitPerHa, expectedRevenuePerHa),
+      materialCostDetails: items.map(({ amountPerMaterial, actualQuantity, pricePerMaterial, totalQuantityNeeded, ...item }) => ({
+        ...item,
+        totalQuantityForArea: totalQuantityNeeded,
+      })),
+      warnings: [],
+    });
+  }],
+
+  // Cluster manager
+  ['GET', '/ClusterManager/overview', () => ok(clusterOverview())],
+  ['GET', '/ClusterManager/groups', ({ params }) => paged(db.clusterGroups, params)],
+  ['GET', '/ClusterManager/supervisors', ({ params }) => paged(db.clusterSupervisors, params)],
+
+  // Agronomy expert
+  ['GET', '/Expert/reports', ({ params }) =>
+    paged([...byStatus(db.pestReports, params.Status)].sort(reviewQueueOrder), params)],
+  ['POST', '/Expert/reports/:reportId/review', ({ params, body }) =>
+    reviewPestReport(params.reportId, body)],
+  ['GET', '/RiceVariety', () => ok(db.riceVarieties)],
+];
+
+// First match wins, so literal paths are listed before ":param" siblings
+const routes: MockRoute[] = ROUTES.map(([method, path, handler]) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}/?$`, 'i'), keys, handler };
+});
+
+const dispatch = (
+  method: string,
+  url: string,
+  query: Record<string, unknown> | undefined,
+  body: unknown,
+  headers: Record<string, unknown>,
+): MockResponse => {
+  const relativeUrl = url.startsWith(env.API_URL) ? url.slice(env.API_URL.length) : url;
+  const [path, search = ''] = relativeUrl.split('?');
+
+  const params: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    params[key] = value;
+  });
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) params[key] = String(value);
+  });
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const match = path.match(route.pattern);
+    if (!match) continue;
+
+    route.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+    return route.handler({ method, path, params, body, headers });
+  }
+
+  log.warn(`No fixture for ${method} ${path}`);
+  return fail(404, `No mock for ${method} ${path}`);
+};
+
+// Idempotency keys of submissions that already succeeded, replays get 409 like the backend
+const processedKeys = new Set<string>();
+
+const resolve = (
+  method: string,
+  url: string,
+  query: Record<string, unknown> | undefined,
+  body: unknown,
+  headers: Record<string, unknown>,
+): MockResponse => {
+  const idempotencyKey = headers[IDEMPOTENCY_HEADER];
+  if (typeof idempotencyKey === 'string') {
+    if (processedKeys.has(idempotencyKey)) {
+      return fail(409, 'Duplicate request', DUPLICATE_SUBMISSION_CODE);
+    }
+    const response = dispatch(method, url, query, body, headers);
+    if (response.status < 400) {
+      processedKeys.add(idempotencyKey);
+    }
+    return response;
+  }
+  return dispatch(method, url, query, body, headers);
+};
+
+const wait = (ms: number) => new Promise((done) => setTimeout(done, ms));
+
+// Jittered latency so spinners are visible and ordering bugs surface
+const simulatedLatency = () => env.MOCK_LATENCY_MS * (0.5 + Math.random());
+
+const shouldFail = () => Math.random() < env.MOCK_ERROR_RATE;
+
+/**
+ * Axios adapter that serves requests from the fixtures instead of the network
+ */
+export const mockAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  const method = (config.method ?? 'get').toUpperCase();
+  const url = config.url ?? '';
+
+  await wait(simulatedLatency());
+
+  if (config.signal?.aborted) {
+    throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+  }
+
+  if (shouldFail()) {
+    // Alternate between "offline" and a server failure so both paths get exercised
+    if (Math.random() < 0.5) {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+    }
+    const { status, data } = fail(503, 'Service temporarily unavailable (simulated)');
+    throw new AxiosError('Request failed with status code 503', AxiosError.ERR_BAD_RESPONSE, config, null, {
+      status,
+      statusText: 'Service Unavailable',
+      data,
+      headers: {},
+      config,
+    });
+  }
+
+  const { status, data } = resolve(
+    method,
+    url,
+    config.params,
+    readBody(config.data),
+    (config.headers ?? {}) as Record<string, unknown>,
+  );
+  log.debug(`${status} ${method} ${url}`);
+
+  const response: AxiosResponse = {
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    data,
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response,
+    );
+  }
+
+  return response;
+};
+
+const PROGRESS_STEPS = 5;
+
+/**
+ * Mock counterpart of the XHR multipart upload in api-client: reports
+ * progress in steps, honours cancellation and resolves the raw Result body
+ */
+export const mockUpload = async (
+  endpoint: string,
+  formData: FormData,
+  { onProgress, signal, idempotencyKey }: UploadOptions,
+  accessToken?: string | null,
+): Promise<unknown> => {
+  const total = 1024 * 1024;
+  const stepDelay = simulatedLatency() / PROGRESS_STEPS;
+
+  for (let step = 1; step <= PROGRESS_STEPS; step++) {
+    await wait(stepDelay);
+    if (signal?.aborted) {
+      throw new ApiError({ message: 'Upload cancelled', isCancelled: true, endpoint });
+    }
+    const loaded = (total * step) / PROGRESS_STEPS;
+    onProgress?.({ loaded, total, fraction: loaded / total });
+  }
+
+  if (shouldFail()) {
+    throw new ApiError({ message: 'Network request failed', isNetworkError: true, endpoint });
+  }
+
+  const { status, data } = resolve('POST', endpoint, undefined, formData, {
+    Authorization: accessToken ? `Bearer ${accessToken}` : undefined,
+    [IDEMPOTENCY_HEADER]: idempotencyKey,
+  });
+  log.debug(`${status} POST ${endpoint}`);
+
+  if (status >= 400) {
+    const { message, errors, fieldErrors, code } = parseErrorBody(data);
+    throw new ApiError({
+      message: errors.length > 0 ? errors.join('\n') : message || 'Request failed',
+      status,
+      errors,
+      fieldErrors,
+      code,
+      endpoint,
+    });
+  }
+
+  return data;
+};
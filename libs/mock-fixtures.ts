@@ -0,0 +1,1097 @@
+/**
+ * Mock API Fixtures
+ * In-memory data set behind the mock adapter (libs/mock-api.ts).
+ * Dates are relative to the moment the data set is created so "today"
+ * always has work on it, and mutations (starting a task, approving a log)
+ * persist until the app restarts.
+ */
+
+import dayjs from 'dayjs';
+
+import type {
+  Alert,
+  AuthSession,
+  AuthUser,
+  ClusterGroup,
+  ClusterSupervisor,
+  CultivationTaskDetailResponse,
+  FarmActivity,
+  FarmerInvite,
+  FarmerPlot,
+  FarmerProfileResponse,
+  FarmLogDetailResponse,
+  PestDetectionResponse,
+  PestReport,
+  PlotCultivationPlan,
+  PlotPlanView,
+  RiceVariety,
+  StandardPlan,
+  StandardPlanDetail,
+  UavOrderDetail,
+  UserRole,
+} from '@/types/api';
+import { MaterialType } from '@/types/api';
+import type {
+  PlotDTO,
+  PolygonTask,
+  SupervisedAlert,
+  SupervisedFarmer,
+  SupervisedFarmLog,
+  SupervisedTask,
+} from './supervisor';
+
+// Square plot of the given area (ha) around a centre point, as the WKT the backend sends
+const squareWkt = (lng: number, lat: number, areaHa: number) => {
+  const halfSideMeters = Math.sqrt(areaHa * 10000) / 2;
+  const dLat = halfSideMeters / 110540;
+  const dLng = halfSideMeters / (111320 * Math.cos((lat * Math.PI) / 180));
+  const points = [
+    [lng - dLng, lat - dLat],
+    [lng + dLng, lat - dLat],
+    [lng + dLng, lat + dLat],
+    [lng - dLng, lat + dLat],
+    [lng - dLng, lat - dLat],
+  ];
+  return `POLYGON ((${points.map(([x, y]) => `${x.toFixed(6)} ${y.toFixed(6)}`).join(', ')}))`;
+};
+
+const pointWkt = (lng: number, lat: number) => `POINT (${lng} ${lat})`;
+
+export const MOCK_USERS: Record<UserRole, AuthUser> = {
+  Farmer: {
+    id: 'f1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'Nguyễn Văn An',
+    email: 'farmer@demo.local',
+    role: 'Farmer',
+  },
+  Supervisor: {
+    id: 's1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'Trần Thị Bình',
+    email: 'supervisor@demo.local',
+    role: 'Supervisor',
+  },
+  UavVendor: {
+    id: 'u1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'SkyAgri Drone Services',
+    email: 'uav@demo.local',
+    role: 'UavVendor',
+  },
+  ClusterManager: {
+    id: 'c1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'Lê Văn Cường',
+    email: 'cluster@demo.local',
+    role: 'ClusterManager',
+  },
+  AgronomyExpert: {
+    id: 'e1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'Phạm Thị Dung',
+    email: 'expert@demo.local',
+    role: 'AgronomyExpert',
+  },
+  Admin: {
+    id: 'a1a2b3c4-0000-4000-8000-000000000001',
+    userName: 'Admin',
+    email: 'admin@demo.local',
+    role: 'Admin',
+  },
+};
+
+const GROUP = { id: 'g0000000-0000-4000-8000-000000000001', name: 'HTX Tân Hồng - Tổ 3' };
+const SEASON = { id: 'se000000-0000-4000-8000-000000000001', name: 'Đông Xuân 2025-2026' };
+const VARIETY = { id: 'rv000000-0000-4000-8000-000000000001', name: 'OM 5451' };
+
+const MATERIALS = {
+  npk: { id: 'm0000000-0000-4000-8000-000000000001', name: 'NPK 20-20-15', unit: 'kg', price: 18000 },
+  urea: { id: 'm0000000-0000-4000-8000-000000000002', name: 'Urê 46%', unit: 'kg', price: 12000 },
+  pesticide: { id: 'm0000000-0000-4000-8000-000000000003', name: 'Chess 50WG', unit: 'gói', price: 65000 },
+};
+
+export type MockPlotSeed = {
+  plotId: string;
+  soThua: number;
+  soTo: number;
+  area: number;
+  lng: number;
+  lat: number;
+  cultivationId: string;
+  planId: string;
+};
+
+const PLOT_SEEDS: MockPlotSeed[] = [
+  {
+    plotId: 'p0000000-0000-4000-8000-000000000016',
+    soThua: 16,
+    soTo: 58,
+    area: 2.5,
+    lng: 105.6321,
+    lat: 10.4563,
+    cultivationId: 'pc000000-0000-4000-8000-000000000016',
+    planId: 'pp000000-0000-4000-8000-000000000016',
+  },
+  {
+    plotId: 'p0000000-0000-4000-8000-000000000011',
+    soThua: 11,
+    soTo: 12,
+    area: 1.8,
+    lng: 105.6362,
+    lat: 10.4589,
+    cultivationId: 'pc000000-0000-4000-8000-000000000011',
+    planId: 'pp000000-0000-4000-8000-000000000011',
+  },
+];
+
+export const plotName = (seed: MockPlotSeed) => `Thửa ${seed.soThua}, Tờ ${seed.soTo}`;
+
+// Alerts the farmer has not acknowledged yet, as the plot card counts them
+export const countActiveAlerts = (alerts: Alert[], plotId: string) =>
+  alerts.filter((alert) => alert.fieldId === plotId && !alert.acknowledgedAt).length;
+
+const buildPlanView = (seed: MockPlotSeed): PlotPlanView => {
+  const sowDate = dayjs().subtract(30, 'day');
+  const task = (
+    suffix: string,
+    taskName: string,
+    taskType: string,
+    dayOffset: number,
+    status: string,
+    materials: { material: (typeof MATERIALS)[keyof typeof MATERIALS]; perHa: number; used: number }[],
+  ) => ({
+    id: `ct0000${String(seed.soThua).padStart(2, '0')}-0000-4000-8000-00000000${suffix}`,
+    taskName,
+    description: null,
+    taskType,
+    scheduledDate: sowDate.add(dayOffset, 'day').toISOString(),
+    status,
+    priority: 'Normal',
+    isContingency: false,
+    actualMaterialCost: status === 'Completed' ? materials.reduce((sum, m) => sum + m.used * m.material.price, 0) : null,
+    materials: materials.map(({ material, perHa, used }) => ({
+      materialId: material.id,
+      materialName: material.name,
+      materialUnit: material.unit,
+      plannedQuantityPerHa: perHa,
+      plannedEstimatedAmount: perHa * seed.area * material.price,
+      actualQuantity: used,
+      actualCost: used * material.price,
+    })),
+  });
+
+  return {
+    plotCultivationId: seed.cultivationId,
+    productionPlanId: seed.planId,
+    planName: `Kế hoạch ${SEASON.name} - ${plotName(seed)}`,
+    basePlantingDate: sowDate.toISOString(),
+    planStatus: 'InProgress',
+    plotArea: seed.area,
+    stages: [
+      {
+        stageName: 'Gieo sạ',
+        sequenceOrder: 1,
+        tasks: [task('0001', 'Gieo sạ', 'Planting', 0, 'Completed', [])],
+      },
+      {
+        stageName: 'Đẻ nhánh',
+        sequenceOrder: 2,
+        tasks: [
+          task('0002', 'Bón thúc lần 1', 'Fertilizing', 10, 'Completed', [
+            { material: MATERIALS.npk, perHa: 100, used: Math.round(100 * seed.area) },
+          ]),
+          task('0003', 'Bón thúc lần 2', 'Fertilizing', 30, 'Approved', [
+            { material: MATERIALS.urea, perHa: 80, used: 0 },
+          ]),
+          task('0004', 'Phun thuốc rầy nâu', 'Spraying', 30, 'Approved', [
+            { material: MATERIALS.pesticide, perHa: 2, used: 0 },
+          ]),
+        ],
+      },
+      {
+        stageName: 'Thu hoạch',
+        sequenceOrder: 3,
+        tasks: [task('0005', 'Thu hoạch', 'Harvesting', 95, 'Approved', [])],
+      },
+    ],
+  };
+};
+
+// Four-stage outline shared by every standard plan; durations scale with the plan length
+const buildStandardPlanDetail = (plan: StandardPlan): StandardPlanDetail => {
+  const totalDurationDays = plan.totalDuration ?? 95;
+  const stage = (
+    sequenceOrder: number,
+    stageName: string,
+    share: number,
+    tasks: { taskName: string; taskType: string; materials: (typeof MATERIALS)[keyof typeof MATERIALS][] }[],
+  ) => ({
+    id: `${plan.id.slice(0, 8)}-st${sequenceOrder}`,
+    stageName,
+    sequenceOrder,
+    expectedDurationDays: Math.round(totalDurationDays * share),
+    isMandatory: true,
+    tasks: tasks.map((task, index) => ({
+      id: `${plan.id.slice(0, 8)}-st${sequenceOrder}-t${index + 1}`,
+      taskName: task.taskName,
+      sequenceOrder: index + 1,
+      taskType: task.taskType,
+      priority: 'Normal',
+      materials: task.materials.map((material) => ({
+        materialId: material.id,
+        materialName: material.name,
+        unit: material.unit,
+      })),
+    })),
+  });
+
+  const stages = [
+    stage(1, 'Làm đất - Gieo sạ', 0.15, [
+      { taskName: 'Cày xới, trục đất', taskType: 'LandPreparation', materials: [] },
+      { taskName: 'Gieo sạ', taskType: 'Planting', materials: [] },
+    ]),
+    stage(2, 'Đẻ nhánh', 0.35, [
+      { taskName: 'Bón thúc lần 1', taskType: 'Fertilizing', materials: [MATERIALS.npk] },
+      { taskName: 'Bón thúc lần 2', taskType: 'Fertilizing', materials: [MATERIALS.urea] },
+    ]),
+    stage(3, 'Làm đòng - Trổ', 0.35, [
+      { taskName: 'Phun thuốc phòng rầy', taskType: 'Spraying', materials: [MATERIALS.pesticide] },
+    ]),
+    stage(4, 'Chín - Thu hoạch', 0.15, [
+      { taskName: 'Rút nước', taskType: 'Irrigation', materials: [] },
+      { taskName: 'Thu hoạch', taskType: 'Harvesting', materials: [] },
+    ]),
+  ];
+
+  return {
+    id: plan.id,
+    planName: plan.name,
+    description: plan.description ?? undefined,
+    totalDurationDays,
+    isActive: plan.isActive,
+    categoryId: plan.categoryId ?? VARIETY.id,
+    categoryName: plan.categoryName ?? plan.riceVarietyName ?? VARIETY.name,
+    createdBy: MOCK_USERS.AgronomyExpert.id,
+    creatorName: MOCK_USERS.AgronomyExpert.userName,
+    createdAt: dayjs().subtract(120, 'day').toISOString(),
+    lastModified: dayjs().subtract(14, 'day').toISOString(),
+    stages,
+    totalStages: stages.length,
+    totalTasks: stages.reduce((sum, item) => sum + item.tasks.length, 0),
+    totalMaterialTypes: Object.keys(MATERIALS).length,
+  };
+};
+
+export type MockDatabase = ReturnType<typeof createMockDatabase>;
+
+/**
+ * Build a fresh data set. The mock adapter keeps one instance for the app's lifetime.
+ */
+export const createMockDatabase = () => {
+  const farmerPlots: FarmerPlot[] = PLOT_SEEDS.map((seed) => ({
+    plotId: seed.plotId,
+    area: seed.area,
+    soThua: seed.soThua,
+    soTo: seed.soTo,
+    status: 'Active',
+    groupId: GROUP.id,
+    groupName: GROUP.name,
+    activeCultivations: 1,
+    activeAlerts: 0, // Counted once the alerts exist
+    boundary: squareWkt(seed.lng, seed.lat, seed.area),
+    coordinate: pointWkt(seed.lng, seed.lat),
+  }));
+
+  const planViews: Record<string, PlotPlanView> = Object.fromEntries(
+    PLOT_SEEDS.map((seed) => [seed.cultivationId, buildPlanView(seed)]),
+  );
+
+  const cultivationPlans: Record<string, PlotCultivationPlan[]> = Object.fromEntries(
+    PLOT_SEEDS.map((seed) => [
+      seed.plotId,
+      [
+        {
+          plotCultivationId: seed.cultivationId,
+          seasonId: SEASON.id,
+          seasonName: SEASON.name,
+          riceVarietyId: VARIETY.id,
+          riceVarietyName: VARIETY.name,
+          plantingDate: planViews[seed.cultivationId].basePlantingDate,
+          area: seed.area,
+          status: 'InProgress',
+          actualYield: null,
+          salePricePerKg: null,
+          harvestedAt: null,
+          productionPlanName: planViews[seed.cultivationId].planName,
+        },
+      ],
+    ]),
+  );
+
+  const farmLogs: Record<string, FarmLogDetailResponse[]> = Object.fromEntries(
+    PLOT_SEEDS.map((seed) => [
+      seed.cultivationId,
+      [
+        {
+          farmLogId: `fl${seed.cultivationId.slice(2)}`,
+          cultivationTaskId: planViews[seed.cultivationId].stages[1].tasks[0].id,
+          cultivationTaskName: 'Bón thúc lần 1',
+          plotName: plotName(seed),
+          loggedDate: dayjs().subtract(20, 'day').toISOString(),
+          workDescription: 'Bón đều toàn bộ thửa ruộng',
+          completionPercentage: 100,
+          actualAreaCovered: seed.area,
+          serviceCost: 150000,
+          laborCost: 400000,
+          serviceNotes: 'Thuê máy rải phân, 2 nhân công',
+          photoUrls: [],
+          weatherConditions: 'Nắng nhẹ',
+          materialsUsed: [
+            {
+              materialName: MATERIALS.npk.name,
+              actualQuantityUsed: Math.round(100 * seed.area),
+              actualCost: Math.round(100 * seed.area) * MATERIALS.npk.price,
+            },
+          ],
+        },
+      ],
+    ]),
+  );
+
+  const farmerProfile: FarmerProfileResponse = {
+    farmerId: MOCK_USERS.Farmer.id,
+    fullName: MOCK_USERS.Farmer.userName,
+    address: 'Xã Tân Hồng, Đồng Tháp',
+    phoneNumber: '0901234567',
+    isActive: true,
+    isVerified: false,
+    lastActivityAt: dayjs().subtract(1, 'day').toISOString(),
+    farmCode: 'DT-TH-0316',
+    plotCount: farmerPlots.length,
+  };
+
+  const pestDetection: PestDetectionResponse = {
+    hasPest: true,
+    totalDetections: 2,
+    detectedPests: [
+      {
+        pestName: 'Rầy nâu',
+        confidence: 0.87,
+        confidenceLevel: 'High',
+        location: { x1: 120, y1: 80, x2: 260, y2: 210 },
+      },
+      {
+        pestName: 'Rầy nâu',
+        confidence: 0.64,
+        confidenceLevel: 'Medium',
+        location: { x1: 400, y1: 300, x2: 500, y2: 390 },
+      },
+    ],
+    imageInfo: { width: 1280, height: 960 },
+  };
+
+  const uavOrders: UavOrderDetail[] = [
+    {
+      orderId: 'o0000000-0000-4000-8000-000000000001',
+      orderName: 'Phun thuốc rầy nâu - Tổ 3',
+      status: 'InProgress',
+      priority: 'High',
+      scheduledDate: dayjs().toISOString(),
+      scheduledTime: '06:30',
+      groupId: GROUP.id,
+      groupName: GROUP.name,
+      totalArea: PLOT_SEEDS.reduce((sum, seed) => sum + seed.area, 0),
+      totalPlots: PLOT_SEEDS.length,
+      estimatedCost: 1720000,
+      actualCost: 0,
+      completionPercentage: 0,
+      creatorName: MOCK_USERS.Supervisor.userName,
+      vendorName: MOCK_USERS.UavVendor.userName,
+      completedAt: null,
+      startedAt: dayjs().subtract(1, 'hour').toISOString(),
+      optimizedRouteJson: `LINESTRING (${PLOT_SEEDS.map((seed) => `${seed.lng} ${seed.lat}`).join(', ')})`,
+      materials: [
+        {
+          materialId: MATERIALS.pesticide.id,
+          materialName: MATERIALS.pesticide.name,
+          materialUnit: MATERIALS.pesticide.unit,
+          quantityPerHa: 2,
+          totalQuantityRequired: 9,
+          totalEstimatedCost: 9 * MATERIALS.pesticide.price,
+        },
+      ],
+      plotAssignments: PLOT_SEEDS.map((seed) => ({
+        plotId: seed.plotId,
+        plotName: plotName(seed),
+        servicedArea: seed.area,
+        status: 'Pending',
+        actualCost: null,
+        completionDate: null,
+        reportNotes: null,
+        plotBoundaryGeoJson: squareWkt(seed.lng, seed.lat, seed.area),
+        proofUrls: [],
+      })),
+    },
+    {
+      orderId: 'o0000000-0000-4000-8000-000000000002',
+      orderName: 'Bón phân đợt 1 - Tổ 3',
+      status: 'Completed',
+      priority: 'Normal',
+      scheduledDate: dayjs().subtract(20, 'day').toISOString(),
+      scheduledTime: '07:00',
+      groupId: GROUP.id,
+      groupName: GROUP.name,
+      totalArea: 2.5,
+      totalPlots: 1,
+      estimatedCost: 500000,
+      actualCost: 480000,
+      completionPercentage: 100,
+      creatorName: MOCK_USERS.Supervisor.userName,
+      vendorName: MOCK_USERS.UavVendor.userName,
+      completedAt: dayjs().subtract(20, 'day').toISOString(),
+      startedAt: dayjs().subtract(20, 'day').toISOString(),
+      optimizedRouteJson: null,
+      materials: [],
+      plotAssignments: [
+        {
+          plotId: PLOT_SEEDS[0].plotId,
+          plotName: plotName(PLOT_SEEDS[0]),
+          servicedArea: 2.5,
+          status: 'Completed',
+          actualCost: 480000,
+          completionDate: dayjs().subtract(20, 'day').toISOString(),
+          reportNotes: 'Hoàn thành đúng lịch',
+          plotBoundaryGeoJson: squareWkt(PLOT_SEEDS[0].lng, PLOT_SEEDS[0].lat, PLOT_SEEDS[0].area),
+          proofUrls: [],
+        },
+      ],
+    },
+  ];
+
+  const supervisedFarmers: SupervisedFarmer[] = [
+    {
+      id: MOCK_USERS.Farmer.id,
+      firstName: 'Nguyễn Văn',
+      lastName: 'An',
+      email: 'nguyenvanan@demo.local',
+      totalFields: 5,
+      activeTasks: 3,
+      completionRate: 85,
+      status: 'active',
+      lastActivity: dayjs().subtract(1, 'day').toISOString(),
+    },
+    {
+      id: 'f1a2b3c4-0000-4000-8000-000000000002',
+      firstName: 'Trần Thị',
+      lastName: 'Bé',
+      email: 'tranthibe@demo.local',
+      totalFields: 8,
+      activeTasks: 2,
+      completionRate: 92,
+      status: 'active',
+      lastActivity: dayjs().subtract(1, 'day').toISOString(),
+    },
+    {
+      id: 'f1a2b3c4-0000-4000-8000-000000000003',
+      firstName: 'Lê Văn',
+      lastName: 'Chín',
+      email: 'levanchin@demo.local',
+      totalFields: 3,
+      activeTasks: 5,
+      completionRate: 68,
+      status: 'needs-attention',
+      lastActivity: dayjs().subtract(2, 'day').toISOString(),
+    },
+  ];
+
+  const farmerName = (farmer: SupervisedFarmer) => `${farmer.firstName} ${farmer.lastName}`;
+  const [an, be, chin] = supervisedFarmers;
+
+  const supervisedTasks: SupervisedTask[] = [
+    {
+      id: 'st000000-0000-4000-8000-000000000001',
+      taskName: 'Bón thúc lần 1',
+      farmerId: an.id,
+      farmerName: farmerName(an),
+      plotId: PLOT_SEEDS[0].plotId,
+      plotName: plotName(PLOT_SEEDS[0]),
+      status: 'pending-approval',
+      priority: 'high',
+      dueDate: dayjs().add(5, 'day').toISOString(),
+      submittedDate: dayjs().toISOString(),
+    },
+    {
+      id: 'st000000-0000-4000-8000-000000000002',
+      taskName: 'Phun thuốc rầy nâu',
+      farmerId: be.id,
+      farmerName: farmerName(be),
+      plotId: PLOT_SEEDS[1].plotId,
+      plotName: plotName(PLOT_SEEDS[1]),
+      status: 'in-progress',
+      priority: 'normal',
+      dueDate: dayjs().add(3, 'day').toISOString(),
+      submittedDate: null,
+    },
+    {
+      id: 'st000000-0000-4000-8000-000000000003',
+      taskName: 'Thu hoạch',
+      farmerId: chin.id,
+      farmerName: farmerName(chin),
+      plotId: 'p0000000-0000-4000-8000-000000000008',
+      plotName: 'Thửa 8, Tờ 9',
+      status: 'completed',
+      priority: 'high',
+      dueDate: dayjs().subtract(1, 'day').toISOString(),
+      submittedDate: dayjs().subtract(1, 'day').toISOString(),
+    },
+  ];
+
+  const supervisedFarmLogs: SupervisedFarmLog[] = [
+    {
+      id: 'sl000000-0000-4000-8000-000000000001',
+      farmerId: an.id,
+      farmerName: farmerName(an),
+      plotId: PLOT_SEEDS[0].plotId,
+      plotName: plotName(PLOT_SEEDS[0]),
+      taskName: 'Bón thúc lần 1',
+      loggedDate: dayjs().subtract(1, 'day').toISOString(),
+      completionPercentage: 100,
+      actualAreaCovered: 2.5,
+      workDescription: 'Bón NPK theo kế hoạch',
+      photoUrls: [],
+      status: 'pending',
+      materials: [{ name: MATERIALS.npk.name, quantity: 250, unit: 'kg' }],
+    },
+    {
+      id: 'sl000000-0000-4000-8000-000000000002',
+      farmerId: be.id,
+      farmerName: farmerName(be),
+      plotId: PLOT_SEEDS[1].plotId,
+      plotName: plotName(PLOT_SEEDS[1]),
+      taskName: 'Phun thuốc rầy nâu',
+      loggedDate: dayjs().subtract(2, 'day').toISOString(),
+      completionPercentage: 85,
+      actualAreaCovered: 1.8,
+      workDescription: 'Phun thuốc phòng rầy',
+      photoUrls: [],
+      status: 'approved',
+      materials: [{ name: MATERIALS.pesticide.name, quantity: 4, unit: 'gói' }],
+    },
+  ];
+
+  const supervisedAlerts: SupervisedAlert[] = [
+    {
+      id: 'sa000000-0000-4000-8000-000000000001',
+      type: 'pest',
+      priority: 'critical',
+      farmerId: chin.id,
+      farmerName: farmerName(chin),
+      plotId: 'p0000000-0000-4000-8000-000000000008',
+      plotName: 'Thửa 8, Tờ 9',
+      title: 'Phát hiện rầy nâu',
+      description: 'Mật độ rầy nâu cao, cần xử lý trong 48 giờ',
+      date: dayjs().subtract(3, 'hour').toISOString(),
+      status: 'unread',
+    },
+    {
+      id: 'sa000000-0000-4000-8000-000000000002',
+      type: 'disease',
+      priority: 'high',
+      farmerId: an.id,
+      farmerName: farmerName(an),
+      plotId: PLOT_SEEDS[0].plotId,
+      plotName: plotName(PLOT_SEEDS[0]),
+      title: 'Dấu hiệu bạc lá',
+      description: 'Quan sát thấy triệu chứng bạc lá vi khuẩn',
+      date: dayjs().subtract(5, 'hour').toISOString(),
+      status: 'read',
+    },
+    {
+      id: 'sa000000-0000-4000-8000-000000000003',
+      type: 'weather',
+      priority: 'normal',
+      farmerId: be.id,
+      farmerName: farmerName(be),
+      plotId: PLOT_SEEDS[1].plotId,
+      plotName: plotName(PLOT_SEEDS[1]),
+      title: 'Cảnh báo mưa lớn',
+      description: 'Dự báo mưa lớn trong 24 giờ tới',
+      date: dayjs().subtract(1, 'day').toISOString(),
+      status: 'read',
+    },
+    {
+      id: 'sa000000-0000-4000-8000-000000000004',
+      type: 'task',
+      priority: 'high',
+      farmerId: chin.id,
+      farmerName: farmerName(chin),
+      plotId: 'p0000000-0000-4000-8000-000000000008',
+      plotName: 'Thửa 8, Tờ 9',
+      title: 'Công việc quá hạn',
+      description: 'Thu hoạch trễ 2 ngày so với kế hoạch',
+      date: dayjs().subtract(1, 'day').toISOString(),
+      status: 'read',
+    },
+  ];
+
+  const polygonTasks: PolygonTask[] = [
+    {
+      id: 'pt000000-0000-4000-8000-000000000001',
+      plotId: 'p0000000-0000-4000-8000-000000000021',
+      status: 'Pending',
+      assignedAt: dayjs().subtract(2, 'day').toISOString(),
+      completedAt: null,
+      notes: 'Ranh giới mới sau khi dồn điền',
+      priority: 1,
+      soThua: 21,
+      soTo: 58,
+      plotArea: 1.2,
+      soilType: 'Phù sa',
+      farmerId: chin.id,
+      farmerName: farmerName(chin),
+      farmerPhone: '0907654321',
+    },
+  ];
+
+  const plots: PlotDTO[] = [
+    ...PLOT_SEEDS.map((seed, index) => ({
+      plotId: seed.plotId,
+      farmerId: index === 0 ? an.id : be.id,
+      farmerName: farmerName(index === 0 ? an : be),
+      groupId: GROUP.id,
+      boundaryGeoJson: squareWkt(seed.lng, seed.lat, seed.area),
+      coordinateGeoJson: pointWkt(seed.lng, seed.lat),
+      soThua: seed.soThua,
+      soTo: seed.soTo,
+      area: seed.area,
+      soilType: 'Phù sa',
+      status: 'Active' as const,
+      varietyName: VARIETY.name,
+    })),
+    {
+      plotId: 'p0000000-0000-4000-8000-000000000021',
+      farmerId: chin.id,
+      farmerName: farmerName(chin),
+      groupId: GROUP.id,
+      boundaryGeoJson: null,
+      coordinateGeoJson: pointWkt(105.6401, 10.4612),
+      soThua: 21,
+      soTo: 58,
+      area: 1.2,
+      soilType: 'Phù sa',
+      status: 'Active',
+      varietyName: VARIETY.name,
+    },
+  ];
+
+  const standardPlans: StandardPlan[] = [
+    {
+      id: 'sp000000-0000-4000-8000-000000000001',
+      name: 'Quy trình 1 phải 5 giảm - Đông Xuân',
+      description: 'Quy trình chuẩn cho giống OM 5451',
+      riceVarietyId: VARIETY.id,
+      riceVarietyName: VARIETY.name,
+      season: SEASON.name,
+      totalDuration: 95,
+      isActive: true,
+      totalTasks: 12,
+      totalStages: 4,
+    },
+    {
+      id: 'sp000000-0000-4000-8000-000000000002',
+      name: 'Quy trình hữu cơ - Hè Thu',
+      description: null,
+      riceVarietyId: VARIETY.id,
+      riceVarietyName: VARIETY.name,
+      season: 'Hè Thu',
+      totalDuration: 90,
+      isActive: true,
+      totalTasks: 10,
+      totalStages: 4,
+    },
+  ];
+
+  const standardPlanMaterials = [
+    { material: MATERIALS.npk, type: MaterialType.Fertilizer, quantityPerHa: 200, packageSize: 50 },
+    { material: MATERIALS.urea, type: MaterialType.Fertilizer, quantityPerHa: 150, packageSize: 50 },
+    { material: MATERIALS.pesticide, type: MaterialType.Pesticide, quantityPerHa: 4, packageSize: 1 },
+  ];
+
+  const standardPlanDetails: Record<string, StandardPlanDetail> = Object.fromEntries(
+    standardPlans.map((plan) => [plan.id, buildStandardPlanDetail(plan)]),
+  );
+
+  const riceVarieties: RiceVariety[] = [
+    {
+      id: VARIETY.id,
+      varietyName: VARIETY.name,
+      categoryId: 'rc000000-0000-4000-8000-000000000001',
+      categoryName: 'Lúa thơm',
+      baseGrowthDurationDays: 95,
+      baseYieldPerHectare: 6.5,
+      description: 'Giống lúa thơm ngắn ngày, thích hợp vụ Đông Xuân',
+      characteristics: 'Chịu phèn khá, nhiễm rầy nâu nhẹ',
+      isActive: true,
+    },
+    {
+      id: 'rv000000-0000-4000-8000-000000000002',
+      varietyName: 'ST25',
+      categoryId: 'rc000000-0000-4000-8000-000000000001',
+      categoryName: 'Lúa thơm',
+      baseGrowthDurationDays: 105,
+      baseYieldPerHectare: 5.8,
+      description: 'Gạo thơm đặc sản, giá bán cao',
+      characteristics: 'Chịu mặn tốt, dễ đổ ngã khi bón thừa đạm',
+      isActive: true,
+    },
+    {
+      id: 'rv000000-0000-4000-8000-000000000003',
+      varietyName: 'OM 18',
+      categoryId: 'rc000000-0000-4000-8000-000000000002',
+      categoryName: 'Lúa chất lượng cao',
+      baseGrowthDurationDays: 100,
+      baseYieldPerHectare: 7,
+      description: 'Năng suất cao, ổn định',
+      characteristics: 'Kháng đạo ôn trung bình',
+      isActive: false,
+    },
+  ];
+
+  const pestReports: PestReport[] = [
+    {
+      id: 'pr000000-0000-4000-8000-000000000001',
+      plotId: 'p0000000-0000-4000-8000-000000000008',
+      plotName: 'Thửa 8, Tờ 9',
+      farmerName: farmerName(chin),
+      groupName: GROUP.name,
+      alertType: 'Pest',
+      severity: 'Critical',
+      title: 'Phát hiện rầy nâu',
+      description: 'Mật độ rầy nâu cao ở gốc lúa, lá bắt đầu vàng',
+      imageUrls: [],
+      aiDetectionResult: {
+        hasPest: true,
+        totalDetections: 2,
+        detectedPests: [{ pestName: 'Rầy nâu', confidence: 0.87, confidenceLevel: 'High' }],
+        averageConfidence: 0.76,
+      },
+      status: 'Pending',
+      reportedAt: dayjs().subtract(3, 'hour').toISOString(),
+    },
+    {
+      id: 'pr000000-0000-4000-8000-000000000002',
+      plotId: PLOT_SEEDS[0].plotId,
+      plotName: plotName(PLOT_SEEDS[0]),
+      farmerName: farmerName(an),
+      groupName: GROUP.name,
+      alertType: 'Disease',
+      severity: 'High',
+      title: 'Nghi đạo ôn lá',
+      description: 'Vết bệnh hình thoi trên lá, lan nhanh sau mưa',
+      imageUrls: [],
+      aiDetectionResult: null,
+      status: 'Pending',
+      reportedAt: dayjs().subtract(1, 'day').toISOString(),
+    },
+    {
+      id: 'pr000000-0000-4000-8000-000000000003',
+      plotId: PLOT_SEEDS[1].plotId,
+      plotName: plotName(PLOT_SEEDS[1]),
+      farmerName: farmerName(be),
+      groupName: GROUP.name,
+      alertType: 'Pest',
+      severity: 'Medium',
+      title: 'Sâu cuốn lá',
+      description: 'Lá bị cuốn ở mép ruộng',
+      imageUrls: [],
+      aiDetectionResult: null,
+      status: 'Confirmed',
+      reportedAt: dayjs().subtract(4, 'day').toISOString(),
+      reviewedAt: dayjs().subtract(3, 'day').toISOString(),
+      recommendedTreatment: 'Phun thuốc khi mật độ trên 50 con/m²',
+    },
+  ];
+
+  const clusterGroups: ClusterGroup[] = [
+    {
+      groupId: GROUP.id,
+      groupName: GROUP.name,
+      supervisorId: MOCK_USERS.Supervisor.id,
+      supervisorName: MOCK_USERS.Supervisor.userName,
+      seasonName: SEASON.name,
+      farmerCount: supervisedFarmers.length,
+      plotCount: plots.length,
+      totalArea: plots.reduce((sum, plot) => sum + plot.area, 0),
+      activeAlerts: supervisedAlerts.length,
+      plotStatus: { active: plots.length, inactive: 0, emergency: 0, locked: 0 },
+    },
+    {
+      groupId: 'g0000000-0000-4000-8000-000000000002',
+      groupName: 'HTX Tân Hồng - Tổ 5',
+      supervisorId: 's1a2b3c4-0000-4000-8000-000000000002',
+      supervisorName: 'Võ Minh Đức',
+      seasonName: SEASON.name,
+      farmerCount: 12,
+      plotCount: 18,
+      totalArea: 21.4,
+      activeAlerts: 1,
+      plotStatus: { active: 14, inactive: 1, emergency: 1, locked: 2 },
+    },
+    {
+      groupId: 'g0000000-0000-4000-8000-000000000003',
+      groupName: 'HTX Tân Hồng - Tổ 7',
+      supervisorId: null,
+      supervisorName: null,
+      seasonName: null,
+      farmerCount: 6,
+      plotCount: 9,
+      totalArea: 10.2,
+      activeAlerts: 0,
+      plotStatus: { active: 5, inactive: 4, emergency: 0, locked: 0 },
+    },
+  ];
+
+  // One invite code per group with a supervisor; the cooperative prints them as QR codes
+  const farmerInvites: FarmerInvite[] = clusterGroups
+    .filter((group) => group.supervisorName)
+    .map((group) => ({
+      inviteCode: `HTX-TANHONG-${group.groupName.split(' ').pop()}`,
+      groupId: group.groupId,
+      groupName: group.groupName,
+      clusterName: 'Cụm Tân Hồng',
+      supervisorName: group.supervisorName,
+      expiresAt: dayjs().add(30, 'day').toISOString(),
+    }));
+
+  // The first entry stands for the device running the mock
+  const authSessions: AuthSession[] = [
+    {
+      id: 'session-current',
+      deviceName: 'Thiết bị này',
+      platform: 'android',
+      location: 'Đồng Tháp, Việt Nam',
+      lastSeenAt: dayjs().toISOString(),
+      createdAt: dayjs().subtract(3, 'day').toISOString(),
+      isCurrent: true,
+    },
+    {
+      id: 'session-galaxy',
+      deviceName: 'Samsung Galaxy A14',
+      platform: 'android',
+      location: 'Cần Thơ, Việt Nam',
+      lastSeenAt: dayjs().subtract(2, 'hour').toISOString(),
+      createdAt: dayjs().subtract(20, 'day').toISOString(),
+      isCurrent: false,
+    },
+    {
+      id: 'session-iphone',
+      deviceName: 'iPhone 12',
+      platform: 'ios',
+      location: 'TP. Hồ Chí Minh, Việt Nam',
+      lastSeenAt: dayjs().subtract(6, 'day').toISOString(),
+      createdAt: dayjs().subtract(45, 'day').toISOString(),
+      isCurrent: false,
+    },
+  ];
+
+  const clusterSupervisors: ClusterSupervisor[] = [
+    {
+      supervisorId: MOCK_USERS.Supervisor.id,
+      fullName: MOCK_USERS.Supervisor.userName,
+      email: MOCK_USERS.Supervisor.email,
+      phoneNumber: '0909123456',
+      groupNames: [GROUP.name],
+      farmerCount: supervisedFarmers.length,
+      pendingReviews:
+        supervisedTasks.filter((task) => task.status === 'pending-approval').length +
+        supervisedFarmLogs.filter((log) => log.status === 'pending').length,
+      lastActivityAt: dayjs().subtract(2, 'hour').toISOString(),
+    },
+    {
+      supervisorId: 's1a2b3c4-0000-4000-8000-000000000002',
+      fullName: 'Võ Minh Đức',
+      email: 'duc.vo@demo.local',
+      phoneNumber: null,
+      groupNames: ['HTX Tân Hồng - Tổ 5'],
+      farmerCount: 12,
+      pendingReviews: 4,
+      lastActivityAt: dayjs().subtract(3, 'day').toISOString(),
+    },
+  ];
+
+  const farmerAlerts: Alert[] = [
+    {
+      id: 'fa000000-0000-4000-8000-000000000001',
+      createdAt: dayjs().subtract(3, 'hour').toISOString(),
+      type: 'pest',
+      severity: 'high',
+      title: 'Phát hiện rầy nâu',
+      message: `Rầy nâu xuất hiện tại ${plotName(PLOT_SEEDS[0])}. Cần xử lý ngay.`,
+      fieldId: PLOT_SEEDS[0].plotId,
+      fieldName: plotName(PLOT_SEEDS[0]),
+      plotCultivationId: PLOT_SEEDS[0].cultivationId,
+      pestType: 'Rầy nâu',
+      recommendedTreatment: 'Phun Chess 50WG liều 0,3 kg/ha',
+      raisedBy: MOCK_USERS.AgronomyExpert.userName,
+      approved: true,
+      acknowledgedAt: null,
+    },
+    {
+      id: 'fa000000-0000-4000-8000-000000000002',
+      createdAt: dayjs().subtract(1, 'day').toISOString(),
+      type: 'weather',
+      severity: 'medium',
+      title: 'Cảnh báo mưa lớn',
+      message: 'Dự báo mưa lớn trong 48 giờ tới. Chuẩn bị khơi thông mương thoát nước.',
+      fieldId: PLOT_SEEDS[1].plotId,
+      fieldName: plotName(PLOT_SEEDS[1]),
+      plotCultivationId: PLOT_SEEDS[1].cultivationId,
+      raisedBy: MOCK_USERS.Supervisor.userName,
+      approved: true,
+      acknowledgedAt: null,
+    },
+    {
+      id: 'fa000000-0000-4000-8000-000000000003',
+      createdAt: dayjs().subtract(2, 'day').toISOString(),
+      type: 'recommendation',
+      severity: 'low',
+      title: 'Lịch bón phân',
+      message: 'Nên bón thúc lần 2 trong vòng 7 ngày tới.',
+      fieldId: PLOT_SEEDS[0].plotId,
+      fieldName: plotName(PLOT_SEEDS[0]),
+      plotCultivationId: PLOT_SEEDS[0].cultivationId,
+      recommendedTreatment: 'Bón Urê 46% liều 80 kg/ha',
+      raisedBy: MOCK_USERS.Supervisor.userName,
+      approved: true,
+      acknowledgedAt: dayjs().subtract(1, 'day').toISOString(),
+    },
+  ];
+
+  farmerPlots.forEach((plot) => {
+    plot.activeAlerts = countActiveAlerts(farmerAlerts, plot.plotId);
+  });
+
+  const farmActivities: FarmActivity[] = [
+    {
+      id: 'ac000000-0000-4000-8000-000000000001',
+      createdAt: dayjs().subtract(20, 'day').valueOf(),
+      fieldId: PLOT_SEEDS[0].plotId,
+      fieldName: plotName(PLOT_SEEDS[0]),
+      activityType: 'fertilizing',
+      date: dayjs().subtract(20, 'day').format('YYYY-MM-DD'),
+      materialId: MATERIALS.npk.id,
+      materialName: MATERIALS.npk.name,
+      quantity: 250,
+      unit: 'kg',
+      cost: 250 * MATERIALS.npk.price,
+      notes: 'Bón đều toàn bộ thửa ruộng',
+    },
+    {
+      id: 'ac000000-0000-4000-8000-000000000002',
+      createdAt: dayjs().subtract(12, 'day').valueOf(),
+      fieldId: PLOT_SEEDS[1].plotId,
+      fieldName: plotName(PLOT_SEEDS[1]),
+      activityType: 'spraying',
+      date: dayjs().subtract(12, 'day').format('YYYY-MM-DD'),
+      materialId: MATERIALS.pesticide.id,
+      materialName: MATERIALS.pesticide.name,
+      quantity: 4,
+      unit: 'gói',
+      cost: 4 * MATERIALS.pesticide.price,
+    },
+    {
+      id: 'ac000000-0000-4000-8000-000000000003',
+      createdAt: dayjs().subtract(5, 'day').valueOf(),
+      fieldId: PLOT_SEEDS[0].plotId,
+      fieldName: plotName(PLOT_SEEDS[0]),
+      activityType: 'irrigation',
+      date: dayjs().subtract(5, 'day').format('YYYY-MM-DD'),
+      quantity: 100,
+      unit: 'm³',
+      cost: 25000,
+    },
+  ];
+
+  return {
+    farmerPlots,
+    planViews,
+    cultivationPlans,
+    farmLogs,
+    farmerProfile,
+    pestDetection,
+    uavOrders,
+    supervisedFarmers,
+    supervisedTasks,
+    supervisedFarmLogs,
+    supervisedAlerts,
+    polygonTasks,
+    plots,
+    standardPlans,
+    standardPlanDetails,
+    standardPlanMaterials,
+    riceVarieties,
+    pestReports,
+    clusterGroups,
+    clusterSupervisors,
+    farmerInvites,
+    authSessions,
+    farmerAlerts,
+    farmActivities,
+    plotSeeds: PLOT_SEEDS,
+  };
+};
+
+/**
+ * Task detail as /farmer/cultivation-tasks/{id} returns it, derived from the plan view
+ */
+export const buildTaskDetail = (
+  db: MockDatabase,
+  taskId: string,
+): CultivationTaskDetailResponse | null => {
+  for (const seed of db.plotSeeds) {
+    const view = db.planViews[seed.cultivationId];
+    for (const stage of view.stages) {
+      const task = stage.tasks.find((item) => item.id === taskId);
+      if (!task) continue;
+
+      const logs = db.farmLogs[seed.cultivationId].filter(
+        (log) => log.cultivationTaskName === task.taskName,
+      );
+
+      return {
+        cultivationTaskId: task.id,
+        plotCultivationId: seed.cultivationId,
+        taskName: task.taskName,
+        description: task.description,
+        taskType: task.taskType,
+        status: task.status,
+        priority: task.priority,
+        isContingency: task.isContingency,
+        plannedScheduledDate: task.scheduledDate,
+        actualStartDate: task.status === 'Approved' ? null : task.scheduledDate,
+        actualEndDate: task.status === 'Completed' ? task.scheduledDate : null,
+        estimatedMaterialCost: task.materials.reduce((sum, m) => sum + m.plannedEstimatedAmount, 0),
+        actualMaterialCost: task.actualMaterialCost ?? 0,
+        actualServiceCost: logs.reduce((sum, log) => sum + (log.serviceCost ?? 0), 0),
+        plotName: plotName(seed),
+        plotArea: seed.area,
+        materials: task.materials.map((m) => ({
+          materialId: m.materialId,
+          materialName: m.materialName,
+          materialUnit: m.materialUnit,
+          plannedQuantityPerHa: m.plannedQuantityPerHa,
+          plannedTotalEstimatedCost: m.plannedEstimatedAmount,
+          actualQuantityUsed: m.actualQuantity,
+          actualCost: m.actualCost,
+          logNotes: null,
+        })),
+        farmLogs: logs.map((log) => ({
+          farmLogId: log.farmLogId,
+          loggedDate: log.loggedDate,
+          completionPercentage: log.completionPercentage,
+          actualAreaCovered: log.actualAreaCovered,
+          workDescription: log.workDescription,
+          photoUrls: log.photoUrls ?? [],
+          actualServiceCost: log.serviceCost,
+        })),
+      };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,105 @@
+/**
+ * Network Log
+ * Bounded record of recent API calls (method, URL, status, timing) for the
+ * diagnostics screen. Bodies and headers are never stored.
+ */
+
+import { useEffect, useState } from 'react';
+
+export type NetworkCallState = 'pending' | 'success' | 'error' | 'cancelled';
+
+export type NetworkCall = {
+  id: number;
+  method: string;
+  url: string;
+  startedAt: string;
+  state: NetworkCallState;
+  // null while pending, or when the request never reached the server
+  status: number | null;
+  durationMs: number | null;
+  error?: string;
+};
+
+type FinishCall = {
+  state: Exclude<NetworkCallState, 'pending'>;
+  status?: number | null;
+  error?: string;
+};
+
+const MAX_CALLS = 200;
+
+let calls: NetworkCall[] = [];
+let nextId = 1;
+const startTimes = new Map<number, number>();
+const listeners = new Set<(calls: NetworkCall[]) => void>();
+
+const emit = () => listeners.forEach((listener) => listener(calls));
+
+// Query strings can carry phone numbers or tokens, only the path is kept
+const stripQuery = (url: string) => url.split('?')[0];
+
+/**
+ * Record the start of a request and return its id for finishNetworkCall
+ */
+export const startNetworkCall = (method: string | undefined, url: string | undefined) => {
+  const id = nextId++;
+  const call: NetworkCall = {
+    id,
+    method: (method || 'GET').toUpperCase(),
+    url: stripQuery(url || ''),
+    startedAt: new Date().toISOString(),
+    state: 'pending',
+    status: null,
+    durationMs: null,
+  };
+
+  startTimes.set(id, Date.now());
+  calls = [...calls, call];
+  if (calls.length > MAX_CALLS) {
+    calls.slice(0, -MAX_CALLS).forEach((item) => startTimes.delete(item.id));
+    calls = calls.slice(-MAX_CALLS);
+  }
+  emit();
+  return id;
+};
+
+export const finishNetworkCall = (id: number | undefined, { state, status = null, error }: FinishCall) => {
+  if (id === undefined) return;
+  const startedAt = startTimes.get(id);
+  startTimes.delete(id);
+
+  calls = calls.map((call) =>
+    call.id === id
+      ? {
+          ...call,
+          state,
+          status,
+          error,
+          durationMs: startedAt === undefined ? null : Date.now() - startedAt,
+        }
+      : call,
+  );
+  emit();
+};
+
+export const getNetworkCalls = () => calls;
+
+export const clearNetworkCalls = () => {
+  calls = [];
+  startTimes.clear();
+  emit();
+};
+
+export const useNetworkCalls = (): NetworkCall[] => {
+  const [current, setCurrent] = useState<NetworkCall[]>(calls);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(calls);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+};
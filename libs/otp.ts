@@ -0,0 +1,125 @@
+/**
+ * One-Time Codes
+ * Client side of code challenges: phone number checks, the resend
+ * cooldown and the wrong-code attempt limit, shared by phone login,
+ * phone verification and password reset
+ */
+
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+
+import {
+  OtpPurpose,
+  RequestOtpRequest,
+  RequestOtpResponse,
+  requestOtpResponseSchema,
+} from '@/types/api';
+
+import { api } from './api-client';
+import { toApiError } from './api-error';
+import { parseResponse } from './api-validation';
+import { createLogger } from './logger';
+
+const log = createLogger('AUTH');
+
+export const OTP_LENGTH = 6;
+
+// Vietnamese mobile numbers: 0xxxxxxxxx, 84xxxxxxxxx or +84xxxxxxxxx
+const PHONE_PATTERN = /^(?:\+84|84|0)\d{9,10}$/;
+
+export const normalizePhoneNumber = (input: string) => input.replace(/[\s\-().]/g, '');
+
+export const isValidPhoneNumber = (input: string) => PHONE_PATTERN.test(normalizePhoneNumber(input));
+
+export const isEmailAddress = (input: string) => input.includes('@');
+
+/**
+ * Request fields for a code destination: an email address or a phone number
+ */
+export const toOtpDestination = (destination: string) =>
+  isEmailAddress(destination) ? { email: destination } : { phoneNumber: destination };
+
+const requestOtp = async (data: RequestOtpRequest): Promise<RequestOtpResponse> => {
+  log.info(`Requesting ${data.purpose} code`, data);
+
+  return parseResponse(
+    requestOtpResponseSchema,
+    await api.post('/Auth/otp/request', data),
+    'POST /Auth/otp/request',
+  );
+};
+
+export const useRequestOtp = () =>
+  useMutation({
+    mutationFn: requestOtp,
+  });
+
+type Challenge = {
+  // Normalised phone number, or an email address for password reset
+  destination: string;
+  resendAt: number;
+  expiresAt: number;
+  attemptsLeft: number;
+};
+
+const toChallenge = (destination: string, response: RequestOtpResponse): Challenge => {
+  const now = Date.now();
+  return {
+    destination,
+    resendAt: now + response.resendAfterSeconds * 1000,
+    expiresAt: now + response.expiresInSeconds * 1000,
+    attemptsLeft: response.maxAttempts,
+  };
+};
+
+export const useOtpChallenge = (purpose: OtpPurpose) => {
+  const requestOtp = useRequestOtp();
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while the resend cooldown runs
+  useEffect(() => {
+    if (!challenge || challenge.resendAt <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [challenge, now]);
+
+  const send = async (destination: string) => {
+    const normalized = isEmailAddress(destination)
+      ? destination.trim().toLowerCase()
+      : normalizePhoneNumber(destination);
+    const response = await requestOtp.mutateAsync({ ...toOtpDestination(normalized), purpose });
+    setChallenge(toChallenge(normalized, response));
+    setNow(Date.now());
+  };
+
+  const resend = () => (challenge ? send(challenge.destination) : Promise.resolve());
+
+  /**
+   * Count a failed verification. A wrong code uses up an attempt; too many
+   * requests (429) use up all of them, so a new code has to be sent.
+   */
+  const recordFailure = (error: unknown) => {
+    const { status } = toApiError(error);
+    if (status !== 400 && status !== 401 && status !== 429) return;
+    setChallenge((current) =>
+      current && { ...current, attemptsLeft: status === 429 ? 0 : Math.max(0, current.attemptsLeft - 1) },
+    );
+  };
+
+  const secondsUntilResend = challenge ? Math.max(0, Math.ceil((challenge.resendAt - now) / 1000)) : 0;
+  const isExpired = Boolean(challenge && challenge.expiresAt <= Date.now());
+
+  return {
+    challenge,
+    send,
+    resend,
+    reset: () => setChallenge(null),
+    recordFailure,
+    isSending: requestOtp.isPending,
+    secondsUntilResend,
+    attemptsLeft: challenge?.attemptsLeft ?? 0,
+    // No more tries on this code: the user has to request a new one
+    isLocked: Boolean(challenge && (challenge.attemptsLeft <= 0 || isExpired)),
+  };
+};
@@ -0,0 +1,425 @@
+/**
+ * Offline Outbox
+ * Persists farm logs, emergency reports, harvests and UAV completion reports submitted
+ * without connectivity and replays them in order once the device is back online
+ */
+
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { env } from '@/configs/env';
+
+import {
+  CreateEmergencyReportRequest,
+  CreateFarmLogRequest,
+  RecordHarvestRequest,
+  ReportServiceOrderCompletionRequest,
+} from '@/types/api';
+
+import { UploadOptions } from './api-client';
+import { ApiError, toApiError } from './api-error';
+import { isOnline } from './connectivity';
+import { createEmergencyReport, createFarmLog } from './farmer';
+import { recordHarvest } from './harvest';
+import { createIdempotencyKey, isDuplicateSubmission } from './idempotency';
+import { createLogger } from './logger';
+import { reportUavOrderCompletion } from './uav';
+
+const OUTBOX_KEY = 'outbox';
+const OUTBOX_DIRECTORY = 'outbox';
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000; // keep sent items visible for a day
+
+const log = createLogger('OUTBOX');
+
+type OutboxRequests = {
+  'farm-log': CreateFarmLogRequest;
+  'emergency-report': CreateEmergencyReportRequest;
+  harvest: RecordHarvestRequest;
+  'uav-completion': ReportServiceOrderCompletionRequest;
+};
+
+export type OutboxKind = keyof OutboxRequests;
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed' | 'sent';
+
+export type OutboxFile = {
+  uri: string;
+  type: string;
+  name: string;
+};
+
+export type OutboxItem<K extends OutboxKind = OutboxKind> = {
+  id: string;
+  kind: K;
+  label: string;
+  request: OutboxRequests[K];
+  files: OutboxFile[];
+  // Sent with every attempt so replays of a delivered item are ignored by the server
+  idempotencyKey: string;
+  // Account and backend the item was submitted for; it is never sent with anyone else's
+  // token or to another server
+  ownerId: string;
+  serverProfileId: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const senders: {
+  [K in OutboxKind]: (
+    request: OutboxRequests[K],
+    files: OutboxFile[],
+    options?: UploadOptions,
+  ) => Promise<unknown>;
+} = {
+  'farm-log': (request, files, options) => createFarmLog(request, files, options),
+  'emergency-report': (request, files, options) =>
+    createEmergencyReport(request, files, options),
+  harvest: (request, files, options) => recordHarvest(request, files, options),
+  'uav-completion': (request, files, options) =>
+    reportUavOrderCompletion({ request, proofFiles: files, ...options }),
+};
+
+let items: OutboxItem[] = [];
+// Signed-in user; null while signed out or not yet known
+let ownerId: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+// Errors of the latest failed attempt, rethrown to the screen that submitted the item
+const failures = new Map<string, ApiError>();
+// Progress/cancel hooks of the screen that is waiting on an item
+const uploadOptions = new Map<string, UploadOptions>();
+const listeners = new Set<(items: OutboxItem[]) => void>();
+const sentListeners = new Set<(item: OutboxItem) => void>();
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const belongsToCurrentSession = (item: OutboxItem) =>
+  item.ownerId === ownerId && item.serverProfileId === env.SERVER_PROFILE.id;
+
+const loadOutbox = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+        const parsed: OutboxItem[] = stored ? JSON.parse(stored) : [];
+        const now = Date.now();
+
+        items = parsed
+          // Drop sent items once they are old enough to no longer be interesting
+          .filter(
+            (item) =>
+              item.status !== 'sent' ||
+              now - new Date(item.updatedAt).getTime() < SENT_RETENTION_MS,
+          )
+          .map((item) => ({
+            ...item,
+            // An item left in 'sending' means the app was killed mid-upload
+            status: item.status === 'sending' ? 'queued' : item.status,
+            // Items queued before idempotency keys existed get one now
+            idempotencyKey: item.idempotencyKey ?? createIdempotencyKey(),
+          }));
+      } catch (error) {
+        log.error('Error loading outbox', error);
+        items = [];
+      }
+      listeners.forEach((listener) => listener(items));
+    })();
+  }
+  return loadPromise;
+};
+
+const saveOutbox = async (next: OutboxItem[]) => {
+  items = next;
+  listeners.forEach((listener) => listener(items));
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  } catch (error) {
+    log.error('Error saving outbox', error);
+  }
+};
+
+const updateItem = (id: string, changes: Partial<OutboxItem>) =>
+  saveOutbox(
+    items.map((item) =>
+      item.id === id ? { ...item, ...changes, updatedAt: new Date().toISOString() } : item,
+    ),
+  );
+
+// Picker and camera URIs live in cache directories the OS may purge,
+// so queued files are copied into the app's document directory
+const persistFiles = (id: string, files: OutboxFile[]): OutboxFile[] => {
+  try {
+    const directory = new Directory(Paths.document, OUTBOX_DIRECTORY, id);
+    directory.create({ intermediates: true, idempotent: true });
+
+    return files.map((file, index) => {
+      const target = new File(directory, `${index}_${file.name}`);
+      new File(file.uri).copy(target);
+      return { ...file, uri: target.uri };
+    });
+  } catch (error) {
+    log.warn('Could not copy outbox files, keeping original URIs', error);
+    return files;
+  }
+};
+
+const deleteFiles = (id: string) => {
+  try {
+    const directory = new Directory(Paths.document, OUTBOX_DIRECTORY, id);
+    if (directory.exists) {
+      directory.delete();
+    }
+  } catch (error) {
+    log.warn('Could not delete outbox files', error);
+  }
+};
+
+const sendItem = async (item: OutboxItem): Promise<'sent' | 'offline' | 'failed'> => {
+  await updateItem(item.id, { status: 'sending', attempts: item.attempts + 1 });
+
+  try {
+    const send = senders[item.kind] as (
+      request: unknown,
+      files: OutboxFile[],
+      options?: UploadOptions,
+    ) => Promise<unknown>;
+    try {
+      await send(item.request, item.files, {
+        ...uploadOptions.get(item.id),
+        idempotencyKey: item.idempotencyKey,
+      });
+    } catch (error) {
+      // An earlier attempt reached the server even though its response was lost
+      if (!isDuplicateSubmission(error)) {
+        throw error;
+      }
+    }
+
+    await updateItem(item.id, { status: 'sent', lastError: null });
+    deleteFiles(item.id);
+    const sent = items.find((current) => current.id === item.id);
+    if (sent) {
+      sentListeners.forEach((listener) => listener(sent));
+    }
+    return 'sent';
+  } catch (error) {
+    // Requests that never reached the server are worth replaying later,
+    // a cancelled upload is handed back to the screen like a rejection
+    const apiError = toApiError(error);
+    const offline = apiError.isNetworkError && !apiError.isCancelled;
+    failures.set(item.id, apiError);
+    await updateItem(item.id, {
+      status: offline ? 'queued' : 'failed',
+      lastError: apiError.message,
+    });
+    return offline ? 'offline' : 'failed';
+  }
+};
+
+const drainOutbox = async () => {
+  await loadOutbox();
+
+  // Nothing is sent until the signed-in user is known
+  if (!ownerId) {
+    return;
+  }
+
+  if (!isOnline(await NetInfo.fetch())) {
+    return;
+  }
+
+  // Items are replayed strictly in submission order. Another account's or server's items
+  // stay stored until their owner signs in there again.
+  const queue = items
+    .filter((item) => item.status === 'queued' && belongsToCurrentSession(item))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const item of queue) {
+    const result = await sendItem(item);
+    if (result === 'offline') {
+      // Connection dropped - keep the rest queued until the next reconnect
+      break;
+    }
+  }
+};
+
+/**
+ * Replay all queued items. Concurrent calls share a single run,
+ * and a call made while a run is in progress triggers one more pass.
+ */
+export const flushOutbox = (): Promise<void> => {
+  flushRequested = true;
+
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      while (flushRequested) {
+        flushRequested = false;
+        await drainOutbox();
+      }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+
+  return flushPromise;
+};
+
+/**
+ * Save a submission to the outbox and try to send it right away.
+ * Resolves with the item as 'sent' or, when offline, as 'queued'.
+ * Rejects (and drops the item) if the server refuses a fresh submission
+ * or the user cancels the upload, so the form stays editable instead of
+ * leaving a failed entry behind.
+ */
+export const submitToOutbox = async <K extends OutboxKind>(
+  kind: K,
+  request: OutboxRequests[K],
+  files: OutboxFile[],
+  label: string,
+  options?: UploadOptions,
+): Promise<OutboxItem<K>> => {
+  await loadOutbox();
+  if (!ownerId) {
+    throw new ApiError({ message: 'Not signed in', status: 401 });
+  }
+
+  const id = generateId();
+  const now = new Date().toISOString();
+  const item: OutboxItem<K> = {
+    id,
+    kind,
+    label,
+    request,
+    files: persistFiles(id, files),
+    // The form's key, so a double tap that queues the same submission twice is still sent once
+    idempotencyKey: options?.idempotencyKey ?? createIdempotencyKey(),
+    ownerId,
+    serverProfileId: env.SERVER_PROFILE.id,
+    status: 'queued',
+    attempts: 0,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (options) {
+    uploadOptions.set(id, options);
+  }
+
+  await saveOutbox([...items, item]);
+  try {
+    await flushOutbox();
+  } finally {
+    uploadOptions.delete(id);
+  }
+
+  const result = items.find((current) => current.id === id) as OutboxItem<K> | undefined;
+  const failure = failures.get(id);
+  failures.delete(id);
+
+  if (result?.status === 'failed') {
+    await discardOutboxItem(id);
+    throw failure ?? new ApiError({ message: result.lastError || 'Request failed' });
+  }
+
+  return result ?? item;
+};
+
+/**
+ * Put a failed item back in the queue and replay it
+ */
+export const retryOutboxItem = async (id: string) => {
+  await loadOutbox();
+  await updateItem(id, { status: 'queued', lastError: null });
+  return flushOutbox();
+};
+
+/**
+ * Remove an item (and its stored files) from the outbox
+ */
+export const discardOutboxItem = async (id: string) => {
+  await loadOutbox();
+  failures.delete(id);
+  deleteFiles(id);
+  await saveOutbox(items.filter((item) => item.id !== id));
+};
+
+/**
+ * Tell the outbox who is signed in. Only that user's items for the active server
+ * are shown and replayed; everyone else's are kept for later.
+ */
+export const setOutboxOwner = (userId: string | null) => {
+  if (userId === ownerId) return;
+  ownerId = userId;
+  if (ownerId) {
+    flushOutbox();
+  }
+};
+
+/**
+ * Items not yet delivered, of every account and server profile
+ */
+export const countUnsentOutboxItems = async () => {
+  await loadOutbox();
+  return items.filter((item) => item.status !== 'sent').length;
+};
+
+/**
+ * Register a callback for items that were delivered during replay
+ */
+export const onOutboxItemSent = (listener: (item: OutboxItem) => void) => {
+  sentListeners.add(listener);
+  return () => {
+    sentListeners.delete(listener);
+  };
+};
+
+/**
+ * Replay the outbox on startup, whenever connectivity returns
+ * and whenever the app comes back to the foreground
+ */
+export const startOutboxSync = () => {
+  flushOutbox();
+
+  let wasOnline = true;
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    const online = isOnline(state);
+    if (online && !wasOnline) {
+      flushOutbox();
+    }
+    wasOnline = online;
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      flushOutbox();
+    }
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
+
+export const useOutbox = (kind?: OutboxKind): OutboxItem[] => {
+  const [current, setCurrent] = useState<OutboxItem[]>(items);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    loadOutbox().then(() => setCurrent(items));
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  const own = current.filter(belongsToCurrentSession);
+  return kind ? own.filter((item) => item.kind === kind) : own;
+};
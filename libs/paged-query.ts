@@ -0,0 +1,77 @@
+/**
+ * Paged Queries
+ * Infinite queries over PagedResult endpoints: the next page loads as a list
+ * nears its end, and pull-to-refresh starts again from the first page
+ */
+
+import { useMemo, useState } from 'react';
+import { InfiniteData, QueryKey, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+
+import { PagedResult } from '@/types/api';
+
+type PageRequest = {
+  currentPage: number;
+  pageSize: number;
+};
+
+type UsePagedQueryOptions<TItem> = {
+  // Should include the page size, e.g. uavKeys.ordersInfinite(pageSize)
+  queryKey: QueryKey;
+  queryFn: (page: PageRequest) => Promise<PagedResult<TItem[]>>;
+  pageSize: number;
+  enabled?: boolean;
+};
+
+export const usePagedQuery = <TItem>({
+  queryKey,
+  queryFn,
+  pageSize,
+  enabled = true,
+}: UsePagedQueryOptions<TItem>) => {
+  const queryClient = useQueryClient();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => queryFn({ currentPage: pageParam, pageSize }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasNext ? lastPage.currentPage + 1 : undefined),
+    enabled,
+  });
+
+  const items = useMemo(
+    () => query.data?.pages.flatMap((page) => page.data) ?? [],
+    [query.data],
+  );
+  const totalCount = query.data?.pages[0]?.totalCount ?? 0;
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    // Keep only the first page so the refetch doesn't replay every page loaded so far
+    queryClient.setQueryData<InfiniteData<PagedResult<TItem[]>, number>>(queryKey, (data) =>
+      data && { pages: data.pages.slice(0, 1), pageParams: data.pageParams.slice(0, 1) },
+    );
+    try {
+      await query.refetch();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Safe to call from onEndReached: no-op while a page is loading, at the end,
+  // or after a failed page (retry with fetchNextPage)
+  const loadMore = () => {
+    if (query.hasNextPage && !query.isFetchingNextPage && !query.isFetchNextPageError) {
+      query.fetchNextPage();
+    }
+  };
+
+  return {
+    ...query,
+    items,
+    totalCount,
+    isRefreshing,
+    refresh,
+    loadMore,
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * Query Keys
+ * One factory per domain so every cached query has a single, typed key shape.
+ * Keys nest from general to specific (['farmer', 'today-tasks', filters]), so
+ * invalidating a shorter key refreshes every variant below it.
+ */
+
+import { QueryClient, QueryKey } from '@tanstack/react-query';
+
+type PageParams = { page: number; size: number };
+
+export const authKeys = {
+  all: ['auth'] as const,
+  user: () => [...authKeys.all, 'user'] as const,
+};
+
+// Signed-in devices; not under authKeys so they are dropped on sign-out
+export const sessionKeys = {
+  all: ['sessions'] as const,
+  list: () => [...sessionKeys.all, 'list'] as const,
+};
+
+export const farmerKeys = {
+  all: ['farmer'] as const,
+  profile: () => [...farmerKeys.all, 'profile'] as const,
+  plots: (page?: PageParams) => [...farmerKeys.all, 'plots', ...(page ? [page] : [])] as const,
+  plotPlans: (plotId?: string, page?: PageParams) =>
+    [...farmerKeys.all, 'plot-plans', ...(plotId ? [plotId] : []), ...(page ? [page] : [])] as const,
+  planView: (planCultivationId?: string) =>
+    [...farmerKeys.all, 'plan-view', ...(planCultivationId ? [planCultivationId] : [])] as const,
+  farmLogs: (plotCultivationId?: string) =>
+    [...farmerKeys.all, 'farm-logs', ...(plotCultivationId ? [plotCultivationId] : [])] as const,
+  farmLogsInfinite: (plotCultivationId: string, pageSize: number) =>
+    [...farmerKeys.farmLogs(plotCultivationId), 'infinite', { size: pageSize }] as const,
+  todayTasks: (filters?: { plotId?: string; status?: string }) =>
+    [...farmerKeys.all, 'today-tasks', ...(filters ? [filters] : [])] as const,
+  taskDetail: (taskId?: string | null) =>
+    [...farmerKeys.all, 'task-detail', ...(taskId ? [taskId] : [])] as const,
+  alerts: (filters?: { type?: string; severity?: string; plotId?: string }) =>
+    [...farmerKeys.all, 'alerts', ...(filters ? [filters] : [])] as const,
+  activities: () => [...farmerKeys.all, 'activities'] as const,
+  economics: () => [...farmerKeys.all, 'economics'] as const,
+};
+
+export const supervisorKeys = {
+  all: ['supervisor'] as const,
+  overview: (supervisorId?: string) =>
+    [...supervisorKeys.all, 'overview', ...(supervisorId ? [supervisorId] : [])] as const,
+  recentActivity: (supervisorId?: string) =>
+    [...supervisorKeys.all, 'recent-activity', ...(supervisorId ? [supervisorId] : [])] as const,
+  farmers: (supervisorId?: string, status?: string) =>
+    [...supervisorKeys.all, 'farmers', ...(supervisorId ? [supervisorId, { status }] : [])] as const,
+  tasks: (supervisorId?: string, status?: string) =>
+    [...supervisorKeys.all, 'tasks', ...(supervisorId ? [supervisorId, { status }] : [])] as const,
+  farmLogs: (supervisorId?: string, status?: string) =>
+    [...supervisorKeys.all, 'farm-logs', ...(supervisorId ? [supervisorId, { status }] : [])] as const,
+  alerts: (supervisorId?: string, filters?: { priority: string; type: string }) =>
+    [...supervisorKeys.all, 'alerts', ...(supervisorId ? [supervisorId, filters] : [])] as const,
+  polygonTasks: () => [...supervisorKeys.all, 'polygon-tasks'] as const,
+  plots: () => [...supervisorKeys.all, 'plots'] as const,
+  standardPlans: () => [...supervisorKeys.all, 'standard-plans'] as const,
+};
+
+export const uavKeys = {
+  all: ['uav'] as const,
+  orders: (page?: PageParams) => [...uavKeys.all, 'orders', ...(page ? [page] : [])] as const,
+  ordersInfinite: (pageSize: number) =>
+    [...uavKeys.orders(), 'infinite', { size: pageSize }] as const,
+  orderDetail: (orderId?: string) =>
+    [...uavKeys.all, 'order-detail', ...(orderId ? [orderId] : [])] as const,
+};
+
+export const clusterKeys = {
+  all: ['cluster'] as const,
+  overview: () => [...clusterKeys.all, 'overview'] as const,
+  groups: () => [...clusterKeys.all, 'groups'] as const,
+  groupsInfinite: (pageSize: number) =>
+    [...clusterKeys.groups(), 'infinite', { size: pageSize }] as const,
+  supervisors: () => [...clusterKeys.all, 'supervisors'] as const,
+  supervisorsInfinite: (pageSize: number) =>
+    [...clusterKeys.supervisors(), 'infinite', { size: pageSize }] as const,
+};
+
+export const expertKeys = {
+  all: ['expert'] as const,
+  reports: (status?: string) =>
+    [...expertKeys.all, 'reports', ...(status ? [{ status }] : [])] as const,
+  reportsInfinite: (status: string, pageSize: number) =>
+    [...expertKeys.reports(status), 'infinite', { size: pageSize }] as const,
+  standardPlans: () => [...expertKeys.all, 'standard-plans'] as const,
+  standardPlanDetail: (planId?: string) =>
+    [...expertKeys.all, 'standard-plan-detail', ...(planId ? [planId] : [])] as const,
+  riceVarieties: () => [...expertKeys.all, 'rice-varieties'] as const,
+};
+
+/**
+ * Data each write changes, refreshed once the write succeeds.
+ * The farm-log, emergency-report and uav-completion entries double as the
+ * outbox kinds, so replayed submissions refresh the same queries.
+ */
+export const MUTATION_INVALIDATIONS = {
+  'start-task': [farmerKeys.todayTasks(), farmerKeys.taskDetail(), farmerKeys.planView()],
+  'farm-log': [
+    farmerKeys.todayTasks(),
+    farmerKeys.planView(),
+    farmerKeys.taskDetail(),
+    farmerKeys.farmLogs(),
+    farmerKeys.activities(),
+    farmerKeys.economics(),
+    supervisorKeys.farmLogs(),
+  ],
+  harvest: [
+    farmerKeys.plots(),
+    farmerKeys.plotPlans(),
+    farmerKeys.planView(),
+    farmerKeys.todayTasks(),
+    farmerKeys.economics(),
+  ],
+  'emergency-report': [
+    farmerKeys.alerts(),
+    farmerKeys.plots(),
+    supervisorKeys.alerts(),
+    expertKeys.reports(),
+  ],
+  'acknowledge-alert': [farmerKeys.alerts(), farmerKeys.plots()],
+  'alert-task': [farmerKeys.alerts(), farmerKeys.todayTasks(), farmerKeys.planView()],
+  'uav-completion': [uavKeys.orders(), uavKeys.orderDetail()],
+  'complete-polygon-task': [supervisorKeys.polygonTasks(), supervisorKeys.plots()],
+  'update-plot': [supervisorKeys.polygonTasks(), supervisorKeys.plots()],
+  'review-task': [supervisorKeys.tasks(), supervisorKeys.overview()],
+  'review-farm-log': [supervisorKeys.farmLogs(), supervisorKeys.overview()],
+  'review-pest-report': [expertKeys.reports(), supervisorKeys.alerts(), clusterKeys.overview()],
+} satisfies Record<string, QueryKey[]>;
+
+export type InvalidatingMutation = keyof typeof MUTATION_INVALIDATIONS;
+
+/**
+ * Drop every cached query except the auth entries, e.g. when the user signs out
+ */
+export const removeUserScopedQueries = (queryClient: QueryClient) =>
+  queryClient.removeQueries({
+    predicate: (query) => query.queryKey[0] !== authKeys.all[0],
+  });
+
+/**
+ * Refresh everything the given write affects
+ */
+export const invalidateAfter = (queryClient: QueryClient, mutation: InvalidatingMutation) =>
+  Promise.all(
+    MUTATION_INVALIDATIONS[mutation].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey }),
+    ),
+  );
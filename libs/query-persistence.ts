@@ -0,0 +1,156 @@
+/**
+ * Query Persistence
+ * Keeps selected queries in AsyncStorage so plots, today's tasks, plan views
+ * and UAV order details are readable after launching without coverage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DehydratedState,
+  QueryClient,
+  QueryKey,
+  dehydrate,
+  hydrate,
+  partialMatchKey,
+} from '@tanstack/react-query';
+
+import { env } from '@/configs/env';
+import { User } from '@/types/api';
+
+import { createLogger } from './logger';
+import { authKeys, farmerKeys, removeUserScopedQueries, uavKeys } from './query-keys';
+import { tokenStorage } from './token-storage';
+
+const QUERY_CACHE_KEY = 'query-cache';
+// Bump when the data shape of a persisted query changes
+const CACHE_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+const HOUR = 1000 * 60 * 60;
+const DAY = 24 * HOUR;
+
+const log = createLogger('CACHE');
+
+// Queries kept across launches, and how old they may be when restored
+const PERSISTED_QUERIES: { queryKey: QueryKey; maxAge: number }[] = [
+  { queryKey: authKeys.user(), maxAge: 7 * DAY },
+  { queryKey: farmerKeys.profile(), maxAge: 7 * DAY },
+  { queryKey: farmerKeys.plots(), maxAge: 7 * DAY },
+  { queryKey: farmerKeys.plotPlans(), maxAge: 7 * DAY },
+  { queryKey: farmerKeys.planView(), maxAge: 3 * DAY },
+  { queryKey: farmerKeys.farmLogs(), maxAge: 3 * DAY },
+  { queryKey: farmerKeys.todayTasks(), maxAge: DAY },
+  { queryKey: farmerKeys.taskDetail(), maxAge: DAY },
+  { queryKey: uavKeys.orders(), maxAge: 3 * DAY },
+  { queryKey: uavKeys.orderDetail(), maxAge: 3 * DAY },
+];
+
+type PersistedCache = {
+  buster: string;
+  userId: string;
+  savedAt: number;
+  state: DehydratedState;
+};
+
+// Owner of the restored data, checked against the user once it is refetched
+let restoredUserId: string | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Data from another build, server or user is never restored
+const getBuster = (userId: string) => `${CACHE_VERSION}:${env.SERVER_PROFILE.id}:${env.API_URL}:${userId}`;
+
+const getMaxAge = (queryKey: QueryKey) =>
+  PERSISTED_QUERIES.find((entry) => partialMatchKey(queryKey, entry.queryKey))?.maxAge ?? null;
+
+/**
+ * Restore the persisted cache. Call after the server profile is loaded.
+ */
+export const restoreQueryCache = async (queryClient: QueryClient) => {
+  // Unobserved queries would otherwise be garbage collected (and dropped from
+  // storage on the next save) five minutes after launch
+  PERSISTED_QUERIES.forEach(({ queryKey, maxAge }) =>
+    queryClient.setQueryDefaults(queryKey, { gcTime: maxAge }),
+  );
+
+  try {
+    const [stored, hasToken] = await Promise.all([
+      AsyncStorage.getItem(QUERY_CACHE_KEY),
+      tokenStorage.hasToken(),
+    ]);
+    if (!stored) return;
+
+    const cache: PersistedCache = JSON.parse(stored);
+    if (!hasToken || cache.buster !== getBuster(cache.userId)) {
+      await AsyncStorage.removeItem(QUERY_CACHE_KEY);
+      return;
+    }
+
+    const now = Date.now();
+    hydrate(queryClient, {
+      ...cache.state,
+      queries: cache.state.queries.filter((query) => {
+        const maxAge = getMaxAge(query.queryKey);
+        return maxAge !== null && now - query.state.dataUpdatedAt < maxAge;
+      }),
+    });
+    restoredUserId = cache.userId;
+  } catch (error) {
+    log.warn('Could not restore query cache', error);
+    await AsyncStorage.removeItem(QUERY_CACHE_KEY).catch(() => undefined);
+  }
+};
+
+const saveQueryCache = async (queryClient: QueryClient) => {
+  const user = queryClient.getQueryData<User | null>(authKeys.user());
+  // Not known yet (e.g. right after a server switch cleared the cache)
+  if (user === undefined) return;
+
+  if (user === null) {
+    await AsyncStorage.removeItem(QUERY_CACHE_KEY);
+    return;
+  }
+
+  if (restoredUserId && restoredUserId !== user.id) {
+    // A different account signed in: nothing restored belongs to it
+    restoredUserId = null;
+    removeUserScopedQueries(queryClient);
+  }
+
+  const cache: PersistedCache = {
+    buster: getBuster(user.id),
+    userId: user.id,
+    savedAt: Date.now(),
+    state: dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) =>
+        query.state.status === 'success' && getMaxAge(query.queryKey) !== null,
+    }),
+  };
+  await AsyncStorage.setItem(QUERY_CACHE_KEY, JSON.stringify(cache));
+};
+
+/**
+ * Save the cache shortly after queries change. Returns a cleanup function.
+ */
+export const startQueryPersistence = (queryClient: QueryClient) => {
+  const scheduleSave = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      saveQueryCache(queryClient).catch((error) => log.warn('Could not save query cache', error));
+    }, SAVE_DELAY_MS);
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type === 'added' || event.type === 'removed' || event.type === 'updated') {
+      scheduleSave();
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+  };
+};
@@ -1,12 +1,43 @@
 import { UseMutationOptions, DefaultOptions } from '@tanstack/react-query';
 
+import { toApiError } from './api-error';
+
+// Attempts after the first failure for queries (GETs are safe to repeat)
+const MAX_QUERY_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+/**
+ * Exponential backoff with full jitter: a random delay up to 1s, 2s, 4s, ... capped at 30s,
+ * so phones that lost signal together don't retry in lockstep
+ */
+export const backoffDelay = (attemptIndex: number, baseMs = BACKOFF_BASE_MS) =>
+  Math.round(Math.random() * Math.min(BACKOFF_MAX_MS, baseMs * 2 ** attemptIndex));
+
+/**
+ * Retry network failures, timeouts, 429 and 5xx; never 4xx, validation errors or cancellations
+ */
+export const shouldRetryQuery = (failureCount: number, error: unknown) =>
+  failureCount < MAX_QUERY_RETRIES && toApiError(error).isRetryable;
+
 export const queryConfig = {
   queries: {
     // throwOnError: true,
     refetchOnWindowFocus: false,
-    retry: false,
+    // Paused while offline (see libs/connectivity.ts) and refetched on reconnect
+    networkMode: 'online',
+    refetchOnReconnect: true,
+    retry: shouldRetryQuery,
+    retryDelay: (attemptIndex) => backoffDelay(attemptIndex),
     staleTime: 1000 * 60,
   },
+  mutations: {
+    // Always run: offline submissions go to the outbox and sign-out clears local state,
+    // failures surface as ApiError.isNetworkError instead of a paused spinner
+    networkMode: 'always',
+    // Mutations are POST/PUT/DELETE and are never repeated automatically
+    retry: false,
+  },
 } satisfies DefaultOptions;
 
 export type ApiFnReturnType<FnType extends (...args: any) => Promise<any>> =
@@ -0,0 +1,133 @@
+/**
+ * Server Profile
+ * Runtime choice of backend (build default, staging, local, custom URL),
+ * persisted across launches so QA can repoint a device without a rebuild
+ */
+
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { CUSTOM_PROFILE_ID, ServerProfile, env, setActiveServerProfile } from '@/configs/env';
+
+import { clearAppLock } from './app-lock';
+import { createLogger } from './logger';
+import { tokenStorage } from './token-storage';
+
+const SERVER_PROFILE_KEY = 'server-profile';
+
+const log = createLogger('SERVER');
+
+type StoredSelection = {
+  id: string;
+  // Only for the custom profile
+  apiUrl?: string;
+};
+
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<(profile: ServerProfile) => void>();
+
+const emit = () => listeners.forEach((listener) => listener(env.SERVER_PROFILE));
+
+/**
+ * Profile for a typed-in API URL; everything else comes from the build
+ */
+export const createCustomProfile = (apiUrl: string): ServerProfile => ({
+  ...env.DEFAULT_SERVER_PROFILE,
+  id: CUSTOM_PROFILE_ID,
+  name: 'Custom URL',
+  apiUrl: apiUrl.trim().replace(/\/+$/, ''),
+});
+
+const resolveSelection = (selection: StoredSelection): ServerProfile | null => {
+  if (selection.id === CUSTOM_PROFILE_ID) {
+    return selection.apiUrl ? createCustomProfile(selection.apiUrl) : null;
+  }
+  return env.SERVER_PROFILES.find((profile) => profile.id === selection.id) ?? null;
+};
+
+const applyMapboxToken = (token: string) => {
+  if (!token) return;
+  try {
+    const Mapbox = require('@rnmapbox/maps');
+    Mapbox?.setAccessToken?.(token);
+  } catch (error) {
+    log.warn('Mapbox native module not available', error);
+  }
+};
+
+const apply = (profile: ServerProfile) => {
+  setActiveServerProfile(profile);
+  applyMapboxToken(profile.mapboxToken);
+  emit();
+};
+
+/**
+ * Restore the persisted profile. Requests wait for this so nothing is sent
+ * to the build default before the saved choice is known.
+ */
+export const loadServerProfile = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(SERVER_PROFILE_KEY);
+        // A choice saved by a preview build doesn't carry over into a production build
+        const profile =
+          stored && env.ALLOW_SERVER_SWITCHING ? resolveSelection(JSON.parse(stored)) : null;
+        apply(profile ?? env.DEFAULT_SERVER_PROFILE);
+      } catch (error) {
+        log.error('Error loading server profile', error);
+        apply(env.DEFAULT_SERVER_PROFILE);
+      }
+    })();
+  }
+  return loadPromise;
+};
+
+/**
+ * Switch backend: tokens from the old server and the app PIN guarding that session are
+ * dropped and the new profile is persisted. Outbox items stay tied to the old profile
+ * and are never sent to the new one, so screens should not switch while any are pending.
+ * Prefer useSwitchServerProfile in screens, which also clears the query cache.
+ */
+export const switchServerProfile = async (profile: ServerProfile) => {
+  if (!env.ALLOW_SERVER_SWITCHING) {
+    throw new Error('Server switching is disabled in this build');
+  }
+  await loadServerProfile();
+  await tokenStorage.clearTokens();
+  await clearAppLock();
+
+  const selection: StoredSelection =
+    profile.id === CUSTOM_PROFILE_ID ? { id: profile.id, apiUrl: profile.apiUrl } : { id: profile.id };
+  await AsyncStorage.setItem(SERVER_PROFILE_KEY, JSON.stringify(selection));
+
+  apply(profile);
+  log.info(`Switched to ${profile.name}`, { apiUrl: profile.apiUrl });
+};
+
+export const useSwitchServerProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: switchServerProfile,
+    onSuccess: () => {
+      // Cached data (including the signed-in user) belongs to the previous server
+      queryClient.clear();
+    },
+  });
+};
+
+export const useServerProfile = (): ServerProfile => {
+  const [current, setCurrent] = useState<ServerProfile>(env.SERVER_PROFILE);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(env.SERVER_PROFILE);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+};
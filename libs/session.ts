@@ -0,0 +1,203 @@
+/**
+ * Session Manager
+ * Refreshes the access token before it expires instead of waiting for a 401,
+ * so long-running uploads never start with a token that is about to lapse
+ */
+
+import Axios from 'axios';
+import { AppState } from 'react-native';
+
+import { env } from '@/configs/env';
+import { LoginResponseData, Result } from '@/types/api';
+
+import { ApiError, toApiError } from './api-error';
+import { createLogger } from './logger';
+import { mockAdapter } from './mock-api';
+import { loadServerProfile } from './server-profile';
+import { tokenStorage } from './token-storage';
+
+const log = createLogger('SESSION');
+
+// Same buffer tokenStorage.isTokenExpired uses
+const REFRESH_BEFORE_EXPIRY_MS = 5 * 60 * 1000;
+// Long timers are unreliable on Android, so the schedule is re-checked at least hourly
+const MAX_TIMER_MS = 60 * 60 * 1000;
+const RETRY_AFTER_FAILURE_MS = 60 * 1000;
+
+// Error code the backend sends with a 401 once a session was signed out from another device
+export const SESSION_REVOKED_CODE = 'SessionRevoked';
+
+// 'revoked': signed out remotely (session list, password change); 'expired': refresh rejected
+export type SessionEndReason = 'expired' | 'revoked';
+
+let refreshPromise: Promise<string> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const expiredListeners = new Set<(reason: SessionEndReason) => void>();
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+export const isSessionRevoked = (error: unknown) => {
+  const apiError = toApiError(error);
+  return apiError.status === 401 && apiError.code === SESSION_REVOKED_CODE;
+};
+
+/**
+ * The session is over: tokens are dropped and listeners send the user to login
+ */
+export const endSession = async (reason: SessionEndReason) => {
+  clearRefreshTimer();
+  await tokenStorage.clearTokens();
+  expiredListeners.forEach((listener) => listener(reason));
+};
+
+const requestNewTokens = async (): Promise<string> => {
+  await loadServerProfile();
+  const refreshToken = await tokenStorage.getRefreshToken();
+
+  if (!refreshToken) {
+    await endSession('expired');
+    throw new ApiError({ message: 'Session expired', status: 401 });
+  }
+
+  try {
+    const accessToken = await tokenStorage.getAccessToken();
+    // Bare Axios call so the api interceptors don't recurse into another refresh
+    const response = await Axios.post<Result<LoginResponseData>>(
+      `${env.API_URL}/Auth/refresh-token`,
+      {
+        accessToken,
+        refreshToken,
+      },
+      {
+        headers: { Accept: 'application/json' },
+        adapter: env.MOCK_API ? mockAdapter : undefined,
+      },
+    );
+
+    const result = response.data;
+
+    if (!result.succeeded || !result.data) {
+      throw new ApiError({
+        message: result.message || 'Token refresh failed',
+        status: 401,
+        errors: result.errors,
+      });
+    }
+
+    const { accessToken: newAccessToken, refreshToken: newRefreshToken, expiresAt } = result.data;
+    await tokenStorage.setTokens(newAccessToken, newRefreshToken, expiresAt);
+
+    return newAccessToken;
+  } catch (error) {
+    const apiError = toApiError(error, 'Token refresh failed');
+
+    // Only a definitive rejection ends the session - being offline or a 5xx does not
+    if (!apiError.isRetryable) {
+      const reason = isSessionRevoked(apiError) ? 'revoked' : 'expired';
+      log.warn(`Refresh rejected (${reason}), signing out`);
+      await endSession(reason);
+    }
+
+    throw apiError;
+  }
+};
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share the same in-flight request.
+ */
+export const refreshSession = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Refresh first if the stored access token expires within the buffer.
+ * Failures are left for the 401 handling in the api client.
+ */
+export const ensureFreshSession = async () => {
+  if (!(await tokenStorage.hasToken()) || !(await tokenStorage.isTokenExpired())) {
+    return;
+  }
+
+  try {
+    await refreshSession();
+  } catch (error) {
+    log.warn('Could not refresh before request', error);
+  }
+};
+
+const scheduleRefresh = async () => {
+  clearRefreshTimer();
+
+  const [expiresAt, refreshToken] = await Promise.all([
+    tokenStorage.getExpiresAt(),
+    tokenStorage.getRefreshToken(),
+  ]);
+
+  if (!expiresAt || !refreshToken) {
+    return;
+  }
+
+  const delay = new Date(expiresAt).getTime() - REFRESH_BEFORE_EXPIRY_MS - Date.now();
+
+  if (delay > 0) {
+    refreshTimer = setTimeout(scheduleRefresh, Math.min(delay, MAX_TIMER_MS));
+    return;
+  }
+
+  try {
+    // Storing the new tokens triggers the next scheduleRefresh
+    await refreshSession();
+  } catch (error) {
+    if (AppState.currentState === 'active' && (await tokenStorage.hasToken())) {
+      clearRefreshTimer();
+      refreshTimer = setTimeout(scheduleRefresh, RETRY_AFTER_FAILURE_MS);
+    }
+  }
+};
+
+/**
+ * Register a callback for when the session can no longer be refreshed or was revoked
+ */
+export const onSessionExpired = (listener: (reason: SessionEndReason) => void) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Keep the access token fresh while the app is in the foreground
+ * and catch up immediately when it returns from the background
+ */
+export const startSessionManager = () => {
+  scheduleRefresh();
+
+  const unsubscribeTokens = tokenStorage.subscribe(() => {
+    scheduleRefresh();
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      scheduleRefresh();
+    } else if (state === 'background') {
+      clearRefreshTimer();
+    }
+  });
+
+  return () => {
+    clearRefreshTimer();
+    unsubscribeTokens();
+    appStateSubscription.remove();
+  };
+};
@@ -3,8 +3,16 @@
  * API calls for supervisor-specific features
  */
 
+import { z } from 'zod';
+
 import { api } from './api-client';
+import { parseResponse } from './api-validation';
+import { IdempotencyOptions, idempotencyHeaders } from './idempotency';
 import { 
+  pagedResultSchema,
+  standardPlanSchema,
+  standardPlanMaterialCostResponseSchema,
+  standardPlanProfitAnalysisResponseSchema,
   PagedResult, 
   StandardPlan,
   StandardPlanMaterialCostRequest,
@@ -13,65 +21,74 @@ import {
   StandardPlanProfitAnalysisResponse 
 } from '@/types/api';
 
-// TODO: Define proper types based on backend API
-export type SupervisedFarmer = {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  totalFields: number;
-  activeTasks: number;
-  completionRate: number;
-  status: 'active' | 'needs-attention';
-  lastActivity: string;
-};
-
-export type SupervisedTask = {
-  id: string;
-  taskName: string;
-  farmerId: string;
-  farmerName: string;
-  plotId: string;
-  plotName: string;
-  status: 'pending-approval' | 'in-progress' | 'completed';
-  priority: 'high' | 'normal' | 'low';
-  dueDate: string;
-  submittedDate: string | null;
-};
-
-export type SupervisedFarmLog = {
-  id: string;
-  farmerId: string;
-  farmerName: string;
-  plotId: string;
-  plotName: string;
-  taskName: string;
-  loggedDate: string;
-  completionPercentage: number;
-  actualAreaCovered: number;
-  workDescription: string | null;
-  photoUrls: string[];
-  status: 'pending' | 'approved' | 'rejected';
-  materials: Array<{
-    name: string;
-    quantity: number;
-    unit: string;
-  }>;
-};
-
-export type SupervisedAlert = {
-  id: string;
-  type: 'pest' | 'disease' | 'weather' | 'task';
-  priority: 'critical' | 'high' | 'normal';
-  farmerId: string;
-  farmerName: string;
-  plotId: string;
-  plotName: string;
-  title: string;
-  description: string;
-  date: string;
-  status: 'read' | 'unread';
-};
+export const supervisedFarmerSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  totalFields: z.number(),
+  activeTasks: z.number(),
+  completionRate: z.number(),
+  status: z.enum(['active', 'needs-attention']),
+  lastActivity: z.string(),
+});
+
+export type SupervisedFarmer = z.infer<typeof supervisedFarmerSchema>;
+
+export const supervisedTaskSchema = z.object({
+  id: z.string(),
+  taskName: z.string(),
+  farmerId: z.string(),
+  farmerName: z.string(),
+  plotId: z.string(),
+  plotName: z.string(),
+  status: z.enum(['pending-approval', 'in-progress', 'completed']),
+  priority: z.enum(['high', 'normal', 'low']),
+  dueDate: z.string(),
+  submittedDate: z.string().nullable(),
+});
+
+export type SupervisedTask = z.infer<typeof supervisedTaskSchema>;
+
+export const supervisedFarmLogSchema = z.object({
+  id: z.string(),
+  farmerId: z.string(),
+  farmerName: z.string(),
+  plotId: z.string(),
+  plotName: z.string(),
+  taskName: z.string(),
+  loggedDate: z.string(),
+  completionPercentage: z.number(),
+  actualAreaCovered: z.number(),
+  workDescription: z.string().nullable(),
+  photoUrls: z.array(z.string()),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  materials: z.array(
+    z.object({
+      name: z.string(),
+      quantity: z.number(),
+      unit: z.string(),
+    }),
+  ),
+});
+
+export type SupervisedFarmLog = z.infer<typeof supervisedFarmLogSchema>;
+
+export const supervisedAlertSchema = z.object({
+  id: z.string(),
+  type: z.enum(['pest', 'disease', 'weather', 'task']),
+  priority: z.enum(['critical', 'high', 'normal']),
+  farmerId: z.string(),
+  farmerName: z.string(),
+  plotId: z.string(),
+  plotName: z.string(),
+  title: z.string(),
+  description: z.string(),
+  date: z.string(),
+  status: z.enum(['read', 'unread']),
+});
+
+export type SupervisedAlert = z.infer<typeof supervisedAlertSchema>;
 
 type GetSupervisedFarmersParams = {
   supervisorId: string;
@@ -108,19 +125,21 @@ type GetSupervisedAlertsParams = {
 export const getSupervisedFarmers = async (
   params: GetSupervisedFarmersParams,
 ): Promise<PagedResult<SupervisedFarmer[]>> => {
-  // TODO: Replace with actual API endpoint
-  // const response = await api.get<PagedResult<SupervisedFarmer[]>>(
-  //   `/supervisor/${params.supervisorId}/farmers`,
-  //   {
-  //     params: {
-  //       CurrentPage: params.currentPage || 1,
-  //       PageSize: params.pageSize || 20,
-  //       StatusFilter: params.statusFilter || 'all',
-  //     },
-  //   },
-  // );
-  // return response;
-  throw new Error('API endpoint not implemented yet');
+  const response = await api.get<PagedResult<SupervisedFarmer[]>>(
+    `/supervisor/${params.supervisorId}/farmers`,
+    {
+      params: {
+        CurrentPage: params.currentPage || 1,
+        PageSize: params.pageSize || 20,
+        StatusFilter: params.statusFilter || 'all',
+      },
+    },
+  );
+  return parseResponse(
+    pagedResultSchema(z.array(supervisedFarmerSchema)),
+    response,
+    'GET /supervisor/{id}/farmers',
+  );
 };
 
 /**
@@ -129,19 +148,21 @@ export const getSupervisedFarmers = async (
 export const getSupervisedTasks = async (
   params: GetSupervisedTasksParams,
 ): Promise<PagedResult<SupervisedTask[]>> => {
-  // TODO: Replace with actual API endpoint
-  // const response = await api.get<PagedResult<SupervisedTask[]>>(
-  //   `/supervisor/${params.supervisorId}/tasks`,
-  //   {
-  //     params: {
-  //       Status: params.status || 'all',
-  //       CurrentPage: params.currentPage || 1,
-  //       PageSize: params.pageSize || 20,
-  //     },
-  //   },
-  // );
-  // return response;
-  throw new Error('API endpoint not implemented yet');
+  const response = await api.get<PagedResult<SupervisedTask[]>>(
+    `/supervisor/${params.supervisorId}/tasks`,
+    {
+      params: {
+        Status: params.status || 'all',
+        CurrentPage: params.currentPage || 1,
+        PageSize: params.pageSize || 20,
+      },
+    },
+  );
+  return parseResponse(
+    pagedResultSchema(z.array(supervisedTaskSchema)),
+    response,
+    'GET /supervisor/{id}/tasks',
+  );
 };
 
 /**
@@ -150,19 +171,21 @@ export const getSupervisedTasks = async (
 export const getSupervisedFarmLogs = async (
   params: GetSupervisedFarmLogsParams,
 ): Promise<PagedResult<SupervisedFarmLog[]>> => {
-  // TODO: Replace with actual API endpoint
-  // const response = await api.get<PagedResult<SupervisedFarmLog[]>>(
-  //   `/supervisor/${params.supervisorId}/farm-logs`,
-  //   {
-  //     params: {
-  //       Status: params.status || 'all',
-  //       CurrentPage: params.currentPage || 1,
-  //       PageSize: params.pageSize || 20,
-  //     },
-  //   },
-  // );
-  // return response;
-  throw new Error('API endpoint not implemented yet');
+  const response = await api.get<PagedResult<SupervisedFarmLog[]>>(
+    `/supervisor/${params.supervisorId}/farm-logs`,
+    {
+      params: {
+        Status: params.status || 'all',
+        CurrentPage: params.currentPage || 1,
+        PageSize: params.pageSize || 20,
+      },
+    },
+  );
+  return parseResponse(
+    pagedResultSchema(z.array(supervisedFarmLogSchema)),
+    response,
+    'GET /supervisor/{id}/farm-logs',
+  );
 };
 
 /**
@@ -171,29 +194,68 @@ export const getSupervisedFarmLogs = async (
 export const getSupervisedAlerts = async (
   params: GetSupervisedAlertsParams,
 ): Promise<PagedResult<SupervisedAlert[]>> => {
-  // TODO: Replace with actual API endpoint
-  // const response = await api.get<PagedResult<SupervisedAlert[]>>(
-  //   `/supervisor/${params.supervisorId}/alerts`,
-  //   {
-  //     params: {
-  //       Priority: params.priority || 'all',
-  //       Type: params.type || 'all',
-  //       CurrentPage: params.currentPage || 1,
-  //       PageSize: params.pageSize || 20,
-  //     },
-  //   },
-  // );
-  // return response;
-  throw new Error('API endpoint not implemented yet');
+  const response = await api.get<PagedResult<SupervisedAlert[]>>(
+    `/supervisor/${params.supervisorId}/alerts`,
+    {
+      params: {
+        Priority: params.priority || 'all',
+        Type: params.type || 'all',
+        CurrentPage: params.currentPage || 1,
+        PageSize: params.pageSize || 20,
+      },
+    },
+  );
+  return parseResponse(
+    pagedResultSchema(z.array(supervisedAlertSchema)),
+    response,
+    'GET /supervisor/{id}/alerts',
+  );
+};
+
+export type SupervisorOverview = {
+  totalFarmers: number;
+  pendingApprovals: number;
+  activeTasks: number;
+  criticalAlerts: number;
+  // Average completion rate across supervised farmers, 0-100
+  overallProgress: number;
+};
+
+/**
+ * Dashboard numbers for the supervisor home screen, built from the list endpoints
+ */
+export const getSupervisorOverview = async (
+  supervisorId: string,
+): Promise<SupervisorOverview> => {
+  const [farmers, pendingTasks, activeTasks, criticalAlerts] = await Promise.all([
+    getSupervisedFarmers({ supervisorId, pageSize: 100 }),
+    getSupervisedTasks({ supervisorId, status: 'pending-approval', pageSize: 1 }),
+    getSupervisedTasks({ supervisorId, status: 'in-progress', pageSize: 1 }),
+    getSupervisedAlerts({ supervisorId, priority: 'critical', pageSize: 1 }),
+  ]);
+
+  const overallProgress =
+    farmers.data.length > 0
+      ? Math.round(
+          farmers.data.reduce((sum, farmer) => sum + farmer.completionRate, 0) /
+            farmers.data.length,
+        )
+      : 0;
+
+  return {
+    totalFarmers: farmers.totalCount,
+    pendingApprovals: pendingTasks.totalCount,
+    activeTasks: activeTasks.totalCount,
+    criticalAlerts: criticalAlerts.totalCount,
+    overallProgress,
+  };
 };
 
 /**
  * Approve a task completion
  */
 export const approveTask = async (taskId: string, supervisorId: string): Promise<void> => {
-  // TODO: Replace with actual API endpoint
-  // await api.post(`/supervisor/${supervisorId}/tasks/${taskId}/approve`);
-  throw new Error('API endpoint not implemented yet');
+  await api.post(`/supervisor/${supervisorId}/tasks/${taskId}/approve`);
 };
 
 /**
@@ -204,18 +266,14 @@ export const rejectTask = async (
   supervisorId: string,
   reason?: string,
 ): Promise<void> => {
-  // TODO: Replace with actual API endpoint
-  // await api.post(`/supervisor/${supervisorId}/tasks/${taskId}/reject`, { reason });
-  throw new Error('API endpoint not implemented yet');
+  await api.post(`/supervisor/${supervisorId}/tasks/${taskId}/reject`, { reason });
 };
 
 /**
  * Approve a farm log
  */
 export const approveFarmLog = async (logId: string, supervisorId: string): Promise<void> => {
-  // TODO: Replace with actual API endpoint
-  // await api.post(`/supervisor/${supervisorId}/farm-logs/${logId}/approve`);
-  throw new Error('API endpoint not implemented yet');
+  await api.post(`/supervisor/${supervisorId}/farm-logs/${logId}/approve`);
 };
 
 /**
@@ -226,65 +284,69 @@ export const rejectFarmLog = async (
   supervisorId: string,
   reason?: string,
 ): Promise<void> => {
-  // TODO: Replace with actual API endpoint
-  // await api.post(`/supervisor/${supervisorId}/farm-logs/${logId}/reject`, { reason });
-  throw new Error('API endpoint not implemented yet');
+  await api.post(`/supervisor/${supervisorId}/farm-logs/${logId}/reject`, { reason });
 };
 
 /**
  * Get all plots under supervisor's supervision
  */
-export const getSupervisedPlots = async (
-  supervisorId: string,
-): Promise<any[]> => {
-  // TODO: Replace with actual API endpoint
-  // const response = await api.get<any[]>(`/supervisor/${supervisorId}/plots`);
-  // return response;
-  throw new Error('API endpoint not implemented yet');
+export const getSupervisedPlots = async (supervisorId: string): Promise<PlotDTO[]> => {
+  const response = await api.get<PlotDTO[]>(`/supervisor/${supervisorId}/plots`);
+  return parseResponse(z.array(plotDtoSchema), response, 'GET /supervisor/{id}/plots');
 };
 
 // Polygon Drawing Types
-export type PolygonTaskStatus = 'Pending' | 'InProgress' | 'Completed' | 'Cancelled';
-export type PlotStatus = 'Active' | 'Inactive' | 'Emergency' | 'Locked';
-
-export type PolygonTask = {
-  id: string;
-  plotId: string;
-  status: PolygonTaskStatus;
-  assignedAt: string;
-  completedAt: string | null;
-  notes: string | null;
-  priority: number | string;
-  soThua: number | null;
-  soTo: number | null;
-  plotArea: number;
-  soilType: string | null;
-  farmerId: string;
-  farmerName: string | null;
-  farmerPhone: string | null;
-};
-
-export type PlotDTO = {
-  plotId: string;
-  farmerId: string;
-  farmerName: string;
-  groupId: string;
-  boundaryGeoJson: string | null;
-  coordinateGeoJson: string | null;
-  soThua: number;
-  soTo: number;
-  area: number;
-  soilType: string;
-  status: PlotStatus;
-  varietyName: string;
-};
+export const polygonTaskStatusSchema = z.enum(['Pending', 'InProgress', 'Completed', 'Cancelled']);
+export type PolygonTaskStatus = z.infer<typeof polygonTaskStatusSchema>;
+
+export const plotStatusSchema = z.enum(['Active', 'Inactive', 'Emergency', 'Locked']);
+export type PlotStatus = z.infer<typeof plotStatusSchema>;
+
+export const polygonTaskSchema = z.object({
+  id: z.string(),
+  plotId: z.string(),
+  status: polygonTaskStatusSchema,
+  assignedAt: z.string(),
+  completedAt: z.string().nullable(),
+  notes: z.string().nullable(),
+  priority: z.union([z.number(), z.string()]),
+  soThua: z.number().nullable(),
+  soTo: z.number().nullable(),
+  plotArea: z.number(),
+  soilType: z.string().nullable(),
+  farmerId: z.string(),
+  farmerName: z.string().nullable(),
+  farmerPhone: z.string().nullable(),
+});
+
+export type PolygonTask = z.infer<typeof polygonTaskSchema>;
+
+export const plotDtoSchema = z.object({
+  plotId: z.string(),
+  farmerId: z.string(),
+  farmerName: z.string(),
+  groupId: z.string(),
+  boundaryGeoJson: z.string().nullable(),
+  coordinateGeoJson: z.string().nullable(),
+  soThua: z.number(),
+  soTo: z.number(),
+  area: z.number(),
+  soilType: z.string(),
+  status: plotStatusSchema,
+  varietyName: z.string(),
+});
+
+export type PlotDTO = z.infer<typeof plotDtoSchema>;
 
 /**
  * Get polygon drawing tasks
  */
 export const getPolygonTasks = async (): Promise<PolygonTask[]> => {
   const response = await api.get<PolygonTask[]>('/Supervisor/polygon-tasks?status=Pending');
-  return Array.isArray(response) ? response : [];
+  if (!Array.isArray(response)) {
+    return [];
+  }
+  return parseResponse(z.array(polygonTaskSchema), response, 'GET /Supervisor/polygon-tasks');
 };
 
 /**
@@ -299,7 +361,7 @@ export const getPlots = async (): Promise<PlotDTO[]> => {
   }>('/Plot?pageNumber=1&pageSize=500');
   
   if (response && 'data' in response && Array.isArray(response.data)) {
-    return response.data;
+    return parseResponse(pagedResultSchema(z.array(plotDtoSchema)), response, 'GET /Plot').data;
   }
   return [];
 };
@@ -311,11 +373,16 @@ export const completePolygonTask = async (
   taskId: string,
   polygonGeoJson: string,
   notes?: string,
+  { idempotencyKey }: IdempotencyOptions = {},
 ): Promise<void> => {
-  await api.post(`/Supervisor/polygon/${taskId}/complete`, {
-    polygonGeoJson,
-    notes,
-  });
+  await api.post(
+    `/Supervisor/polygon/${taskId}/complete`,
+    {
+      polygonGeoJson,
+      notes,
+    },
+    { headers: idempotencyHeaders(idempotencyKey) },
+  );
 };
 
 /**
@@ -362,16 +429,18 @@ export type ValidatePolygonAreaInput = {
   tolerancePercent?: number;
 };
 
+export const polygonAreaValidationSchema = z.object({
+  isValid: z.boolean(),
+  drawnAreaHa: z.number(),
+  plotAreaHa: z.number(),
+  differencePercent: z.number(),
+  tolerancePercent: z.number(),
+  message: z.string(),
+});
+
 export type ValidatePolygonAreaResponse = {
   succeeded: boolean;
-  data: {
-    isValid: boolean;
-    drawnAreaHa: number;
-    plotAreaHa: number;
-    differencePercent: number;
-    tolerancePercent: number;
-    message: string;
-  } | null;
+  data: z.infer<typeof polygonAreaValidationSchema> | null;
   message: string | null;
   errors: string[];
 };
@@ -394,7 +463,11 @@ export const validatePolygonArea = async ({
     }
   );
   // API client already unwrapped the Result<T>, so response IS the data
-  return response as any;
+  return parseResponse(
+    polygonAreaValidationSchema,
+    response,
+    'POST /Supervisor/polygon/validate-area',
+  );
 };
 
 // Update Plot Types
@@ -411,21 +484,23 @@ export type UpdatePlotInput = {
   status: 0 | 1; // 0 = Active, 1 = PendingPolygon
 };
 
+export const updatedPlotSchema = z.object({
+  plotId: z.string(),
+  farmerId: z.string(),
+  groupId: z.string().optional(),
+  boundary: z.string(),
+  soThua: z.number().optional(),
+  soTo: z.number().optional(),
+  area: z.number(),
+  soilType: z.string().optional(),
+  coordinate: z.string().optional(),
+  status: z.number(),
+});
+
 export type UpdatePlotResponse = {
   succeeded: boolean;
   message: string;
-  data: {
-    plotId: string;
-    farmerId: string;
-    groupId?: string;
-    boundary: string;
-    soThua?: number;
-    soTo?: number;
-    area: number;
-    soilType?: string;
-    coordinate?: string;
-    status: number;
-  } | null;
+  data: z.infer<typeof updatedPlotSchema> | null;
   errors: string[] | null;
 };
 
@@ -436,7 +511,7 @@ export type UpdatePlotResponse = {
 export const updatePlot = async (data: UpdatePlotInput): Promise<NonNullable<UpdatePlotResponse['data']>> => {
   const response = await api.put<UpdatePlotResponse>('/Plot', data);
   // API client already unwrapped the Result<T>, so response IS the data
-  return response as any;
+  return parseResponse(updatedPlotSchema, response, 'PUT /Plot');
 };
 
 /**
@@ -445,7 +520,10 @@ export const updatePlot = async (data: UpdatePlotInput): Promise<NonNullable<Upd
  */
 export const getStandardPlans = async (): Promise<StandardPlan[]> => {
   const response = await api.get<StandardPlan[]>('/StandardPlan');
-  return Array.isArray(response) ? response : [];
+  if (!Array.isArray(response)) {
+    return [];
+  }
+  return parseResponse(z.array(standardPlanSchema), response, 'GET /StandardPlan');
 };
 
 /**
@@ -458,7 +536,11 @@ export const calculateStandardPlanMaterialCost = async (
     '/Material/calculate-standard-plan-material-cost',
     request
   );
-  return response as unknown as StandardPlanMaterialCostResponse;
+  return parseResponse(
+    standardPlanMaterialCostResponseSchema,
+    response,
+    'POST /Material/calculate-standard-plan-material-cost',
+  );
 };
 
 /**
@@ -471,7 +553,11 @@ export const calculateStandardPlanProfitAnalysis = async (
     '/Material/calculate-standard-plan-profit-analysis',
     request
   );
-  return response as unknown as StandardPlanProfitAnalysisResponse;
+  return parseResponse(
+    standardPlanProfitAnalysisResponseSchema,
+    response,
+    'POST /Material/calculate-standard-plan-profit-analysis',
+  );
 };
 
 
@@ -0,0 +1,89 @@
+/**
+ * Toast Service
+ * Non-blocking banners for screens that want to surface errors or confirmations.
+ * Rendered by <ToastHost /> in the root layout.
+ */
+
+import { useEffect, useState } from 'react';
+
+import { toApiError } from './api-error';
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export type Toast = {
+  id: number;
+  type: ToastType;
+  title?: string;
+  message: string;
+};
+
+type ShowToastOptions = {
+  type?: ToastType;
+  title?: string;
+  message: string;
+  duration?: number;
+};
+
+const DEFAULT_DURATION = 4000;
+const MAX_VISIBLE = 3;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<(toasts: Toast[]) => void>();
+
+const emit = () => listeners.forEach((listener) => listener(toasts));
+
+const dismiss = (id: number) => {
+  toasts = toasts.filter((item) => item.id !== id);
+  emit();
+};
+
+const show = ({ type = 'info', title, message, duration = DEFAULT_DURATION }: ShowToastOptions) => {
+  // The same message already on screen is not stacked a second time
+  const existing = toasts.find((item) => item.type === type && item.message === message);
+  if (existing) {
+    return existing.id;
+  }
+
+  const id = nextId++;
+  toasts = [...toasts, { id, type, title, message }].slice(-MAX_VISIBLE);
+  emit();
+
+  setTimeout(() => dismiss(id), duration);
+  return id;
+};
+
+export const toast = {
+  show,
+  dismiss,
+  success: (message: string, title?: string) => show({ type: 'success', title, message }),
+  error: (message: string, title?: string) => show({ type: 'error', title, message }),
+  info: (message: string, title?: string) => show({ type: 'info', title, message }),
+};
+
+/**
+ * Show a request failure as an error toast
+ */
+export const showApiError = (error: unknown, fallbackMessage = 'Đã có lỗi xảy ra') => {
+  const apiError = toApiError(error, fallbackMessage);
+  // The user cancelled on purpose, nothing to report
+  if (apiError.isCancelled) {
+    return null;
+  }
+  const title = apiError.isNetworkError ? 'Mất kết nối' : 'Lỗi';
+  return toast.error(apiError.message || fallbackMessage, title);
+};
+
+export const useToasts = (): Toast[] => {
+  const [current, setCurrent] = useState<Toast[]>(toasts);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(toasts);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return current;
+};
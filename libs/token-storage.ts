@@ -9,6 +9,10 @@ const ACCESS_TOKEN_KEY = 'accessToken';
 const REFRESH_TOKEN_KEY = 'refreshToken';
 const EXPIRES_AT_KEY = 'expiresAt';
 
+// Notified whenever tokens are stored or cleared
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
 export const tokenStorage = {
     // Get access token
     getAccessToken: async (): Promise<string | null> => {
@@ -51,6 +55,7 @@ export const tokenStorage = {
         } catch (error) {
             console.error('Error setting tokens:', error);
         }
+        notifyListeners();
     },
 
     // Clear all tokens
@@ -64,6 +69,7 @@ export const tokenStorage = {
         } catch (error) {
             console.error('Error clearing tokens:', error);
         }
+        notifyListeners();
     },
 
     // Check if access token exists
@@ -77,6 +83,14 @@ export const tokenStorage = {
         }
     },
 
+    // Subscribe to token changes, returns an unsubscribe function
+    subscribe: (listener: () => void): (() => void) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+
     // Check if token is expired or about to expire (within 5 minutes)
     isTokenExpired: async (): Promise<boolean> => {
         try {
@@ -1,5 +1,12 @@
-import { api } from './api-client';
+import { z } from 'zod';
+
+import { api, postFormData, UploadOptions } from './api-client';
+import { parseResponse } from './api-validation';
+import { prepareImages } from './image-preparation';
 import {
+  pagedResultSchema,
+  uavOrderDetailSchema,
+  uavServiceOrderSchema,
   PagedResult,
   UavServiceOrder,
   UavOrderDetail,
@@ -25,15 +32,19 @@ export const getUavServiceOrders = async ({
     },
   });
 
-  return response as unknown as PagedResult<UavServiceOrder[]>;
+  return parseResponse(
+    pagedResultSchema(z.array(uavServiceOrderSchema)),
+    response,
+    'GET /uav/orders',
+  );
 };
 
 export const getUavOrderDetail = async (orderId: string): Promise<UavOrderDetail> => {
   const response = await api.get<UavOrderDetail>(`/uav/orders/${orderId}`);
-  return response as unknown as UavOrderDetail;
+  return parseResponse(uavOrderDetailSchema, response, 'GET /uav/orders/{orderId}');
 };
 
-type ReportUavOrderCompletionParams = {
+type ReportUavOrderCompletionParams = UploadOptions & {
   request: ReportServiceOrderCompletionRequest;
   proofFiles: { uri: string; type: string; name: string }[];
 };
@@ -41,6 +52,7 @@ type ReportUavOrderCompletionParams = {
 export const reportUavOrderCompletion = async ({
   request,
   proofFiles,
+  ...options
 }: ReportUavOrderCompletionParams): Promise<string> => {
   const formData = new FormData();
   formData.append('OrderId', request.orderId);
@@ -54,7 +66,8 @@ export const reportUavOrderCompletion = async ({
     formData.append('Notes', request.notes);
   }
 
-  proofFiles.forEach((file) => {
+  const preparedFiles = await prepareImages(proofFiles, 'proof');
+  preparedFiles.forEach((file) => {
     formData.append('ProofFiles', {
       uri: file.uri,
       type: file.type,
@@ -62,12 +75,11 @@ export const reportUavOrderCompletion = async ({
     } as any);
   });
 
-  const response = await api.post<string>(
+  return postFormData<string>(
     `/uav/orders/${request.orderId}/plots/${request.plotId}/report`,
     formData,
+    options,
   );
-
-  return response as unknown as string;
 };
 
 
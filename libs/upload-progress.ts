@@ -0,0 +1,39 @@
+/**
+ * Upload Progress Hook
+ * Tracks progress of the current multipart submission and lets the user cancel it
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+import { UploadOptions } from './api-client';
+
+export const useUploadProgress = () => {
+  // null while unknown; only meaningful while an upload is running
+  const [progress, setProgress] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Fresh options (and abort handle) for the next upload
+  const begin = useCallback((): UploadOptions => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(null);
+
+    return {
+      signal: controller.signal,
+      onProgress: ({ fraction }) => {
+        if (controllerRef.current === controller) {
+          setProgress(fraction);
+        }
+      },
+    };
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  return { progress, begin, cancel };
+};
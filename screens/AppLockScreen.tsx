@@ -0,0 +1,231 @@
+/**
+ * App Lock Screen
+ * Set, change or remove the app PIN and choose when the app locks itself
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '../theme';
+import { Body, BodySmall, BodySemibold, Button, H3, Spacer } from '../components/ui';
+import { PinInput } from '../components/auth';
+import {
+  AUTO_LOCK_OPTIONS,
+  PIN_LENGTH,
+  markPinSetupOffered,
+  removePin,
+  setAutoLockDelay,
+  setPin,
+  useAppLock,
+} from '../libs/app-lock';
+import { showApiError, toast } from '../libs/toast';
+
+type Step = 'overview' | 'enter' | 'confirm';
+
+export const AppLockScreen = () => {
+  const router = useRouter();
+  // Opened right after sign-in to offer a PIN
+  const { offer } = useLocalSearchParams<{ offer?: string }>();
+  const isOffer = offer === '1';
+  const appLock = useAppLock();
+  const [step, setStep] = useState<Step>(appLock.isEnabled ? 'overview' : 'enter');
+  const [firstPin, setFirstPin] = useState('');
+  const [pin, setPinValue] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (isOffer) {
+      markPinSetupOffered();
+    }
+  }, [isOffer]);
+
+  const close = () => (router.canGoBack() ? router.back() : router.replace('/'));
+
+  const handleEntered = (value: string) => {
+    setFirstPin(value);
+    setPinValue('');
+    setError(undefined);
+    setStep('confirm');
+  };
+
+  const handleConfirmed = async (value: string) => {
+    if (value !== firstPin) {
+      setPinValue('');
+      setFirstPin('');
+      setError('Hai mã PIN không khớp, vui lòng nhập lại');
+      setStep('enter');
+      return;
+    }
+    try {
+      await setPin(value);
+      toast.success('Đã đặt mã PIN cho ứng dụng');
+      setPinValue('');
+      setStep('overview');
+      if (isOffer) close();
+    } catch (pinError) {
+      showApiError(pinError, 'Không thể lưu mã PIN');
+    }
+  };
+
+  const confirmRemove = () => {
+    Alert.alert('Tắt mã PIN', 'Ứng dụng sẽ không còn khóa khi để lâu hoặc chuyển sang ứng dụng khác.', [
+      { text: 'Hủy', style: 'cancel' },
+      {
+        text: 'Tắt',
+        style: 'destructive',
+        onPress: async () => {
+          await removePin();
+          toast.info('Đã tắt mã PIN');
+        },
+      },
+    ]);
+  };
+
+  const renderPinStep = () => (
+    <View style={styles.pinStep}>
+      <Ionicons name="lock-closed-outline" size={40} color={colors.primary} />
+      <BodySemibold>
+        {step === 'enter' ? `Nhập mã PIN mới gồm ${PIN_LENGTH} số` : 'Nhập lại mã PIN để xác nhận'}
+      </BodySemibold>
+      <PinInput
+        key={step}
+        value={pin}
+        onChange={setPinValue}
+        onComplete={step === 'enter' ? handleEntered : handleConfirmed}
+        hasError={Boolean(error)}
+      />
+      {error ? (
+        <BodySmall color={colors.error}>{error}</BodySmall>
+      ) : (
+        <BodySmall color={colors.textSecondary} style={styles.centered}>
+          Mã PIN giúp người khác dùng chung điện thoại không thể gửi nhật ký hay báo cáo thay bạn.
+        </BodySmall>
+      )}
+      {isOffer && (
+        <Button variant="ghost" onPress={close}>
+          Để sau
+        </Button>
+      )}
+      {appLock.isEnabled && (
+        <Button variant="ghost" onPress={() => setStep('overview')}>
+          Hủy
+        </Button>
+      )}
+    </View>
+  );
+
+  const renderOverview = () => (
+    <>
+      <View style={styles.row}>
+        <View style={styles.rowInfo}>
+          <BodySemibold>Mã PIN đang bật</BodySemibold>
+          <BodySmall color={colors.textSecondary}>Cần nhập mã PIN khi mở lại ứng dụng</BodySmall>
+        </View>
+        <Ionicons name="checkmark-circle" size={22} color={colors.primary} />
+      </View>
+
+      <Spacer size="lg" />
+      <BodySemibold>Tự động khóa sau</BodySemibold>
+      <Spacer size="sm" />
+      {AUTO_LOCK_OPTIONS.map((option) => {
+        const isActive = option.delayMs === appLock.autoLockMs;
+        return (
+          <TouchableOpacity
+            key={option.delayMs}
+            onPress={() => setAutoLockDelay(option.delayMs)}
+            style={[styles.row, isActive && styles.rowActive]}
+          >
+            <Body style={styles.rowInfo}>{option.label}</Body>
+            {isActive && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+          </TouchableOpacity>
+        );
+      })}
+
+      <Spacer size="lg" />
+      <Button
+        variant="outline"
+        onPress={() => {
+          setError(undefined);
+          setStep('enter');
+        }}
+        fullWidth
+      >
+        Đổi mã PIN
+      </Button>
+      <Spacer size="sm" />
+      <Button variant="danger" onPress={confirmRemove} fullWidth>
+        Tắt mã PIN
+      </Button>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={close} style={styles.backButton}>
+          <Body>←</Body>
+        </TouchableOpacity>
+        <H3 style={styles.headerTitle}>Khóa ứng dụng</H3>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'overview' && appLock.isEnabled ? renderOverview() : renderPinStep()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  pinStep: {
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingTop: spacing.xl,
+  },
+  centered: {
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.md,
+  },
+  rowActive: {
+    borderColor: colors.primary,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+});
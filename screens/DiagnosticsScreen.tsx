@@ -0,0 +1,254 @@
+/**
+ * Diagnostics Screen
+ * Hidden support screen: recent API calls with status and timing, the log
+ * buffer, and export of both as a file to share with support
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, SafeAreaView } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import dayjs from 'dayjs';
+import { colors, spacing } from '../theme';
+import { Body, BodySmall, BodySemibold, Button, Caption, H3 } from '../components/ui';
+import { LogEntry, LogLevel, clearLogEntries, useLogEntries } from '../libs/logger';
+import { NetworkCall, clearNetworkCalls, useNetworkCalls } from '../libs/network-log';
+import { env } from '../configs/env';
+import { exportDiagnostics } from '../libs/diagnostics';
+import { showApiError, toast } from '../libs/toast';
+
+type Tab = 'network' | 'logs';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: colors.textTertiary,
+  info: colors.info,
+  warn: colors.warning,
+  error: colors.error,
+};
+
+const getCallColor = (call: NetworkCall) => {
+  switch (call.state) {
+    case 'success':
+      return colors.success;
+    case 'error':
+      return colors.error;
+    case 'cancelled':
+      return colors.warning;
+    default:
+      return colors.textTertiary;
+  }
+};
+
+const NetworkCallRow = ({ call }: { call: NetworkCall }) => (
+  <View style={styles.row}>
+    <View style={styles.rowHeader}>
+      <BodySemibold style={styles.method}>{call.method}</BodySemibold>
+      <BodySmall style={styles.url} numberOfLines={2}>
+        {call.url}
+      </BodySmall>
+    </View>
+    <View style={styles.rowMeta}>
+      <Caption color={getCallColor(call)}>
+        {call.state === 'pending' ? 'Đang chờ' : call.status ?? call.state}
+      </Caption>
+      <Caption color={colors.textSecondary}>
+        {call.durationMs !== null ? `${call.durationMs} ms` : '—'}
+      </Caption>
+      <Caption color={colors.textSecondary}>{dayjs(call.startedAt).format('HH:mm:ss')}</Caption>
+    </View>
+    {call.error && (
+      <Caption color={colors.error} numberOfLines={2}>
+        {call.error}
+      </Caption>
+    )}
+  </View>
+);
+
+const LogEntryRow = ({ entry }: { entry: LogEntry }) => (
+  <View style={styles.row}>
+    <View style={styles.rowMeta}>
+      <Caption color={LEVEL_COLORS[entry.level]}>{entry.level.toUpperCase()}</Caption>
+      <Caption color={colors.textSecondary}>{entry.scope}</Caption>
+      <Caption color={colors.textSecondary}>{dayjs(entry.timestamp).format('HH:mm:ss')}</Caption>
+    </View>
+    <BodySmall>{entry.message}</BodySmall>
+    {entry.data !== undefined && (
+      <Caption color={colors.textSecondary} numberOfLines={4}>
+        {JSON.stringify(entry.data)}
+      </Caption>
+    )}
+  </View>
+);
+
+export const DiagnosticsScreen = () => {
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('network');
+  const [isExporting, setIsExporting] = useState(false);
+  const calls = useNetworkCalls();
+  const logs = useLogEntries();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const shared = await exportDiagnostics();
+      if (!shared) {
+        toast.info('Thiết bị không hỗ trợ chia sẻ tệp');
+      }
+    } catch (error) {
+      showApiError(error, 'Không thể xuất nhật ký');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClear = () => {
+    clearNetworkCalls();
+    clearLogEntries();
+  };
+
+  const renderEmpty = () => (
+    <View style={styles.stateContainer}>
+      <Body color={colors.textSecondary}>Chưa có dữ liệu</Body>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Body>←</Body>
+        </TouchableOpacity>
+        <H3 style={styles.headerTitle}>Chẩn đoán</H3>
+        {env.ALLOW_SERVER_SWITCHING ? (
+          <TouchableOpacity onPress={() => router.push('/server-settings')} style={styles.backButton}>
+            <Ionicons name="server-outline" size={22} color={colors.textPrimary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.backButton} />
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {(['network', 'logs'] as Tab[]).map((item) => (
+          <TouchableOpacity
+            key={item}
+            onPress={() => setTab(item)}
+            style={[styles.tab, tab === item && styles.tabActive]}
+          >
+            <BodySmall color={tab === item ? colors.white : colors.textPrimary}>
+              {item === 'network' ? `Yêu cầu API (${calls.length})` : `Nhật ký (${logs.length})`}
+            </BodySmall>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Newest first */}
+      {tab === 'network' ? (
+        <FlatList
+          data={[...calls].reverse()}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={({ item }) => <NetworkCallRow call={item} />}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+        />
+      ) : (
+        <FlatList
+          data={[...logs].reverse()}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={({ item }) => <LogEntryRow entry={item} />}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+        />
+      )}
+
+      <View style={styles.actions}>
+        <View style={styles.actionButton}>
+          <Button onPress={handleExport} loading={isExporting} fullWidth>
+            Xuất nhật ký
+          </Button>
+        </View>
+        <View style={styles.actionButton}>
+          <Button onPress={handleClear} variant="outline" fullWidth>
+            Xóa
+          </Button>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  tab: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  tabActive: {
+    backgroundColor: colors.primary,
+  },
+  list: {
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+  },
+  row: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    padding: spacing.md,
+    gap: spacing.xs,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  method: {
+    minWidth: 52,
+  },
+  url: {
+    flex: 1,
+  },
+  rowMeta: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    padding: spacing.lg,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
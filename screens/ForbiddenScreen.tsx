@@ -0,0 +1,57 @@
+/**
+ * Forbidden Screen
+ * Shown when a signed-in user opens a route their role can't use
+ */
+
+import React from 'react';
+import { View, StyleSheet, SafeAreaView } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '../theme';
+import { Body, Button, H3 } from '../components/ui';
+import { useLogout } from '../libs/auth';
+
+export const ForbiddenScreen = () => {
+  const router = useRouter();
+  const logout = useLogout();
+
+  const handleSwitchAccount = async () => {
+    await logout.mutateAsync(undefined);
+    router.replace('/auth/login');
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons name="lock-closed-outline" size={56} color={colors.textSecondary} />
+        <H3 style={styles.centered}>Không có quyền truy cập</H3>
+        <Body color={colors.textSecondary} style={styles.centered}>
+          Tài khoản của bạn không được phép mở trang này.
+        </Body>
+        <Button onPress={() => router.replace('/')} fullWidth>
+          Về trang chính
+        </Button>
+        <Button variant="ghost" onPress={handleSwitchAccount} loading={logout.isPending} fullWidth>
+          Đăng nhập tài khoản khác
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    padding: spacing.xl,
+  },
+  centered: {
+    textAlign: 'center',
+  },
+});
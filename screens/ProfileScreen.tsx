@@ -3,20 +3,29 @@
  * User profile and settings
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Container, H1, Body, Spacer, Button, Avatar, H3, BodySmall, BodySemibold } from '../components/ui';
 import { colors, spacing } from '../theme';
 import { useLogout, useUser } from '../libs/auth';
+import { ChangePasswordForm, DeviceSessions } from '../components/auth';
 import { useRouter } from 'expo-router';
-import { View, StyleSheet, ActivityIndicator, ScrollView } from 'react-native';
+import { View, StyleSheet, ActivityIndicator, ScrollView, Pressable } from 'react-native';
+import Constants from 'expo-constants';
 import { useQuery } from '@tanstack/react-query';
 import { getFarmerProfile } from '../libs/farmer';
 import { ROLES } from '../libs/authorization';
+import { farmerKeys } from '../libs/query-keys';
+
+// Taps on the version label that open the diagnostics screen
+const DIAGNOSTICS_TAPS = 5;
+const DIAGNOSTICS_TAP_WINDOW_MS = 3000;
 
 export const ProfileScreen = () => {
   const logout = useLogout();
   const router = useRouter();
   const { data: user } = useUser();
+  const versionTaps = useRef<number[]>([]);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
 
   const isFarmer = user?.role === ROLES.Farmer || (user?.role as string) === 'Farmer';
 
@@ -26,7 +35,7 @@ export const ProfileScreen = () => {
     isLoading: farmerProfileLoading,
     error: farmerProfileError,
   } = useQuery({
-    queryKey: ['farmer-profile'],
+    queryKey: farmerKeys.profile(),
     queryFn: getFarmerProfile,
     enabled: isFarmer, // Only fetch if user is a farmer
   });
@@ -36,6 +45,17 @@ export const ProfileScreen = () => {
     router.replace('/auth/login');
   };
 
+  const handleVersionPress = () => {
+    const now = Date.now();
+    versionTaps.current = [...versionTaps.current, now].filter(
+      (time) => now - time < DIAGNOSTICS_TAP_WINDOW_MS,
+    );
+    if (versionTaps.current.length >= DIAGNOSTICS_TAPS) {
+      versionTaps.current = [];
+      router.push('/diagnostics');
+    }
+  };
+
   const userName = user
     ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'User'
     : 'User';
@@ -151,6 +171,21 @@ export const ProfileScreen = () => {
                       </BodySmall>
                     </View>
                   </View>
+
+                  {!farmerProfile.isVerified && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onPress={() =>
+                        router.push({
+                          pathname: '/farmer/verify-phone',
+                          params: { phoneNumber: farmerProfile.phoneNumber },
+                        } as any)
+                      }
+                    >
+                      Xác thực số điện thoại
+                    </Button>
+                  )}
                 </View>
               </View>
             ) : null}
@@ -167,12 +202,53 @@ export const ProfileScreen = () => {
         )}
 
         <Spacer size="xl" />
+
+        {isChangingPassword ? (
+          <View style={styles.section}>
+            <H1>Đổi mật khẩu</H1>
+            <Spacer size="md" />
+            <View style={styles.infoCard}>
+              <ChangePasswordForm onDone={() => setIsChangingPassword(false)} />
+            </View>
+            <Spacer size="md" />
+          </View>
+        ) : (
+          <Button onPress={() => setIsChangingPassword(true)} variant="ghost" fullWidth>
+            Đổi mật khẩu
+          </Button>
+        )}
+
+        <Spacer size="lg" />
+
+        <View style={styles.section}>
+          <H1>Thiết bị & phiên đăng nhập</H1>
+          <Spacer size="md" />
+          <View style={styles.infoCard}>
+            <DeviceSessions />
+          </View>
+        </View>
+
+        <Spacer size="sm" />
+
+        <Button onPress={() => router.push('/app-lock' as any)} variant="ghost" fullWidth>
+          Khóa ứng dụng
+        </Button>
+
+        <Spacer size="sm" />
         
         {/* Logout Button */}
         <Button onPress={handleLogout} variant="outline" loading={logout.isPending} fullWidth>
           Đăng xuất
         </Button>
-        
+
+        <Spacer size="lg" />
+
+        <Pressable onPress={handleVersionPress} style={styles.version}>
+          <BodySmall color={colors.textTertiary}>
+            Phiên bản {Constants.expoConfig?.version ?? '—'}
+          </BodySmall>
+        </Pressable>
+
         <Spacer size="xl" />
       </Container>
     </ScrollView>
@@ -232,5 +308,9 @@ const styles = StyleSheet.create({
   statusBadgeText: {
     fontWeight: '600',
   },
+  version: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
 });
 
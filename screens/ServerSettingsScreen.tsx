@@ -0,0 +1,204 @@
+/**
+ * Server Settings Screen
+ * Hidden QA screen for pointing the app at another backend without a rebuild
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Alert } from 'react-native';
+import { Redirect, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '../theme';
+import { Body, BodySmall, BodySemibold, Button, H3, Input, Spacer } from '../components/ui';
+import { CUSTOM_PROFILE_ID, ServerProfile, env } from '../configs/env';
+import {
+  createCustomProfile,
+  useServerProfile,
+  useSwitchServerProfile,
+} from '../libs/server-profile';
+import { countUnsentOutboxItems } from '../libs/outbox';
+import { showApiError, toast } from '../libs/toast';
+
+const isValidUrl = (value: string) => /^https?:\/\/[^\s/]+/i.test(value.trim());
+
+export const ServerSettingsScreen = () => {
+  const router = useRouter();
+  const activeProfile = useServerProfile();
+  const switchProfile = useSwitchServerProfile();
+  const [customUrl, setCustomUrl] = useState(
+    activeProfile.id === CUSTOM_PROFILE_ID ? activeProfile.apiUrl : '',
+  );
+  const [customUrlError, setCustomUrlError] = useState<string | undefined>();
+
+  const confirmSwitch = async (profile: ServerProfile) => {
+    if (profile.id === activeProfile.id && profile.apiUrl === activeProfile.apiUrl) {
+      return;
+    }
+
+    // Queued submissions belong to the current server, whoever made them; this screen
+    // is usually opened signed out, so the signed-in user's outbox isn't enough
+    const pendingCount = await countUnsentOutboxItems();
+    if (pendingCount > 0) {
+      Alert.alert(
+        'Chưa thể đổi máy chủ',
+        `Còn ${pendingCount} mục đang chờ gửi. Hãy đăng nhập để gửi hoặc xóa chúng trước khi đổi máy chủ.`,
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Đổi máy chủ',
+      `Chuyển sang "${profile.name}" (${profile.apiUrl})? Bạn sẽ bị đăng xuất và dữ liệu đã tải sẽ bị xóa.`,
+      [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Chuyển',
+          onPress: () =>
+            switchProfile.mutate(profile, {
+              onSuccess: () => {
+                toast.success(`Đang dùng máy chủ ${profile.name}`);
+                router.replace('/auth/login');
+              },
+              onError: (error) => showApiError(error, 'Không thể đổi máy chủ'),
+            }),
+        },
+      ],
+    );
+  };
+
+  const handleUseCustomUrl = () => {
+    if (!isValidUrl(customUrl)) {
+      setCustomUrlError('Nhập địa chỉ bắt đầu bằng http:// hoặc https://');
+      return;
+    }
+    setCustomUrlError(undefined);
+    confirmSwitch(createCustomProfile(customUrl));
+  };
+
+  // Not reachable from the UI in production builds; a deep link lands here too
+  if (!env.ALLOW_SERVER_SWITCHING) {
+    return <Redirect href="/" />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Body>←</Body>
+        </TouchableOpacity>
+        <H3 style={styles.headerTitle}>Máy chủ</H3>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {env.MOCK_API && (
+          <View style={styles.notice}>
+            <BodySmall color={colors.warning}>
+              Đang ở chế độ demo: mọi yêu cầu được trả lời bằng dữ liệu mẫu, máy chủ được chọn không được dùng.
+            </BodySmall>
+          </View>
+        )}
+
+        {env.SERVER_PROFILES.map((profile) => {
+          const isActive = profile.id === activeProfile.id;
+          return (
+            <TouchableOpacity
+              key={profile.id}
+              onPress={() => confirmSwitch(profile)}
+              disabled={switchProfile.isPending}
+              style={[styles.profileRow, isActive && styles.profileRowActive]}
+            >
+              <View style={styles.profileInfo}>
+                <BodySemibold>{profile.name}</BodySemibold>
+                <BodySmall color={colors.textSecondary} numberOfLines={1}>
+                  {profile.apiUrl}
+                </BodySmall>
+              </View>
+              {isActive && <Ionicons name="checkmark-circle" size={22} color={colors.primary} />}
+            </TouchableOpacity>
+          );
+        })}
+
+        <Spacer size="md" />
+
+        <View style={[styles.profileRow, styles.customRow, activeProfile.id === CUSTOM_PROFILE_ID && styles.profileRowActive]}>
+          <BodySemibold>Địa chỉ tùy chỉnh</BodySemibold>
+          <BodySmall color={colors.textSecondary}>
+            Ví dụ đường hầm ngrok: https://abcd-1234.ngrok-free.app/api
+          </BodySmall>
+          <Input
+            value={customUrl}
+            onChangeText={setCustomUrl}
+            placeholder="https://..."
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            error={customUrlError}
+          />
+          <Button
+            onPress={handleUseCustomUrl}
+            size="sm"
+            variant="outline"
+            loading={switchProfile.isPending}
+          >
+            Dùng địa chỉ này
+          </Button>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  notice: {
+    backgroundColor: colors.warningLight,
+    borderRadius: 12,
+    padding: spacing.md,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.md,
+  },
+  profileRowActive: {
+    borderColor: colors.primary,
+  },
+  profileInfo: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  customRow: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+    gap: spacing.sm,
+  },
+});
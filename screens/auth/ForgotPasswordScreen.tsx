@@ -0,0 +1,262 @@
+/**
+ * Forgot Password Screen
+ * Reset a forgotten password: request a code by phone or email, verify it,
+ * then choose a new password
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { env } from '../../configs/env';
+import { colors, spacing } from '../../theme';
+import { Body, Button, H3, Input, Spacer } from '../../components/ui';
+import { OtpCodeForm } from '../../components/auth';
+import {
+  forgotPasswordInputSchema,
+  resetPasswordInputSchema,
+  ResetPasswordInput,
+  useResetPassword,
+  useVerifyResetCode,
+} from '../../libs/auth';
+import { isEmailAddress, toOtpDestination, useOtpChallenge } from '../../libs/otp';
+import { toApiError } from '../../libs/api-error';
+import { toast } from '../../libs/toast';
+
+type PasswordErrors = Partial<Record<keyof ResetPasswordInput, string>>;
+
+export const ForgotPasswordScreen = () => {
+  const router = useRouter();
+  const { redirectTo } = useLocalSearchParams<{ redirectTo?: string }>();
+  const otp = useOtpChallenge('ResetPassword');
+  const verifyCode = useVerifyResetCode();
+  const resetPassword = useResetPassword();
+
+  const [credential, setCredential] = useState('');
+  const [credentialError, setCredentialError] = useState<string | undefined>();
+  const [codeError, setCodeError] = useState<string | undefined>();
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [passwords, setPasswords] = useState({ newPassword: '', confirmPassword: '' });
+  const [passwordErrors, setPasswordErrors] = useState<PasswordErrors>({});
+
+  const handleSendCode = async () => {
+    const result = forgotPasswordInputSchema.safeParse({ credential });
+    if (!result.success) {
+      setCredentialError(result.error.flatten().fieldErrors.credential?.[0]);
+      return;
+    }
+    setCredentialError(undefined);
+    try {
+      await otp.send(result.data.credential);
+    } catch (error) {
+      setCredentialError(toApiError(error, 'Không thể gửi mã xác thực').message);
+    }
+  };
+
+  const handleResend = async () => {
+    setCodeError(undefined);
+    try {
+      await otp.resend();
+    } catch (error) {
+      setCodeError(toApiError(error, 'Không thể gửi lại mã').message);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otp.challenge) return;
+    setCodeError(undefined);
+    try {
+      const response = await verifyCode.mutateAsync({
+        ...toOtpDestination(otp.challenge.destination),
+        code,
+      });
+      setResetToken(response.resetToken);
+    } catch (error) {
+      otp.recordFailure(error);
+      setCodeError(toApiError(error, 'Mã xác thực không đúng').message);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetToken) return;
+    const result = resetPasswordInputSchema.safeParse(passwords);
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setPasswordErrors({
+        newPassword: fieldErrors.newPassword?.[0],
+        confirmPassword: fieldErrors.confirmPassword?.[0],
+      });
+      return;
+    }
+    setPasswordErrors({});
+    try {
+      await resetPassword.mutateAsync({ resetToken, newPassword: result.data.newPassword });
+      toast.success('Đã đặt lại mật khẩu. Vui lòng đăng nhập lại.');
+      router.replace({ pathname: '/auth/login', params: { redirectTo } });
+    } catch (error) {
+      const apiError = toApiError(error, 'Không thể đặt lại mật khẩu');
+      // An expired reset token means starting over with a new code
+      if (apiError.status === 400 || apiError.status === 401) {
+        setResetToken(null);
+        otp.reset();
+        setCredentialError(apiError.message);
+        return;
+      }
+      setPasswordErrors({ newPassword: apiError.message });
+    }
+  };
+
+  const renderStep = () => {
+    if (resetToken) {
+      return (
+        <View style={styles.form}>
+          <Body color={colors.textSecondary}>
+            Chọn mật khẩu mới. Các thiết bị khác đang đăng nhập sẽ bị đăng xuất.
+          </Body>
+          <Input
+            label="Mật khẩu mới"
+            value={passwords.newPassword}
+            onChangeText={(value) => setPasswords((prev) => ({ ...prev, newPassword: value }))}
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete="new-password"
+            error={passwordErrors.newPassword}
+          />
+          <Input
+            label="Nhập lại mật khẩu mới"
+            value={passwords.confirmPassword}
+            onChangeText={(value) => setPasswords((prev) => ({ ...prev, confirmPassword: value }))}
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete="new-password"
+            error={passwordErrors.confirmPassword}
+          />
+          <Button onPress={handleResetPassword} loading={resetPassword.isPending} fullWidth>
+            Đặt lại mật khẩu
+          </Button>
+        </View>
+      );
+    }
+
+    if (otp.challenge) {
+      return (
+        <OtpCodeForm
+          destination={otp.challenge.destination}
+          secondsUntilResend={otp.secondsUntilResend}
+          attemptsLeft={otp.attemptsLeft}
+          isLocked={otp.isLocked}
+          isSubmitting={verifyCode.isPending}
+          isResending={otp.isSending}
+          error={codeError}
+          submitLabel="Tiếp tục"
+          onSubmit={handleVerify}
+          onResend={handleResend}
+          onChangeDestination={() => {
+            setCodeError(undefined);
+            otp.reset();
+          }}
+          changeDestinationLabel={
+            isEmailAddress(otp.challenge.destination) ? 'Đổi email' : 'Đổi số điện thoại'
+          }
+        />
+      );
+    }
+
+    return (
+      <View style={styles.form}>
+        <Body color={colors.textSecondary}>
+          Nhập email hoặc số điện thoại của tài khoản để nhận mã xác thực.
+        </Body>
+        <Input
+          label="Email hoặc số điện thoại"
+          value={credential}
+          onChangeText={(value) => {
+            setCredential(value);
+            setCredentialError(undefined);
+          }}
+          placeholder="0901234567"
+          autoCapitalize="none"
+          autoComplete="username"
+          error={credentialError}
+        />
+        <Button onPress={handleSendCode} loading={otp.isSending} fullWidth>
+          Gửi mã xác thực
+        </Button>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <Body>←</Body>
+            </TouchableOpacity>
+            <H3 style={styles.headerTitle}>Quên mật khẩu</H3>
+            <View style={styles.backButton} />
+          </View>
+
+          {env.MOCK_API && (
+            <View style={styles.demoBanner}>
+              <Body color={colors.warning}>Chế độ demo: mã xác thực là 123456.</Body>
+            </View>
+          )}
+
+          <Spacer size="xl" />
+
+          {renderStep()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.white,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  demoBanner: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: colors.warningLight,
+  },
+  form: {
+    gap: spacing.md,
+  },
+});
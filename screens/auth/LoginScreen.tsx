@@ -15,15 +15,21 @@ import {
   TextInput,
   Text,
   Image,
+  Pressable,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { env } from '../../configs/env';
 import { colors, spacing } from '../../theme';
 import { Button, Spacer } from '../../components/ui';
-import { useLogin } from '../../libs/auth';
+import { getPostLoginRoute, useLogin } from '../../libs/auth';
+import { useServerProfile } from '../../libs/server-profile';
 import { Ionicons } from '@expo/vector-icons';
 
 export const LoginScreen = () => {
   const router = useRouter();
+  // Set by ProtectedRoute when a signed-out user opened a guarded route
+  const { redirectTo, notice } = useLocalSearchParams<{ redirectTo?: string; notice?: string }>();
+  const serverProfile = useServerProfile();
   const login = useLogin();
   
   const [credential, setCredential] = useState('');
@@ -79,7 +85,7 @@ export const LoginScreen = () => {
         password,
         rememberMe: true,
       });
-      router.replace('/');
+      router.replace(getPostLoginRoute(redirectTo));
     } catch (error: any) {
       setErrors({
         credential: error.message || 'Invalid credentials',
@@ -101,14 +107,44 @@ export const LoginScreen = () => {
         >
           {/* Header */}
           <View style={styles.header}>
-            <Image 
-              source={require('../../assets/logo.png')} 
-              style={styles.logoImage}
-              resizeMode="contain"
-            />
+            {/* Long press opens the hidden server settings used by QA (dev and preview builds) */}
+            <Pressable
+              onLongPress={
+                env.ALLOW_SERVER_SWITCHING ? () => router.push('/server-settings') : undefined
+              }
+              delayLongPress={1500}
+            >
+              <Image 
+                source={require('../../assets/logo.png')} 
+                style={styles.logoImage}
+                resizeMode="contain"
+              />
+            </Pressable>
             <Text style={styles.logoSubtitle}>Quản lý nông trại của bạn dễ dàng</Text>
+            {serverProfile.id !== env.DEFAULT_SERVER_PROFILE.id && (
+              <Text style={styles.serverProfile}>Máy chủ: {serverProfile.name}</Text>
+            )}
           </View>
 
+          {/* Set by useSessionExpiryRedirect after a sign-out from another device */}
+          {notice === 'session-revoked' && (
+            <View style={styles.noticeBanner}>
+              <Text style={styles.noticeBannerText}>
+                Phiên đăng nhập trên thiết bị này đã bị đăng xuất từ một thiết bị khác hoặc sau khi
+                đổi mật khẩu. Vui lòng đăng nhập lại.
+              </Text>
+            </View>
+          )}
+
+          {env.MOCK_API && (
+            <View style={styles.demoBanner}>
+              <Text style={styles.demoBannerText}>
+                Chế độ demo: dùng mật khẩu bất kỳ. Email chứa "supervisor", "uav", "cluster"
+                hoặc "expert" để đăng nhập với vai trò tương ứng.
+              </Text>
+            </View>
+          )}
+
           <Spacer size="xl" />
 
           {/* Form */}
@@ -168,7 +204,10 @@ export const LoginScreen = () => {
             <Spacer size="sm" />
 
             {/* Forgot Password */}
-            <TouchableOpacity style={styles.forgotPassword}>
+            <TouchableOpacity
+              style={styles.forgotPassword}
+              onPress={() => router.push({ pathname: '/auth/forgot-password', params: { redirectTo } })}
+            >
               <Text style={styles.forgotPasswordText}>Quên mật khẩu?</Text>
             </TouchableOpacity>
           </View>
@@ -191,11 +230,23 @@ export const LoginScreen = () => {
 
           <Spacer size="md" />
 
+          {/* One-time code login for farmers without email */}
+          <TouchableOpacity
+            style={styles.phoneLoginButton}
+            onPress={() => router.push({ pathname: '/auth/phone-login', params: { redirectTo } })}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="phone-portrait-outline" size={20} color="#007AFF" />
+            <Text style={styles.phoneLoginButtonText}>ĐĂNG NHẬP BẰNG SỐ ĐIỆN THOẠI</Text>
+          </TouchableOpacity>
+
+          <Spacer size="md" />
+
           {/* Sign Up Link */}
           <View style={styles.footer}>
-            <Text style={styles.footerText}>Quên mật khẩu? </Text>
+            <Text style={styles.footerText}>Chưa có tài khoản? </Text>
             <TouchableOpacity onPress={() => router.push('/auth/register')}>
-              <Text style={styles.signUpText}>Liên hệ hỗ trợ</Text>
+              <Text style={styles.signUpText}>Tham gia bằng mã mời</Text>
             </TouchableOpacity>
           </View>
 
@@ -299,11 +350,55 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     letterSpacing: 0.5,
   },
+  phoneLoginButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    paddingVertical: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  phoneLoginButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#007AFF',
+    letterSpacing: 0.5,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
   },
+  serverProfile: {
+    marginTop: spacing.xs,
+    fontSize: 12,
+    color: colors.warning,
+    textAlign: 'center',
+  },
+  noticeBanner: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: '#FDECEC',
+  },
+  noticeBannerText: {
+    fontSize: 13,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  demoBanner: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: '#FFF4E5',
+  },
+  demoBannerText: {
+    fontSize: 13,
+    color: '#8A5300',
+    textAlign: 'center',
+  },
   footerText: {
     fontSize: 14,
     color: '#666666',
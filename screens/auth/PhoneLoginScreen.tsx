@@ -0,0 +1,177 @@
+/**
+ * Phone Login Screen
+ * Sign in with a phone number and a one-time SMS code, for farmers without email
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { env } from '../../configs/env';
+import { colors, spacing } from '../../theme';
+import { Body, Button, H3, Input, Spacer } from '../../components/ui';
+import { OtpCodeForm } from '../../components/auth';
+import { getPostLoginRoute, useOtpLogin } from '../../libs/auth';
+import { isValidPhoneNumber, useOtpChallenge } from '../../libs/otp';
+import { toApiError } from '../../libs/api-error';
+
+export const PhoneLoginScreen = () => {
+  const router = useRouter();
+  const { redirectTo } = useLocalSearchParams<{ redirectTo?: string }>();
+  const otp = useOtpChallenge('Login');
+  const otpLogin = useOtpLogin();
+
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneError, setPhoneError] = useState<string | undefined>();
+  const [codeError, setCodeError] = useState<string | undefined>();
+
+  const handleSendCode = async () => {
+    if (!isValidPhoneNumber(phoneNumber)) {
+      setPhoneError('Số điện thoại không hợp lệ');
+      return;
+    }
+    setPhoneError(undefined);
+    try {
+      await otp.send(phoneNumber);
+    } catch (error) {
+      setPhoneError(toApiError(error, 'Không thể gửi mã xác thực').message);
+    }
+  };
+
+  const handleResend = async () => {
+    setCodeError(undefined);
+    try {
+      await otp.resend();
+    } catch (error) {
+      setCodeError(toApiError(error, 'Không thể gửi lại mã').message);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otp.challenge) return;
+    setCodeError(undefined);
+    try {
+      await otpLogin.mutateAsync({ phoneNumber: otp.challenge.destination, code });
+      router.replace(getPostLoginRoute(redirectTo));
+    } catch (error) {
+      otp.recordFailure(error);
+      setCodeError(toApiError(error, 'Mã xác thực không đúng').message);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <Body>←</Body>
+            </TouchableOpacity>
+            <H3 style={styles.headerTitle}>Đăng nhập bằng số điện thoại</H3>
+            <View style={styles.backButton} />
+          </View>
+
+          {env.MOCK_API && (
+            <View style={styles.demoBanner}>
+              <Body color={colors.warning}>Chế độ demo: mã xác thực là 123456.</Body>
+            </View>
+          )}
+
+          <Spacer size="xl" />
+
+          {otp.challenge ? (
+            <OtpCodeForm
+              destination={otp.challenge.destination}
+              secondsUntilResend={otp.secondsUntilResend}
+              attemptsLeft={otp.attemptsLeft}
+              isLocked={otp.isLocked}
+              isSubmitting={otpLogin.isPending}
+              isResending={otp.isSending}
+              error={codeError}
+              submitLabel="Đăng nhập"
+              onSubmit={handleVerify}
+              onResend={handleResend}
+              onChangeDestination={() => {
+                setCodeError(undefined);
+                otp.reset();
+              }}
+            />
+          ) : (
+            <View style={styles.form}>
+              <Input
+                label="Số điện thoại"
+                value={phoneNumber}
+                onChangeText={setPhoneNumber}
+                placeholder="0901234567"
+                keyboardType="phone-pad"
+                autoComplete="tel"
+                textContentType="telephoneNumber"
+                error={phoneError}
+              />
+              <Button onPress={handleSendCode} loading={otp.isSending} fullWidth>
+                Gửi mã xác thực
+              </Button>
+            </View>
+          )}
+
+          <Spacer size="xl" />
+
+          <TouchableOpacity onPress={() => router.replace({ pathname: '/auth/login', params: { redirectTo } })} style={styles.switchMode}>
+            <Body color={colors.primary}>Đăng nhập bằng email và mật khẩu</Body>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.white,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  demoBanner: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: colors.warningLight,
+  },
+  form: {
+    gap: spacing.md,
+  },
+  switchMode: {
+    alignItems: 'center',
+  },
+});
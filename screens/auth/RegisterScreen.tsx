@@ -0,0 +1,278 @@
+/**
+ * Register Screen
+ * Farmer self-registration: scan the cooperative QR code or enter an invite
+ * code, then create the account in that group
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { env } from '../../configs/env';
+import { colors, spacing } from '../../theme';
+import { Body, BodySmall, BodySemibold, Button, Card, H3, Input, Spacer } from '../../components/ui';
+import { InviteQrScanner } from '../../components/auth';
+import {
+  parseInviteCode,
+  registerInputSchema,
+  RegisterInput,
+  useFarmerInvite,
+  useRegister,
+} from '../../libs/auth';
+import { toApiError } from '../../libs/api-error';
+import { FarmerInvite } from '../../types/api';
+
+type FormErrors = Partial<Record<keyof RegisterInput, string>>;
+
+export const RegisterScreen = () => {
+  const router = useRouter();
+  // Set when the app was opened from an invite link
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const inviteLookup = useFarmerInvite();
+  const register = useRegister();
+
+  const [inviteCode, setInviteCode] = useState('');
+  const [inviteError, setInviteError] = useState<string | undefined>();
+  const [invite, setInvite] = useState<FarmerInvite | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+
+  const [form, setForm] = useState({ fullName: '', phoneNumber: '', address: '', password: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [submitError, setSubmitError] = useState<string | undefined>();
+
+  const lookupInvite = async (value: string) => {
+    const parsed = parseInviteCode(value);
+    setInviteCode(parsed);
+    if (!parsed) {
+      setInviteError('Vui lòng nhập mã mời');
+      return;
+    }
+    setInviteError(undefined);
+    try {
+      setInvite(await inviteLookup.mutateAsync(parsed));
+    } catch (error) {
+      setInviteError(toApiError(error, 'Mã mời không hợp lệ hoặc đã hết hạn').message);
+    }
+  };
+
+  useEffect(() => {
+    if (code) {
+      lookupInvite(code);
+    }
+    // Only the code from the opening link is looked up automatically
+  }, [code]);
+
+  const handleScanned = (data: string) => {
+    setIsScannerOpen(false);
+    lookupInvite(data);
+  };
+
+  const updateField = (field: keyof RegisterInput) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleRegister = async () => {
+    if (!invite) return;
+    const result = registerInputSchema.safeParse(form);
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors({
+        fullName: fieldErrors.fullName?.[0],
+        phoneNumber: fieldErrors.phoneNumber?.[0],
+        address: fieldErrors.address?.[0],
+        password: fieldErrors.password?.[0],
+      });
+      return;
+    }
+    setSubmitError(undefined);
+    try {
+      await register.mutateAsync({ ...result.data, invite });
+      router.replace('/(farmer-tabs)/home');
+    } catch (error) {
+      setSubmitError(toApiError(error, 'Không thể tạo tài khoản').message);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <Body>←</Body>
+            </TouchableOpacity>
+            <H3 style={styles.headerTitle}>Tham gia hợp tác xã</H3>
+            <View style={styles.backButton} />
+          </View>
+
+          {env.MOCK_API && (
+            <View style={styles.demoBanner}>
+              <Body color={colors.warning}>Chế độ demo: mã mời là HTX-TANHONG-3.</Body>
+            </View>
+          )}
+
+          <Spacer size="xl" />
+
+          {invite ? (
+            <View style={styles.form}>
+              <Card variant="flat" style={styles.inviteCard}>
+                <BodySmall color={colors.textSecondary}>Bạn sẽ tham gia</BodySmall>
+                <BodySemibold>{invite.groupName}</BodySemibold>
+                {invite.clusterName && (
+                  <BodySmall color={colors.textSecondary}>{invite.clusterName}</BodySmall>
+                )}
+                {invite.supervisorName && (
+                  <BodySmall color={colors.textSecondary}>
+                    Cán bộ phụ trách: {invite.supervisorName}
+                  </BodySmall>
+                )}
+                <Spacer size="sm" />
+                <TouchableOpacity onPress={() => setInvite(null)}>
+                  <BodySmall color={colors.primary}>Dùng mã mời khác</BodySmall>
+                </TouchableOpacity>
+              </Card>
+
+              <Input
+                label="Họ và tên"
+                value={form.fullName}
+                onChangeText={updateField('fullName')}
+                placeholder="Nguyễn Văn A"
+                autoComplete="name"
+                error={errors.fullName}
+              />
+              <Input
+                label="Số điện thoại"
+                value={form.phoneNumber}
+                onChangeText={updateField('phoneNumber')}
+                placeholder="0901234567"
+                keyboardType="phone-pad"
+                autoComplete="tel"
+                textContentType="telephoneNumber"
+                error={errors.phoneNumber}
+              />
+              <Input
+                label="Địa chỉ"
+                value={form.address}
+                onChangeText={updateField('address')}
+                placeholder="Ấp, xã, huyện"
+                autoComplete="street-address"
+                error={errors.address}
+              />
+              <Input
+                label="Mật khẩu"
+                value={form.password}
+                onChangeText={updateField('password')}
+                placeholder="Tối thiểu 5 ký tự"
+                secureTextEntry
+                autoCapitalize="none"
+                autoComplete="new-password"
+                error={errors.password}
+              />
+
+              {submitError && <BodySmall color={colors.error}>{submitError}</BodySmall>}
+
+              <Button onPress={handleRegister} loading={register.isPending} fullWidth>
+                Tạo tài khoản
+              </Button>
+            </View>
+          ) : (
+            <View style={styles.form}>
+              <Body color={colors.textSecondary}>
+                Quét mã QR do tổ hoặc hợp tác xã cung cấp, hoặc nhập mã mời.
+              </Body>
+              <Button variant="outline" onPress={() => setIsScannerOpen(true)} fullWidth>
+                Quét mã QR
+              </Button>
+              <Input
+                label="Mã mời"
+                value={inviteCode}
+                onChangeText={(value) => {
+                  setInviteCode(value);
+                  setInviteError(undefined);
+                }}
+                placeholder="HTX-..."
+                autoCapitalize="characters"
+                autoCorrect={false}
+                error={inviteError}
+              />
+              <Button
+                onPress={() => lookupInvite(inviteCode)}
+                loading={inviteLookup.isPending}
+                fullWidth
+              >
+                Tiếp tục
+              </Button>
+            </View>
+          )}
+
+          <Spacer size="xl" />
+
+          <TouchableOpacity onPress={() => router.replace('/auth/login')} style={styles.switchMode}>
+            <Body color={colors.primary}>Đã có tài khoản? Đăng nhập</Body>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <InviteQrScanner
+        visible={isScannerOpen}
+        onScanned={handleScanned}
+        onClose={() => setIsScannerOpen(false)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.white,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  demoBanner: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: colors.warningLight,
+  },
+  form: {
+    gap: spacing.md,
+  },
+  inviteCard: {
+    padding: spacing.md,
+  },
+  switchMode: {
+    alignItems: 'center',
+  },
+});
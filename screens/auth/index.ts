@@ -4,5 +4,8 @@
  */
 
 export { LoginScreen } from './LoginScreen';
+export { PhoneLoginScreen } from './PhoneLoginScreen';
+export { RegisterScreen } from './RegisterScreen';
+export { ForgotPasswordScreen } from './ForgotPasswordScreen';
 export { OnboardingScreen } from './OnboardingScreen';
 
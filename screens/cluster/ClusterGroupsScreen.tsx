@@ -0,0 +1,174 @@
+/**
+ * Cluster Groups Screen
+ * Farmer groups in the cluster with their supervisor and plot status
+ */
+
+import React from 'react';
+import { View, StyleSheet, FlatList, RefreshControl, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { colors, spacing } from '../../theme';
+import {
+  Container,
+  H3,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Badge,
+  Button,
+  Card,
+  ListFooter,
+  Spacer,
+} from '../../components/ui';
+import { PlotStatusBar } from '../../components/cluster';
+import { getClusterGroups } from '../../libs/cluster';
+import { clusterKeys } from '../../libs/query-keys';
+import { usePagedQuery } from '../../libs/paged-query';
+import { ClusterGroup } from '../../types/api';
+
+const PAGE_SIZE = 20;
+
+export const ClusterGroupsScreen = () => {
+  const {
+    items: groups,
+    totalCount,
+    isLoading,
+    isError,
+    refetch,
+    isRefreshing,
+    refresh,
+    loadMore,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = usePagedQuery<ClusterGroup>({
+    queryKey: clusterKeys.groupsInfinite(PAGE_SIZE),
+    queryFn: getClusterGroups,
+    pageSize: PAGE_SIZE,
+  });
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Container padding="lg">
+        {/* Header */}
+        <View style={styles.header}>
+          <H3>Farmer Groups</H3>
+          <BodySmall color={colors.textSecondary}>{totalCount} groups</BodySmall>
+        </View>
+
+        <Spacer size="lg" />
+
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading groups...</BodySmall>
+          </View>
+        )}
+
+        {isError && groups.length === 0 && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load groups</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
+        <FlatList
+          data={groups}
+          keyExtractor={(group) => group.groupId}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ItemSeparatorComponent={() => <Spacer size="md" />}
+          ListFooterComponent={
+            <ListFooter
+              isLoading={isFetchingNextPage}
+              isError={isFetchNextPageError}
+              onRetry={() => fetchNextPage()}
+              errorMessage="Could not load more groups"
+              retryLabel="Retry"
+            />
+          }
+          renderItem={({ item: group }) => (
+            <Card variant="elevated" style={styles.groupCard}>
+              <View style={styles.groupHeader}>
+                <View style={styles.groupInfo}>
+                  <BodySemibold>{group.groupName}</BodySemibold>
+                  <BodySmall color={colors.textSecondary}>
+                    {group.seasonName ?? 'No active season'}
+                  </BodySmall>
+                </View>
+                {group.activeAlerts > 0 && (
+                  <Badge variant="error" size="sm">
+                    {group.activeAlerts} alerts
+                  </Badge>
+                )}
+              </View>
+
+              <Spacer size="sm" />
+
+              <BodySmall color={group.supervisorName ? colors.textSecondary : colors.error}>
+                Supervisor: {group.supervisorName ?? 'Unassigned'}
+              </BodySmall>
+
+              <Spacer size="md" />
+
+              <View style={styles.groupStats}>
+                <View style={styles.statItem}>
+                  <BodySmall color={colors.textSecondary}>Farmers</BodySmall>
+                  <BodySemibold>{group.farmerCount}</BodySemibold>
+                </View>
+                <View style={styles.statItem}>
+                  <BodySmall color={colors.textSecondary}>Plots</BodySmall>
+                  <BodySemibold>{group.plotCount}</BodySemibold>
+                </View>
+                <View style={styles.statItem}>
+                  <BodySmall color={colors.textSecondary}>Area</BodySmall>
+                  <BodySemibold>{group.totalArea} ha</BodySemibold>
+                </View>
+              </View>
+
+              <Spacer size="md" />
+
+              <PlotStatusBar counts={group.plotStatus} />
+            </Card>
+          )}
+        />
+      </Container>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: spacing.md,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  groupCard: {
+    padding: spacing.lg,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  groupInfo: {
+    flex: 1,
+  },
+  groupStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,216 @@
+/**
+ * Cluster Home Screen
+ * Cluster-wide overview of groups, supervisors and plot status for cluster managers
+ */
+
+import React from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useQuery } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import {
+  Container,
+  H4,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Avatar,
+  Button,
+  Card,
+  LastUpdated,
+  Spacer,
+} from '../../components/ui';
+import { PlotStatusBar } from '../../components/cluster';
+import { useUser } from '../../libs/auth';
+import { getClusterOverview } from '../../libs/cluster';
+import { clusterKeys } from '../../libs/query-keys';
+
+const quickLinks = [
+  { id: 'groups', title: 'Groups', icon: '🏘️', route: '/(cluster-tabs)/groups' },
+  { id: 'supervisors', title: 'Supervisors', icon: '🧑‍🌾', route: '/(cluster-tabs)/supervisors' },
+];
+
+export const ClusterHomeScreen = () => {
+  const router = useRouter();
+  const { data: user } = useUser();
+
+  const {
+    data: overview,
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: clusterKeys.overview(),
+    queryFn: getClusterOverview,
+  });
+
+  const userName = user
+    ? `${user.firstName} ${user.lastName}`.trim() || user.email
+    : 'Cluster Manager';
+
+  const userInitials = user
+    ? `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}`.toUpperCase() || 'C'
+    : 'C';
+
+  const stats = [
+    { label: 'Groups', value: overview?.totalGroups, color: colors.primary },
+    { label: 'Supervisors', value: overview?.totalSupervisors, color: '#FF9500' },
+    { label: 'Farmers', value: overview?.totalFarmers, color: '#34C759' },
+    { label: 'Open Reports', value: overview?.openAlerts, color: colors.error },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      >
+        <Container padding="lg">
+          {/* Header */}
+          <View style={styles.header}>
+            <Avatar size="md" initials={userInitials} />
+            <Spacer size="sm" horizontal />
+            <View>
+              <BodySmall color={colors.textSecondary}>Welcome back</BodySmall>
+              <BodySemibold>{userName}</BodySemibold>
+              <BodySmall color={colors.textSecondary}>
+                Cluster Manager{overview ? ` • ${overview.clusterName}` : ''}
+              </BodySmall>
+            </View>
+          </View>
+          <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
+          <Spacer size="xl" />
+
+          {isError && !overview ? (
+            <View style={styles.stateContainer}>
+              <Body color={colors.error}>Could not load the cluster overview</Body>
+              <Button size="sm" onPress={() => refetch()}>
+                Retry
+              </Button>
+            </View>
+          ) : (
+            <>
+              {/* Stats Cards */}
+              <View style={styles.statsGrid}>
+                {stats.map((stat) => (
+                  <Card
+                    key={stat.label}
+                    variant="elevated"
+                    style={{ ...styles.statCard, backgroundColor: stat.color }}
+                  >
+                    <Body color={colors.white} style={styles.statNumber}>
+                      {isLoading ? '-' : stat.value ?? '-'}
+                    </Body>
+                    <BodySmall color={colors.white}>{stat.label}</BodySmall>
+                  </Card>
+                ))}
+              </View>
+
+              <Spacer size="xl" />
+
+              {/* Plot Status */}
+              <Card variant="elevated" style={styles.sectionCard}>
+                <View style={styles.sectionHeader}>
+                  <View>
+                    <H4>Plot Status</H4>
+                    <BodySmall color={colors.textSecondary}>
+                      {overview
+                        ? `${overview.totalPlots} plots • ${overview.totalArea} ha`
+                        : 'All plots in the cluster'}
+                    </BodySmall>
+                  </View>
+                </View>
+                <Spacer size="md" />
+                {overview && <PlotStatusBar counts={overview.plotStatus} />}
+              </Card>
+            </>
+          )}
+
+          <Spacer size="xl" />
+
+          {/* Quick Links */}
+          <H4>Manage</H4>
+          <Spacer size="md" />
+          {quickLinks.map((link) => (
+            <TouchableOpacity key={link.id} onPress={() => router.push(link.route as any)}>
+              <Card variant="flat" style={styles.linkCard}>
+                <View style={styles.linkIcon}>
+                  <Body>{link.icon}</Body>
+                </View>
+                <BodySemibold style={styles.linkTitle}>{link.title}</BodySemibold>
+                <Body color={colors.textSecondary}>›</Body>
+              </Card>
+              <Spacer size="sm" />
+            </TouchableOpacity>
+          ))}
+
+          <Spacer size="3xl" />
+        </Container>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: spacing.md,
+  },
+  lastUpdated: {
+    marginTop: spacing.sm,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+  },
+  statCard: {
+    width: '47%',
+    padding: spacing.lg,
+    alignItems: 'center',
+  },
+  statNumber: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: spacing.xs,
+  },
+  sectionCard: {
+    padding: spacing.lg,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+  },
+  linkIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  linkTitle: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,178 @@
+/**
+ * Cluster Supervisors Screen
+ * Supervisors in the cluster, their groups and review backlog
+ */
+
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import dayjs from 'dayjs';
+import { colors, spacing } from '../../theme';
+import {
+  Container,
+  H3,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Avatar,
+  Badge,
+  Button,
+  Card,
+  ListFooter,
+  Spacer,
+} from '../../components/ui';
+import { getClusterSupervisors } from '../../libs/cluster';
+import { clusterKeys } from '../../libs/query-keys';
+import { usePagedQuery } from '../../libs/paged-query';
+import { ClusterSupervisor } from '../../types/api';
+
+const PAGE_SIZE = 20;
+
+export const ClusterSupervisorsScreen = () => {
+  const {
+    items: supervisors,
+    totalCount,
+    isLoading,
+    isError,
+    refetch,
+    isRefreshing,
+    refresh,
+    loadMore,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = usePagedQuery<ClusterSupervisor>({
+    queryKey: clusterKeys.supervisorsInfinite(PAGE_SIZE),
+    queryFn: getClusterSupervisors,
+    pageSize: PAGE_SIZE,
+  });
+
+  const getInitials = (fullName: string) =>
+    fullName
+      .split(' ')
+      .filter(Boolean)
+      .slice(-2)
+      .map((part) => part[0])
+      .join('')
+      .toUpperCase();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Container padding="lg">
+        {/* Header */}
+        <View style={styles.header}>
+          <H3>Supervisors</H3>
+          <BodySmall color={colors.textSecondary}>{totalCount} supervisors</BodySmall>
+        </View>
+
+        <Spacer size="lg" />
+
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading supervisors...</BodySmall>
+          </View>
+        )}
+
+        {isError && supervisors.length === 0 && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load supervisors</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
+        <FlatList
+          data={supervisors}
+          keyExtractor={(supervisor) => supervisor.supervisorId}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ItemSeparatorComponent={() => <Spacer size="md" />}
+          ListFooterComponent={
+            <ListFooter
+              isLoading={isFetchingNextPage}
+              isError={isFetchNextPageError}
+              onRetry={() => fetchNextPage()}
+              errorMessage="Could not load more supervisors"
+              retryLabel="Retry"
+            />
+          }
+          renderItem={({ item: supervisor }) => (
+            <Card variant="elevated" style={styles.supervisorCard}>
+              <View style={styles.supervisorHeader}>
+                <Avatar size="md" initials={getInitials(supervisor.fullName)} />
+                <View style={styles.supervisorInfo}>
+                  <BodySemibold>{supervisor.fullName}</BodySemibold>
+                  <BodySmall color={colors.textSecondary}>{supervisor.email}</BodySmall>
+                </View>
+                {supervisor.pendingReviews > 0 && (
+                  <Badge variant="warning" size="sm">
+                    {supervisor.pendingReviews} to review
+                  </Badge>
+                )}
+              </View>
+
+              <Spacer size="md" />
+
+              <BodySmall color={colors.textSecondary}>
+                Groups: {supervisor.groupNames.join(', ') || 'None'}
+              </BodySmall>
+              <BodySmall color={colors.textSecondary}>
+                {supervisor.farmerCount} farmers • Last active{' '}
+                {supervisor.lastActivityAt
+                  ? dayjs(supervisor.lastActivityAt).format('MMM DD, YYYY')
+                  : 'never'}
+              </BodySmall>
+
+              {supervisor.phoneNumber && (
+                <>
+                  <Spacer size="sm" />
+                  <TouchableOpacity onPress={() => Linking.openURL(`tel:${supervisor.phoneNumber}`)}>
+                    <BodySmall color={colors.primary}>📞 {supervisor.phoneNumber}</BodySmall>
+                  </TouchableOpacity>
+                </>
+              )}
+            </Card>
+          )}
+        />
+      </Container>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: spacing.md,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  supervisorCard: {
+    padding: spacing.lg,
+  },
+  supervisorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  supervisorInfo: {
+    flex: 1,
+  },
+});
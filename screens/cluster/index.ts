@@ -0,0 +1,7 @@
+/**
+ * Cluster Manager Screens
+ */
+
+export { ClusterHomeScreen } from './ClusterHomeScreen';
+export { ClusterGroupsScreen } from './ClusterGroupsScreen';
+export { ClusterSupervisorsScreen } from './ClusterSupervisorsScreen';
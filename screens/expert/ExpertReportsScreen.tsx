@@ -0,0 +1,422 @@
+/**
+ * Expert Reports Screen
+ * Queue of pest and disease reports for agronomy experts to confirm or dismiss
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import dayjs from 'dayjs';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import {
+  Container,
+  H3,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Badge,
+  Button,
+  Card,
+  Input,
+  ListFooter,
+  Spacer,
+} from '../../components/ui';
+import { Authorization, useAuthorization } from '../../libs/authorization';
+import { getPestReports, reviewPestReport, ReviewPestReportRequest } from '../../libs/expert';
+import { ignoreDuplicate, useSubmissionKey } from '../../libs/idempotency';
+import { usePagedQuery } from '../../libs/paged-query';
+import { expertKeys, invalidateAfter } from '../../libs/query-keys';
+import { showApiError, toast } from '../../libs/toast';
+import { PestReport, PestReportStatus } from '../../types/api';
+
+const PAGE_SIZE = 20;
+
+type StatusFilter = 'all' | PestReportStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'Pending', label: 'Pending' },
+  { value: 'Confirmed', label: 'Confirmed' },
+  { value: 'Dismissed', label: 'Dismissed' },
+  { value: 'all', label: 'All' },
+];
+
+const getStatusVariant = (status: PestReportStatus) => {
+  switch (status) {
+    case 'Pending':
+      return 'warning';
+    case 'Confirmed':
+      return 'error';
+    default:
+      return 'neutral';
+  }
+};
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'Critical':
+      return colors.error;
+    case 'High':
+      return colors.warning;
+    case 'Medium':
+      return colors.info;
+    default:
+      return colors.textSecondary;
+  }
+};
+
+export const ExpertReportsScreen = () => {
+  const queryClient = useQueryClient();
+  const { checkPolicy } = useAuthorization();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('Pending');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [treatment, setTreatment] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const {
+    items: reports,
+    totalCount,
+    isLoading,
+    isError,
+    refetch,
+    isRefreshing,
+    refresh,
+    loadMore,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = usePagedQuery<PestReport>({
+    queryKey: expertKeys.reportsInfinite(statusFilter, PAGE_SIZE),
+    queryFn: (page) => getPestReports({ status: statusFilter, ...page }),
+    pageSize: PAGE_SIZE,
+  });
+
+  const reviewSubmission = useSubmissionKey();
+  const reviewMutation = useMutation({
+    mutationFn: ({ reportId, request }: { reportId: string; request: ReviewPestReportRequest }) =>
+      // A repeated review (double tap, lost response) already went through
+      ignoreDuplicate(
+        reviewPestReport(reportId, request, { idempotencyKey: reviewSubmission.get() }),
+      ),
+    onSettled: (_data, error) => reviewSubmission.settle(error),
+    onSuccess: (_, { request }) => {
+      toast.success(request.decision === 'Confirm' ? 'Report confirmed' : 'Report dismissed');
+      closeReview();
+      invalidateAfter(queryClient, 'review-pest-report');
+    },
+    onError: (error) => {
+      showApiError(error, 'Failed to review report');
+    },
+  });
+
+  const openReview = (report: PestReport) => {
+    setReviewingId(report.id);
+    setTreatment(report.recommendedTreatment ?? '');
+    setNotes('');
+  };
+
+  const closeReview = () => {
+    setReviewingId(null);
+    setTreatment('');
+    setNotes('');
+  };
+
+  const handleReview = (reportId: string, decision: ReviewPestReportRequest['decision']) => {
+    if (decision === 'Confirm' && !treatment.trim()) {
+      toast.error('Add a recommended treatment before confirming');
+      return;
+    }
+    reviewMutation.mutate({
+      reportId,
+      request: {
+        decision,
+        recommendedTreatment: decision === 'Confirm' ? treatment.trim() : undefined,
+        notes: notes.trim() || undefined,
+      },
+    });
+  };
+
+  const renderReviewForm = (report: PestReport) => (
+    <>
+      <Input
+        label="Recommended treatment"
+        value={treatment}
+        onChangeText={setTreatment}
+        placeholder="Product, dose and timing for the farmer"
+        multiline
+      />
+      <Input
+        label="Notes"
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Optional notes for the supervisor"
+        multiline
+      />
+      <View style={styles.actionButtons}>
+        <Button
+          variant="outline"
+          size="sm"
+          onPress={() => handleReview(report.id, 'Dismiss')}
+          disabled={reviewMutation.isPending}
+          style={styles.actionButton}
+        >
+          Dismiss
+        </Button>
+        <Button
+          size="sm"
+          onPress={() => handleReview(report.id, 'Confirm')}
+          loading={reviewMutation.isPending}
+          disabled={reviewMutation.isPending}
+          style={styles.actionButton}
+        >
+          Confirm
+        </Button>
+      </View>
+      <Spacer size="sm" />
+      <Button variant="ghost" size="sm" onPress={closeReview} disabled={reviewMutation.isPending}>
+        Cancel
+      </Button>
+    </>
+  );
+
+  const renderReport = ({ item: report }: { item: PestReport }) => {
+    const detection = report.aiDetectionResult;
+
+    return (
+      <Card variant="elevated" style={styles.reportCard}>
+        <View style={styles.reportHeader}>
+          <View style={styles.reportInfo}>
+            <BodySemibold>{report.title}</BodySemibold>
+            <BodySmall color={colors.textSecondary}>
+              {[report.plotName, report.farmerName, report.groupName].filter(Boolean).join(' • ')}
+            </BodySmall>
+          </View>
+          <Badge variant={getStatusVariant(report.status)} size="sm">
+            {report.status}
+          </Badge>
+        </View>
+
+        <Spacer size="sm" />
+
+        <View style={styles.metaRow}>
+          <BodySmall color={getSeverityColor(report.severity)}>● {report.severity}</BodySmall>
+          <BodySmall color={colors.textSecondary}>{report.alertType}</BodySmall>
+          <BodySmall color={colors.textSecondary}>
+            {dayjs(report.reportedAt).format('MMM DD, YYYY HH:mm')}
+          </BodySmall>
+        </View>
+
+        <Spacer size="md" />
+
+        <Body>{report.description}</Body>
+
+        {report.imageUrls.length > 0 && (
+          <>
+            <Spacer size="md" />
+            <Image source={{ uri: report.imageUrls[0] }} style={styles.image} />
+          </>
+        )}
+
+        {detection?.hasPest && (
+          <>
+            <Spacer size="md" />
+            <View style={styles.detectionBox}>
+              <BodySmall color={colors.textSecondary}>
+                AI detection • {Math.round(detection.averageConfidence * 100)}% avg. confidence
+              </BodySmall>
+              {detection.detectedPests.map((pest) => (
+                <BodySmall key={pest.pestName}>
+                  • {pest.pestName} ({Math.round(pest.confidence * 100)}%)
+                </BodySmall>
+              ))}
+            </View>
+          </>
+        )}
+
+        {report.status !== 'Pending' && (
+          <>
+            <Spacer size="md" />
+            {report.recommendedTreatment && (
+              <BodySmall>Treatment: {report.recommendedTreatment}</BodySmall>
+            )}
+            {report.expertNotes && (
+              <BodySmall color={colors.textSecondary}>Notes: {report.expertNotes}</BodySmall>
+            )}
+            {report.reviewedAt && (
+              <BodySmall color={colors.textSecondary}>
+                Reviewed {dayjs(report.reviewedAt).format('MMM DD, YYYY')}
+              </BodySmall>
+            )}
+          </>
+        )}
+
+        <Authorization policyCheck={checkPolicy('report:review', report)}>
+          <Spacer size="md" />
+          {reviewingId === report.id ? (
+            renderReviewForm(report)
+          ) : (
+            <Button size="sm" onPress={() => openReview(report)}>
+              Review
+            </Button>
+          )}
+        </Authorization>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Container padding="lg">
+        {/* Header */}
+        <View style={styles.header}>
+          <H3>Pest & Disease Reports</H3>
+          <BodySmall color={colors.textSecondary}>{totalCount} reports</BodySmall>
+        </View>
+
+        <Spacer size="lg" />
+
+        {/* Status Filters */}
+        <View style={styles.filterRow}>
+          {STATUS_FILTERS.map((filter) => {
+            const isActive = statusFilter === filter.value;
+            return (
+              <TouchableOpacity
+                key={filter.value}
+                onPress={() => {
+                  setStatusFilter(filter.value);
+                  closeReview();
+                }}
+                style={[styles.filterChip, isActive && styles.filterChipActive]}
+              >
+                <BodySmall color={isActive ? colors.white : colors.textPrimary}>
+                  {filter.label}
+                </BodySmall>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Spacer size="lg" />
+
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading reports...</BodySmall>
+          </View>
+        )}
+
+        {isError && reports.length === 0 && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load reports</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
+        {!isLoading && !isError && reports.length === 0 && (
+          <View style={styles.stateContainer}>
+            <BodySmall color={colors.textSecondary}>No reports to show</BodySmall>
+          </View>
+        )}
+
+        <FlatList
+          data={reports}
+          keyExtractor={(report) => report.id}
+          renderItem={renderReport}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ItemSeparatorComponent={() => <Spacer size="md" />}
+          ListFooterComponent={
+            <ListFooter
+              isLoading={isFetchingNextPage}
+              isError={isFetchNextPageError}
+              onRetry={() => fetchNextPage()}
+              errorMessage="Could not load more reports"
+              retryLabel="Retry"
+            />
+          }
+        />
+      </Container>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: spacing.md,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    flexWrap: 'wrap',
+  },
+  filterChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  reportCard: {
+    padding: spacing.md,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+  },
+  image: {
+    width: '100%',
+    height: 180,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  detectionBox: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+    gap: spacing.xs,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
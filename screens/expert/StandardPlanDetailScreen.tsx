@@ -0,0 +1,251 @@
+/**
+ * Standard Plan Detail Screen
+ * Stages, tasks and materials of a standard cultivation plan
+ */
+
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useQuery } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import {
+  Container,
+  H3,
+  H4,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Badge,
+  Button,
+  Card,
+  LastUpdated,
+  Spacer,
+} from '../../components/ui';
+import { getStandardPlanDetail } from '../../libs/expert';
+import { expertKeys } from '../../libs/query-keys';
+
+// Task materials are untyped in the plan schema; only the name is shown here
+const getMaterialName = (material: unknown) =>
+  typeof material === 'object' && material !== null && 'materialName' in material
+    ? String((material as { materialName: unknown }).materialName)
+    : null;
+
+export const StandardPlanDetailScreen = () => {
+  const router = useRouter();
+  const { planId } = useLocalSearchParams<{ planId: string }>();
+
+  const {
+    data: plan,
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: expertKeys.standardPlanDetail(planId),
+    queryFn: () => getStandardPlanDetail(planId!),
+    enabled: !!planId,
+  });
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      >
+        <Container padding="lg">
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <Body>←</Body>
+            </TouchableOpacity>
+            <H3 style={styles.headerTitle}>Standard Plan</H3>
+          </View>
+          <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
+          <Spacer size="lg" />
+
+          {isLoading && (
+            <View style={styles.stateContainer}>
+              <ActivityIndicator color={colors.primary} />
+              <BodySmall color={colors.textSecondary}>Loading plan...</BodySmall>
+            </View>
+          )}
+
+          {isError && !plan && (
+            <View style={styles.stateContainer}>
+              <Body color={colors.error}>Could not load this plan</Body>
+              <Button size="sm" onPress={() => refetch()}>
+                Retry
+              </Button>
+            </View>
+          )}
+
+          {plan && (
+            <>
+              {/* Summary */}
+              <Card variant="elevated" style={styles.summaryCard}>
+                <View style={styles.titleRow}>
+                  <H4 style={styles.planName}>{plan.planName}</H4>
+                  <Badge variant={plan.isActive ? 'success' : 'neutral'} size="sm">
+                    {plan.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </View>
+                {plan.description && (
+                  <BodySmall color={colors.textSecondary}>{plan.description}</BodySmall>
+                )}
+                <Spacer size="md" />
+                <View style={styles.summaryStats}>
+                  <View style={styles.statItem}>
+                    <BodySmall color={colors.textSecondary}>Duration</BodySmall>
+                    <BodySemibold>{plan.totalDurationDays} days</BodySemibold>
+                  </View>
+                  <View style={styles.statItem}>
+                    <BodySmall color={colors.textSecondary}>Stages</BodySmall>
+                    <BodySemibold>{plan.totalStages}</BodySemibold>
+                  </View>
+                  <View style={styles.statItem}>
+                    <BodySmall color={colors.textSecondary}>Tasks</BodySmall>
+                    <BodySemibold>{plan.totalTasks}</BodySemibold>
+                  </View>
+                  <View style={styles.statItem}>
+                    <BodySmall color={colors.textSecondary}>Materials</BodySmall>
+                    <BodySemibold>{plan.totalMaterialTypes}</BodySemibold>
+                  </View>
+                </View>
+                <Spacer size="md" />
+                <BodySmall color={colors.textSecondary}>
+                  {plan.categoryName} • By {plan.creatorName}
+                </BodySmall>
+              </Card>
+
+              <Spacer size="xl" />
+
+              {/* Stages */}
+              <H4>Stages</H4>
+              <Spacer size="md" />
+              {[...plan.stages]
+                .sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+                .map((stage) => (
+                  <View key={stage.id}>
+                    <Card variant="flat" style={styles.stageCard}>
+                      <View style={styles.titleRow}>
+                        <BodySemibold style={styles.planName}>
+                          {stage.sequenceOrder}. {stage.stageName}
+                        </BodySemibold>
+                        <BodySmall color={colors.textSecondary}>
+                          {stage.expectedDurationDays} days
+                        </BodySmall>
+                      </View>
+                      {stage.notes && (
+                        <BodySmall color={colors.textSecondary}>{stage.notes}</BodySmall>
+                      )}
+                      <Spacer size="sm" />
+                      {stage.tasks.map((task) => {
+                        const materials = task.materials
+                          .map(getMaterialName)
+                          .filter((name): name is string => !!name);
+                        return (
+                          <View key={task.id} style={styles.taskRow}>
+                            <View style={styles.taskDot} />
+                            <View style={styles.taskInfo}>
+                              <Body>{task.taskName}</Body>
+                              <BodySmall color={colors.textSecondary}>
+                                {task.taskType}
+                                {materials.length > 0 ? ` • ${materials.join(', ')}` : ''}
+                              </BodySmall>
+                            </View>
+                          </View>
+                        );
+                      })}
+                    </Card>
+                    <Spacer size="md" />
+                  </View>
+                ))}
+            </>
+          )}
+
+          <Spacer size="3xl" />
+        </Container>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  lastUpdated: {
+    marginTop: spacing.sm,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  summaryCard: {
+    padding: spacing.lg,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  planName: {
+    flex: 1,
+  },
+  summaryStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  stageCard: {
+    padding: spacing.md,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  taskDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 7,
+    backgroundColor: colors.primary,
+  },
+  taskInfo: {
+    flex: 1,
+  },
+});
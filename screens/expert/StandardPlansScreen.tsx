@@ -0,0 +1,252 @@
+/**
+ * Standard Plans Screen
+ * Browse standard cultivation plans, filtered by rice variety
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useQuery } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import {
+  Container,
+  H3,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Badge,
+  Button,
+  Card,
+  LastUpdated,
+  Spacer,
+} from '../../components/ui';
+import { getRiceVarieties } from '../../libs/expert';
+import { getStandardPlans } from '../../libs/supervisor';
+import { expertKeys } from '../../libs/query-keys';
+
+export const StandardPlansScreen = () => {
+  const router = useRouter();
+  const [varietyId, setVarietyId] = useState<string | null>(null);
+
+  const {
+    data: plans = [],
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: expertKeys.standardPlans(),
+    queryFn: getStandardPlans,
+  });
+
+  const { data: varieties = [], refetch: refetchVarieties } = useQuery({
+    queryKey: expertKeys.riceVarieties(),
+    queryFn: getRiceVarieties,
+  });
+
+  const visiblePlans = useMemo(
+    () => (varietyId ? plans.filter((plan) => plan.riceVarietyId === varietyId) : plans),
+    [plans, varietyId],
+  );
+
+  const selectedVariety = varieties.find((variety) => variety.id === varietyId);
+
+  const handleRefresh = () => {
+    refetch();
+    refetchVarieties();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} />}
+      >
+        <Container padding="lg">
+          {/* Header */}
+          <View style={styles.header}>
+            <H3>Standard Plans</H3>
+            <BodySmall color={colors.textSecondary}>{visiblePlans.length} plans</BodySmall>
+          </View>
+          <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
+          <Spacer size="lg" />
+
+          {/* Rice Variety Filters */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.filterRow}>
+              <TouchableOpacity
+                onPress={() => setVarietyId(null)}
+                style={[styles.filterChip, !varietyId && styles.filterChipActive]}
+              >
+                <BodySmall color={!varietyId ? colors.white : colors.textPrimary}>
+                  All varieties
+                </BodySmall>
+              </TouchableOpacity>
+              {varieties.map((variety) => {
+                const isActive = variety.id === varietyId;
+                return (
+                  <TouchableOpacity
+                    key={variety.id}
+                    onPress={() => setVarietyId(variety.id)}
+                    style={[styles.filterChip, isActive && styles.filterChipActive]}
+                  >
+                    <BodySmall color={isActive ? colors.white : colors.textPrimary}>
+                      {variety.varietyName}
+                    </BodySmall>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          {selectedVariety && (
+            <>
+              <Spacer size="md" />
+              <Card variant="flat" style={styles.varietyCard}>
+                <View style={styles.planHeader}>
+                  <BodySemibold>{selectedVariety.varietyName}</BodySemibold>
+                  {!selectedVariety.isActive && (
+                    <Badge variant="neutral" size="sm">
+                      Inactive
+                    </Badge>
+                  )}
+                </View>
+                <BodySmall color={colors.textSecondary}>
+                  {selectedVariety.categoryName} • {selectedVariety.baseGrowthDurationDays} days •{' '}
+                  {selectedVariety.baseYieldPerHectare} t/ha
+                </BodySmall>
+                <Spacer size="xs" />
+                <BodySmall>{selectedVariety.characteristics}</BodySmall>
+              </Card>
+            </>
+          )}
+
+          <Spacer size="lg" />
+
+          {isLoading && (
+            <View style={styles.stateContainer}>
+              <ActivityIndicator color={colors.primary} />
+              <BodySmall color={colors.textSecondary}>Loading plans...</BodySmall>
+            </View>
+          )}
+
+          {isError && plans.length === 0 && (
+            <View style={styles.stateContainer}>
+              <Body color={colors.error}>Could not load standard plans</Body>
+              <Button size="sm" onPress={() => refetch()}>
+                Retry
+              </Button>
+            </View>
+          )}
+
+          {!isLoading && !isError && visiblePlans.length === 0 && (
+            <View style={styles.stateContainer}>
+              <BodySmall color={colors.textSecondary}>No plans for this variety</BodySmall>
+            </View>
+          )}
+
+          {visiblePlans.map((plan) => (
+            <TouchableOpacity
+              key={plan.id}
+              onPress={() =>
+                router.push({
+                  pathname: '/expert/standard-plans/[planId]',
+                  params: { planId: plan.id },
+                } as any)
+              }
+            >
+              <Card variant="elevated" style={styles.planCard}>
+                <View style={styles.planHeader}>
+                  <BodySemibold style={styles.planName}>{plan.name}</BodySemibold>
+                  <Badge variant={plan.isActive ? 'success' : 'neutral'} size="sm">
+                    {plan.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </View>
+                {plan.description && (
+                  <BodySmall color={colors.textSecondary}>{plan.description}</BodySmall>
+                )}
+                <Spacer size="sm" />
+                <BodySmall color={colors.textSecondary}>
+                  {[
+                    plan.riceVarietyName,
+                    plan.season,
+                    plan.totalDuration ? `${plan.totalDuration} days` : null,
+                    plan.totalStages ? `${plan.totalStages} stages` : null,
+                    plan.totalTasks ? `${plan.totalTasks} tasks` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </BodySmall>
+              </Card>
+              <Spacer size="md" />
+            </TouchableOpacity>
+          ))}
+
+          <Spacer size="3xl" />
+        </Container>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: spacing.md,
+  },
+  lastUpdated: {
+    marginTop: spacing.sm,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  filterChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  varietyCard: {
+    padding: spacing.md,
+  },
+  planCard: {
+    padding: spacing.md,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  planName: {
+    flex: 1,
+  },
+});
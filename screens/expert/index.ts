@@ -0,0 +1,7 @@
+/**
+ * Agronomy Expert Screens
+ */
+
+export { ExpertReportsScreen } from './ExpertReportsScreen';
+export { StandardPlansScreen } from './StandardPlansScreen';
+export { StandardPlanDetailScreen } from './StandardPlanDetailScreen';
@@ -1,6 +1,7 @@
 /**
  * Alerts & Recommendations Screen
- * View pest/weather alerts and recommendations
+ * Pest, weather and recommendation alerts raised for the farmer's plots.
+ * Alerts can be acknowledged, and a recommended treatment turned into a task.
  */
 
 import React, { useState } from 'react';
@@ -10,69 +11,112 @@ import {
   ScrollView,
   TouchableOpacity,
   SafeAreaView,
-  useWindowDimensions,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import dayjs from 'dayjs';
-import { colors, spacing, borderRadius, shadows } from '../../theme';
-import { scale, moderateScale, getFontSize, getSpacing, verticalScale } from '../../utils/responsive';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import { scale, moderateScale, getFontSize, getSpacing } from '../../utils/responsive';
 import {
   Container,
   H3,
-  H4,
   Body,
   BodySmall,
   BodySemibold,
   Card,
   Badge,
   Spacer,
+  Button,
 } from '../../components/ui';
+import {
+  acknowledgeAlert,
+  createTaskFromAlert,
+  getCurrentFarmerPlots,
+  getFarmerAlerts,
+} from '../../libs/farmer';
+import { farmerKeys, invalidateAfter } from '../../libs/query-keys';
+import { showApiError, toast } from '../../libs/toast';
 import { Alert } from '../../types/api';
 
-// Mock data
-const mockAlerts: Alert[] = [
-  {
-    id: '1',
-    createdAt: Date.now(),
-    type: 'pest',
-    severity: 'high',
-    title: 'Brown Planthopper Detected',
-    message: 'Brown planthopper infestation detected in Field A. Immediate action required.',
-    fieldId: '1',
-    fieldName: 'Field A',
-    pestType: 'Brown Planthopper',
-    recommendedTreatment: 'Apply Imidacloprid 10% WP at 0.5kg/ha',
-    approved: true,
-  },
-  {
-    id: '2',
-    createdAt: Date.now(),
-    type: 'weather',
-    severity: 'medium',
-    title: 'Heavy Rain Warning',
-    message: 'Heavy rainfall expected in the next 48 hours. Prepare drainage systems.',
-    fieldId: '2',
-    fieldName: 'Field B',
-    approved: true,
-  },
-  {
-    id: '3',
-    createdAt: Date.now(),
-    type: 'recommendation',
-    severity: 'low',
-    title: 'Fertilization Schedule',
-    message: 'Recommended to apply second round of fertilization in Field C within 7 days.',
-    fieldId: '3',
-    fieldName: 'Field C',
-    recommendedTreatment: 'Apply Urea 46% at 100kg/ha',
-    approved: true,
-  },
+type FilterOption<T extends string> = { value: T | 'all'; label: string };
+
+const TYPE_FILTERS: FilterOption<Alert['type']>[] = [
+  { value: 'all', label: 'Tất cả' },
+  { value: 'pest', label: 'Sâu bệnh' },
+  { value: 'weather', label: 'Thời tiết' },
+  { value: 'recommendation', label: 'Khuyến nghị' },
 ];
 
+const SEVERITY_FILTERS: FilterOption<Alert['severity']>[] = [
+  { value: 'all', label: 'Mọi mức độ' },
+  { value: 'critical', label: 'Khẩn cấp' },
+  { value: 'high', label: 'Cao' },
+  { value: 'medium', label: 'Trung bình' },
+  { value: 'low', label: 'Thấp' },
+];
+
+const SEVERITY_LABELS: Record<Alert['severity'], string> = {
+  critical: 'Khẩn cấp',
+  high: 'Cao',
+  medium: 'Trung bình',
+  low: 'Thấp',
+};
+
 export const AlertsScreen = () => {
   const router = useRouter();
-  const [selectedFilter, setSelectedFilter] = useState<string>('all');
+  const queryClient = useQueryClient();
+  // Set when opened from a plot's alert count
+  const { plotId } = useLocalSearchParams<{ plotId?: string }>();
+  const [typeFilter, setTypeFilter] = useState<Alert['type'] | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<Alert['severity'] | 'all'>('all');
+  const [plotFilter, setPlotFilter] = useState<string>(plotId ?? 'all');
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+
+  const filters = {
+    type: typeFilter === 'all' ? undefined : typeFilter,
+    severity: severityFilter === 'all' ? undefined : severityFilter,
+    plotId: plotFilter === 'all' ? undefined : plotFilter,
+    includeAcknowledged: showAcknowledged,
+  };
+
+  const { data: alerts = [], isLoading, isError, refetch } = useQuery({
+    queryKey: farmerKeys.alerts(filters),
+    queryFn: () => getFarmerAlerts(filters),
+  });
+
+  const { data: plots = [] } = useQuery({
+    queryKey: farmerKeys.plots({ page: 1, size: 100 }),
+    queryFn: () => getCurrentFarmerPlots({ currentPage: 1, pageSize: 100 }),
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: acknowledgeAlert,
+    onSuccess: () => invalidateAfter(queryClient, 'acknowledge-alert'),
+    onError: (error) => showApiError(error, 'Không thể xác nhận cảnh báo'),
+  });
+
+  const treatmentMutation = useMutation({
+    mutationFn: createTaskFromAlert,
+    onSuccess: (task, alertId) => {
+      invalidateAfter(queryClient, 'alert-task');
+      const alert = alerts.find((item) => item.id === alertId);
+      toast.success('Đã thêm công việc xử lý vào kế hoạch');
+      // Open the farm log for the new task with the treatment filled in
+      router.push({
+        pathname: '/farmer/tasks/[taskId]/confirm',
+        params: {
+          taskId: task.cultivationTaskId,
+          plotCultivationId: task.plotCultivationId,
+          taskName: task.taskName,
+          plotSoThuaSoTo: task.plotSoThuaSoTo,
+          materials: JSON.stringify(task.materials || []),
+          workDescription: alert?.recommendedTreatment ?? '',
+        },
+      } as any);
+    },
+    onError: (error) => showApiError(error, 'Không thể tạo công việc xử lý'),
+  });
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -102,10 +146,37 @@ export const AlertsScreen = () => {
     }
   };
 
-  const filteredAlerts =
-    selectedFilter === 'all'
-      ? mockAlerts
-      : mockAlerts.filter((a) => a.type === selectedFilter);
+  const renderChips = <T extends string>(
+    options: FilterOption<T>[],
+    selected: T | 'all',
+    onSelect: (value: T | 'all') => void,
+  ) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.filterContainer}
+    >
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          onPress={() => onSelect(option.value)}
+          style={[styles.filterButton, selected === option.value && styles.filterButtonActive]}
+        >
+          <BodySmall color={selected === option.value ? colors.white : colors.textPrimary}>
+            {option.label}
+          </BodySmall>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const plotFilters: FilterOption<string>[] = [
+    { value: 'all', label: 'Tất cả thửa' },
+    ...plots.map((plot) => ({
+      value: plot.plotId,
+      label: `Thửa ${plot.soThua ?? '-'}, Tờ ${plot.soTo ?? '-'}`,
+    })),
+  ];
 
   return (
     <SafeAreaView style={styles.container}>
@@ -121,78 +192,65 @@ export const AlertsScreen = () => {
 
         <Spacer size="lg" />
 
-        {/* Filter Buttons */}
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.filterContainer}
+        {/* Filters */}
+        {renderChips(TYPE_FILTERS, typeFilter, setTypeFilter)}
+        <Spacer size="sm" />
+        {renderChips(SEVERITY_FILTERS, severityFilter, setSeverityFilter)}
+        {plots.length > 1 && (
+          <>
+            <Spacer size="sm" />
+            {renderChips(plotFilters, plotFilter, setPlotFilter)}
+          </>
+        )}
+        <Spacer size="sm" />
+        <TouchableOpacity
+          onPress={() => setShowAcknowledged((prev) => !prev)}
+          style={styles.acknowledgedToggle}
         >
-          <TouchableOpacity
-            onPress={() => setSelectedFilter('all')}
-            style={[
-              styles.filterButton,
-              selectedFilter === 'all' && styles.filterButtonActive,
-            ]}
-          >
-            <BodySmall
-              color={selectedFilter === 'all' ? colors.white : colors.textPrimary}
-            >
-              Tất cả
-            </BodySmall>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => setSelectedFilter('pest')}
-            style={[
-              styles.filterButton,
-              selectedFilter === 'pest' && styles.filterButtonActive,
-            ]}
-          >
-            <BodySmall
-              color={selectedFilter === 'pest' ? colors.white : colors.textPrimary}
-            >
-              Sâu bệnh
-            </BodySmall>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => setSelectedFilter('weather')}
-            style={[
-              styles.filterButton,
-              selectedFilter === 'weather' && styles.filterButtonActive,
-            ]}
-          >
-            <BodySmall
-              color={selectedFilter === 'weather' ? colors.white : colors.textPrimary}
-            >
-              Thời tiết
-            </BodySmall>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => setSelectedFilter('recommendation')}
-            style={[
-              styles.filterButton,
-              selectedFilter === 'recommendation' && styles.filterButtonActive,
-            ]}
-          >
-            <BodySmall
-              color={selectedFilter === 'recommendation' ? colors.white : colors.textPrimary}
-            >
-              Khuyến nghị
-            </BodySmall>
-          </TouchableOpacity>
-        </ScrollView>
+          <Ionicons
+            name={showAcknowledged ? 'checkbox' : 'square-outline'}
+            size={18}
+            color={colors.primary}
+          />
+          <BodySmall color={colors.textSecondary}>Hiện cả cảnh báo đã xem</BodySmall>
+        </TouchableOpacity>
+
+        <Spacer size="lg" />
 
-        <Spacer size="xl" />
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <BodySmall color={colors.textSecondary}>Đang tải cảnh báo...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Không thể tải cảnh báo</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Thử lại
+            </Button>
+          </View>
+        )}
+
+        {!isLoading && !isError && alerts.length === 0 && (
+          <View style={styles.stateContainer}>
+            <Ionicons name="checkmark-circle-outline" size={40} color={colors.success} />
+            <BodySmall color={colors.textSecondary}>Không có cảnh báo nào cần xử lý</BodySmall>
+          </View>
+        )}
 
         {/* Alerts List */}
         <ScrollView showsVerticalScrollIndicator={false}>
-          {filteredAlerts.map((alert) => (
-            <TouchableOpacity key={alert.id}>
+          {alerts.map((alert) => (
+            <View key={alert.id}>
               <Card
                 variant="elevated"
-                style={[
-                  styles.alertCard,
-                  { borderLeftWidth: 4, borderLeftColor: getSeverityColor(alert.severity) },
-                ]}
+                style={{
+                  ...styles.alertCard,
+                  borderLeftWidth: 4,
+                  borderLeftColor: getSeverityColor(alert.severity),
+                  opacity: alert.acknowledgedAt ? 0.7 : 1,
+                }}
               >
                 <View style={styles.alertHeader}>
                   <View style={styles.alertIcon}>
@@ -217,7 +275,7 @@ export const AlertsScreen = () => {
                         <BodySmall
                           style={{ color: getSeverityColor(alert.severity), fontSize: 10 }}
                         >
-                          {alert.severity.toUpperCase()}
+                          {SEVERITY_LABELS[alert.severity].toUpperCase()}
                         </BodySmall>
                       </Badge>
                     </View>
@@ -230,7 +288,8 @@ export const AlertsScreen = () => {
                       </View>
                     )}
                     <BodySmall color={colors.textSecondary}>
-                      {dayjs(alert.createdAt).format('MMM D, YYYY h:mm A')}
+                      {dayjs(alert.createdAt).format('HH:mm DD/MM/YYYY')}
+                      {alert.raisedBy ? ` · ${alert.raisedBy}` : ''}
                     </BodySmall>
                   </View>
                 </View>
@@ -258,9 +317,40 @@ export const AlertsScreen = () => {
                     </View>
                   </>
                 )}
+                <Spacer size="md" />
+                <View style={styles.actionRow}>
+                  {alert.acknowledgedAt ? (
+                    <BodySmall color={colors.textSecondary} style={styles.acknowledgedText}>
+                      Đã xem lúc {dayjs(alert.acknowledgedAt).format('HH:mm DD/MM')}
+                    </BodySmall>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onPress={() => acknowledgeMutation.mutate(alert.id)}
+                      loading={
+                        acknowledgeMutation.isPending && acknowledgeMutation.variables === alert.id
+                      }
+                      style={styles.actionButton}
+                    >
+                      Đã xem
+                    </Button>
+                  )}
+                  {alert.recommendedTreatment && alert.plotCultivationId && (
+                    <Button
+                      size="sm"
+                      onPress={() => treatmentMutation.mutate(alert.id)}
+                      loading={treatmentMutation.isPending && treatmentMutation.variables === alert.id}
+                      disabled={treatmentMutation.isPending}
+                      style={styles.actionButton}
+                    >
+                      {alert.treatmentTaskId ? 'Ghi nhật ký xử lý' : 'Tạo công việc xử lý'}
+                    </Button>
+                  )}
+                </View>
               </Card>
               <Spacer size="md" />
-            </TouchableOpacity>
+            </View>
           ))}
         </ScrollView>
       </Container>
@@ -279,6 +369,11 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingTop: getSpacing(spacing.md),
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   backButton: {
     width: scale(40),
     height: scale(40),
@@ -365,5 +460,21 @@ const styles = StyleSheet.create({
     color: colors.primary,
     fontSize: getFontSize(14),
   },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: getSpacing(spacing.sm),
+  },
+  actionButton: {
+    flex: 1,
+  },
+  acknowledgedText: {
+    flex: 1,
+  },
+  acknowledgedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: getSpacing(spacing.xs),
+  },
 });
 
@@ -32,11 +32,17 @@ import {
   Spacer,
   Button,
   Input,
+  UploadProgress,
 } from '../../components/ui';
 import { CreateFarmLogRequest, FarmLogMaterialRequest, TodayTaskResponse } from '../../types/api';
-import { createFarmLog } from '../../libs/farmer';
 import { useUser } from '../../libs/auth';
-import { uploadFile } from '../../libs/api-client';
+import { submitToOutbox } from '../../libs/outbox';
+import { useUploadProgress } from '../../libs/upload-progress';
+import { useSubmissionKey } from '../../libs/idempotency';
+import { getFieldErrors } from '../../libs/api-error';
+import { showApiError } from '../../libs/toast';
+import { OutboxList } from '../../components/outbox';
+import { invalidateAfter } from '../../libs/query-keys';
 
 export const CompleteTaskScreen = () => {
   const router = useRouter();
@@ -47,15 +53,17 @@ export const CompleteTaskScreen = () => {
     taskName: string;
     plotSoThuaSoTo: string;
     materials?: string; // JSON string of materials array
+    workDescription?: string; // Pre-fill, e.g. the treatment recommended by an alert
   }>();
   const { data: user } = useUser();
 
   const [formData, setFormData] = useState<CreateFarmLogRequest>({
     cultivationTaskId: params.taskId || '',
     plotCultivationId: params.plotCultivationId || '',
-    workDescription: '',
+    workDescription: params.workDescription || '',
     actualAreaCovered: null,
     serviceCost: null,
+    laborCost: null,
     serviceNotes: '',
     weatherConditions: '',
     interruptionReason: '',
@@ -67,6 +75,9 @@ export const CompleteTaskScreen = () => {
     [key: string]: { quantity: string; notes: string };
   }>({});
 
+  const upload = useUploadProgress();
+  const submission = useSubmissionKey();
+
   const createFarmLogMutation = useMutation({
     mutationFn: async () => {
       // Prepare materials with actual quantities
@@ -84,33 +95,35 @@ export const CompleteTaskScreen = () => {
         });
       }
 
-      const data = new FormData();
-      data.append('CultivationTaskId', formData.cultivationTaskId);
-      data.append('PlotCultivationId', formData.plotCultivationId);
-      if (formData.workDescription) data.append('WorkDescription', formData.workDescription);
-      if (formData.actualAreaCovered) data.append('ActualAreaCovered', formData.actualAreaCovered.toString());
-      if (formData.serviceCost) data.append('ServiceCost', formData.serviceCost.toString());
-      if (formData.serviceNotes) data.append('ServiceNotes', formData.serviceNotes);
-      if (formData.weatherConditions) data.append('WeatherConditions', formData.weatherConditions);
-      if (formData.interruptionReason) data.append('InterruptionReason', formData.interruptionReason);
-      if (user?.id) data.append('FarmerId', user.id);
-
-      if (materials.length > 0) {
-        data.append('Materials', JSON.stringify(materials));
+      return submitToOutbox(
+        'farm-log',
+        {
+          ...formData,
+          materials,
+          farmerId: user?.id ?? null,
+        },
+        images,
+        params.taskName || 'Nhật ký nông trại',
+        { ...upload.begin(), idempotencyKey: submission.get() },
+      );
+    },
+    onSettled: (_item, error) => submission.settle(error),
+    onSuccess: (item) => {
+      if (item.status !== 'sent') {
+        Alert.alert(
+          'Đã lưu ngoại tuyến',
+          'Không có kết nối mạng. Nhật ký sẽ được gửi tự động khi có mạng trở lại.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ],
+        );
+        return;
       }
 
-      images.forEach((img, index) => {
-        data.append('ProofImages', {
-          uri: img.uri,
-          type: img.type || 'image/jpeg',
-          name: img.name || `proof_${index}.jpg`,
-        } as any);
-      });
-
-      return uploadFile('/Farmer/create-farm-log', data);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['today-tasks'] });
+      invalidateAfter(queryClient, 'farm-log');
       Alert.alert('Thành công', 'Đã gửi nhật ký nông trại và đánh dấu công việc đã hoàn thành.', [
         {
           text: 'OK',
@@ -118,11 +131,14 @@ export const CompleteTaskScreen = () => {
         },
       ]);
     },
-    onError: (error: any) => {
-      Alert.alert('Lỗi', error.message || 'Không thể gửi nhật ký nông trại');
+    onError: (error) => {
+      showApiError(error, 'Không thể gửi nhật ký nông trại');
     },
   });
 
+  // Server-side validation messages mapped onto the matching inputs
+  const fieldErrors = getFieldErrors(createFarmLogMutation.error);
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -245,6 +261,7 @@ export const CompleteTaskScreen = () => {
           <Input
             label="Mô tả công việc"
             placeholder="Mô tả công việc đã hoàn thành..."
+            error={fieldErrors.workDescription}
             value={formData.workDescription || ''}
             onChangeText={(text) => setFormData({ ...formData, workDescription: text })}
             multiline
@@ -256,6 +273,7 @@ export const CompleteTaskScreen = () => {
           <Input
             label="Diện tích thực tế (ha)"
             placeholder="0.00"
+            error={fieldErrors.actualAreaCovered}
             value={formData.actualAreaCovered?.toString() || ''}
             onChangeText={(text) => {
               const num = parseFloat(text);
@@ -271,6 +289,7 @@ export const CompleteTaskScreen = () => {
           <Input
             label="Chi phí dịch vụ (₫)"
             placeholder="0"
+            error={fieldErrors.serviceCost}
             value={formData.serviceCost?.toString() || ''}
             onChangeText={(text) => {
               const num = parseFloat(text);
@@ -282,10 +301,27 @@ export const CompleteTaskScreen = () => {
             keyboardType="numeric"
           />
 
+          {/* Labor Cost */}
+          <Input
+            label="Chi phí nhân công (₫)"
+            placeholder="0"
+            error={fieldErrors.laborCost}
+            value={formData.laborCost?.toString() || ''}
+            onChangeText={(text) => {
+              const num = parseFloat(text);
+              setFormData({
+                ...formData,
+                laborCost: isNaN(num) ? null : num,
+              });
+            }}
+            keyboardType="numeric"
+          />
+
           {/* Service Notes */}
           <Input
             label="Ghi chú dịch vụ"
             placeholder="Ghi chú thêm về dịch vụ..."
+            error={fieldErrors.serviceNotes}
             value={formData.serviceNotes || ''}
             onChangeText={(text) => setFormData({ ...formData, serviceNotes: text })}
             multiline
@@ -297,6 +333,7 @@ export const CompleteTaskScreen = () => {
           <Input
             label="Điều kiện thời tiết"
             placeholder="Ví dụ: Nắng, Mưa, Nhiều mây..."
+            error={fieldErrors.weatherConditions}
             value={formData.weatherConditions || ''}
             onChangeText={(text) => setFormData({ ...formData, weatherConditions: text })}
           />
@@ -305,6 +342,7 @@ export const CompleteTaskScreen = () => {
           <Input
             label="Lý do gián đoạn (nếu có)"
             placeholder="Lý do gián đoạn..."
+            error={fieldErrors.interruptionReason}
             value={formData.interruptionReason || ''}
             onChangeText={(text) => setFormData({ ...formData, interruptionReason: text })}
             multiline
@@ -393,8 +431,25 @@ export const CompleteTaskScreen = () => {
             </View>
           )}
 
+          <Spacer size="lg" />
+
+          {/* Pending submissions */}
+          <OutboxList kind="farm-log" />
+
           <Spacer size="xl" />
 
+          {createFarmLogMutation.isPending && (
+            <>
+              <UploadProgress
+                progress={upload.progress}
+                label="Đang tải lên..."
+                cancelLabel="Hủy gửi"
+                onCancel={upload.cancel}
+              />
+              <Spacer size="md" />
+            </>
+          )}
+
           {/* Submit Button */}
           <Button
             onPress={handleSubmit}
@@ -34,6 +34,7 @@ import {
   Spacer,
   Button,
   Input,
+  UploadProgress,
 } from '../../components/ui';
 import {
   CreateEmergencyReportRequest,
@@ -42,9 +43,14 @@ import {
   PlotCultivationPlan,
   PestDetectionResponse,
 } from '../../types/api';
-import { createEmergencyReport, getPlotCultivationPlans, detectPestInImage } from '../../libs/farmer';
+import { getPlotCultivationPlans, detectPestInImage } from '../../libs/farmer';
 import { useUser } from '../../libs/auth';
-import { uploadFile } from '../../libs/api-client';
+import { submitToOutbox } from '../../libs/outbox';
+import { useUploadProgress } from '../../libs/upload-progress';
+import { useSubmissionKey } from '../../libs/idempotency';
+import { OutboxList } from '../../components/outbox';
+import { showApiError } from '../../libs/toast';
+import { farmerKeys, invalidateAfter } from '../../libs/query-keys';
 
 const ALERT_TYPES: AlertType[] = ['Pest', 'Weather', 'Disease', 'Other'];
 const SEVERITY_LEVELS: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
@@ -88,7 +94,7 @@ export const CreateReportScreen = () => {
 
   // Fetch cultivations for the selected plot
   const { data: cultivationsData } = useQuery({
-    queryKey: ['plot-plans', params.plotId],
+    queryKey: farmerKeys.plotPlans(params.plotId),
     queryFn: () => {
       if (!params.plotId) return null;
       return getPlotCultivationPlans(params.plotId);
@@ -98,6 +104,9 @@ export const CreateReportScreen = () => {
 
   const cultivations = cultivationsData?.data ?? [];
 
+  const upload = useUploadProgress();
+  const submission = useSubmissionKey();
+
   const createReportMutation = useMutation({
     mutationFn: async () => {
       // Validation
@@ -133,35 +142,34 @@ export const CreateReportScreen = () => {
         };
       }
 
-      const data = new FormData();
-      if (formData.plotCultivationId) data.append('PlotCultivationId', formData.plotCultivationId);
-      if (formData.groupId) data.append('GroupId', formData.groupId);
-      if (formData.clusterId) data.append('ClusterId', formData.clusterId);
-      data.append('AlertType', formData.alertType);
-      data.append('Title', formData.title.trim());
-      data.append('Description', formData.description.trim());
-      data.append('Severity', formData.severity);
-
-      if (aiDetectionSummary) {
-        data.append('AiDetectionResult', JSON.stringify(aiDetectionSummary));
+      return submitToOutbox(
+        'emergency-report',
+        {
+          ...formData,
+          aiDetectionResult: aiDetectionSummary,
+        },
+        images,
+        formData.title.trim(),
+        { ...upload.begin(), idempotencyKey: submission.get() },
+      );
+    },
+    onSettled: (_item, error) => submission.settle(error),
+    onSuccess: (item) => {
+      if (item.status !== 'sent') {
+        Alert.alert(
+          'Đã lưu ngoại tuyến',
+          'Không có kết nối mạng. Báo cáo sẽ được gửi tự động khi có mạng trở lại.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ],
+        );
+        return;
       }
 
-      images.forEach((img) => {
-        const fileName = img.name || img.uri.split('/').pop() || `report_${Date.now()}.jpg`;
-        const fileType = fileName.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
-
-        data.append('Images', {
-          uri: img.uri,
-          type: fileType,
-          name: fileName,
-        } as any);
-      });
-
-      return uploadFile('/Farmer/create-report', data);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['alerts'] });
-      queryClient.invalidateQueries({ queryKey: ['farmer-plots'] });
+      invalidateAfter(queryClient, 'emergency-report');
       Alert.alert(
         'Đã gửi báo cáo',
         'Báo cáo khẩn cấp của bạn đã được gửi thành công. ' +
@@ -174,8 +182,8 @@ export const CreateReportScreen = () => {
         ],
       );
     },
-    onError: (error: any) => {
-      Alert.alert('Lỗi', error.message || 'Không thể gửi báo cáo');
+    onError: (error) => {
+      showApiError(error, 'Không thể gửi báo cáo');
     },
   });
 
@@ -789,8 +797,25 @@ export const CreateReportScreen = () => {
               )}
             </Card>
 
+          <Spacer size="lg" />
+
+          {/* Pending submissions */}
+          <OutboxList kind="emergency-report" />
+
           <Spacer size="xl" />
 
+          {createReportMutation.isPending && (
+            <>
+              <UploadProgress
+                progress={upload.progress}
+                label="Đang tải lên..."
+                cancelLabel="Hủy gửi"
+                onCancel={upload.cancel}
+              />
+              <Spacer size="md" />
+            </>
+          )}
+
           {/* Submit Button */}
           <Button
               onPress={() => createReportMutation.mutate()}
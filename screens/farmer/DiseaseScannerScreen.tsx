@@ -21,7 +21,7 @@ import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
 import { colors, spacing } from '../../theme';
 import { env } from '../../configs/env';
-import { uploadFile } from '../../libs/api-client';
+import { detectPestInImage } from '../../libs/farmer';
 
 // Types for API Response
 interface PestLocation {
@@ -144,7 +144,6 @@ export const DiseaseScannerScreen = () => {
 
   const analyzeImage = async (imageUri: string) => {
     try {
-      const formData = new FormData();
       const filename = imageUri.split('/').pop() || 'rice_plant.jpg';
       const match = /\.(\w+)$/.exec(filename);
       let type = match ? `image/${match[1].toLowerCase()}` : 'image/jpeg';
@@ -157,21 +156,15 @@ export const DiseaseScannerScreen = () => {
         return;
       }
 
-      // The key 'files' is expected by the backend API
-      formData.append('files', {
+      // Resized with the detection profile before upload
+      const result = (await detectPestInImage({
         uri: imageUri,
         name: filename,
-        type: type,
-      } as any);
-
-      console.log('📤 Uploading image to rice pest detection API...');
-      const results = await uploadFile('/rice/check-pest', formData) as PestDetectionResult[];
-      console.log('✅ Pest detection completed:', results);
+        type,
+      })) as PestDetectionResult;
 
       setIsScanning(false);
 
-      const result = results[0];
-
       if (!result) {
         Alert.alert('No Results', 'No pest detection results received from the server.');
         return;
@@ -1,6 +1,7 @@
 /**
  * Economic Performance Screen
- * View costs, revenue, and profit per hectare
+ * Season costs by materials, services and labor, planned vs actual per stage,
+ * and profit once the harvest is sold
  */
 
 import React, { useState } from 'react';
@@ -14,6 +15,7 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import Svg, { Circle, G } from 'react-native-svg';
+import { useQuery } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import { scale, moderateScale, getFontSize, getSpacing, verticalScale } from '../../utils/responsive';
 import {
@@ -26,48 +28,24 @@ import {
   Card,
   Badge,
   Spacer,
+  Button,
 } from '../../components/ui';
-import { EconomicPerformance } from '../../types/api';
+import { getFarmerSeasonEconomics, CostBreakdown } from '../../libs/economics';
+import { farmerKeys } from '../../libs/query-keys';
 
-// Mock data
-const mockEconomics: EconomicPerformance = {
-  seasonId: '1',
-  seasonName: 'Winter-Spring 2024',
-  totalCost: 12500000,
-  totalRevenue: 18750000,
-  profit: 6250000,
-  profitPerHectare: 833333,
-  fields: [
-    {
-      fieldId: '1',
-      fieldName: 'Field A',
-      area: 2.5,
-      cost: 3750000,
-      revenue: 5625000,
-      profit: 1875000,
-    },
-    {
-      fieldId: '2',
-      fieldName: 'Field B',
-      area: 1.8,
-      cost: 2700000,
-      revenue: 4050000,
-      profit: 1350000,
-    },
-    {
-      fieldId: '3',
-      fieldName: 'Field C',
-      area: 3.2,
-      cost: 4800000,
-      revenue: 7200000,
-      profit: 2400000,
-    },
-  ],
-};
+const COST_ROWS: { key: keyof Omit<CostBreakdown, 'total'>; label: string; color: string }[] = [
+  { key: 'materials', label: 'Vật tư', color: '#2E7D32' },
+  { key: 'services', label: 'Dịch vụ', color: '#66BB6A' },
+  { key: 'labor', label: 'Nhân công', color: '#FF9500' },
+];
 
 export const EconomicsScreen = () => {
   const router = useRouter();
-  const [selectedSeason, setSelectedSeason] = useState(mockEconomics);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null);
+  const { data: seasons, isLoading, isError, refetch } = useQuery({
+    queryKey: farmerKeys.economics(),
+    queryFn: getFarmerSeasonEconomics,
+  });
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('vi-VN', {
@@ -76,131 +54,290 @@ export const EconomicsScreen = () => {
     }).format(amount);
   };
 
-  const totalArea = selectedSeason.fields.reduce((sum, f) => sum + f.area, 0);
-  const profitMargin = ((selectedSeason.profit / selectedSeason.totalRevenue) * 100).toFixed(1);
+  // Over plan shows with a plus sign, under plan with a minus sign
+  const formatVariance = (amount: number) =>
+    `${amount > 0 ? '+' : amount < 0 ? '−' : ''}${formatCurrency(Math.abs(amount))}`;
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Body>←</Body>
+      </TouchableOpacity>
+      <H3 style={styles.headerTitle}>Hiệu quả kinh tế</H3>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  // Newest season unless the farmer picked another one
+  const selectedSeason =
+    seasons?.find((season) => season.seasonId === selectedSeasonId) ?? seasons?.[0];
+
+  if (isLoading || isError || !selectedSeason) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Container padding="lg">
+          {header}
+          <View style={styles.stateContainer}>
+            {isError ? (
+              <>
+                <Body color={colors.error}>Không thể tải dữ liệu kinh tế</Body>
+                <Button size="sm" onPress={() => refetch()}>
+                  Thử lại
+                </Button>
+              </>
+            ) : isLoading ? (
+              <BodySmall color={colors.textSecondary}>Đang tải...</BodySmall>
+            ) : (
+              <BodySmall color={colors.textSecondary}>
+                Chưa có vụ canh tác nào để tính hiệu quả kinh tế
+              </BodySmall>
+            )}
+          </View>
+        </Container>
+      </SafeAreaView>
+    );
+  }
+
+  const isHarvested = selectedSeason.harvestedPlots > 0;
+  const profitMargin =
+    selectedSeason.revenue > 0
+      ? ((selectedSeason.profit / selectedSeason.revenue) * 100).toFixed(1)
+      : '0.0';
 
   return (
     <SafeAreaView style={styles.container}>
       <Container padding="lg">
         {/* Header */}
-        <View style={styles.header}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Body>←</Body>
-          </TouchableOpacity>
-          <H3 style={styles.headerTitle}>Hiệu quả kinh tế</H3>
-          <View style={styles.headerRight} />
-        </View>
+        {header}
 
-        <Spacer size="lg" />
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Spacer size="lg" />
 
-        {/* Season Info */}
-        <Card variant="elevated" style={styles.seasonCard}>
-          <H4>{selectedSeason.seasonName}</H4>
-          <BodySmall color={colors.textSecondary}>
-            Tổng diện tích: {totalArea.toFixed(1)} ha
-          </BodySmall>
-        </Card>
+          {/* Season Picker */}
+          {seasons && seasons.length > 1 && (
+            <>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.seasonChips}
+              >
+                {seasons.map((season) => {
+                  const isSelected = season.seasonId === selectedSeason.seasonId;
+                  return (
+                    <TouchableOpacity
+                      key={season.seasonId}
+                      onPress={() => setSelectedSeasonId(season.seasonId)}
+                      style={[styles.seasonChip, isSelected && styles.seasonChipActive]}
+                    >
+                      <BodySmall color={isSelected ? colors.white : greenTheme.primary}>
+                        {season.seasonName}
+                      </BodySmall>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              <Spacer size="md" />
+            </>
+          )}
 
-        <Spacer size="xl" />
+          {/* Season Info */}
+          <Card variant="elevated" style={styles.seasonCard}>
+            <H4>{selectedSeason.seasonName}</H4>
+            <BodySmall color={colors.textSecondary}>
+              Tổng diện tích: {selectedSeason.area.toFixed(1)} ha
+            </BodySmall>
+            <BodySmall color={colors.textSecondary}>
+              Đã thu hoạch: {selectedSeason.harvestedPlots}/{selectedSeason.plots.length} thửa
+            </BodySmall>
+          </Card>
 
-        {/* Summary Cards */}
-        <View style={styles.summaryRow}>
-          <Card variant="elevated" style={{ ...styles.summaryCard, backgroundColor: '#FF6B6B' }}>
-            <Body color={colors.white} style={styles.summaryLabel}>
-              Tổng chi phí
-            </Body>
-            <Body color={colors.white} style={styles.summaryAmount}>
-              {formatCurrency(selectedSeason.totalCost)}
+          <Spacer size="xl" />
+
+          {/* Summary Cards */}
+          <View style={styles.summaryRow}>
+            <Card variant="elevated" style={{ ...styles.summaryCard, backgroundColor: '#FF6B6B' }}>
+              <Body color={colors.white} style={styles.summaryLabel}>
+                Tổng chi phí
+              </Body>
+              <Body color={colors.white} style={styles.summaryAmount}>
+                {formatCurrency(selectedSeason.costs.total)}
+              </Body>
+            </Card>
+            <Card
+              variant="elevated"
+              style={{ ...styles.summaryCard, backgroundColor: greenTheme.primaryLight }}
+            >
+              <Body color={colors.white} style={styles.summaryLabel}>
+                Tổng doanh thu
+              </Body>
+              <Body color={colors.white} style={styles.summaryAmount}>
+                {isHarvested ? formatCurrency(selectedSeason.revenue) : 'Chưa thu hoạch'}
+              </Body>
+            </Card>
+          </View>
+
+          <Spacer size="md" />
+
+          <Card variant="elevated" style={styles.profitCard}>
+            <Body color={colors.white} style={styles.profitLabel}>
+              Lợi nhuận ròng
             </Body>
+            {isHarvested ? (
+              <>
+                <Body color={colors.white} style={styles.profitAmount}>
+                  {formatCurrency(selectedSeason.profit)}
+                </Body>
+                <Spacer size="sm" />
+                <View style={styles.profitDetails}>
+                  <BodySmall color={colors.white}>
+                    {formatCurrency(selectedSeason.profitPerHectare)} / ha
+                  </BodySmall>
+                  <BodySmall color={colors.white}>Biên lợi nhuận {profitMargin}%</BodySmall>
+                </View>
+              </>
+            ) : (
+              <BodySmall color={colors.white}>
+                Lợi nhuận được tính khi ghi nhận sản lượng và giá bán lúc thu hoạch.
+              </BodySmall>
+            )}
           </Card>
-          <Card variant="elevated" style={{ ...styles.summaryCard, backgroundColor: greenTheme.primaryLight }}>
-            <Body color={colors.white} style={styles.summaryLabel}>
-              Tổng doanh thu
-            </Body>
-            <Body color={colors.white} style={styles.summaryAmount}>
-              {formatCurrency(selectedSeason.totalRevenue)}
-            </Body>
+
+          <Spacer size="xl" />
+
+          {/* Cost Breakdown */}
+          <H4>Cơ cấu chi phí</H4>
+          <Spacer size="md" />
+          <Card variant="elevated" style={styles.fieldCard}>
+            {COST_ROWS.map((row) => {
+              const amount = selectedSeason.costs[row.key];
+              const share =
+                selectedSeason.costs.total > 0 ? (amount / selectedSeason.costs.total) * 100 : 0;
+              return (
+                <View key={row.key} style={styles.costRow}>
+                  <View style={styles.costRowHeader}>
+                    <BodySmall color={colors.textSecondary}>{row.label}</BodySmall>
+                    <BodySemibold>{formatCurrency(amount)}</BodySemibold>
+                  </View>
+                  <View style={styles.costBarTrack}>
+                    <View
+                      style={[styles.costBarFill, { width: `${share}%`, backgroundColor: row.color }]}
+                    />
+                  </View>
+                </View>
+              );
+            })}
           </Card>
-        </View>
 
-        <Spacer size="md" />
+          <Spacer size="xl" />
 
-        <Card variant="elevated" style={styles.profitCard}>
-          <Body color={colors.white} style={styles.profitLabel}>
-            Lợi nhuận ròng
-          </Body>
-          <Body color={colors.white} style={styles.profitAmount}>
-            {formatCurrency(selectedSeason.profit)}
-          </Body>
-          <Spacer size="sm" />
-          <View style={styles.profitDetails}>
-            <BodySmall color={colors.white}>
-              {formatCurrency(selectedSeason.profitPerHectare)} / ha
-            </BodySmall>
-            <BodySmall color={colors.white}>
-              Biên lợi nhuận {profitMargin}%
-            </BodySmall>
-          </View>
-        </Card>
+          {/* Planned vs Actual per Stage */}
+          <H4>Kế hoạch và thực tế theo giai đoạn</H4>
+          <BodySmall color={colors.textSecondary}>
+            Chênh lệch vật tư tính trên các công việc đã hoàn thành
+          </BodySmall>
+          <Spacer size="md" />
+          {selectedSeason.stages.map((stage) => (
+            <Card key={stage.sequenceOrder} variant="elevated" style={styles.fieldCard}>
+              <View style={styles.fieldCardHeader}>
+                <View>
+                  <BodySemibold>{stage.stageName}</BodySemibold>
+                  <BodySmall color={colors.textSecondary}>
+                    {stage.completedTasks}/{stage.totalTasks} công việc hoàn thành
+                  </BodySmall>
+                </View>
+                <BodySemibold
+                  color={stage.materialVariance > 0 ? colors.error : greenTheme.primary}
+                >
+                  {formatVariance(stage.materialVariance)}
+                </BodySemibold>
+              </View>
+              <Spacer size="md" />
+              <View style={styles.fieldMetrics}>
+                <View style={styles.metricItem}>
+                  <BodySmall color={colors.textSecondary}>Vật tư dự kiến</BodySmall>
+                  <BodySemibold>{formatCurrency(stage.plannedCost)}</BodySemibold>
+                </View>
+                <View style={styles.metricItem}>
+                  <BodySmall color={colors.textSecondary}>Vật tư thực tế</BodySmall>
+                  <BodySemibold>{formatCurrency(stage.actualCost.materials)}</BodySemibold>
+                </View>
+                <View style={styles.metricItem}>
+                  <BodySmall color={colors.textSecondary}>Dịch vụ + công</BodySmall>
+                  <BodySemibold>
+                    {formatCurrency(stage.actualCost.services + stage.actualCost.labor)}
+                  </BodySemibold>
+                </View>
+              </View>
+            </Card>
+          ))}
 
-        <Spacer size="xl" />
+          <Spacer size="xl" />
 
-        {/* Field Breakdown */}
-        <H4>Hiệu quả theo thửa đất</H4>
-        <Spacer size="md" />
+          {/* Field Breakdown */}
+          <H4>Hiệu quả theo thửa đất</H4>
+          <Spacer size="md" />
 
-        <ScrollView showsVerticalScrollIndicator={false}>
-          {selectedSeason.fields.map((field) => {
-            const fieldProfitMargin = ((field.profit / field.revenue) * 100).toFixed(1);
+          {selectedSeason.plots.map((plot) => {
+            const profit = plot.revenue !== null ? plot.revenue - plot.costs.total : null;
             return (
-              <Card key={field.fieldId} variant="elevated" style={styles.fieldCard}>
+              <Card key={plot.plotCultivationId} variant="elevated" style={styles.fieldCard}>
                 <View style={styles.fieldCardHeader}>
                   <View>
-                    <BodySemibold>{field.fieldName}</BodySemibold>
-                    <BodySmall color={colors.textSecondary}>
-                      {field.area} ha
-                    </BodySmall>
+                    <BodySemibold>{plot.plotName}</BodySemibold>
+                    <BodySmall color={colors.textSecondary}>{plot.area} ha</BodySmall>
                   </View>
-                  <Badge variant="success" size="sm" style={{ backgroundColor: greenTheme.primaryLight }}>
-                    {fieldProfitMargin}%
-                  </Badge>
+                  {profit !== null && plot.revenue ? (
+                    <Badge
+                      variant="success"
+                      size="sm"
+                      style={{ backgroundColor: greenTheme.primaryLight }}
+                    >
+                      {((profit / plot.revenue) * 100).toFixed(1)}%
+                    </Badge>
+                  ) : (
+                    <Badge variant="warning" size="sm">
+                      Chưa thu hoạch
+                    </Badge>
+                  )}
                 </View>
                 <Spacer size="md" />
                 <View style={styles.fieldMetrics}>
                   <View style={styles.metricItem}>
                     <BodySmall color={colors.textSecondary}>Chi phí</BodySmall>
                     <BodySemibold color={colors.error}>
-                      {formatCurrency(field.cost)}
+                      {formatCurrency(plot.costs.total)}
                     </BodySemibold>
                   </View>
                   <View style={styles.metricItem}>
                     <BodySmall color={colors.textSecondary}>Doanh thu</BodySmall>
                     <BodySemibold color={colors.success}>
-                      {formatCurrency(field.revenue)}
+                      {plot.revenue !== null ? formatCurrency(plot.revenue) : '—'}
                     </BodySemibold>
                   </View>
                   <View style={styles.metricItem}>
                     <BodySmall color={colors.textSecondary}>Lợi nhuận</BodySmall>
                     <BodySemibold color={colors.primary}>
-                      {formatCurrency(field.profit)}
+                      {profit !== null ? formatCurrency(profit) : '—'}
                     </BodySemibold>
                   </View>
                 </View>
                 <Spacer size="sm" />
                 <View style={styles.fieldProfitPerHa}>
                   <BodySmall color={colors.textSecondary}>
-                    Lợi nhuận / ha:
+                    {plot.yieldKg !== null && plot.salePricePerKg !== null
+                      ? `${plot.yieldKg.toLocaleString('vi-VN')} kg × ${formatCurrency(plot.salePricePerKg)}/kg`
+                      : 'Lợi nhuận / ha:'}
                   </BodySmall>
                   <BodySemibold color={colors.primary}>
-                    {formatCurrency(field.profit / field.area)}
+                    {profit !== null ? `${formatCurrency(profit / plot.area)} / ha` : '—'}
                   </BodySemibold>
                 </View>
               </Card>
             );
           })}
-        </ScrollView>
 
-        <Spacer size="xl" />
+          <Spacer size="xl" />
+        </ScrollView>
       </Container>
     </SafeAreaView>
   );
@@ -233,6 +370,11 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: greenTheme.border,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   backButton: {
     width: scale(40),
     height: scale(40),
@@ -337,6 +479,36 @@ const styles = StyleSheet.create({
     flex: 1,
     alignItems: 'center',
   },
+  seasonChips: {
+    gap: getSpacing(spacing.sm),
+  },
+  seasonChip: {
+    paddingHorizontal: getSpacing(spacing.md),
+    paddingVertical: getSpacing(spacing.sm),
+    borderRadius: moderateScale(borderRadius.full),
+    backgroundColor: greenTheme.primaryLighter,
+  },
+  seasonChipActive: {
+    backgroundColor: greenTheme.primary,
+  },
+  costRow: {
+    marginBottom: getSpacing(spacing.sm),
+  },
+  costRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: getSpacing(spacing.xs),
+  },
+  costBarTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: greenTheme.primaryLighter,
+    overflow: 'hidden',
+  },
+  costBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
   fieldProfitPerHa: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -15,6 +15,7 @@ import {
 import { useRouter } from 'expo-router';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import dayjs from 'dayjs';
+import { useQuery } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import { scale, moderateScale, getFontSize, getSpacing, verticalScale } from '../../utils/responsive';
 import {
@@ -29,49 +30,8 @@ import {
   Spacer,
   Button,
 } from '../../components/ui';
-import { FarmActivity } from '../../types/api';
-
-// Mock data
-const mockActivities: FarmActivity[] = [
-  {
-    id: '1',
-    createdAt: Date.now(),
-    fieldId: '1',
-    fieldName: 'Field A',
-    activityType: 'fertilizing',
-    date: '2024-01-15',
-    materialId: '1',
-    materialName: 'NPK 20-20-20',
-    quantity: 50,
-    unit: 'kg',
-    cost: 150000,
-    notes: 'Applied evenly across the field',
-  },
-  {
-    id: '2',
-    createdAt: Date.now(),
-    fieldId: '2',
-    fieldName: 'Field B',
-    activityType: 'spraying',
-    date: '2024-01-14',
-    materialId: '2',
-    materialName: 'Pesticide X',
-    quantity: 2,
-    unit: 'liters',
-    cost: 85000,
-  },
-  {
-    id: '3',
-    createdAt: Date.now(),
-    fieldId: '3',
-    fieldName: 'Field C',
-    activityType: 'irrigation',
-    date: '2024-01-13',
-    quantity: 100,
-    unit: 'm³',
-    cost: 25000,
-  },
-];
+import { getFarmActivities } from '../../libs/farmer';
+import { farmerKeys } from '../../libs/query-keys';
 
 const activityTypes = [
   { value: 'planting', label: 'Gieo trồng', icon: { name: 'seed-outline', library: 'MaterialCommunityIcons' } },
@@ -85,6 +45,11 @@ export const FarmLogScreen = () => {
   const router = useRouter();
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
 
+  const { data: activities = [], isLoading, isError, refetch } = useQuery({
+    queryKey: farmerKeys.activities(),
+    queryFn: getFarmActivities,
+  });
+
   const getActivityIcon = (type: string) => {
     const activity = activityTypes.find((a) => a.value === type);
     return activity?.icon || { name: 'document-text-outline', library: 'Ionicons' };
@@ -99,8 +64,8 @@ export const FarmLogScreen = () => {
 
   const filteredActivities =
     selectedFilter === 'all'
-      ? mockActivities
-      : mockActivities.filter((a) => a.activityType === selectedFilter);
+      ? activities
+      : activities.filter((a) => a.activityType === selectedFilter);
 
   const totalCost = filteredActivities.reduce((sum, a) => sum + a.cost, 0);
 
@@ -189,6 +154,21 @@ export const FarmLogScreen = () => {
 
         <Spacer size="xl" />
 
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <BodySmall color={colors.textSecondary}>Đang tải nhật ký...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Không thể tải nhật ký</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Thử lại
+            </Button>
+          </View>
+        )}
+
         {/* Activities List */}
         <ScrollView showsVerticalScrollIndicator={false}>
           {filteredActivities.map((activity) => (
@@ -276,6 +256,11 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: greenTheme.border,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   backButton: {
     width: scale(40),
     height: scale(40),
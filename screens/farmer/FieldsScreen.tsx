@@ -31,6 +31,7 @@ import {
   Spacer,
   Button,
   Spinner,
+  LastUpdated,
   MapboxMap,
   PolygonData,
   MarkerData,
@@ -38,6 +39,8 @@ import {
 import { FarmerPlot } from '../../types/api';
 import { getCurrentFarmerPlots, getPlotCultivationPlans } from '../../libs/farmer';
 import { useUser } from '../../libs/auth';
+import { Authorization, useAuthorization } from '../../libs/authorization';
+import { farmerKeys } from '../../libs/query-keys';
 const DEFAULT_CENTER = {
   latitude: 11.2,
   longitude: 106.5,
@@ -135,9 +138,19 @@ type FieldCardProps = {
   onFocusOnMap: () => void;
   hasCultivationPlans: boolean;
   onReportIssue: () => void;
+  onViewAlerts: () => void;
 };
 
-const FieldCard = ({ field, onPressCard, onFocusOnMap, hasCultivationPlans, onReportIssue }: FieldCardProps) => {
+const FieldCard = ({
+  field,
+  onPressCard,
+  onFocusOnMap,
+  hasCultivationPlans,
+  onReportIssue,
+  onViewAlerts,
+}: FieldCardProps) => {
+  const { checkPolicy } = useAuthorization();
+
   return (
     <Card variant="elevated" style={styles.fieldCard}>
       <TouchableOpacity onPress={onPressCard} activeOpacity={0.85}>
@@ -165,10 +178,16 @@ const FieldCard = ({ field, onPressCard, onFocusOnMap, hasCultivationPlans, onRe
             <BodySmall color={colors.textSecondary}>Trạng thái</BodySmall>
             <BodySemibold>{field.status}</BodySemibold>
           </View>
-          <View style={styles.fieldDetailItem}>
+          <TouchableOpacity
+            onPress={onViewAlerts}
+            disabled={field.activeAlerts === 0}
+            style={styles.fieldDetailItem}
+          >
             <BodySmall color={colors.textSecondary}>Cảnh báo</BodySmall>
-            <BodySemibold>{field.activeAlerts}</BodySemibold>
-          </View>
+            <BodySemibold color={field.activeAlerts > 0 ? colors.error : undefined}>
+              {field.activeAlerts}
+            </BodySemibold>
+          </TouchableOpacity>
         </View>
       </TouchableOpacity>
       <Spacer size="md" />
@@ -182,14 +201,16 @@ const FieldCard = ({ field, onPressCard, onFocusOnMap, hasCultivationPlans, onRe
           Xem kế hoạch
         </Button>
         {hasCultivationPlans && (
-          <Button
-            variant="outline"
-            size="sm"
-            onPress={onReportIssue}
-            style={styles.actionButton}
-          >
-            Báo cáo vấn đề
-          </Button>
+          <Authorization policyCheck={checkPolicy('report:create', field)}>
+            <Button
+              variant="outline"
+              size="sm"
+              onPress={onReportIssue}
+              style={styles.actionButton}
+            >
+              Báo cáo vấn đề
+            </Button>
+          </Authorization>
         )}
       </View>
       <Spacer size="md" />
@@ -223,8 +244,9 @@ export const FieldsScreen = () => {
     isError,
     refetch,
     isRefetching,
+    dataUpdatedAt,
   } = useQuery({
-    queryKey: ['farmer-plots', user?.id, { page: 1, size: 10 }],
+    queryKey: farmerKeys.plots({ page: 1, size: 10 }),
     queryFn: () =>
       getCurrentFarmerPlots({
         currentPage: 1,
@@ -373,7 +395,7 @@ export const FieldsScreen = () => {
   // Fetch cultivation plans for all plots to check if they exist
   const cultivationPlansQueries = useQueries({
     queries: (plots || []).map((plot) => ({
-      queryKey: ['plot-plans-check', plot.plotId],
+      queryKey: farmerKeys.plotPlans(plot.plotId, { page: 1, size: 1 }),
       queryFn: () => getPlotCultivationPlans(plot.plotId, { currentPage: 1, pageSize: 1 }),
       enabled: !!plot.plotId,
       retry: false, // Don't retry if it fails, just assume no plans
@@ -460,6 +482,8 @@ export const FieldsScreen = () => {
           <H3 style={styles.headerTitle}>Danh sách thửa đất</H3>
         </View>
 
+        <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
         <Spacer size="lg" />
 
         {/* Summary */}
@@ -641,7 +665,7 @@ export const FieldsScreen = () => {
         <H4>Tất cả các thửa đất của tôi {plots ? `(${plots.length})` : ''}</H4>
         <Spacer size="md" />
 
-        {isError && (
+        {isError && !plots && (
           <Card variant="elevated" style={styles.errorCard}>
             <BodySemibold>Không thể tải các thửa đất</BodySemibold>
             <Spacer size="xs" />
@@ -689,6 +713,12 @@ export const FieldsScreen = () => {
                   params: { plotId: field.plotId },
                 } as any)
               }
+              onViewAlerts={() =>
+                router.push({
+                  pathname: '/farmer/alerts',
+                  params: { plotId: field.plotId },
+                } as any)
+              }
             />
           ))}
         </ScrollView>
@@ -714,6 +744,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: greenTheme.background,
   },
+  lastUpdated: {
+    marginTop: spacing.sm,
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
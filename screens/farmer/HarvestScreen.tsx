@@ -0,0 +1,600 @@
+/**
+ * Harvest Screen
+ * Record the harvest of a cultivation: weighed wet paddy, moisture and sale,
+ * which closes the cultivation and feeds the season economics
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import dayjs from 'dayjs';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { colors, spacing, borderRadius } from '../../theme';
+import {
+  scale,
+  moderateScale,
+  getFontSize,
+  getSpacing,
+  verticalScale,
+} from '../../utils/responsive';
+import {
+  Container,
+  H3,
+  Body,
+  BodySmall,
+  BodySemibold,
+  Card,
+  Spacer,
+  Button,
+  Input,
+  UploadProgress,
+} from '../../components/ui';
+import { getPlotPlanView } from '../../libs/farmer';
+import {
+  dryYieldPerHa,
+  harvestInputSchema,
+  HarvestFormValues,
+  STANDARD_MOISTURE_PERCENT,
+  toStandardMoistureWeight,
+} from '../../libs/harvest';
+import { useAuthorization } from '../../libs/authorization';
+import { submitToOutbox } from '../../libs/outbox';
+import { useUploadProgress } from '../../libs/upload-progress';
+import { useSubmissionKey } from '../../libs/idempotency';
+import { getFieldErrors } from '../../libs/api-error';
+import { showApiError } from '../../libs/toast';
+import { OutboxList } from '../../components/outbox';
+import { farmerKeys, invalidateAfter } from '../../libs/query-keys';
+
+type FormErrors = Partial<Record<keyof HarvestFormValues, string>>;
+
+// Harvests are recorded within a few days of cutting
+const RECENT_DAYS = 7;
+
+const parseDecimal = (value: string) => Number(value.trim().replace(',', '.'));
+
+export const HarvestScreen = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { checkPolicy } = useAuthorization();
+  const { plotCultivationId, plotName } = useLocalSearchParams<{
+    plotCultivationId: string;
+    plotName?: string;
+  }>();
+
+  const { data: plan, isLoading } = useQuery({
+    queryKey: farmerKeys.planView(plotCultivationId),
+    queryFn: () => getPlotPlanView(plotCultivationId),
+    enabled: Boolean(plotCultivationId),
+  });
+
+  const [form, setForm] = useState<HarvestFormValues>({
+    harvestDate: dayjs().format('YYYY-MM-DD'),
+    harvestedArea: '',
+    wetWeightKg: '',
+    moisturePercent: '',
+    buyerName: '',
+    salePricePerKg: '',
+    notes: '',
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [images, setImages] = useState<{ uri: string; type: string; name: string }[]>([]);
+
+  const upload = useUploadProgress();
+  const submission = useSubmissionKey();
+
+  // The whole plot unless the farmer changes it
+  const harvestedArea = form.harvestedArea || (plan ? String(plan.plotArea) : '');
+
+  const updateField = (field: keyof HarvestFormValues) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  // Live preview; the submitted figure comes from the validated input
+  const wetWeight = parseDecimal(form.wetWeightKg);
+  const moisture = parseDecimal(form.moisturePercent);
+  const area = parseDecimal(harvestedArea);
+  const hasPreview = wetWeight > 0 && moisture > 0 && moisture < 40 && area > 0;
+
+  const recordHarvestMutation = useMutation({
+    mutationFn: async () => {
+      const result = harvestInputSchema.safeParse({ ...form, harvestedArea });
+      if (!result.success) {
+        const fieldErrors = result.error.flatten().fieldErrors;
+        setErrors({
+          harvestDate: fieldErrors.harvestDate?.[0],
+          harvestedArea: fieldErrors.harvestedArea?.[0],
+          wetWeightKg: fieldErrors.wetWeightKg?.[0],
+          moisturePercent: fieldErrors.moisturePercent?.[0],
+          salePricePerKg: fieldErrors.salePricePerKg?.[0],
+        });
+        return null;
+      }
+
+      return submitToOutbox(
+        'harvest',
+        {
+          plotCultivationId,
+          ...result.data,
+          buyerName: result.data.buyerName || null,
+          notes: result.data.notes || null,
+        },
+        images,
+        `Thu hoạch ${plotName || plan?.planName || ''}`.trim(),
+        { ...upload.begin(), idempotencyKey: submission.get() },
+      );
+    },
+    onSettled: (_item, error) => submission.settle(error),
+    onSuccess: (item) => {
+      if (!item) return;
+      if (item.status !== 'sent') {
+        Alert.alert(
+          'Đã lưu ngoại tuyến',
+          'Không có kết nối mạng. Kết quả thu hoạch sẽ được gửi tự động khi có mạng trở lại.',
+          [{ text: 'OK', onPress: () => router.back() }],
+        );
+        return;
+      }
+
+      invalidateAfter(queryClient, 'harvest');
+      Alert.alert(
+        'Đã ghi nhận thu hoạch',
+        'Vụ canh tác đã được đóng và tính vào hiệu quả kinh tế.',
+        [{ text: 'OK', onPress: () => router.back() }],
+      );
+    },
+    onError: (error) => {
+      showApiError(error, 'Không thể ghi nhận thu hoạch');
+    },
+  });
+
+  // Server-side validation messages mapped onto the matching inputs
+  const serverErrors = getFieldErrors(recordHarvestMutation.error);
+
+  const addImages = (assets: ImagePicker.ImagePickerAsset[]) => {
+    setImages((prev) => [
+      ...prev,
+      ...assets.map((asset) => ({
+        uri: asset.uri,
+        type: asset.mimeType || 'image/jpeg',
+        name: asset.fileName || `harvest_${Date.now()}.jpg`,
+      })),
+    ]);
+  };
+
+  const pickImage = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Cần quyền truy cập', 'Vui lòng cấp quyền thư viện ảnh để tải ảnh lên.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: 'images',
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets) {
+      addImages(result.assets);
+    }
+  };
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Cần quyền truy cập', 'Vui lòng cấp quyền camera để chụp ảnh.');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: 'images',
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets) {
+      addImages(result.assets);
+    }
+  };
+
+  const showImagePickerOptions = () => {
+    Alert.alert(
+      'Thêm ảnh',
+      'Chọn một tùy chọn',
+      [
+        { text: 'Chụp ảnh', onPress: takePhoto },
+        { text: 'Chọn từ thư viện', onPress: pickImage },
+        { text: 'Hủy', style: 'cancel' },
+      ],
+      { cancelable: true },
+    );
+  };
+
+  const canRecord = plan ? checkPolicy('cultivation:harvest', { status: plan.planStatus }) : false;
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Body>←</Body>
+      </TouchableOpacity>
+      <H3 style={styles.headerTitle}>Ghi nhận thu hoạch</H3>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (isLoading || !plan) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Container padding="lg">
+          {header}
+          <View style={styles.stateContainer}>
+            {isLoading ? (
+              <ActivityIndicator color={greenTheme.primary} />
+            ) : (
+              <Body color={colors.error}>Không tìm thấy vụ canh tác</Body>
+            )}
+          </View>
+        </Container>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <Container scrollable padding="lg">
+          {header}
+
+          <Spacer size="lg" />
+
+          {/* Cultivation Info */}
+          <Card variant="elevated" style={styles.infoCard}>
+            <BodySemibold style={styles.planName}>{plan.planName}</BodySemibold>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+              <Ionicons name="location-outline" size={16} color={greenTheme.primary} />
+              <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>
+                {plotName ? `${plotName} • ` : ''}
+                {plan.plotArea} ha
+              </BodySmall>
+            </View>
+          </Card>
+
+          <Spacer size="lg" />
+
+          {!canRecord ? (
+            <Card variant="flat" style={styles.infoCard}>
+              <BodySemibold>Vụ canh tác này đã kết thúc</BodySemibold>
+              <Spacer size="xs" />
+              <BodySmall color={colors.textSecondary}>
+                Kết quả thu hoạch đã được ghi nhận. Xem lại trong mục Hiệu quả kinh tế.
+              </BodySmall>
+            </Card>
+          ) : (
+            <>
+              {/* Harvest Date */}
+              <BodySemibold style={styles.sectionTitle}>Ngày thu hoạch</BodySemibold>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.dateChips}
+              >
+                {Array.from({ length: RECENT_DAYS }, (_, index) => {
+                  const date = dayjs().subtract(index, 'day');
+                  const value = date.format('YYYY-MM-DD');
+                  const isSelected = form.harvestDate === value;
+                  return (
+                    <TouchableOpacity
+                      key={value}
+                      onPress={() => updateField('harvestDate')(value)}
+                      style={[styles.dateChip, isSelected && styles.dateChipActive]}
+                    >
+                      <BodySmall color={isSelected ? colors.white : greenTheme.primary}>
+                        {index === 0 ? 'Hôm nay' : index === 1 ? 'Hôm qua' : date.format('DD/MM')}
+                      </BodySmall>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              {errors.harvestDate && (
+                <BodySmall color={colors.error}>{errors.harvestDate}</BodySmall>
+              )}
+
+              <Spacer size="md" />
+
+              {/* Yield */}
+              <Input
+                label="Diện tích thu hoạch (ha)"
+                placeholder={String(plan.plotArea)}
+                error={errors.harvestedArea ?? serverErrors.harvestedArea}
+                value={harvestedArea}
+                onChangeText={updateField('harvestedArea')}
+                keyboardType="decimal-pad"
+              />
+              <Input
+                label="Sản lượng lúa tươi (kg)"
+                placeholder="0"
+                error={errors.wetWeightKg ?? serverErrors.wetWeightKg}
+                value={form.wetWeightKg}
+                onChangeText={updateField('wetWeightKg')}
+                keyboardType="decimal-pad"
+              />
+              <Input
+                label="Độ ẩm (%)"
+                placeholder="Ví dụ: 24"
+                error={errors.moisturePercent ?? serverErrors.moisturePercent}
+                value={form.moisturePercent}
+                onChangeText={updateField('moisturePercent')}
+                keyboardType="decimal-pad"
+              />
+
+              <Card variant="flat" style={styles.yieldCard}>
+                <BodySmall color={colors.textSecondary}>
+                  Năng suất quy khô ({STANDARD_MOISTURE_PERCENT}% ẩm)
+                </BodySmall>
+                <BodySemibold style={styles.yieldValue}>
+                  {hasPreview
+                    ? `${Math.round(dryYieldPerHa(wetWeight, moisture, area)).toLocaleString('vi-VN')} kg/ha`
+                    : '—'}
+                </BodySemibold>
+                {hasPreview && (
+                  <BodySmall color={colors.textSecondary}>
+                    Tổng:{' '}
+                    {Math.round(toStandardMoistureWeight(wetWeight, moisture)).toLocaleString(
+                      'vi-VN',
+                    )}{' '}
+                    kg
+                  </BodySmall>
+                )}
+              </Card>
+
+              <Spacer size="md" />
+
+              {/* Sale */}
+              <BodySemibold style={styles.sectionTitle}>Bán lúa</BodySemibold>
+              <Input
+                label="Thương lái / đơn vị thu mua"
+                placeholder="Tên người mua (tùy chọn)"
+                error={serverErrors.buyerName}
+                value={form.buyerName}
+                onChangeText={updateField('buyerName')}
+              />
+              <Input
+                label={`Giá bán (₫/kg lúa quy khô ${STANDARD_MOISTURE_PERCENT}%)`}
+                placeholder="0"
+                error={errors.salePricePerKg ?? serverErrors.salePricePerKg}
+                value={form.salePricePerKg}
+                onChangeText={updateField('salePricePerKg')}
+                keyboardType="numeric"
+              />
+              <Input
+                label="Ghi chú"
+                placeholder="Ghi chú thêm về vụ thu hoạch..."
+                value={form.notes}
+                onChangeText={updateField('notes')}
+                multiline
+                numberOfLines={3}
+                style={styles.textArea}
+              />
+
+              {/* Photos */}
+              <Spacer size="md" />
+              <BodySemibold style={styles.sectionTitle}>Ảnh thu hoạch</BodySemibold>
+              <Spacer size="sm" />
+              <Button
+                variant="outline"
+                size="sm"
+                onPress={showImagePickerOptions}
+                style={styles.addImageButton}
+              >
+                Thêm ảnh
+              </Button>
+              <Spacer size="sm" />
+              {images.length > 0 && (
+                <View style={styles.imageGrid}>
+                  {images.map((image, index) => (
+                    <View key={index} style={styles.imageContainer}>
+                      <Image source={{ uri: image.uri }} style={styles.image} />
+                      <TouchableOpacity
+                        style={styles.removeImageButton}
+                        onPress={() => setImages(images.filter((_, i) => i !== index))}
+                      >
+                        <BodySmall color={colors.white}>×</BodySmall>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <Spacer size="lg" />
+
+              {/* Pending submissions */}
+              <OutboxList kind="harvest" />
+
+              <Spacer size="xl" />
+
+              {recordHarvestMutation.isPending && (
+                <>
+                  <UploadProgress
+                    progress={upload.progress}
+                    label="Đang tải lên..."
+                    cancelLabel="Hủy gửi"
+                    onCancel={upload.cancel}
+                  />
+                  <Spacer size="md" />
+                </>
+              )}
+
+              <BodySmall color={colors.textSecondary}>
+                Sau khi ghi nhận, vụ canh tác sẽ được đóng và không thể thêm nhật ký.
+              </BodySmall>
+              <Spacer size="sm" />
+              <Button
+                onPress={() => recordHarvestMutation.mutate()}
+                fullWidth
+                size="lg"
+                disabled={recordHarvestMutation.isPending}
+                style={{ backgroundColor: greenTheme.primary }}
+              >
+                {recordHarvestMutation.isPending ? (
+                  <ActivityIndicator color={colors.white} />
+                ) : (
+                  'Ghi nhận thu hoạch'
+                )}
+              </Button>
+            </>
+          )}
+
+          <Spacer size="xl" />
+        </Container>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+// Green theme colors for farmer-friendly design
+const greenTheme = {
+  primary: '#2E7D32', // Forest green
+  primaryLight: '#4CAF50', // Medium green
+  primaryLighter: '#E8F5E9', // Light green background
+  background: '#F1F8F4', // Very light green tint
+  cardBackground: '#FFFFFF',
+  border: '#C8E6C9', // Light green border
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: greenTheme.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: getSpacing(spacing.md),
+    backgroundColor: greenTheme.cardBackground,
+    paddingBottom: getSpacing(spacing.sm),
+    borderBottomWidth: 1,
+    borderBottomColor: greenTheme.border,
+  },
+  backButton: {
+    width: scale(40),
+    height: scale(40),
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: moderateScale(borderRadius.full),
+    backgroundColor: greenTheme.primaryLighter,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: getFontSize(20),
+    color: greenTheme.primary,
+    fontWeight: '700',
+  },
+  headerRight: {
+    width: scale(40),
+  },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  infoCard: {
+    padding: getSpacing(spacing.md),
+    backgroundColor: greenTheme.cardBackground,
+    borderRadius: moderateScale(borderRadius.lg),
+    borderWidth: 1,
+    borderColor: greenTheme.border,
+  },
+  planName: {
+    fontSize: getFontSize(16),
+    marginBottom: getSpacing(spacing.xs),
+    color: greenTheme.primary,
+    fontWeight: '700',
+  },
+  sectionTitle: {
+    fontSize: getFontSize(16),
+    marginBottom: getSpacing(spacing.sm),
+    color: greenTheme.primary,
+    fontWeight: '700',
+  },
+  dateChips: {
+    gap: getSpacing(spacing.sm),
+  },
+  dateChip: {
+    paddingHorizontal: getSpacing(spacing.md),
+    paddingVertical: getSpacing(spacing.sm),
+    borderRadius: moderateScale(borderRadius.full),
+    backgroundColor: greenTheme.primaryLighter,
+  },
+  dateChipActive: {
+    backgroundColor: greenTheme.primary,
+  },
+  yieldCard: {
+    padding: getSpacing(spacing.md),
+    backgroundColor: greenTheme.primaryLighter,
+    borderRadius: moderateScale(borderRadius.lg),
+  },
+  yieldValue: {
+    fontSize: getFontSize(20),
+    color: greenTheme.primary,
+    fontWeight: '700',
+  },
+  textArea: {
+    minHeight: verticalScale(80),
+    textAlignVertical: 'top',
+  },
+  addImageButton: {
+    alignSelf: 'flex-start',
+    borderColor: greenTheme.primary,
+    backgroundColor: greenTheme.primaryLighter,
+  },
+  imageGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: getSpacing(spacing.sm),
+  },
+  imageContainer: {
+    position: 'relative',
+    width: scale(100),
+    height: scale(100),
+    borderRadius: moderateScale(borderRadius.md),
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: greenTheme.border,
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  removeImageButton: {
+    position: 'absolute',
+    top: scale(4),
+    right: scale(4),
+    width: scale(24),
+    height: scale(24),
+    borderRadius: scale(12),
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -7,7 +7,7 @@ import React, { useState } from 'react';
 import {
   View,
   StyleSheet,
-  ScrollView,
+  FlatList,
   TouchableOpacity,
   SafeAreaView,
   RefreshControl,
@@ -27,6 +27,8 @@ import {
   Spacer,
   Spinner,
   Button,
+  ListFooter,
+  LastUpdated,
 } from '../../components/ui';
 import { colors, spacing, borderRadius } from '../../theme';
 import { scale, moderateScale, getFontSize, getSpacing, verticalScale } from '../../utils/responsive';
@@ -38,9 +40,15 @@ import {
   FarmLogDetailResponse,
 } from '../../types/api';
 import { TaskDetailModal } from './TaskDetailModal';
+import { farmerKeys } from '../../libs/query-keys';
+import { usePagedQuery } from '../../libs/paged-query';
+import { Authorization, useAuthorization } from '../../libs/authorization';
+
+const FARM_LOGS_PAGE_SIZE = 10;
 
 export const PlanDetailScreen = () => {
   const router = useRouter();
+  const { checkPolicy } = useAuthorization();
   const { planCultivationId, planName } = useLocalSearchParams<{
     planCultivationId?: string;
     planName?: string;
@@ -52,11 +60,11 @@ export const PlanDetailScreen = () => {
   const {
     data: plan,
     isLoading,
-    isError,
     refetch,
     isRefetching,
+    dataUpdatedAt,
   } = useQuery({
-    queryKey: ['plot-plan-view', planCultivationId],
+    queryKey: farmerKeys.planView(planCultivationId),
     queryFn: () => {
       if (!planCultivationId) {
         throw new Error('Plan cultivation ID is required');
@@ -67,30 +75,40 @@ export const PlanDetailScreen = () => {
   });
 
   const {
-    data: farmLogsPage,
+    items: farmLogs,
     isLoading: farmLogsLoading,
-    isError: farmLogsError,
+    isError: farmLogsQueryError,
     refetch: refetchFarmLogs,
-  } = useQuery({
-    queryKey: ['farm-logs-by-cultivation', planCultivationId],
-    queryFn: () => {
+    isRefreshing: isRefreshingFarmLogs,
+    refresh: refreshFarmLogs,
+    loadMore: loadMoreFarmLogs,
+    fetchNextPage: fetchNextFarmLogs,
+    isFetchingNextPage: isFetchingNextFarmLogs,
+    isFetchNextPageError: farmLogsNextPageError,
+  } = usePagedQuery<FarmLogDetailResponse>({
+    queryKey: farmerKeys.farmLogsInfinite(planCultivationId ?? '', FARM_LOGS_PAGE_SIZE),
+    queryFn: (page) => {
       if (!planCultivationId) {
         throw new Error('Plan cultivation ID is required');
       }
-      return getFarmLogsByCultivation({
-        plotCultivationId: planCultivationId,
-        currentPage: 1,
-        pageSize: 10,
-      });
+      return getFarmLogsByCultivation({ plotCultivationId: planCultivationId, ...page });
     },
+    pageSize: FARM_LOGS_PAGE_SIZE,
     enabled: Boolean(planCultivationId),
   });
+  // A failed refetch or next page keeps the loaded logs (the footer offers a retry)
+  const farmLogsError = farmLogsQueryError && farmLogs.length === 0;
+
+  const handleRefresh = () => {
+    refetch();
+    refreshFarmLogs();
+  };
 
   if (isLoading) {
     return <Spinner fullScreen />;
   }
 
-  if (isError || !plan) {
+  if (!plan) {
     return (
       <SafeAreaView style={styles.container}>
         <Container padding="lg">
@@ -127,254 +145,295 @@ export const PlanDetailScreen = () => {
             <Body>←</Body>
           </TouchableOpacity>
           <H3 style={styles.headerTitle}>{plan.planName || planName}</H3>
-          <TouchableOpacity
-            onPress={() =>
-              router.push({
-                pathname: '/farmer/reports/create',
-                params: { plotCultivationId: planCultivationId },
-              } as any)
-            }
-            style={styles.reportButton}
-          >
-            <BodySmall color={colors.error}>Báo cáo</BodySmall>
-          </TouchableOpacity>
+          {/* A plan view is always the farmer's own cultivation */}
+          <Authorization policyCheck={checkPolicy('report:create', {})}>
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: '/farmer/reports/create',
+                  params: { plotCultivationId: planCultivationId },
+                } as any)
+              }
+              style={styles.reportButton}
+            >
+              <BodySmall color={colors.error}>Báo cáo</BodySmall>
+            </TouchableOpacity>
+          </Authorization>
         </View>
 
         <BodySmall color={colors.textSecondary}>
           Status: {plan.planStatus} • Base date:{' '}
           {dayjs(plan.basePlantingDate).format('MMM D, YYYY')}
         </BodySmall>
+        <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
+        <Authorization policyCheck={checkPolicy('cultivation:harvest', { status: plan.planStatus })}>
+          <Spacer size="md" />
+          <Button
+            size="sm"
+            onPress={() =>
+              router.push({
+                pathname: '/farmer/harvest/[plotCultivationId]',
+                params: { plotCultivationId: planCultivationId },
+              } as any)
+            }
+          >
+            Record harvest
+          </Button>
+        </Authorization>
 
         <Spacer size="xl" />
 
-        <ScrollView
+        <FlatList
+          data={farmLogsLoading || farmLogsError ? [] : farmLogs}
+          keyExtractor={(log) => log.farmLogId}
           showsVerticalScrollIndicator={false}
           refreshControl={
-            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+            <RefreshControl
+              refreshing={isRefetching || isRefreshingFarmLogs}
+              onRefresh={handleRefresh}
+            />
           }
-        >
-          {plan.stages.length === 0 ? (
-            <Card variant="flat" style={styles.emptyState}>
-              <BodySemibold>Không tìm thấy giai đoạn nào</BodySemibold>
-              <Spacer size="xs" />
-              <BodySmall color={colors.textSecondary}>
-                Kế hoạch này chưa có giai đoạn nào được định nghĩa.
-              </BodySmall>
-            </Card>
-          ) : (
-            plan.stages.map((stage: PlotPlanStage, stageIndex) => (
-              <Card key={stageIndex} variant="elevated" style={styles.stageCard}>
-                <View style={styles.stageHeader}>
-                  <BodySemibold>{stage.stageName}</BodySemibold>
+          onEndReached={loadMoreFarmLogs}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={
+            <>
+              {plan.stages.length === 0 ? (
+                <Card variant="flat" style={styles.emptyState}>
+                  <BodySemibold>Không tìm thấy giai đoạn nào</BodySemibold>
+                  <Spacer size="xs" />
                   <BodySmall color={colors.textSecondary}>
-                    Thứ tự #{stage.sequenceOrder}
+                    Kế hoạch này chưa có giai đoạn nào được định nghĩa.
                   </BodySmall>
-                </View>
+                </Card>
+              ) : (
+                plan.stages.map((stage: PlotPlanStage, stageIndex) => (
+                  <Card key={stageIndex} variant="elevated" style={styles.stageCard}>
+                    <View style={styles.stageHeader}>
+                      <BodySemibold>{stage.stageName}</BodySemibold>
+                      <BodySmall color={colors.textSecondary}>
+                        Thứ tự #{stage.sequenceOrder}
+                      </BodySmall>
+                    </View>
 
-                <Spacer size="md" />
+                    <Spacer size="md" />
 
-                {stage.tasks.length === 0 ? (
-                  <BodySmall color={colors.textSecondary}>
-                    Không có công việc nào được định nghĩa cho giai đoạn này.
-                  </BodySmall>
-                ) : (
-                  stage.tasks.map((task: PlotPlanTask) => (
-                    <View key={task.id} style={styles.taskCard}>
-                      <View style={styles.taskHeader}>
-                        <BodySemibold>{task.taskName}</BodySemibold>
-                        <BodySmall
-                          color={
-                            task.status === 'Completed' ? greenTheme.success : greenTheme.primary
-                          }
-                          style={{ fontWeight: '600' }}
-                        >
-                          {task.status}
-                        </BodySmall>
-                      </View>
-                      {task.description && (
-                        <>
+                    {stage.tasks.length === 0 ? (
+                      <BodySmall color={colors.textSecondary}>
+                        Không có công việc nào được định nghĩa cho giai đoạn này.
+                      </BodySmall>
+                    ) : (
+                      stage.tasks.map((task: PlotPlanTask) => (
+                        <View key={task.id} style={styles.taskCard}>
+                          <View style={styles.taskHeader}>
+                            <BodySemibold>{task.taskName}</BodySemibold>
+                            <BodySmall
+                              color={
+                                task.status === 'Completed' ? greenTheme.success : greenTheme.primary
+                              }
+                              style={{ fontWeight: '600' }}
+                            >
+                              {task.status}
+                            </BodySmall>
+                          </View>
+                          {task.description && (
+                            <>
+                              <Spacer size="xs" />
+                              <BodySmall color={colors.textSecondary}>
+                                {task.description}
+                              </BodySmall>
+                            </>
+                          )}
                           <Spacer size="xs" />
                           <BodySmall color={colors.textSecondary}>
-                            {task.description}
+                            Scheduled:{' '}
+                            {dayjs(task.scheduledDate).format('MMM D, YYYY')}
                           </BodySmall>
-                        </>
-                      )}
-                      <Spacer size="xs" />
-                      <BodySmall color={colors.textSecondary}>
-                        Scheduled:{' '}
-                        {dayjs(task.scheduledDate).format('MMM D, YYYY')}
-                      </BodySmall>
-                      <BodySmall color={colors.textSecondary}>
-                        Ưu tiên: {task.priority}
-                      </BodySmall>
-                      {typeof task.actualMaterialCost === 'number' && (
-                        <BodySmall color={colors.textSecondary}>
-                          Material Cost:{' '}
-                          {new Intl.NumberFormat('vi-VN', {
-                            style: 'currency',
-                            currency: 'VND',
-                          }).format(task.actualMaterialCost)}
-                        </BodySmall>
-                      )}
+                          <BodySmall color={colors.textSecondary}>
+                            Ưu tiên: {task.priority}
+                          </BodySmall>
+                          {typeof task.actualMaterialCost === 'number' && (
+                            <BodySmall color={colors.textSecondary}>
+                              Material Cost:{' '}
+                              {new Intl.NumberFormat('vi-VN', {
+                                style: 'currency',
+                                currency: 'VND',
+                              }).format(task.actualMaterialCost)}
+                            </BodySmall>
+                          )}
 
-                      {task.materials && task.materials.length > 0 && (
-                        <View style={styles.materialSection}>
-                          <Spacer size="xs" />
-                          <BodySemibold>Materials</BodySemibold>
-                          <Spacer size="xs" />
-                          {task.materials.map(
-                            (material: FarmerMaterialComparison) => (
-                              <View
-                                key={material.materialId}
-                                style={styles.materialCard}
-                              >
-                                <BodySemibold>{material.materialName}</BodySemibold>
-                                <BodySmall color={colors.textSecondary}>
-                                  Unit: {material.materialUnit}
-                                </BodySmall>
-                                <BodySmall color={colors.textSecondary}>
-                                  Planned: {material.plannedQuantityPerHa}{' '}
-                                  {material.materialUnit} / ha
-                                </BodySmall>
-                                <BodySmall color={colors.textSecondary}>
-                                  Planned Amount:{' '}
-                                  {material.plannedEstimatedAmount.toLocaleString()}₫
-                                </BodySmall>
-                                <BodySmall color={colors.textSecondary}>
-                                  Actual Qty: {material.actualQuantity}{' '}
-                                  {material.materialUnit}
-                                </BodySmall>
-                                <BodySmall color={colors.textSecondary}>
-                                  Actual Cost:{' '}
-                                  {material.actualCost.toLocaleString()}₫
-                                </BodySmall>
-                              </View>
-                            ),
+                          {task.materials && task.materials.length > 0 && (
+                            <View style={styles.materialSection}>
+                              <Spacer size="xs" />
+                              <BodySemibold>Materials</BodySemibold>
+                              <Spacer size="xs" />
+                              {task.materials.map(
+                                (material: FarmerMaterialComparison) => (
+                                  <View
+                                    key={material.materialId}
+                                    style={styles.materialCard}
+                                  >
+                                    <BodySemibold>{material.materialName}</BodySemibold>
+                                    <BodySmall color={colors.textSecondary}>
+                                      Unit: {material.materialUnit}
+                                    </BodySmall>
+                                    <BodySmall color={colors.textSecondary}>
+                                      Planned: {material.plannedQuantityPerHa}{' '}
+                                      {material.materialUnit} / ha
+                                    </BodySmall>
+                                    <BodySmall color={colors.textSecondary}>
+                                      Planned Amount:{' '}
+                                      {material.plannedEstimatedAmount.toLocaleString()}₫
+                                    </BodySmall>
+                                    <BodySmall color={colors.textSecondary}>
+                                      Actual Qty: {material.actualQuantity}{' '}
+                                      {material.materialUnit}
+                                    </BodySmall>
+                                    <BodySmall color={colors.textSecondary}>
+                                      Actual Cost:{' '}
+                                      {material.actualCost.toLocaleString()}₫
+                                    </BodySmall>
+                                  </View>
+                                ),
+                              )}
+                            </View>
                           )}
+                          <Spacer size="sm" />
+                          <View style={styles.taskActions}>
+                            <TouchableOpacity
+                              style={styles.secondaryButton}
+                              onPress={() => {
+                                setDetailTaskId(task.id);
+                                setIsDetailVisible(true);
+                              }}
+                            >
+                              <BodySemibold style={styles.secondaryButtonText}>
+                                View Details
+                              </BodySemibold>
+                            </TouchableOpacity>
+                          </View>
                         </View>
-                      )}
-                      <Spacer size="sm" />
-                      <View style={styles.taskActions}>
-                        <TouchableOpacity
-                          style={styles.secondaryButton}
-                          onPress={() => {
-                            setDetailTaskId(task.id);
-                            setIsDetailVisible(true);
-                          }}
-                        >
-                          <BodySemibold style={styles.secondaryButtonText}>
-                            View Details
-                          </BodySemibold>
-                        </TouchableOpacity>
-                      </View>
-                    </View>
-                  ))
-                )}
-              </Card>
-            ))
-          )}
+                      ))
+                    )}
+                  </Card>
+                ))
+              )}
 
-          <Spacer size="xl" />
+              <Spacer size="xl" />
 
-          {/* Farm Logs for this cultivation plan */}
-          <H3>Farm Logs</H3>
-          <Spacer size="sm" />
+              {/* Farm Logs for this cultivation plan */}
+              <H3>Farm Logs</H3>
+              <Spacer size="sm" />
 
-          {farmLogsLoading && (
-            <Card variant="flat" style={styles.emptyState}>
-              <BodySmall color={colors.textSecondary}>Đang tải nhật ký nông trại...</BodySmall>
-            </Card>
-          )}
+              {farmLogsLoading && (
+                <Card variant="flat" style={styles.emptyState}>
+                  <BodySmall color={colors.textSecondary}>Đang tải nhật ký nông trại...</BodySmall>
+                </Card>
+              )}
 
-          {farmLogsError && (
-            <Card variant="elevated" style={styles.errorCard}>
-              <BodySemibold>Unable to load farm logs</BodySemibold>
+              {farmLogsError && (
+                <Card variant="elevated" style={styles.errorCard}>
+                  <BodySemibold>Unable to load farm logs</BodySemibold>
+                  <Spacer size="xs" />
+                  <BodySmall color={colors.textSecondary}>
+                    Please check your connection and try again.
+                  </BodySmall>
+                  <Spacer size="md" />
+                  <Button onPress={() => refetchFarmLogs()} size="sm">
+                    Retry
+                  </Button>
+                </Card>
+              )}
+            </>
+          }
+          ListEmptyComponent={
+            !farmLogsLoading && !farmLogsError ? (
+              <Card variant="flat" style={styles.emptyState}>
+                <BodySemibold>No farm logs yet</BodySemibold>
+                <Spacer size="xs" />
+                <BodySmall color={colors.textSecondary}>
+                  When you record activities for this plan, they will appear here.
+                </BodySmall>
+              </Card>
+            ) : null
+          }
+          renderItem={({ item: log }) => (
+            <Card variant="elevated" style={styles.logCard}>
+              <View style={styles.logHeader}>
+                <View style={{ flex: 1 }}>
+                  <BodySemibold>{log.cultivationTaskName}</BodySemibold>
+                  <BodySmall color={colors.textSecondary}>{log.plotName}</BodySmall>
+                </View>
+                <BodySmall color={colors.textSecondary}>
+                  {dayjs(log.loggedDate).format('MMM D, YYYY')}
+                </BodySmall>
+              </View>
               <Spacer size="xs" />
               <BodySmall color={colors.textSecondary}>
-                Please check your connection and try again.
+                Completion: {log.completionPercentage}%
               </BodySmall>
-              <Spacer size="md" />
-              <Button onPress={() => refetchFarmLogs()} size="sm">
-                Retry
-              </Button>
-            </Card>
-          )}
-
-          {!farmLogsLoading && !farmLogsError && (
-            <>
-              {(!farmLogsPage || farmLogsPage.data.length === 0) ? (
-                <Card variant="flat" style={styles.emptyState}>
-                  <BodySemibold>No farm logs yet</BodySemibold>
+              {typeof log.actualAreaCovered === 'number' && (
+                <BodySmall color={colors.textSecondary}>
+                  Area: {log.actualAreaCovered.toLocaleString()} ha
+                </BodySmall>
+              )}
+              {typeof log.serviceCost === 'number' && (
+                <BodySmall color={colors.textSecondary}>
+                  Service cost:{' '}
+                  {new Intl.NumberFormat('vi-VN', {
+                    style: 'currency',
+                    currency: 'VND',
+                  }).format(log.serviceCost)}
+                </BodySmall>
+              )}
+              {typeof log.laborCost === 'number' && (
+                <BodySmall color={colors.textSecondary}>
+                  Labor cost:{' '}
+                  {new Intl.NumberFormat('vi-VN', {
+                    style: 'currency',
+                    currency: 'VND',
+                  }).format(log.laborCost)}
+                </BodySmall>
+              )}
+              {log.workDescription && (
+                <>
                   <Spacer size="xs" />
                   <BodySmall color={colors.textSecondary}>
-                    When you record activities for this plan, they will appear here.
+                    {log.workDescription}
                   </BodySmall>
-                </Card>
-              ) : (
-                farmLogsPage.data.map((log: FarmLogDetailResponse) => (
-                  <Card key={log.farmLogId} variant="elevated" style={styles.logCard}>
-                    <View style={styles.logHeader}>
-                      <View style={{ flex: 1 }}>
-                        <BodySemibold>{log.cultivationTaskName}</BodySemibold>
-                        <BodySmall color={colors.textSecondary}>{log.plotName}</BodySmall>
-                      </View>
+                </>
+              )}
+              {log.weatherConditions && (
+                <BodySmall color={colors.textSecondary}>
+                  Weather: {log.weatherConditions}
+                </BodySmall>
+              )}
+              {log.materialsUsed && log.materialsUsed.length > 0 && (
+                <>
+                  <Spacer size="sm" />
+                  <BodySemibold>Materials used</BodySemibold>
+                  <Spacer size="xs" />
+                  {log.materialsUsed.map((mat, index) => (
+                    <View key={index} style={styles.logMaterialRow}>
+                      <BodySmall>{mat.materialName}</BodySmall>
                       <BodySmall color={colors.textSecondary}>
-                        {dayjs(log.loggedDate).format('MMM D, YYYY')}
+                        {mat.actualQuantityUsed.toLocaleString()} •{' '}
+                        {mat.actualCost.toLocaleString()}₫
                       </BodySmall>
                     </View>
-                    <Spacer size="xs" />
-                    <BodySmall color={colors.textSecondary}>
-                      Completion: {log.completionPercentage}%
-                    </BodySmall>
-                    {typeof log.actualAreaCovered === 'number' && (
-                      <BodySmall color={colors.textSecondary}>
-                        Area: {log.actualAreaCovered.toLocaleString()} ha
-                      </BodySmall>
-                    )}
-                    {typeof log.serviceCost === 'number' && (
-                      <BodySmall color={colors.textSecondary}>
-                        Service cost:{' '}
-                        {new Intl.NumberFormat('vi-VN', {
-                          style: 'currency',
-                          currency: 'VND',
-                        }).format(log.serviceCost)}
-                      </BodySmall>
-                    )}
-                    {log.workDescription && (
-                      <>
-                        <Spacer size="xs" />
-                        <BodySmall color={colors.textSecondary}>
-                          {log.workDescription}
-                        </BodySmall>
-                      </>
-                    )}
-                    {log.weatherConditions && (
-                      <BodySmall color={colors.textSecondary}>
-                        Weather: {log.weatherConditions}
-                      </BodySmall>
-                    )}
-                    {log.materialsUsed && log.materialsUsed.length > 0 && (
-                      <>
-                        <Spacer size="sm" />
-                        <BodySemibold>Materials used</BodySemibold>
-                        <Spacer size="xs" />
-                        {log.materialsUsed.map((mat, index) => (
-                          <View key={index} style={styles.logMaterialRow}>
-                            <BodySmall>{mat.materialName}</BodySmall>
-                            <BodySmall color={colors.textSecondary}>
-                              {mat.actualQuantityUsed.toLocaleString()} •{' '}
-                              {mat.actualCost.toLocaleString()}₫
-                            </BodySmall>
-                          </View>
-                        ))}
-                      </>
-                    )}
-                  </Card>
-                ))
+                  ))}
+                </>
               )}
-            </>
+            </Card>
           )}
-        </ScrollView>
+          ListFooterComponent={
+            <ListFooter
+              isLoading={isFetchingNextFarmLogs}
+              isError={farmLogsNextPageError}
+              onRetry={() => fetchNextFarmLogs()}
+            />
+          }
+        />
       </Container>
       <TaskDetailModal
         visible={isDetailVisible}
@@ -427,6 +486,9 @@ const styles = StyleSheet.create({
     color: greenTheme.primary,
     fontWeight: '700',
   },
+  lastUpdated: {
+    marginTop: getSpacing(spacing.xs),
+  },
   reportButton: {
     paddingHorizontal: getSpacing(spacing.sm),
     paddingVertical: getSpacing(spacing.xs),
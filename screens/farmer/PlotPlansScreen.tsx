@@ -33,9 +33,12 @@ import {
 } from '../../components/ui';
 import { getPlotCultivationPlans } from '../../libs/farmer';
 import { PlotCultivationPlan } from '../../types/api';
+import { farmerKeys } from '../../libs/query-keys';
+import { useAuthorization } from '../../libs/authorization';
 
 export const PlotPlansScreen = () => {
   const router = useRouter();
+  const { checkPolicy } = useAuthorization();
   const { plotId, plotName } = useLocalSearchParams<{
     plotId?: string;
     plotName?: string;
@@ -48,7 +51,7 @@ export const PlotPlansScreen = () => {
     refetch,
     isRefetching,
   } = useQuery({
-    queryKey: ['plot-plans', plotId],
+    queryKey: farmerKeys.plotPlans(plotId),
     queryFn: () => {
       if (!plotId) {
         throw new Error('Plot ID is required');
@@ -160,9 +163,25 @@ export const PlotPlansScreen = () => {
                   <View style={styles.detailItem}>
                     <BodySmall color={colors.textSecondary}>Năng suất thực tế</BodySmall>
                     <BodySemibold>
-                      {plan.actualYield ? `${plan.actualYield} kg` : 'Chưa có'}
+                      {plan.actualYield
+                        ? `${plan.actualYield.toLocaleString('vi-VN')} kg`
+                        : 'Chưa có'}
                     </BodySemibold>
                   </View>
+                  {plan.harvestedAt && (
+                    <View style={styles.detailItem}>
+                      <BodySmall color={colors.textSecondary}>Ngày thu hoạch</BodySmall>
+                      <BodySemibold>{dayjs(plan.harvestedAt).format('MMM D, YYYY')}</BodySemibold>
+                    </View>
+                  )}
+                  {plan.salePricePerKg != null && (
+                    <View style={styles.detailItem}>
+                      <BodySmall color={colors.textSecondary}>Giá bán</BodySmall>
+                      <BodySemibold>
+                        {plan.salePricePerKg.toLocaleString('vi-VN')} ₫/kg
+                      </BodySemibold>
+                    </View>
+                  )}
                 </View>
 
                 <Spacer size="md" />
@@ -182,6 +201,26 @@ export const PlotPlansScreen = () => {
                 >
                   Xem chi tiết kế hoạch
                 </Button>
+                {checkPolicy('cultivation:harvest', { status: plan.status }) && (
+                  <>
+                    <Spacer size="sm" />
+                    <Button
+                      size="sm"
+                      onPress={() =>
+                        router.push({
+                          pathname: '/farmer/harvest/[plotCultivationId]',
+                          params: {
+                            plotCultivationId: plan.plotCultivationId,
+                            plotName: plotName ?? '',
+                          },
+                        } as any)
+                      }
+                      style={{ backgroundColor: greenTheme.primary }}
+                    >
+                      Ghi nhận thu hoạch
+                    </Button>
+                  </>
+                )}
               </Card>
             ))}
           </ScrollView>
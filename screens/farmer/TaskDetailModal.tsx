@@ -17,6 +17,7 @@ import { useQuery } from '@tanstack/react-query';
 import { getCultivationTaskDetail } from '../../libs/farmer';
 import { CultivationTaskDetailResponse } from '../../types/api';
 import dayjs from 'dayjs';
+import { farmerKeys } from '../../libs/query-keys';
 
 type Props = {
   visible: boolean;
@@ -26,7 +27,7 @@ type Props = {
 
 export const TaskDetailModal = ({ visible, taskId, onClose }: Props) => {
   const { data, isLoading, isError, refetch, isFetching } = useQuery({
-    queryKey: ['cultivation-task-detail', taskId],
+    queryKey: farmerKeys.taskDetail(taskId),
     queryFn: () => getCultivationTaskDetail(taskId || ''),
     enabled: visible && Boolean(taskId),
   });
@@ -8,6 +8,8 @@ import {
   View,
   StyleSheet,
   ScrollView,
+  FlatList,
+  RefreshControl,
   TouchableOpacity,
   ActivityIndicator,
   useWindowDimensions,
@@ -28,14 +30,20 @@ import {
   Card,
   Spacer,
   Button,
+  LastUpdated,
 } from '../../components/ui';
 import { FarmerPlot, TodayTaskResponse } from '../../types/api';
 import { getCurrentFarmerPlots, getTodayTasks, startTask } from '../../libs/farmer';
+import { showApiError } from '../../libs/toast';
+import { ignoreDuplicate, useSubmissionKey } from '../../libs/idempotency';
 import { TaskDetailModal } from './TaskDetailModal';
 import { Alert } from 'react-native';
+import { farmerKeys, invalidateAfter } from '../../libs/query-keys';
+import { useAuthorization } from '../../libs/authorization';
 
 export const FarmerTasksScreen = () => {
   const router = useRouter();
+  const { checkPolicy } = useAuthorization();
   const { width: screenWidth } = useWindowDimensions();
   const [selectedFilter, setSelectedFilter] = useState<'in-progress' | 'approved' | 'completed'>(
     'in-progress',
@@ -69,7 +77,7 @@ export const FarmerTasksScreen = () => {
     isLoading: plotsLoading,
     error: plotsError,
   } = useQuery({
-    queryKey: ['farmer-plots', { page: 1, size: 100 }],
+    queryKey: farmerKeys.plots({ page: 1, size: 100 }),
     queryFn: () => getCurrentFarmerPlots({ currentPage: 1, pageSize: 100 }),
   });
 
@@ -92,28 +100,37 @@ export const FarmerTasksScreen = () => {
     isLoading,
     error,
     refetch,
+    isRefetching,
+    dataUpdatedAt,
   } = useQuery({
-    queryKey: ['today-tasks', { plotId: apiPlotId, status: apiStatusFilter }],
+    queryKey: farmerKeys.todayTasks({ plotId: apiPlotId, status: apiStatusFilter }),
     queryFn: () => getTodayTasks({ plotId: apiPlotId, statusFilter: apiStatusFilter }),
   });
 
   // Start task mutation
+  const startSubmission = useSubmissionKey();
   const startTaskMutation = useMutation({
     mutationFn: (request: { cultivationTaskId: string; weatherConditions?: string; notes?: string }) =>
-      startTask({
-        cultivationTaskId: request.cultivationTaskId,
-        weatherConditions: request.weatherConditions || null,
-        notes: request.notes || null,
-      }),
+      // A repeated start (double tap, lost response) already went through
+      ignoreDuplicate(
+        startTask(
+          {
+            cultivationTaskId: request.cultivationTaskId,
+            weatherConditions: request.weatherConditions || null,
+            notes: request.notes || null,
+          },
+          { idempotencyKey: startSubmission.get() },
+        ),
+      ),
+    onSettled: (_data, error) => startSubmission.settle(error),
     onSuccess: () => {
       // Invalidate and refetch tasks to update the status
-      queryClient.invalidateQueries({ queryKey: ['today-tasks'] });
+      invalidateAfter(queryClient, 'start-task');
       refetch();
       Alert.alert('Success', 'Task started successfully');
     },
-    onError: (error: any) => {
-      const errorMessage = error?.response?.data?.message || error?.message || 'Failed to start task';
-      Alert.alert('Error', errorMessage);
+    onError: (error) => {
+      showApiError(error, 'Failed to start task');
     },
   });
 
@@ -173,6 +190,10 @@ export const FarmerTasksScreen = () => {
   }, [tasks, selectedFilter]);
 
   const filteredTasks = tasks || [];
+  // Only the first approved task can be started
+  const firstApprovedIndex = filteredTasks.findIndex(
+    (t) => normalizeStatus(t.status) === 'approved'
+  );
 
   const plotDisplayLabel = () => {
     if (selectedPlotId === 'all') {
@@ -248,7 +269,7 @@ export const FarmerTasksScreen = () => {
     );
   }
 
-  if (error) {
+  if (error && !tasks) {
     return (
       <SafeAreaView style={styles.container}>
         <Container padding="lg">
@@ -420,262 +441,262 @@ export const FarmerTasksScreen = () => {
 
         <Spacer size="xl" />
 
+        <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
         {/* Tasks List */}
-        {filteredTasks.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Body color={colors.textSecondary}>Không tìm thấy công việc nào</Body>
-          </View>
-        ) : (
-          <ScrollView showsVerticalScrollIndicator={false}>
-            {filteredTasks.map((task: TodayTaskResponse, index: number) => {
-              // Find the first approved task index
-              const firstApprovedIndex = filteredTasks.findIndex(
-                (t) => normalizeStatus(t.status) === 'approved'
-              );
-              const isFirstApproved = index === firstApprovedIndex && normalizeStatus(task.status) === 'approved';
-              
-              return (
-              <TouchableOpacity 
-                key={task.cultivationTaskId}
-                onPress={() => handleViewDetail(task.cultivationTaskId)}
-                activeOpacity={0.7}
-              >
-                <Card variant="elevated" style={styles.taskCard}>
-                  {/* Status and overdue badges at top */}
-                  <View style={styles.badgesRow}>
-                    <View
-                      style={[
-                        styles.statusBadge,
-                        { backgroundColor: getStatusColor(task.status) + '20' },
-                      ]}
+        <FlatList
+          data={filteredTasks}
+          keyExtractor={(task) => task.cultivationTaskId}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Body color={colors.textSecondary}>Không tìm thấy công việc nào</Body>
+            </View>
+          }
+          renderItem={({ item: task, index }) => {
+            const isFirstApproved = index === firstApprovedIndex && normalizeStatus(task.status) === 'approved';
+            
+            return (
+            <TouchableOpacity 
+              onPress={() => handleViewDetail(task.cultivationTaskId)}
+              activeOpacity={0.7}
+            >
+              <Card variant="elevated" style={styles.taskCard}>
+                {/* Status and overdue badges at top */}
+                <View style={styles.badgesRow}>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: getStatusColor(task.status) + '20' },
+                    ]}
+                  >
+                    <BodySmall
+                      style={{ 
+                        color: getStatusColor(task.status), 
+                        fontSize: 10,
+                        fontWeight: '700',
+                        letterSpacing: 0.5,
+                      }}
                     >
-                      <BodySmall
-                        style={{ 
-                          color: getStatusColor(task.status), 
-                          fontSize: 10,
-                          fontWeight: '700',
-                          letterSpacing: 0.5,
-                        }}
-                      >
-                        {task.status.replace(/([A-Z])/g, ' $1').trim().toUpperCase()}
-                      </BodySmall>
-                    </View>
-                    {task.isOverdue && (
-                      <View style={styles.overdueBadge}>
-                        <Ionicons name="warning-outline" size={12} color={colors.error} style={{ marginRight: 4 }} />
-                        <BodySmall style={styles.overdueText}>QUÁ HẠN</BodySmall>
-                      </View>
-                    )}
+                      {task.status.replace(/([A-Z])/g, ' $1').trim().toUpperCase()}
+                    </BodySmall>
                   </View>
-                  <Spacer size="sm" />
-                  
-                  {/* Task header */}
-                  <View style={styles.taskHeader}>
-                    <View style={styles.taskIcon}>
-                      {(() => {
-                        const icon = getTaskIcon(task.taskType);
-                        return icon.library === 'Ionicons' ? (
-                          <Ionicons name={icon.name as any} size={28} color={greenTheme.primary} />
-                        ) : (
-                          <MaterialCommunityIcons name={icon.name as any} size={28} color={greenTheme.primary} />
-                        );
-                      })()}
-                    </View>
-                    <View style={styles.taskHeaderInfo}>
-                      <BodySemibold style={styles.taskTitle}>{task.taskName}</BodySemibold>
-                      <BodySmall color={colors.textSecondary} style={{ marginTop: 2 }}>
-                        {task.taskType}
-                      </BodySmall>
+                  {task.isOverdue && (
+                    <View style={styles.overdueBadge}>
+                      <Ionicons name="warning-outline" size={12} color={colors.error} style={{ marginRight: 4 }} />
+                      <BodySmall style={styles.overdueText}>QUÁ HẠN</BodySmall>
                     </View>
+                  )}
+                </View>
+                <Spacer size="sm" />
+                
+                {/* Task header */}
+                <View style={styles.taskHeader}>
+                  <View style={styles.taskIcon}>
+                    {(() => {
+                      const icon = getTaskIcon(task.taskType);
+                      return icon.library === 'Ionicons' ? (
+                        <Ionicons name={icon.name as any} size={28} color={greenTheme.primary} />
+                      ) : (
+                        <MaterialCommunityIcons name={icon.name as any} size={28} color={greenTheme.primary} />
+                      );
+                    })()}
                   </View>
-                  <Spacer size="sm" />
-                  
-                  {/* Plot info */}
-                  <View style={styles.plotInfoCard}>
+                  <View style={styles.taskHeaderInfo}>
+                    <BodySemibold style={styles.taskTitle}>{task.taskName}</BodySemibold>
+                    <BodySmall color={colors.textSecondary} style={{ marginTop: 2 }}>
+                      {task.taskType}
+                    </BodySmall>
+                  </View>
+                </View>
+                <Spacer size="sm" />
+                
+                {/* Plot info */}
+                <View style={styles.plotInfoCard}>
+                    <View style={styles.plotInfoRow}>
+                      <Ionicons name="location-outline" size={16} color={greenTheme.primary} style={{ marginRight: 4 }} />
+                      <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Thửa đất:</BodySmall>
+                      <Body style={styles.plotInfoText}>{task.plotSoThuaSoTo}</Body>
+                    </View>
+                    {task.plotArea > 0 && (
                       <View style={styles.plotInfoRow}>
-                        <Ionicons name="location-outline" size={16} color={greenTheme.primary} style={{ marginRight: 4 }} />
-                        <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Thửa đất:</BodySmall>
-                        <Body style={styles.plotInfoText}>{task.plotSoThuaSoTo}</Body>
+                        <Ionicons name="resize-outline" size={16} color={greenTheme.primary} style={{ marginRight: 4 }} />
+                        <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Diện tích:</BodySmall>
+                        <Body style={styles.plotInfoText}>{task.plotArea.toFixed(2)} ha</Body>
                       </View>
-                      {task.plotArea > 0 && (
-                        <View style={styles.plotInfoRow}>
-                          <Ionicons name="resize-outline" size={16} color={greenTheme.primary} style={{ marginRight: 4 }} />
-                          <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Diện tích:</BodySmall>
-                          <Body style={styles.plotInfoText}>{task.plotArea.toFixed(2)} ha</Body>
-                        </View>
-                      )}
+                    )}
+                </View>
+                
+                {task.description && (
+                  <>
+                    <Spacer size="sm" />
+                    <BodySmall color={colors.textSecondary} style={styles.taskDescription}>
+                      {task.description}
+                    </BodySmall>
+                  </>
+                )}
+                
+                <Spacer size="sm" />
+                
+                {/* Key details grid */}
+                <View style={styles.detailsGrid}>
+                  <View style={styles.detailCard}>
+                    <View style={styles.detailLabelRow}>
+                      <Ionicons name="calendar-outline" size={14} color={greenTheme.primary} />
+                      <BodySmall color={greenTheme.primary} style={styles.detailLabel}>
+                        Lịch trình
+                      </BodySmall>
+                    </View>
+                    <BodySemibold style={styles.detailValue}>
+                      {dayjs(task.scheduledDate).format('MMM D, YYYY')}
+                    </BodySemibold>
                   </View>
-                  
-                  {task.description && (
-                    <>
-                      <Spacer size="sm" />
-                      <BodySmall color={colors.textSecondary} style={styles.taskDescription}>
-                        {task.description}
+                  <View style={styles.detailCard}>
+                    <View style={styles.detailLabelRow}>
+                      <Ionicons name="flag-outline" size={14} color={greenTheme.primary} />
+                      <BodySmall color={greenTheme.primary} style={styles.detailLabel}>
+                        Ưu tiên
                       </BodySmall>
-                    </>
-                  )}
-                  
-                  <Spacer size="sm" />
-                  
-                  {/* Key details grid */}
-                  <View style={styles.detailsGrid}>
+                    </View>
+                    <BodySemibold style={styles.detailValue}>{task.priority}</BodySemibold>
+                  </View>
+                  {task.estimatedMaterialCost > 0 && (
                     <View style={styles.detailCard}>
                       <View style={styles.detailLabelRow}>
-                        <Ionicons name="calendar-outline" size={14} color={greenTheme.primary} />
+                        <Ionicons name="cash-outline" size={14} color={greenTheme.primary} />
                         <BodySmall color={greenTheme.primary} style={styles.detailLabel}>
-                          Lịch trình
+                          Chi phí dự kiến
                         </BodySmall>
                       </View>
                       <BodySemibold style={styles.detailValue}>
-                        {dayjs(task.scheduledDate).format('MMM D, YYYY')}
+                        {task.estimatedMaterialCost.toLocaleString()}₫
                       </BodySemibold>
                     </View>
-                    <View style={styles.detailCard}>
-                      <View style={styles.detailLabelRow}>
-                        <Ionicons name="flag-outline" size={14} color={greenTheme.primary} />
-                        <BodySmall color={greenTheme.primary} style={styles.detailLabel}>
-                          Ưu tiên
-                        </BodySmall>
-                      </View>
-                      <BodySemibold style={styles.detailValue}>{task.priority}</BodySemibold>
-                    </View>
-                    {task.estimatedMaterialCost > 0 && (
-                      <View style={styles.detailCard}>
-                        <View style={styles.detailLabelRow}>
-                          <Ionicons name="cash-outline" size={14} color={greenTheme.primary} />
-                          <BodySmall color={greenTheme.primary} style={styles.detailLabel}>
-                            Chi phí dự kiến
+                  )}
+                </View>
+                {task.materials && task.materials.length > 0 && (
+                  <>
+                    <Spacer size="md" />
+                    <View style={styles.materialsSection}>
+                      <View style={styles.materialsSectionHeader}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+                          <Ionicons name="cube-outline" size={16} color={greenTheme.primary} />
+                          <BodySemibold style={styles.materialsTitle}>Vật liệu cần thiết</BodySemibold>
+                        </View>
+                        <View style={styles.materialsCountBadge}>
+                          <BodySmall style={styles.materialsCountText}>
+                            {task.materials.length}
                           </BodySmall>
                         </View>
-                        <BodySemibold style={styles.detailValue}>
-                          {task.estimatedMaterialCost.toLocaleString()}₫
-                        </BodySemibold>
                       </View>
-                    )}
-                  </View>
-                  {task.materials && task.materials.length > 0 && (
-                    <>
-                      <Spacer size="md" />
-                      <View style={styles.materialsSection}>
-                        <View style={styles.materialsSectionHeader}>
-                          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
-                            <Ionicons name="cube-outline" size={16} color={greenTheme.primary} />
-                            <BodySemibold style={styles.materialsTitle}>Vật liệu cần thiết</BodySemibold>
+                      <Spacer size="xs" />
+                      {task.materials.slice(0, 2).map((material) => (
+                        <View key={material.materialId} style={styles.materialItem}>
+                          <View style={styles.materialHeader}>
+                            <BodySemibold style={styles.materialName}>
+                              {material.materialName}
+                            </BodySemibold>
+                            <Body color={colors.textSecondary} style={styles.materialUnit}>
+                              ({material.materialUnit})
+                            </Body>
                           </View>
-                          <View style={styles.materialsCountBadge}>
-                            <BodySmall style={styles.materialsCountText}>
-                              {task.materials.length}
+                          <View style={styles.materialDetails}>
+                            <BodySmall color={colors.textSecondary}>
+                              SL: {material.plannedQuantityTotal.toLocaleString()} • 
+                              Chi phí: {material.estimatedAmount.toLocaleString()}₫
                             </BodySmall>
                           </View>
                         </View>
-                        <Spacer size="xs" />
-                        {task.materials.slice(0, 2).map((material) => (
-                          <View key={material.materialId} style={styles.materialItem}>
-                            <View style={styles.materialHeader}>
-                              <BodySemibold style={styles.materialName}>
-                                {material.materialName}
-                              </BodySemibold>
-                              <Body color={colors.textSecondary} style={styles.materialUnit}>
-                                ({material.materialUnit})
-                              </Body>
-                            </View>
-                            <View style={styles.materialDetails}>
-                              <BodySmall color={colors.textSecondary}>
-                                SL: {material.plannedQuantityTotal.toLocaleString()} • 
-                                Chi phí: {material.estimatedAmount.toLocaleString()}₫
-                              </BodySmall>
-                            </View>
-                          </View>
-                        ))}
-                        {task.materials.length > 2 && (
-                          <BodySmall color={colors.primary} style={styles.moreMaterials}>
-                            +{task.materials.length - 2} vật liệu khác
-                          </BodySmall>
-                        )}
-                      </View>
-                    </>
-                  )}
-                  <Spacer size="md" />
-                  <View style={styles.actionRow}>
-                    {/* Only show Start Task for the first approved task */}
-                    {isFirstApproved && (
-                      <TouchableOpacity
-                        style={styles.primaryActionButton}
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          handleStartTask(task);
-                        }}
-                        disabled={startTaskMutation.isPending}
-                      >
-                        <View style={styles.primaryActionButtonContent}>
-                          {startTaskMutation.isPending ? (
-                            <ActivityIndicator size="small" color={colors.white} />
-                          ) : (
-                            <BodySemibold style={styles.primaryActionButtonText}>
-                              Bắt đầu
-                            </BodySemibold>
-                          )}
-                        </View>
-                      </TouchableOpacity>
-                    )}
-                    {/* Show Confirm Completion for in-progress tasks (not approved, not completed) */}
-                    {normalizeStatus(task.status) === 'in-progress' && (
-                      <TouchableOpacity
-                        style={styles.primaryActionButton}
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          handleConfirmTask(task);
-                        }}
-                      >
-                        <View style={styles.primaryActionButtonContent}>
-                          <BodySemibold style={styles.primaryActionButtonText}>
-                            Xác nhận hoàn thành
-                          </BodySemibold>
-                        </View>
-                      </TouchableOpacity>
-                    )}
-                    {/* Show Start Task for pending tasks */}
-                    {normalizeStatus(task.status) === 'pending' && (
-                      <TouchableOpacity
-                        style={styles.primaryActionButton}
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          handleConfirmTask(task);
-                        }}
-                      >
-                        <View style={styles.primaryActionButtonContent}>
+                      ))}
+                      {task.materials.length > 2 && (
+                        <BodySmall color={colors.primary} style={styles.moreMaterials}>
+                          +{task.materials.length - 2} vật liệu khác
+                        </BodySmall>
+                      )}
+                    </View>
+                  </>
+                )}
+                <Spacer size="md" />
+                <View style={styles.actionRow}>
+                  {/* Only show Start Task for the first approved task */}
+                  {isFirstApproved && checkPolicy('task:start', task) && (
+                    <TouchableOpacity
+                      style={styles.primaryActionButton}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        handleStartTask(task);
+                      }}
+                      disabled={startTaskMutation.isPending}
+                    >
+                      <View style={styles.primaryActionButtonContent}>
+                        {startTaskMutation.isPending ? (
+                          <ActivityIndicator size="small" color={colors.white} />
+                        ) : (
                           <BodySemibold style={styles.primaryActionButtonText}>
                             Bắt đầu
                           </BodySemibold>
-                        </View>
-                      </TouchableOpacity>
-                    )}
-                    {/* Show completed banner for completed tasks */}
-                        {normalizeStatus(task.status) === 'completed' && (
-                      <View style={styles.completedBanner}>
-                        <Ionicons name="checkmark-circle" size={18} color={greenTheme.success} style={{ marginRight: 4 }} />
-                        <Body style={styles.completedText}>
-                          Hoàn thành
-                        </Body>
+                        )}
                       </View>
-                    )}
-                    {/* Show approved banner for approved tasks that are not the first one */}
-                    {normalizeStatus(task.status) === 'approved' && !isFirstApproved && (
-                      <View style={styles.completedBanner}>
-                        <Ionicons name="checkmark-circle" size={18} color={greenTheme.success} style={{ marginRight: 4 }} />
-                        <Body style={styles.completedText}>
-                          Đã duyệt
-                        </Body>
+                    </TouchableOpacity>
+                  )}
+                  {/* Show Confirm Completion for in-progress tasks (not approved, not completed) */}
+                  {normalizeStatus(task.status) === 'in-progress' && (
+                    <TouchableOpacity
+                      style={styles.primaryActionButton}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        handleConfirmTask(task);
+                      }}
+                    >
+                      <View style={styles.primaryActionButtonContent}>
+                        <BodySemibold style={styles.primaryActionButtonText}>
+                          Xác nhận hoàn thành
+                        </BodySemibold>
                       </View>
-                    )}
-                  </View>
-                </Card>
-                <Spacer size="md" />
-              </TouchableOpacity>
-            );
-            })}
-          </ScrollView>
-        )}
+                    </TouchableOpacity>
+                  )}
+                  {/* Show Start Task for pending tasks */}
+                  {normalizeStatus(task.status) === 'pending' && checkPolicy('task:start', task) && (
+                    <TouchableOpacity
+                      style={styles.primaryActionButton}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        handleConfirmTask(task);
+                      }}
+                    >
+                      <View style={styles.primaryActionButtonContent}>
+                        <BodySemibold style={styles.primaryActionButtonText}>
+                          Bắt đầu
+                        </BodySemibold>
+                      </View>
+                    </TouchableOpacity>
+                  )}
+                  {/* Show completed banner for completed tasks */}
+                      {normalizeStatus(task.status) === 'completed' && (
+                    <View style={styles.completedBanner}>
+                      <Ionicons name="checkmark-circle" size={18} color={greenTheme.success} style={{ marginRight: 4 }} />
+                      <Body style={styles.completedText}>
+                        Hoàn thành
+                      </Body>
+                    </View>
+                  )}
+                  {/* Show approved banner for approved tasks that are not the first one */}
+                  {normalizeStatus(task.status) === 'approved' && !isFirstApproved && (
+                    <View style={styles.completedBanner}>
+                      <Ionicons name="checkmark-circle" size={18} color={greenTheme.success} style={{ marginRight: 4 }} />
+                      <Body style={styles.completedText}>
+                        Đã duyệt
+                      </Body>
+                    </View>
+                  )}
+                </View>
+              </Card>
+              <Spacer size="md" />
+            </TouchableOpacity>
+          );
+          }}
+        />
       </Container>
       <TaskDetailModal
         visible={isDetailVisible}
@@ -717,6 +738,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: greenTheme.background,
   },
+  lastUpdated: {
+    marginBottom: getSpacing(spacing.sm),
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,112 @@
+/**
+ * Verify Phone Screen
+ * Confirms the farmer's phone number with a one-time SMS code, which sets
+ * isVerified on the farmer profile
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, SafeAreaView } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { colors, spacing } from '../../theme';
+import { Body, Button, Container, H3, Spacer } from '../../components/ui';
+import { OtpCodeForm } from '../../components/auth';
+import { useVerifyPhone } from '../../libs/auth';
+import { useOtpChallenge } from '../../libs/otp';
+import { toApiError } from '../../libs/api-error';
+import { toast } from '../../libs/toast';
+
+export const VerifyPhoneScreen = () => {
+  const router = useRouter();
+  const { phoneNumber = '' } = useLocalSearchParams<{ phoneNumber?: string }>();
+  const otp = useOtpChallenge('VerifyPhone');
+  const verifyPhone = useVerifyPhone();
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSendCode = async () => {
+    setError(undefined);
+    try {
+      await otp.send(phoneNumber);
+    } catch (sendError) {
+      setError(toApiError(sendError, 'Không thể gửi mã xác thực').message);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otp.challenge) return;
+    setError(undefined);
+    try {
+      await verifyPhone.mutateAsync({ phoneNumber: otp.challenge.destination, code });
+      toast.success('Số điện thoại đã được xác thực');
+      router.back();
+    } catch (verifyError) {
+      otp.recordFailure(verifyError);
+      setError(toApiError(verifyError, 'Mã xác thực không đúng').message);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Container padding="lg">
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Body>←</Body>
+          </TouchableOpacity>
+          <H3 style={styles.headerTitle}>Xác thực số điện thoại</H3>
+          <View style={styles.backButton} />
+        </View>
+
+        <Spacer size="xl" />
+
+        {otp.challenge ? (
+          <OtpCodeForm
+            destination={otp.challenge.destination}
+            secondsUntilResend={otp.secondsUntilResend}
+            attemptsLeft={otp.attemptsLeft}
+            isLocked={otp.isLocked}
+            isSubmitting={verifyPhone.isPending}
+            isResending={otp.isSending}
+            error={error}
+            onSubmit={handleVerify}
+            onResend={handleSendCode}
+          />
+        ) : (
+          <View style={styles.intro}>
+            <Body color={colors.textSecondary}>
+              Chúng tôi sẽ gửi mã xác thực qua SMS tới số {phoneNumber} để xác nhận số điện thoại
+              này là của bạn.
+            </Body>
+            {error && <Body color={colors.error}>{error}</Body>}
+            <Button onPress={handleSendCode} loading={otp.isSending} disabled={!phoneNumber} fullWidth>
+              Gửi mã xác thực
+            </Button>
+          </View>
+        )}
+      </Container>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  intro: {
+    gap: spacing.md,
+  },
+});
@@ -13,4 +13,6 @@ export { FarmerTasksScreen } from './TasksScreen';
 export { EconomicsScreen } from './EconomicsScreen';
 export { CompleteTaskScreen } from './CompleteTaskScreen';
 export { CreateReportScreen } from './CreateReportScreen';
+export { VerifyPhoneScreen } from './VerifyPhoneScreen';
 
+export { HarvestScreen } from './HarvestScreen';
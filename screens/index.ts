@@ -8,5 +8,9 @@ export { HomeScreen } from './HomeScreen';
 export { TodaysTasksScreen } from './TodaysTasksScreen';
 export { AddProjectScreen } from './AddProjectScreen';
 export { ProfileScreen } from './ProfileScreen';
+export { DiagnosticsScreen } from './DiagnosticsScreen';
+export { ServerSettingsScreen } from './ServerSettingsScreen';
+export { AppLockScreen } from './AppLockScreen';
+export { ForbiddenScreen } from './ForbiddenScreen';
 export * from './farmer';
 
@@ -18,6 +18,7 @@ import { getCurrentFarmerPlots } from '@/libs/farmer';
 import { StandardPlan, StandardPlanProfitAnalysisRequest } from '@/types/api';
 import { colors, spacing } from '@/theme';
 import { Container } from '@/components/ui';
+import { farmerKeys, supervisorKeys } from '../../libs/query-keys';
 
 export const EconomicsScreen = () => {
   const [selectedPlan, setSelectedPlan] = useState<string>('');
@@ -36,14 +37,13 @@ export const EconomicsScreen = () => {
 
   // Fetch standard plans
   const { data: standardPlans, isLoading: isLoadingPlans, error: plansError } = useQuery({
-    queryKey: ['standard-plans'],
+    queryKey: supervisorKeys.standardPlans(),
     queryFn: () => getStandardPlans(),
-    retry: 1,
   });
 
   // Fetch plots only if usePlot is true
   const { data: plotsData, isLoading: isLoadingPlots } = useQuery({
-    queryKey: ['farmer-plots'],
+    queryKey: farmerKeys.plots({ page: 1, size: 100 }),
     queryFn: () => getCurrentFarmerPlots({ pageSize: 100 }),
     enabled: usePlot,
   });
@@ -15,7 +15,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import dayjs from 'dayjs';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import {
   Container,
@@ -29,61 +29,41 @@ import {
   Button,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
-
-// Mock data - will be replaced with API calls
-const mockFarmLogs = [
-  {
-    id: '1',
-    farmerName: 'Nguyen Van A',
-    plotName: 'Thửa 16, Tờ 58',
-    taskName: 'Fertilizing',
-    loggedDate: '2024-01-15',
-    completionPercentage: 100,
-    actualAreaCovered: 2.5,
-    workDescription: 'Applied NPK fertilizer as planned',
-    photoUrls: [
-      'https://via.placeholder.com/300',
-      'https://via.placeholder.com/300',
-    ],
-    status: 'pending',
-    materials: [
-      { name: 'NPK 20-20-20', quantity: 50, unit: 'kg' },
-    ],
-  },
-  {
-    id: '2',
-    farmerName: 'Tran Thi B',
-    plotName: 'Thửa 11, Tờ 12',
-    taskName: 'Spraying',
-    loggedDate: '2024-01-14',
-    completionPercentage: 85,
-    actualAreaCovered: 1.8,
-    workDescription: 'Sprayed pesticide for pest control',
-    photoUrls: ['https://via.placeholder.com/300'],
-    status: 'approved',
-    materials: [
-      { name: 'Pesticide X', quantity: 2, unit: 'L' },
-    ],
-  },
-];
+import { Authorization, useAuthorization } from '../../libs/authorization';
+import { approveFarmLog, getSupervisedFarmLogs, rejectFarmLog } from '../../libs/supervisor';
+import { showApiError, toast } from '../../libs/toast';
+import { invalidateAfter, supervisorKeys } from '../../libs/query-keys';
 
 export const FarmLogsReviewScreen = () => {
   const router = useRouter();
   const { data: user } = useUser();
+  const { checkPolicy } = useAuthorization();
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>(
     'all',
   );
   const [selectedImageIndex, setSelectedImageIndex] = useState<{ [key: string]: number }>({});
 
-  // TODO: Replace with actual API call
-  // const { data: farmLogs, isLoading, isError } = useQuery({
-  //   queryKey: ['supervisor-farm-logs', user?.id, statusFilter],
-  //   queryFn: () => getSupervisedFarmLogs({ supervisorId: user?.id, status: statusFilter }),
-  // });
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: supervisorKeys.farmLogs(user?.id, statusFilter),
+    queryFn: () =>
+      getSupervisedFarmLogs({ supervisorId: user!.id, status: statusFilter, pageSize: 100 }),
+    enabled: !!user?.id,
+  });
+
+  const filteredLogs = data?.data ?? [];
 
-  const filteredLogs = mockFarmLogs.filter((log) => {
-    if (statusFilter === 'all') return true;
-    return log.status === statusFilter;
+  const reviewMutation = useMutation({
+    mutationFn: ({ logId, approve }: { logId: string; approve: boolean }) =>
+      approve ? approveFarmLog(logId, user!.id) : rejectFarmLog(logId, user!.id),
+    onSuccess: (_, { approve }) => {
+      toast.success(approve ? 'Farm log approved' : 'Farm log rejected');
+      invalidateAfter(queryClient, 'review-farm-log');
+    },
+    onError: (error) => {
+      showApiError(error, 'Failed to update farm log');
+    },
   });
 
   const getStatusColor = (status: string) => {
@@ -100,13 +80,11 @@ export const FarmLogsReviewScreen = () => {
   };
 
   const handleApprove = (logId: string) => {
-    // TODO: Implement approval API call
-    console.log('Approve log:', logId);
+    reviewMutation.mutate({ logId, approve: true });
   };
 
   const handleReject = (logId: string) => {
-    // TODO: Implement rejection API call
-    console.log('Reject log:', logId);
+    reviewMutation.mutate({ logId, approve: false });
   };
 
   const getImageIndex = (logId: string) => selectedImageIndex[logId] || 0;
@@ -168,6 +146,22 @@ export const FarmLogsReviewScreen = () => {
         <Spacer size="lg" />
 
         {/* Farm Logs List */}
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading farm logs...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load farm logs</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
         <ScrollView showsVerticalScrollIndicator={false}>
           {filteredLogs.map((log) => {
             const currentImageIndex = getImageIndex(log.id);
@@ -277,12 +271,13 @@ export const FarmLogsReviewScreen = () => {
                   </>
                 )}
 
-                {log.status === 'pending' && (
+                <Authorization policyCheck={checkPolicy('farmlog:approve', log)}>
                   <View style={styles.actionButtons}>
                     <Button
                       variant="outline"
                       size="sm"
                       onPress={() => handleReject(log.id)}
+                      disabled={reviewMutation.isPending}
                       style={[styles.actionButton, { borderColor: colors.error }]}
                     >
                       <BodySmall style={{ color: colors.error }}>Reject</BodySmall>
@@ -290,12 +285,13 @@ export const FarmLogsReviewScreen = () => {
                     <Button
                       size="sm"
                       onPress={() => handleApprove(log.id)}
+                      disabled={reviewMutation.isPending}
                       style={styles.actionButton}
                     >
                       <BodySmall color={colors.white}>Approve</BodySmall>
                     </Button>
                   </View>
-                )}
+                </Authorization>
               </Card>
             );
           })}
@@ -310,6 +306,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
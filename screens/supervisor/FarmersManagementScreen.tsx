@@ -25,43 +25,12 @@ import {
   BodySemibold,
   Card,
   Badge,
+  Button,
   Spacer,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
-
-// Mock data - will be replaced with API calls
-const mockFarmers = [
-  {
-    id: '1',
-    name: 'Nguyen Van A',
-    email: 'nguyenvana@example.com',
-    totalFields: 5,
-    activeTasks: 3,
-    completionRate: 85,
-    status: 'active',
-    lastActivity: '2024-01-15',
-  },
-  {
-    id: '2',
-    name: 'Tran Thi B',
-    email: 'tranthib@example.com',
-    totalFields: 8,
-    activeTasks: 2,
-    completionRate: 92,
-    status: 'active',
-    lastActivity: '2024-01-15',
-  },
-  {
-    id: '3',
-    name: 'Le Van C',
-    email: 'levanc@example.com',
-    totalFields: 3,
-    activeTasks: 5,
-    completionRate: 68,
-    status: 'needs-attention',
-    lastActivity: '2024-01-14',
-  },
-];
+import { getSupervisedFarmers } from '../../libs/supervisor';
+import { supervisorKeys } from '../../libs/query-keys';
 
 export const FarmersManagementScreen = () => {
   const router = useRouter();
@@ -69,21 +38,18 @@ export const FarmersManagementScreen = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'needs-attention'>('all');
 
-  // TODO: Replace with actual API call
-  // const { data: farmers, isLoading, isError } = useQuery({
-  //   queryKey: ['supervisor-farmers', user?.id],
-  //   queryFn: () => getSupervisedFarmers({ supervisorId: user?.id }),
-  // });
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: supervisorKeys.farmers(user?.id, statusFilter),
+    queryFn: () => getSupervisedFarmers({ supervisorId: user!.id, statusFilter, pageSize: 100 }),
+    enabled: !!user?.id,
+  });
 
-  const filteredFarmers = mockFarmers.filter((farmer) => {
-    const matchesSearch =
-      farmer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      farmer.email.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus =
-      statusFilter === 'all' ||
-      (statusFilter === 'active' && farmer.status === 'active') ||
-      (statusFilter === 'needs-attention' && farmer.status === 'needs-attention');
-    return matchesSearch && matchesStatus;
+  const filteredFarmers = (data?.data ?? []).filter((farmer) => {
+    const fullName = `${farmer.firstName} ${farmer.lastName}`;
+    return (
+      fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      farmer.email.toLowerCase().includes(searchQuery.toLowerCase())
+    );
   });
 
   const getStatusColor = (status: string) => {
@@ -175,6 +141,22 @@ export const FarmersManagementScreen = () => {
         <Spacer size="lg" />
 
         {/* Farmers List */}
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading farmers...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load farmers</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
         <ScrollView showsVerticalScrollIndicator={false}>
           {filteredFarmers.map((farmer) => (
             <TouchableOpacity
@@ -188,7 +170,9 @@ export const FarmersManagementScreen = () => {
                 <View style={styles.farmerHeader}>
                   <View style={styles.farmerInfo}>
                     <View style={styles.farmerNameRow}>
-                      <BodySemibold>{farmer.name}</BodySemibold>
+                      <BodySemibold>
+                        {farmer.firstName} {farmer.lastName}
+                      </BodySemibold>
                       <Badge
                         variant="outline"
                         style={[
@@ -291,6 +275,11 @@ const styles = StyleSheet.create({
     backgroundColor: colors.primary,
     borderColor: colors.primary,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   farmerCard: {
     padding: spacing.md,
   },
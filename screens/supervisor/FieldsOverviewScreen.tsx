@@ -36,6 +36,7 @@ import { useUser } from '../../libs/auth';
 import { FarmerPlot, StandardPlan, StandardPlanMaterialCostRequest } from '../../types/api';
 import { getCurrentFarmerPlots } from '../../libs/farmer';
 import { getStandardPlans, calculateStandardPlanMaterialCost } from '../../libs/supervisor';
+import { farmerKeys, supervisorKeys } from '../../libs/query-keys';
 
 // Mock function to parse WKT point
 const parsePointWkt = (wkt: string): { latitude: number; longitude: number } | null => {
@@ -84,7 +85,7 @@ export const FieldsOverviewScreen = () => {
 
   // Fetch standard plans
   const { data: standardPlans } = useQuery({
-    queryKey: ['standard-plans'],
+    queryKey: supervisorKeys.standardPlans(),
     queryFn: () => getStandardPlans(),
   });
 
@@ -94,7 +95,7 @@ export const FieldsOverviewScreen = () => {
   //   queryFn: () => getSupervisedPlots({ supervisorId: user?.id }),
   // Fetch plots from API
   const { data: plotsData, isLoading: plotsLoading, error: plotsError } = useQuery({
-    queryKey: ['farmer-plots'],
+    queryKey: farmerKeys.plots({ page: 1, size: 100 }),
     queryFn: () => getCurrentFarmerPlots({ pageSize: 100 }),
   });
 
@@ -34,6 +34,8 @@ import {
   createPolygonWKT,
 } from '../../utils/polygon-utils';
 import { Coordinate } from '../../types/coordinates';
+import { ignoreDuplicate, useSubmissionKey } from '../../libs/idempotency';
+import { invalidateAfter, supervisorKeys } from '../../libs/query-keys';
 
 export const PolygonDrawingScreen = () => {
   const router = useRouter();
@@ -55,18 +57,25 @@ export const PolygonDrawingScreen = () => {
 
   // Queries
   const { data: tasks = [], isLoading: tasksLoading, refetch: refetchTasks } = useQuery({
-    queryKey: ['polygon-tasks'],
+    queryKey: supervisorKeys.polygonTasks(),
     queryFn: getPolygonTasks,
   });
 
   const { data: plots = [], isLoading: plotsLoading, refetch: refetchPlots } = useQuery({
-    queryKey: ['plots', { page: 1, size: 500 }],
+    queryKey: supervisorKeys.plots(),
     queryFn: getPlots,
   });
 
+  const completeSubmission = useSubmissionKey();
   const completeTaskMutation = useMutation({
     mutationFn: ({ taskId, polygonGeoJson, notes }: { taskId: string; polygonGeoJson: string; notes?: string }) =>
-      completePolygonTask(taskId, polygonGeoJson, notes),
+      // A repeated completion (double tap, lost response) already went through
+      ignoreDuplicate(
+        completePolygonTask(taskId, polygonGeoJson, notes, {
+          idempotencyKey: completeSubmission.get(),
+        }),
+      ),
+    onSettled: (_data, error) => completeSubmission.settle(error),
     onSuccess: async () => {
       console.log('✅ Task completed successfully');
       
@@ -80,8 +89,7 @@ export const PolygonDrawingScreen = () => {
       setFocusedPlotId(null);
       
       // Force immediate cache invalidation and refetch
-      queryClient.invalidateQueries({ queryKey: ['plots'] });
-      queryClient.invalidateQueries({ queryKey: ['polygon-tasks'] });
+      invalidateAfter(queryClient, 'complete-polygon-task');
       
       // Wait a tiny bit for the backend to propagate changes
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -114,8 +122,7 @@ export const PolygonDrawingScreen = () => {
       setFocusedPlotId(null);
       
       // Force immediate cache invalidation and refetch
-      queryClient.invalidateQueries({ queryKey: ['plots'] });
-      queryClient.invalidateQueries({ queryKey: ['polygon-tasks'] });
+      invalidateAfter(queryClient, 'update-plot');
       
       // Wait a tiny bit for the backend to propagate changes
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -25,56 +25,11 @@ import {
   Card,
   Badge,
   Spacer,
+  Button,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
-
-// Mock data - will be replaced with API calls
-const mockAlerts = [
-  {
-    id: '1',
-    type: 'pest',
-    priority: 'critical',
-    farmerName: 'Le Van C',
-    plotName: 'Thửa 8, Tờ 9',
-    title: 'Pest Detected',
-    description: 'Brown planthopper detected in field',
-    date: '2024-01-15T10:30:00',
-    status: 'unread',
-  },
-  {
-    id: '2',
-    type: 'disease',
-    priority: 'high',
-    farmerName: 'Nguyen Van A',
-    plotName: 'Thửa 16, Tờ 58',
-    title: 'Disease Outbreak',
-    description: 'Bacterial blight symptoms observed',
-    date: '2024-01-15T09:15:00',
-    status: 'read',
-  },
-  {
-    id: '3',
-    type: 'weather',
-    priority: 'normal',
-    farmerName: 'Tran Thi B',
-    plotName: 'Thửa 11, Tờ 12',
-    title: 'Weather Warning',
-    description: 'Heavy rain expected in next 24 hours',
-    date: '2024-01-14T16:00:00',
-    status: 'read',
-  },
-  {
-    id: '4',
-    type: 'task',
-    priority: 'high',
-    farmerName: 'Le Van C',
-    plotName: 'Thửa 8, Tờ 9',
-    title: 'Task Overdue',
-    description: 'Harvesting task is overdue by 2 days',
-    date: '2024-01-14T08:00:00',
-    status: 'read',
-  },
-];
+import { getSupervisedAlerts } from '../../libs/supervisor';
+import { supervisorKeys } from '../../libs/query-keys';
 
 export const SupervisorAlertsScreen = () => {
   const router = useRouter();
@@ -86,18 +41,20 @@ export const SupervisorAlertsScreen = () => {
     'all' | 'pest' | 'disease' | 'weather' | 'task'
   >('all');
 
-  // TODO: Replace with actual API call
-  // const { data: alerts, isLoading, isError } = useQuery({
-  //   queryKey: ['supervisor-alerts', user?.id, priorityFilter, typeFilter],
-  //   queryFn: () => getSupervisedAlerts({ supervisorId: user?.id, priority: priorityFilter, type: typeFilter }),
-  // });
-
-  const filteredAlerts = mockAlerts.filter((alert) => {
-    const matchesPriority = priorityFilter === 'all' || alert.priority === priorityFilter;
-    const matchesType = typeFilter === 'all' || alert.type === typeFilter;
-    return matchesPriority && matchesType;
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: supervisorKeys.alerts(user?.id, { priority: priorityFilter, type: typeFilter }),
+    queryFn: () =>
+      getSupervisedAlerts({
+        supervisorId: user!.id,
+        priority: priorityFilter,
+        type: typeFilter,
+        pageSize: 100,
+      }),
+    enabled: !!user?.id,
   });
 
+  const filteredAlerts = data?.data ?? [];
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical':
@@ -264,6 +221,22 @@ export const SupervisorAlertsScreen = () => {
 
         <Spacer size="lg" />
 
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading alerts...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load alerts</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
         {/* Alerts List */}
         <ScrollView showsVerticalScrollIndicator={false}>
           {filteredAlerts.map((alert) => (
@@ -332,6 +305,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -7,6 +7,7 @@ import React from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
+import { useQuery } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import {
   Container,
@@ -21,15 +22,13 @@ import {
   Spacer,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
-
-// Mock data - will be replaced with API calls
-const mockStats = {
-  totalFarmers: 12,
-  pendingApprovals: 5,
-  activeTasks: 28,
-  criticalAlerts: 3,
-  overallProgress: 72,
-};
+import {
+  getSupervisedAlerts,
+  getSupervisedFarmLogs,
+  getSupervisedTasks,
+  getSupervisorOverview,
+} from '../../libs/supervisor';
+import { supervisorKeys } from '../../libs/query-keys';
 
 const quickActions = [
   {
@@ -76,37 +75,69 @@ const quickActions = [
   },
 ];
 
-const recentActivities = [
-  {
-    id: '1',
-    type: 'approval',
-    farmerName: 'Nguyen Van A',
-    description: 'Task completion approval',
-    date: '2024-01-15',
-    status: 'pending',
-  },
-  {
-    id: '2',
-    type: 'log',
-    farmerName: 'Tran Thi B',
-    description: 'Farm log submitted',
-    date: '2024-01-15',
-    status: 'new',
-  },
-  {
-    id: '3',
-    type: 'alert',
-    farmerName: 'Le Van C',
-    description: 'Critical alert: Pest detected',
-    date: '2024-01-14',
-    status: 'urgent',
-  },
-];
+type RecentActivity = {
+  id: string;
+  type: 'approval' | 'log' | 'alert';
+  farmerName: string;
+  description: string;
+  date: string;
+  status: 'pending' | 'new' | 'urgent';
+};
+
+// Latest items that need the supervisor's attention, newest first
+const getRecentActivities = async (supervisorId: string): Promise<RecentActivity[]> => {
+  const [tasks, logs, alerts] = await Promise.all([
+    getSupervisedTasks({ supervisorId, status: 'pending-approval', pageSize: 3 }),
+    getSupervisedFarmLogs({ supervisorId, status: 'pending', pageSize: 3 }),
+    getSupervisedAlerts({ supervisorId, priority: 'critical', pageSize: 3 }),
+  ]);
+
+  return [
+    ...tasks.data.map((task): RecentActivity => ({
+      id: `task-${task.id}`,
+      type: 'approval',
+      farmerName: task.farmerName,
+      description: `Task completion approval: ${task.taskName}`,
+      date: task.submittedDate ?? task.dueDate,
+      status: 'pending',
+    })),
+    ...logs.data.map((log): RecentActivity => ({
+      id: `log-${log.id}`,
+      type: 'log',
+      farmerName: log.farmerName,
+      description: 'Farm log submitted',
+      date: log.loggedDate,
+      status: 'new',
+    })),
+    ...alerts.data.map((alert): RecentActivity => ({
+      id: `alert-${alert.id}`,
+      type: 'alert',
+      farmerName: alert.farmerName,
+      description: `Critical alert: ${alert.title}`,
+      date: alert.date,
+      status: 'urgent',
+    })),
+  ]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 5);
+};
 
 export const SupervisorHomeScreen = () => {
   const router = useRouter();
   const { data: user } = useUser();
 
+  const { data: stats } = useQuery({
+    queryKey: supervisorKeys.overview(user?.id),
+    queryFn: () => getSupervisorOverview(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: recentActivities = [] } = useQuery({
+    queryKey: supervisorKeys.recentActivity(user?.id),
+    queryFn: () => getRecentActivities(user!.id),
+    enabled: !!user?.id,
+  });
+
   const userName = user
     ? `${user.firstName} ${user.lastName}`.trim() || user.email
     : 'Supervisor';
@@ -161,13 +192,13 @@ export const SupervisorHomeScreen = () => {
           <View style={styles.statsRow}>
             <Card variant="elevated" style={[styles.statCard, { backgroundColor: colors.primary }]}>
               <Body color={colors.white} style={styles.statNumber}>
-                {mockStats.totalFarmers}
+                {stats?.totalFarmers ?? '-'}
               </Body>
               <BodySmall color={colors.white}>Farmers</BodySmall>
             </Card>
             <Card variant="elevated" style={[styles.statCard, { backgroundColor: '#FF9500' }]}>
               <Body color={colors.white} style={styles.statNumber}>
-                {mockStats.pendingApprovals}
+                {stats?.pendingApprovals ?? '-'}
               </Body>
               <BodySmall color={colors.white}>Pending</BodySmall>
             </Card>
@@ -178,13 +209,13 @@ export const SupervisorHomeScreen = () => {
           <View style={styles.statsRow}>
             <Card variant="elevated" style={[styles.statCard, { backgroundColor: '#34C759' }]}>
               <Body color={colors.white} style={styles.statNumber}>
-                {mockStats.activeTasks}
+                {stats?.activeTasks ?? '-'}
               </Body>
               <BodySmall color={colors.white}>Active Tasks</BodySmall>
             </Card>
             <Card variant="elevated" style={[styles.statCard, { backgroundColor: colors.error }]}>
               <Body color={colors.white} style={styles.statNumber}>
-                {mockStats.criticalAlerts}
+                {stats?.criticalAlerts ?? '-'}
               </Body>
               <BodySmall color={colors.white}>Alerts</BodySmall>
             </Card>
@@ -223,7 +254,7 @@ export const SupervisorHomeScreen = () => {
                 <BodySmall color={colors.textSecondary}>All supervised farmers</BodySmall>
               </View>
               <Badge variant="primary" size="sm">
-                {mockStats.overallProgress}%
+                {stats?.overallProgress ?? 0}%
               </Badge>
             </View>
             <Spacer size="md" />
@@ -232,7 +263,10 @@ export const SupervisorHomeScreen = () => {
                 <View
                   style={[
                     styles.progressBarFill,
-                    { width: `${mockStats.overallProgress}%`, backgroundColor: colors.primary },
+                    {
+                      width: `${stats?.overallProgress ?? 0}%`,
+                      backgroundColor: colors.primary,
+                    },
                   ]}
                 />
               </View>
@@ -14,7 +14,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import dayjs from 'dayjs';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import {
   Container,
@@ -28,57 +28,39 @@ import {
   Button,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
-
-// Mock data - will be replaced with API calls
-const mockTasks = [
-  {
-    id: '1',
-    taskName: 'Fertilizing',
-    farmerName: 'Nguyen Van A',
-    plotName: 'Thửa 16, Tờ 58',
-    status: 'pending-approval',
-    priority: 'high',
-    dueDate: '2024-01-20',
-    submittedDate: '2024-01-15',
-  },
-  {
-    id: '2',
-    taskName: 'Spraying',
-    farmerName: 'Tran Thi B',
-    plotName: 'Thửa 11, Tờ 12',
-    status: 'in-progress',
-    priority: 'normal',
-    dueDate: '2024-01-18',
-    submittedDate: null,
-  },
-  {
-    id: '3',
-    taskName: 'Harvesting',
-    farmerName: 'Le Van C',
-    plotName: 'Thửa 8, Tờ 9',
-    status: 'completed',
-    priority: 'high',
-    dueDate: '2024-01-16',
-    submittedDate: '2024-01-16',
-  },
-];
+import { Authorization, useAuthorization } from '../../libs/authorization';
+import { approveTask, getSupervisedTasks, rejectTask } from '../../libs/supervisor';
+import { showApiError, toast } from '../../libs/toast';
+import { invalidateAfter, supervisorKeys } from '../../libs/query-keys';
 
 export const TasksMonitoringScreen = () => {
   const router = useRouter();
   const { data: user } = useUser();
+  const { checkPolicy } = useAuthorization();
   const [statusFilter, setStatusFilter] = useState<
     'all' | 'pending-approval' | 'in-progress' | 'completed'
   >('all');
 
-  // TODO: Replace with actual API call
-  // const { data: tasks, isLoading, isError } = useQuery({
-  //   queryKey: ['supervisor-tasks', user?.id, statusFilter],
-  //   queryFn: () => getSupervisedTasks({ supervisorId: user?.id, status: statusFilter }),
-  // });
+  const queryClient = useQueryClient();
 
-  const filteredTasks = mockTasks.filter((task) => {
-    if (statusFilter === 'all') return true;
-    return task.status === statusFilter;
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: supervisorKeys.tasks(user?.id, statusFilter),
+    queryFn: () => getSupervisedTasks({ supervisorId: user!.id, status: statusFilter, pageSize: 100 }),
+    enabled: !!user?.id,
+  });
+
+  const filteredTasks = data?.data ?? [];
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ taskId, approve }: { taskId: string; approve: boolean }) =>
+      approve ? approveTask(taskId, user!.id) : rejectTask(taskId, user!.id),
+    onSuccess: (_, { approve }) => {
+      toast.success(approve ? 'Task approved' : 'Task rejected');
+      invalidateAfter(queryClient, 'review-task');
+    },
+    onError: (error) => {
+      showApiError(error, 'Failed to update task');
+    },
   });
 
   const getStatusColor = (status: string) => {
@@ -108,13 +90,11 @@ export const TasksMonitoringScreen = () => {
   };
 
   const handleApprove = (taskId: string) => {
-    // TODO: Implement approval API call
-    console.log('Approve task:', taskId);
+    reviewMutation.mutate({ taskId, approve: true });
   };
 
   const handleReject = (taskId: string) => {
-    // TODO: Implement rejection API call
-    console.log('Reject task:', taskId);
+    reviewMutation.mutate({ taskId, approve: false });
   };
 
   return (
@@ -186,6 +166,22 @@ export const TasksMonitoringScreen = () => {
 
         <Spacer size="lg" />
 
+        {isLoading && (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator color={colors.primary} />
+            <BodySmall color={colors.textSecondary}>Loading tasks...</BodySmall>
+          </View>
+        )}
+
+        {isError && (
+          <View style={styles.stateContainer}>
+            <Body color={colors.error}>Could not load tasks</Body>
+            <Button size="sm" onPress={() => refetch()}>
+              Retry
+            </Button>
+          </View>
+        )}
+
         {/* Tasks List */}
         <ScrollView showsVerticalScrollIndicator={false}>
           {filteredTasks.map((task) => (
@@ -239,28 +235,28 @@ export const TasksMonitoringScreen = () => {
                 )}
               </View>
 
-              {task.status === 'pending-approval' && (
-                <>
-                  <Spacer size="md" />
-                  <View style={styles.actionButtons}>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onPress={() => handleReject(task.id)}
-                      style={[styles.actionButton, { borderColor: colors.error }]}
-                    >
-                      <BodySmall style={{ color: colors.error }}>Reject</BodySmall>
-                    </Button>
-                    <Button
-                      size="sm"
-                      onPress={() => handleApprove(task.id)}
-                      style={styles.actionButton}
-                    >
-                      <BodySmall color={colors.white}>Approve</BodySmall>
-                    </Button>
-                  </View>
-                </>
-              )}
+              <Authorization policyCheck={checkPolicy('task:approve', task)}>
+                <Spacer size="md" />
+                <View style={styles.actionButtons}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onPress={() => handleReject(task.id)}
+                    disabled={reviewMutation.isPending}
+                    style={[styles.actionButton, { borderColor: colors.error }]}
+                  >
+                    <BodySmall style={{ color: colors.error }}>Reject</BodySmall>
+                  </Button>
+                  <Button
+                    size="sm"
+                    onPress={() => handleApprove(task.id)}
+                    disabled={reviewMutation.isPending}
+                    style={styles.actionButton}
+                  >
+                    <BodySmall color={colors.white}>Approve</BodySmall>
+                  </Button>
+                </View>
+              </Authorization>
             </Card>
           ))}
         </ScrollView>
@@ -274,6 +270,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  stateContainer: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
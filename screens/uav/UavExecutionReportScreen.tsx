@@ -16,7 +16,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import * as ImagePicker from 'expo-image-picker';
 import dayjs from 'dayjs';
 import { colors, spacing, borderRadius } from '../../theme';
@@ -30,9 +30,16 @@ import {
   Spacer,
   Button,
   Input,
+  UploadProgress,
 } from '../../components/ui';
-import { getUavOrderDetail, reportUavOrderCompletion } from '../../libs/uav';
+import { getUavOrderDetail } from '../../libs/uav';
 import { useUser } from '../../libs/auth';
+import { submitToOutbox } from '../../libs/outbox';
+import { useUploadProgress } from '../../libs/upload-progress';
+import { useSubmissionKey } from '../../libs/idempotency';
+import { OutboxList } from '../../components/outbox';
+import { showApiError } from '../../libs/toast';
+import { invalidateAfter, uavKeys } from '../../libs/query-keys';
 
 type ProofImage = {
   uri: string;
@@ -42,6 +49,7 @@ type ProofImage = {
 
 export const UavExecutionReportScreen = () => {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const params = useLocalSearchParams<{
     orderId?: string | string[];
     plotId?: string | string[];
@@ -70,10 +78,9 @@ export const UavExecutionReportScreen = () => {
   const {
     data: order,
     isLoading,
-    isError,
     refetch,
   } = useQuery({
-    queryKey: ['uav-order-detail', orderId],
+    queryKey: uavKeys.orderDetail(orderId),
     queryFn: () => getUavOrderDetail(orderId || ''),
     enabled: Boolean(orderId),
   });
@@ -141,6 +148,9 @@ export const UavExecutionReportScreen = () => {
     setProofImages((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const upload = useUploadProgress();
+  const submission = useSubmissionKey();
+
   const reportMutation = useMutation({
     mutationFn: async () => {
       if (!orderId || !plotId) {
@@ -155,8 +165,9 @@ export const UavExecutionReportScreen = () => {
         throw new Error('Actual area must be greater than zero.');
       }
 
-      return reportUavOrderCompletion({
-        request: {
+      return submitToOutbox(
+        'uav-completion',
+        {
           orderId,
           plotId,
           vendorId: user?.id,
@@ -164,10 +175,28 @@ export const UavExecutionReportScreen = () => {
           actualAreaCovered: actualAreaValue,
           notes: formState.notes || undefined,
         },
-        proofFiles: proofImages,
-      });
+        proofImages,
+        `${order?.orderName ?? 'UAV'} • ${plotNameParam || assignment?.plotName || plotId}`,
+        { ...upload.begin(), idempotencyKey: submission.get() },
+      );
     },
-    onSuccess: () => {
+    onSettled: (_item, error) => submission.settle(error),
+    onSuccess: (item) => {
+      if (item.status !== 'sent') {
+        Alert.alert(
+          'Saved offline',
+          'No connection right now. The report will be sent automatically once you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ],
+        );
+        return;
+      }
+
+      invalidateAfter(queryClient, 'uav-completion');
       Alert.alert('Success', 'Report submitted successfully.', [
         {
           text: 'OK',
@@ -175,8 +204,8 @@ export const UavExecutionReportScreen = () => {
         },
       ]);
     },
-    onError: (error: any) => {
-      Alert.alert('Error', error?.message || 'Failed to submit report.');
+    onError: (error) => {
+      showApiError(error, 'Failed to submit report.');
     },
   });
 
@@ -194,7 +223,8 @@ export const UavExecutionReportScreen = () => {
     );
   }
 
-  if (missingIdentifiers || isError || !order || !assignment) {
+  // A failed refetch still leaves the cached order usable, so offline reports can be filed
+  if (missingIdentifiers || !order || !assignment) {
     return (
       <SafeAreaView style={styles.container}>
         <Container padding="lg">
@@ -332,8 +362,24 @@ export const UavExecutionReportScreen = () => {
               )}
             </Card>
 
+            <Spacer size="md" />
+
+            <OutboxList kind="uav-completion" />
+
             <Spacer size="xl" />
 
+            {reportMutation.isPending && (
+              <>
+                <UploadProgress
+                  progress={upload.progress}
+                  label="Đang tải lên..."
+                  cancelLabel="Hủy gửi"
+                  onCancel={upload.cancel}
+                />
+                <Spacer size="md" />
+              </>
+            )}
+
             <Button
               onPress={() => reportMutation.mutate()}
               disabled={reportMutation.isPending}
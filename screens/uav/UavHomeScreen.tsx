@@ -3,10 +3,12 @@
  * Dashboard for UAV vendor-specific functions
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import {
   Container,
@@ -21,6 +23,8 @@ import {
   Spacer,
 } from '../../components/ui';
 import { useUser } from '../../libs/auth';
+import { getUavServiceOrders } from '../../libs/uav';
+import { uavKeys } from '../../libs/query-keys';
 
 // Green theme colors for farmer-friendly design
 const greenTheme = {
@@ -34,14 +38,6 @@ const greenTheme = {
   border: '#C8E6C9', // Light green border
 };
 
-// Mock data
-const mockStats = {
-  pendingOrders: 5,
-  inProgressOrders: 2,
-  completedToday: 3,
-  totalSprayed: 45.5, // hectares
-};
-
 const quickActions = [
   {
     id: '1',
@@ -66,37 +62,40 @@ const quickActions = [
   },
 ];
 
-const recentOrders = [
-  {
-    id: '1',
-    orderNumber: 'ORD-2024-001',
-    fieldName: 'DongThap1 - Plot 16',
-    status: 'Completed',
-    date: '2024-01-15',
-    area: 12.5,
-  },
-  {
-    id: '2',
-    orderNumber: 'ORD-2024-002',
-    fieldName: 'AnGiang2 - Plot 18',
-    status: 'In Progress',
-    date: '2024-01-16',
-    area: 8.3,
-  },
-  {
-    id: '3',
-    orderNumber: 'ORD-2024-003',
-    fieldName: 'DongThap1 - Plot 20',
-    status: 'Pending',
-    date: '2024-01-17',
-    area: 15.2,
-  },
-];
-
 export const UavHomeScreen = () => {
   const router = useRouter();
   const { data: user } = useUser();
 
+  const { data } = useQuery({
+    queryKey: uavKeys.orders({ page: 1, size: 100 }),
+    queryFn: () => getUavServiceOrders({ currentPage: 1, pageSize: 100 }),
+  });
+
+  const stats = useMemo(() => {
+    const orders = data?.data ?? [];
+    const isStatus = (status: string, ...values: string[]) =>
+      values.includes(status.replace(/\s/g, '').toLowerCase());
+    const completed = orders.filter((order) => isStatus(order.status, 'completed'));
+
+    return {
+      pendingOrders: orders.filter((order) => isStatus(order.status, 'pending')).length,
+      inProgressOrders: orders.filter((order) => isStatus(order.status, 'inprogress')).length,
+      completedToday: completed.filter((order) =>
+        dayjs(order.scheduledDate).isSame(dayjs(), 'day'),
+      ).length,
+      // hectares
+      totalSprayed: Math.round(completed.reduce((sum, order) => sum + order.totalArea, 0) * 10) / 10,
+    };
+  }, [data]);
+
+  const recentOrders = useMemo(
+    () =>
+      [...(data?.data ?? [])]
+        .sort((a, b) => dayjs(b.scheduledDate).valueOf() - dayjs(a.scheduledDate).valueOf())
+        .slice(0, 5),
+    [data],
+  );
+
   const userName = user
     ? `${user.firstName} ${user.lastName}`.trim() || user.email
     : 'UAV Operator';
@@ -110,6 +109,7 @@ export const UavHomeScreen = () => {
       case 'completed':
         return colors.success;
       case 'in progress':
+      case 'inprogress':
         return '#FF9500';
       case 'pending':
         return colors.info;
@@ -140,12 +140,12 @@ export const UavHomeScreen = () => {
           <Card variant="elevated" style={styles.statCard}>
             <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Pending Orders</BodySmall>
             <Spacer size="xs" />
-            <H3 style={{ color: greenTheme.primary }}>{mockStats.pendingOrders}</H3>
+            <H3 style={{ color: greenTheme.primary }}>{stats.pendingOrders}</H3>
           </Card>
           <Card variant="elevated" style={styles.statCard}>
             <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>In Progress</BodySmall>
             <Spacer size="xs" />
-            <H3 style={{ color: greenTheme.primary }}>{mockStats.inProgressOrders}</H3>
+            <H3 style={{ color: greenTheme.primary }}>{stats.inProgressOrders}</H3>
           </Card>
         </View>
 
@@ -155,12 +155,12 @@ export const UavHomeScreen = () => {
           <Card variant="elevated" style={styles.statCard}>
             <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Completed Today</BodySmall>
             <Spacer size="xs" />
-            <H3 style={{ color: greenTheme.success }}>{mockStats.completedToday}</H3>
+            <H3 style={{ color: greenTheme.success }}>{stats.completedToday}</H3>
           </Card>
           <Card variant="elevated" style={styles.statCard}>
             <BodySmall color={greenTheme.primary} style={{ fontWeight: '600' }}>Total Sprayed</BodySmall>
             <Spacer size="xs" />
-            <H3 style={{ color: greenTheme.primary }}>{mockStats.totalSprayed} ha</H3>
+            <H3 style={{ color: greenTheme.primary }}>{stats.totalSprayed} ha</H3>
           </Card>
         </View>
 
@@ -199,19 +199,19 @@ export const UavHomeScreen = () => {
         <ScrollView showsVerticalScrollIndicator={false}>
           {recentOrders.map((order) => (
             <TouchableOpacity
-              key={order.id}
+              key={order.orderId}
               onPress={() =>
                 router.push({
                   pathname: '/uav/orders/[orderId]',
-                  params: { orderId: order.id },
+                  params: { orderId: order.orderId },
                 } as any)
               }
             >
               <Card variant="elevated" style={styles.orderCard}>
                 <View style={styles.orderHeader}>
                   <View style={styles.orderInfo}>
-                    <BodySemibold>{order.orderNumber}</BodySemibold>
-                    <BodySmall color={colors.textSecondary}>{order.fieldName}</BodySmall>
+                    <BodySemibold>{order.orderName}</BodySemibold>
+                    <BodySmall color={colors.textSecondary}>{order.groupName}</BodySmall>
                   </View>
                   <Badge
                     variant="neutral"
@@ -229,11 +229,11 @@ export const UavHomeScreen = () => {
                 <View style={styles.orderDetails}>
                   <View style={styles.orderDetailItem}>
                     <BodySmall color={colors.textSecondary}>Date:</BodySmall>
-                    <BodySmall>{order.date}</BodySmall>
+                    <BodySmall>{dayjs(order.scheduledDate).format('YYYY-MM-DD')}</BodySmall>
                   </View>
                   <View style={styles.orderDetailItem}>
                     <BodySmall color={colors.textSecondary}>Area:</BodySmall>
-                    <BodySmall>{order.area} ha</BodySmall>
+                    <BodySmall>{order.totalArea} ha</BodySmall>
                   </View>
                 </View>
               </Card>
@@ -35,10 +35,13 @@ import {
   PolygonData,
   MarkerData,
   PolylineData,
+  LastUpdated,
 } from '../../components/ui';
 import { Coordinate } from '../../types/coordinates';
 import { getUavOrderDetail } from '../../libs/uav';
 import { UavOrderDetail } from '../../types/api';
+import { uavKeys } from '../../libs/query-keys';
+import { useAuthorization } from '../../libs/authorization';
 
 const DEFAULT_CENTER = {
   latitude: 11.2,
@@ -61,6 +64,7 @@ const greenTheme = {
 
 export const UavOrderDetailScreen = () => {
   const router = useRouter();
+  const { checkPolicy } = useAuthorization();
   const params = useLocalSearchParams();
   const orderId = params.orderId as string;
   const mapRef = useRef<any>(null);
@@ -71,8 +75,8 @@ export const UavOrderDetailScreen = () => {
   const [expandedProofs, setExpandedProofs] = useState<Record<string, boolean>>({});
   const [focusedPlotId, setFocusedPlotId] = useState<string | null>(null);
 
-  const { data, isLoading, isError, refetch, isFetching } = useQuery({
-    queryKey: ['uav-order-detail', orderId],
+  const { data, isLoading, isError, refetch, isFetching, dataUpdatedAt } = useQuery({
+    queryKey: uavKeys.orderDetail(orderId),
     queryFn: () => getUavOrderDetail(orderId),
     enabled: Boolean(orderId),
   });
@@ -164,7 +168,7 @@ export const UavOrderDetailScreen = () => {
     );
   }
 
-  if (isError) {
+  if (isError && !data) {
     return (
       <SafeAreaView style={styles.container}>
         <Container padding="lg">
@@ -255,6 +259,8 @@ export const UavOrderDetailScreen = () => {
           <View style={styles.headerRight} />
         </View>
 
+        <LastUpdated updatedAt={dataUpdatedAt} style={styles.lastUpdated} />
+
         <Spacer size="lg" />
 
         <ScrollView showsVerticalScrollIndicator={false}>
@@ -502,7 +508,7 @@ export const UavOrderDetailScreen = () => {
                     )}
                   </>
                 )}
-                {assignment.status !== 'Completed' && (
+                {checkPolicy('uav:report-plot', { order, assignment }) && (
                   <>
                     <Spacer size="sm" />
                     <TouchableOpacity
@@ -583,6 +589,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: greenTheme.background,
   },
+  lastUpdated: {
+    marginTop: spacing.sm,
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -7,7 +7,7 @@ import React, { useState, useMemo } from 'react';
 import {
   View,
   StyleSheet,
-  ScrollView,
+  FlatList,
   TouchableOpacity,
   RefreshControl,
   ViewStyle,
@@ -15,7 +15,6 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import dayjs from 'dayjs';
-import { useQuery } from '@tanstack/react-query';
 import { colors, spacing, borderRadius, shadows } from '../../theme';
 import {
   Container,
@@ -28,9 +27,12 @@ import {
   Badge,
   Spacer,
   Button,
+  ListFooter,
 } from '../../components/ui';
 import { getUavServiceOrders } from '../../libs/uav';
 import { UavServiceOrder } from '../../types/api';
+import { uavKeys } from '../../libs/query-keys';
+import { usePagedQuery } from '../../libs/paged-query';
 
 export const UavOrdersScreen = () => {
   const router = useRouter();
@@ -40,13 +42,24 @@ export const UavOrdersScreen = () => {
   );
   const pageSize = 20;
 
-  const { data, isLoading, isError, refetch, isFetching } = useQuery({
-    queryKey: ['uav-orders', { page: 1, size: pageSize }],
-    queryFn: () => getUavServiceOrders({ currentPage: 1, pageSize }),
+  const {
+    items: orders,
+    totalCount,
+    isLoading,
+    isError,
+    refetch,
+    isRefreshing,
+    refresh,
+    loadMore,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = usePagedQuery<UavServiceOrder>({
+    queryKey: uavKeys.ordersInfinite(pageSize),
+    queryFn: getUavServiceOrders,
+    pageSize,
   });
 
-  const orders: UavServiceOrder[] = data?.data ?? [];
-
   const getStatusColor = (status: string) => {
     switch (status?.toLowerCase()) {
       case 'completed':
@@ -83,8 +96,9 @@ export const UavOrdersScreen = () => {
   };
 
   const filterCounts = useMemo(() => {
+    // Status counts cover the pages loaded so far; the total comes from the server
     const counts: Record<'all' | 'in-progress' | 'completed', number> = {
-      all: orders.length,
+      all: totalCount,
       'in-progress': 0,
       completed: 0,
     };
@@ -93,17 +107,13 @@ export const UavOrdersScreen = () => {
       counts[slug as keyof typeof counts] += 1;
     });
     return counts;
-  }, [orders]);
+  }, [orders, totalCount]);
 
   const filteredOrders = useMemo(() => {
     if (selectedFilter === 'all') return orders;
     return orders.filter((order) => normalizeStatus(order.status) === selectedFilter);
   }, [orders, selectedFilter]);
 
-  const onRefresh = () => {
-    refetch();
-  };
-
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -198,86 +208,94 @@ export const UavOrdersScreen = () => {
         <Spacer size="xl" />
 
         {/* Orders List */}
-        {filteredOrders.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Body color={colors.textSecondary}>Không tìm thấy đơn hàng</Body>
-          </View>
-        ) : (
-          <ScrollView
-            showsVerticalScrollIndicator={false}
-            refreshControl={<RefreshControl refreshing={isFetching} onRefresh={onRefresh} />}
-          >
-            {filteredOrders.map((order) => (
-              <TouchableOpacity
-                key={order.orderId}
-                onPress={() =>
-                  router.push({
-                    pathname: '/uav/orders/[orderId]',
-                    params: { orderId: order.orderId },
-                  } as any)
-                }
-              >
-                <Card variant="elevated" style={styles.orderCard}>
-                  <View style={styles.orderHeader}>
-                    <View style={styles.orderInfo}>
-                      <View style={styles.orderTitleRow}>
-                        <BodySemibold style={styles.orderTitle}>{order.orderName}</BodySemibold>
-                        <Badge
-                          variant="neutral"
-                          style={getPriorityBadgeStyle(getPriorityColor(order.priority))}
-                        >
-                          <BodySmall style={{ color: getPriorityColor(order.priority) }}>
-                            {order.priority}
-                          </BodySmall>
-                        </Badge>
-                      </View>
-                      <BodySmall color={colors.textSecondary}>{order.groupName}</BodySmall>
+        <FlatList
+          data={filteredOrders}
+          keyExtractor={(order) => order.orderId}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Body color={colors.textSecondary}>Không tìm thấy đơn hàng</Body>
+            </View>
+          }
+          ListFooterComponent={
+            <ListFooter
+              isLoading={isFetchingNextPage}
+              isError={isFetchNextPageError}
+              onRetry={() => fetchNextPage()}
+            />
+          }
+          renderItem={({ item: order }) => (
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: '/uav/orders/[orderId]',
+                  params: { orderId: order.orderId },
+                } as any)
+              }
+            >
+              <Card variant="elevated" style={styles.orderCard}>
+                <View style={styles.orderHeader}>
+                  <View style={styles.orderInfo}>
+                    <View style={styles.orderTitleRow}>
+                      <BodySemibold style={styles.orderTitle}>{order.orderName}</BodySemibold>
+                      <Badge
+                        variant="neutral"
+                        style={getPriorityBadgeStyle(getPriorityColor(order.priority))}
+                      >
+                        <BodySmall style={{ color: getPriorityColor(order.priority) }}>
+                          {order.priority}
+                        </BodySmall>
+                      </Badge>
                     </View>
-                    <Badge
-                      variant="neutral"
-                      style={getStatusBadgeStyle(getStatusColor(order.status))}
-                    >
-                      <BodySmall style={{ color: getStatusColor(order.status) }}>
-                        {order.status.replace(/([A-Z])/g, ' $1').trim()}
-                      </BodySmall>
-                    </Badge>
+                    <BodySmall color={colors.textSecondary}>{order.groupName}</BodySmall>
                   </View>
-                  <Spacer size="md" />
-                  <View style={styles.orderDetails}>
-                    <View style={styles.orderDetailItem}>
-                      <BodySmall color={colors.textSecondary}>Lịch</BodySmall>
-                      <BodySemibold>
-                        {dayjs(order.scheduledDate).format('MMM D, YYYY')}
-                        {order.scheduledTime ? ` • ${order.scheduledTime}` : ''}
-                      </BodySemibold>
-                    </View>
-                    <View style={styles.orderDetailItem}>
-                      <BodySmall color={colors.textSecondary}>Diện tích</BodySmall>
-                      <BodySemibold>{order.totalArea.toFixed(2)} ha</BodySemibold>
-                    </View>
-                    <View style={styles.orderDetailItem}>
-                      <BodySmall color={colors.textSecondary}>Thửa đất</BodySmall>
-                      <BodySemibold>{order.totalPlots}</BodySemibold>
-                    </View>
-                    <View style={styles.progressWrapper}>
-                        <BodySmall color={colors.textSecondary}>Hoàn thành</BodySmall>
-                      <View style={styles.progressBar}>
-                        <View
-                          style={[
-                            styles.progressFill,
-                            { width: `${order.completionPercentage}%` },
-                          ]}
-                        />
-                      </View>
-                      <BodySemibold>{order.completionPercentage}%</BodySemibold>
+                  <Badge
+                    variant="neutral"
+                    style={getStatusBadgeStyle(getStatusColor(order.status))}
+                  >
+                    <BodySmall style={{ color: getStatusColor(order.status) }}>
+                      {order.status.replace(/([A-Z])/g, ' $1').trim()}
+                    </BodySmall>
+                  </Badge>
+                </View>
+                <Spacer size="md" />
+                <View style={styles.orderDetails}>
+                  <View style={styles.orderDetailItem}>
+                    <BodySmall color={colors.textSecondary}>Lịch</BodySmall>
+                    <BodySemibold>
+                      {dayjs(order.scheduledDate).format('MMM D, YYYY')}
+                      {order.scheduledTime ? ` • ${order.scheduledTime}` : ''}
+                    </BodySemibold>
+                  </View>
+                  <View style={styles.orderDetailItem}>
+                    <BodySmall color={colors.textSecondary}>Diện tích</BodySmall>
+                    <BodySemibold>{order.totalArea.toFixed(2)} ha</BodySemibold>
+                  </View>
+                  <View style={styles.orderDetailItem}>
+                    <BodySmall color={colors.textSecondary}>Thửa đất</BodySmall>
+                    <BodySemibold>{order.totalPlots}</BodySemibold>
+                  </View>
+                  <View style={styles.progressWrapper}>
+                      <BodySmall color={colors.textSecondary}>Hoàn thành</BodySmall>
+                    <View style={styles.progressBar}>
+                      <View
+                        style={[
+                          styles.progressFill,
+                          { width: `${order.completionPercentage}%` },
+                        ]}
+                      />
                     </View>
+                    <BodySemibold>{order.completionPercentage}%</BodySemibold>
                   </View>
-                </Card>
-                <Spacer size="md" />
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
-        )}
+                </View>
+              </Card>
+              <Spacer size="md" />
+            </TouchableOpacity>
+          )}
+        />
       </Container>
     </SafeAreaView>
   );
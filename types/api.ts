@@ -1,41 +1,60 @@
-// let's imagine this file is autogenerated from the backend
-// ideally, we want to keep these api related types in sync
-// with the backend instead of manually writing them out
+// zod schemas mirroring the backend contracts.
+// TS types are inferred from the schemas so the static types and the
+// runtime response validation (see libs/api-validation.ts) can't drift apart.
 
-export type BaseEntity = {
-  id: string;
-  createdAt: number;
-};
+import { z } from 'zod';
+
+export const baseEntitySchema = z.object({
+  id: z.string(),
+  createdAt: z.number(),
+});
+
+export type BaseEntity = z.infer<typeof baseEntitySchema>;
 
 export type Entity<T> = {
   [K in keyof T]: T[K];
 } & BaseEntity;
 
-export type Meta = {
-  page: number;
-  total: number;
-  totalPages: number;
-};
+export const metaSchema = z.object({
+  page: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+export type Meta = z.infer<typeof metaSchema>;
 
 // User roles matching backend enum
-export type UserRole =
-  | 'Admin'
-  | 'ClusterManager'
-  | 'Supervisor'
-  | 'Farmer'
-  | 'AgronomyExpert'
-  | 'UavVendor';
-
-export type User = Entity<{
-  firstName: string;
-  lastName: string;
-  email: string;
-  role: UserRole;
-  teamId: string;
-  bio: string;
-}>;
+export const userRoleSchema = z.enum([
+  'Admin',
+  'ClusterManager',
+  'Supervisor',
+  'Farmer',
+  'AgronomyExpert',
+  'UavVendor',
+]);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const userSchema = baseEntitySchema.extend({
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+  teamId: z.string(),
+  bio: z.string(),
+});
+
+export type User = z.infer<typeof userSchema>;
 
 // Backend Result wrapper
+export const resultSchema = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    succeeded: z.boolean(),
+    data,
+    message: z.string().optional(),
+    errors: z.array(z.string()).optional(),
+  });
+
 export type Result<T> = {
   succeeded: boolean;
   data: T;
@@ -44,77 +63,209 @@ export type Result<T> = {
 };
 
 // Token data from login/refresh endpoints
-export type TokenData = {
-  accessToken: string;
-  refreshToken: string;
-  expiresAt: string; // ISO date string
-};
+export const tokenDataSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  expiresAt: z.string(), // ISO date string
+});
+
+export type TokenData = z.infer<typeof tokenDataSchema>;
 
 // User info returned in auth responses
-export type AuthUser = {
-  id: string;
-  userName: string;
-  email: string;
-  role: UserRole;
-};
+export const authUserSchema = z.object({
+  id: z.string(),
+  userName: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+});
+
+export type AuthUser = z.infer<typeof authUserSchema>;
 
 // Login response (wrapped in Result)
-export type LoginResponseData = {
-  accessToken: string;
-  refreshToken: string;
-  expiresAt: string;
-  user: AuthUser;
-};
+export const loginResponseDataSchema = tokenDataSchema.extend({
+  user: authUserSchema,
+});
+
+export type LoginResponseData = z.infer<typeof loginResponseDataSchema>;
 
 export type LoginResponse = Result<LoginResponseData>;
 
 // Login request
-export type LoginRequest = {
-  email?: string | null;
-  phoneNumber?: string | null;
-  password: string;
-  rememberMe?: boolean;
-};
+// Sent when signing in so the session list can name the device
+export const deviceInfoSchema = z.object({
+  deviceName: z.string().nullish(),
+  platform: z.string().nullish(),
+});
+
+export type DeviceInfo = z.infer<typeof deviceInfoSchema>;
+
+export const loginRequestSchema = z
+  .object({
+    email: z.string().nullish(),
+    phoneNumber: z.string().nullish(),
+    password: z.string(),
+    rememberMe: z.boolean().optional(),
+  })
+  .merge(deviceInfoSchema);
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+
+// One-time codes (phone login, phone verification and password reset)
+export const otpPurposeSchema = z.enum(['Login', 'VerifyPhone', 'ResetPassword']);
+
+export type OtpPurpose = z.infer<typeof otpPurposeSchema>;
+
+export const requestOtpRequestSchema = z.object({
+  phoneNumber: z.string().nullish(),
+  // Only password reset codes can be sent by email
+  email: z.string().nullish(),
+  purpose: otpPurposeSchema,
+});
+
+export type RequestOtpRequest = z.infer<typeof requestOtpRequestSchema>;
+
+export const requestOtpResponseSchema = z.object({
+  expiresInSeconds: z.number(),
+  resendAfterSeconds: z.number(),
+  maxAttempts: z.number(),
+});
+
+export type RequestOtpResponse = z.infer<typeof requestOtpResponseSchema>;
+
+export const verifyOtpRequestSchema = z
+  .object({
+    phoneNumber: z.string(),
+    code: z.string(),
+    rememberMe: z.boolean().optional(),
+  })
+  .merge(deviceInfoSchema);
+
+export type VerifyOtpRequest = z.infer<typeof verifyOtpRequestSchema>;
+
+// Password reset: a verified code is exchanged for a short-lived reset token
+export const verifyResetCodeRequestSchema = z.object({
+  phoneNumber: z.string().nullish(),
+  email: z.string().nullish(),
+  code: z.string(),
+});
+
+export type VerifyResetCodeRequest = z.infer<typeof verifyResetCodeRequestSchema>;
+
+export const resetTokenResponseSchema = z.object({
+  resetToken: z.string(),
+  expiresAt: z.string(),
+});
+
+export type ResetTokenResponse = z.infer<typeof resetTokenResponseSchema>;
+
+export const resetPasswordRequestSchema = z.object({
+  resetToken: z.string(),
+  newPassword: z.string(),
+});
+
+export type ResetPasswordRequest = z.infer<typeof resetPasswordRequestSchema>;
+
+// Changing the password revokes every other session; this device gets new tokens
+export const changePasswordRequestSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: z.string(),
+  refreshToken: z.string().nullish(),
+});
+
+export type ChangePasswordRequest = z.infer<typeof changePasswordRequestSchema>;
+
+// A signed-in device of the current account
+export const authSessionSchema = z.object({
+  id: z.string(),
+  deviceName: z.string().nullish(),
+  platform: z.string().nullish(),
+  // Approximate, from the IP address of the last request
+  location: z.string().nullish(),
+  lastSeenAt: z.string(),
+  createdAt: z.string(),
+  isCurrent: z.boolean(),
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Farmer self-registration with a cooperative or group invite code
+export const farmerInviteSchema = z.object({
+  inviteCode: z.string(),
+  groupId: z.string(),
+  groupName: z.string(),
+  clusterName: z.string().nullish(),
+  supervisorName: z.string().nullish(),
+  expiresAt: z.string().nullish(),
+});
+
+export type FarmerInvite = z.infer<typeof farmerInviteSchema>;
+
+export const registerFarmerRequestSchema = z
+  .object({
+    inviteCode: z.string(),
+    groupId: z.string(),
+    fullName: z.string(),
+    phoneNumber: z.string(),
+    address: z.string(),
+    password: z.string(),
+  })
+  .merge(deviceInfoSchema);
+
+export type RegisterFarmerRequest = z.infer<typeof registerFarmerRequestSchema>;
 
 // Fast login query params
-export type FastLoginRole = 'Admin' | 'Supervisor' | 'Expert' | 'Uav' | 'ClusterManager';
+export const fastLoginRoleSchema = z.enum(['Admin', 'Supervisor', 'Expert', 'Uav', 'ClusterManager']);
+
+export type FastLoginRole = z.infer<typeof fastLoginRoleSchema>;
 
 // Logout request
-export type LogoutRequest = {
-  refreshToken?: string;
-};
+export const logoutRequestSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export type LogoutRequest = z.infer<typeof logoutRequestSchema>;
 
 // Refresh token request
-export type RefreshTokenRequest = {
-  accessToken: string;
-  refreshToken: string;
-};
+export const refreshTokenRequestSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+});
+
+export type RefreshTokenRequest = z.infer<typeof refreshTokenRequestSchema>;
 
 export type RefreshTokenResponse = Result<LoginResponseData>;
 
 // Legacy type for backward compatibility
-export type AuthResponse = {
-  jwt: string;
-  user: User;
-};
+export const authResponseSchema = z.object({
+  jwt: z.string(),
+  user: userSchema,
+});
+
+export type AuthResponse = z.infer<typeof authResponseSchema>;
 
-export type Team = Entity<{
-  name: string;
-  description: string;
-}>;
+export const teamSchema = baseEntitySchema.extend({
+  name: z.string(),
+  description: z.string(),
+});
 
-export type Discussion = Entity<{
-  title: string;
-  body: string;
-  teamId: string;
-  author: User;
-}>;
+export type Team = z.infer<typeof teamSchema>;
 
-export type Comment = Entity<{
-  body: string;
-  discussionId: string;
-  author: User;
-}>;
+export const discussionSchema = baseEntitySchema.extend({
+  title: z.string(),
+  body: z.string(),
+  teamId: z.string(),
+  author: userSchema,
+});
+
+export type Discussion = z.infer<typeof discussionSchema>;
+
+export const commentSchema = baseEntitySchema.extend({
+  body: z.string(),
+  discussionId: z.string(),
+  author: userSchema,
+});
+
+export type Comment = z.infer<typeof commentSchema>;
 
 // Material Management Types
 export enum MaterialType {
@@ -122,20 +273,32 @@ export enum MaterialType {
   Pesticide = 1,
 }
 
-export type Material = {
-  materialId: string;
-  name: string;
-  type: MaterialType;
-  ammountPerMaterial: number;
-  unit: string;
-  showout: string;
-  pricePerMaterial: number;
-  description: string;
-  manufacturer: string;
-  isActive: boolean;
-};
+export const materialSchema = z.object({
+  materialId: z.string(),
+  name: z.string(),
+  type: z.nativeEnum(MaterialType),
+  ammountPerMaterial: z.number(),
+  unit: z.string(),
+  showout: z.string(),
+  pricePerMaterial: z.number(),
+  description: z.string(),
+  manufacturer: z.string(),
+  isActive: z.boolean(),
+});
+
+export type Material = z.infer<typeof materialSchema>;
 
 // PagedResult<T> from backend - extends Result<T> with pagination
+export const pagedResultSchema = <T extends z.ZodTypeAny>(data: T) =>
+  resultSchema(data).extend({
+    currentPage: z.number(),
+    totalPages: z.number(),
+    totalCount: z.number(),
+    pageSize: z.number(),
+    hasPrevious: z.boolean(),
+    hasNext: z.boolean(),
+  });
+
 export type PagedResult<T> = {
   succeeded: boolean;
   data: T;
@@ -150,772 +313,984 @@ export type PagedResult<T> = {
 };
 
 // Rice Variety Management Types
-export type RiceVarietyCategory = {
-  id: string;
-  name: string;
-  description?: string;
-};
-
-export type RiceVariety = {
-  id: string;
-  varietyName: string;
-  categoryId: string;
-  categoryName: string;
-  baseGrowthDurationDays: number;
-  baseYieldPerHectare: number;
-  description: string;
-  characteristics: string;
-  isActive: boolean;
-};
-
-export type ChangeRiceSeasonRequest = {
-  riceId: string;
-  seasonId: string;
-};
-
-export type DownloadRiceVarietiesRequest = {
-  inputDate: string;
-  categoryId?: string;
-  isActive?: boolean;
-};
+export const riceVarietyCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+});
+
+export type RiceVarietyCategory = z.infer<typeof riceVarietyCategorySchema>;
+
+export const riceVarietySchema = z.object({
+  id: z.string(),
+  varietyName: z.string(),
+  categoryId: z.string(),
+  categoryName: z.string(),
+  baseGrowthDurationDays: z.number(),
+  baseYieldPerHectare: z.number(),
+  description: z.string(),
+  characteristics: z.string(),
+  isActive: z.boolean(),
+});
+
+export type RiceVariety = z.infer<typeof riceVarietySchema>;
+
+export const changeRiceSeasonRequestSchema = z.object({
+  riceId: z.string(),
+  seasonId: z.string(),
+});
+
+export type ChangeRiceSeasonRequest = z.infer<typeof changeRiceSeasonRequestSchema>;
+
+export const downloadRiceVarietiesRequestSchema = z.object({
+  inputDate: z.string(),
+  categoryId: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type DownloadRiceVarietiesRequest = z.infer<typeof downloadRiceVarietiesRequestSchema>;
 
 // Season Management Types
-export type Season = {
-  id: string;
-  seasonName: string;
-  startDate: string; // MM/DD format
-  endDate: string; // MM/DD format
-  seasonType: string; // e.g., "Winter-Spring", "Summer-Autumn"
-  isActive: boolean;
-  createdAt: string;
-};
+export const seasonSchema = z.object({
+  id: z.string(),
+  seasonName: z.string(),
+  startDate: z.string(), // MM/DD format
+  endDate: z.string(), // MM/DD format
+  seasonType: z.string(), // e.g., "Winter-Spring", "Summer-Autumn"
+  isActive: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type Season = z.infer<typeof seasonSchema>;
 
 // Rice Variety Season Association Types
-export type RiceVarietySeasonAssociation = {
-  id: string;
-  riceVarietyId: string;
-  riceVarietyName: string;
-  seasonId: string;
-  seasonName: string;
-  growthDurationDays: number;
-  expectedYieldPerHectare: number;
-  optimalPlantingStart: string; // MM/DD format
-  optimalPlantingEnd: string; // MM/DD format
-  riskLevel: number; // 0=Low, 1=Medium, 2=High
-  seasonalNotes?: string;
-  isRecommended: boolean;
-  createdAt: string;
-};
-
-export type RiceVarietyWithSeasons = RiceVariety & {
-  associatedSeasons?: RiceVarietySeasonAssociation[];
-};
+export const riceVarietySeasonAssociationSchema = z.object({
+  id: z.string(),
+  riceVarietyId: z.string(),
+  riceVarietyName: z.string(),
+  seasonId: z.string(),
+  seasonName: z.string(),
+  growthDurationDays: z.number(),
+  expectedYieldPerHectare: z.number(),
+  optimalPlantingStart: z.string(), // MM/DD format
+  optimalPlantingEnd: z.string(), // MM/DD format
+  riskLevel: z.number(), // 0=Low, 1=Medium, 2=High
+  seasonalNotes: z.string().optional(),
+  isRecommended: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type RiceVarietySeasonAssociation = z.infer<typeof riceVarietySeasonAssociationSchema>;
+
+export const riceVarietyWithSeasonsSchema = riceVarietySchema.extend({
+  associatedSeasons: z.array(riceVarietySeasonAssociationSchema).optional(),
+});
+
+export type RiceVarietyWithSeasons = z.infer<typeof riceVarietyWithSeasonsSchema>;
 
 // Material CRUD Types
-export type CreateMaterialRequest = {
-  name: string;
-  type: MaterialType;
-  ammountPerMaterial: number;
-  unit: string;
-  pricePerMaterial: number;
-  description?: string;
-  manufacturer?: string;
-  isActive: boolean;
-  priceValidFrom: string;
-};
-
-export type UpdateMaterialRequest = {
-  materialId: string;
-  name: string;
-  type: MaterialType;
-  ammountPerMaterial: number;
-  unit: string;
-  pricePerMaterial: number;
-  description?: string;
-  manufacturer?: string;
-  isActive: boolean;
-  priceValidFrom: string;
-};
+export const createMaterialRequestSchema = z.object({
+  name: z.string(),
+  type: z.nativeEnum(MaterialType),
+  ammountPerMaterial: z.number(),
+  unit: z.string(),
+  pricePerMaterial: z.number(),
+  description: z.string().optional(),
+  manufacturer: z.string().optional(),
+  isActive: z.boolean(),
+  priceValidFrom: z.string(),
+});
+
+export type CreateMaterialRequest = z.infer<typeof createMaterialRequestSchema>;
+
+export const updateMaterialRequestSchema = createMaterialRequestSchema.extend({
+  materialId: z.string(),
+});
+
+export type UpdateMaterialRequest = z.infer<typeof updateMaterialRequestSchema>;
 
 // Rice Variety CRUD Types
-export type CreateRiceVarietyRequest = {
-  varietyName: string;
-  categoryId: string;
-  baseGrowthDurationDays: number;
-  baseYieldPerHectare: number;
-  description?: string;
-  characteristics?: string;
-  isActive: boolean;
-};
+export const createRiceVarietyRequestSchema = z.object({
+  varietyName: z.string(),
+  categoryId: z.string(),
+  baseGrowthDurationDays: z.number(),
+  baseYieldPerHectare: z.number(),
+  description: z.string().optional(),
+  characteristics: z.string().optional(),
+  isActive: z.boolean(),
+});
 
-export type UpdateRiceVarietyRequest = {
-  riceVarietyId: string;
-  varietyName: string;
-  categoryId: string;
-  baseGrowthDurationDays: number;
-  baseYieldPerHectare: number;
-  description?: string;
-  characteristics?: string;
-  isActive: boolean;
-};
-
-// Season CRUD Types
-export type CreateSeasonRequest = {
-  seasonName: string;
-  startDate: string; // MM/DD format
-  endDate: string; // MM/DD format
-  seasonType: string;
-  isActive: boolean;
-};
-
-export type UpdateSeasonRequest = {
-  seasonId: string;
-  seasonName: string;
-  startDate: string; // MM/DD format
-  endDate: string; // MM/DD format
-  seasonType: string;
-  isActive: boolean;
-};
-
-// Rice Variety Season Association CRUD Types
-export type CreateRiceVarietySeasonRequest = {
-  riceVarietyId: string;
-  seasonId: string;
-  growthDurationDays: number;
-  expectedYieldPerHectare: number;
-  optimalPlantingStart: string; // MM/DD format
-  optimalPlantingEnd: string; // MM/DD format
-  riskLevel: number;
-  seasonalNotes?: string;
-  isRecommended: boolean;
-};
+export type CreateRiceVarietyRequest = z.infer<typeof createRiceVarietyRequestSchema>;
 
-export type UpdateRiceVarietySeasonRequest = {
-  riceVarietySeasonId: string;
-  growthDurationDays: number;
-  expectedYieldPerHectare: number;
-  optimalPlantingStart: string; // MM/DD format
-  optimalPlantingEnd: string; // MM/DD format
-  riskLevel: number;
-  seasonalNotes?: string;
-  isRecommended: boolean;
-};
+export const updateRiceVarietyRequestSchema = createRiceVarietyRequestSchema.extend({
+  riceVarietyId: z.string(),
+});
 
-// Standard Plan Types
-export type StandardPlan = {
-  id: string;
-  name: string;
-  description?: string;
-  categoryId: string;
-  categoryName: string;
-  totalDuration: number;
-  isActive: boolean;
-  totalTasks: number;
-  totalStages: number;
-  createdAt: string;
-  createdBy: string;
-  lastModified: string;
-  lastModifiedBy: string;
-};
+export type UpdateRiceVarietyRequest = z.infer<typeof updateRiceVarietyRequestSchema>;
 
-export type StandardPlanTask = {
-  id: string;
-  taskName: string;
-  sequenceOrder: number;
-  taskType: string;
-  priority: string;
-  description?: string;
-  materials: any[]; // Material usage details
-};
+// Season CRUD Types
+export const createSeasonRequestSchema = z.object({
+  seasonName: z.string(),
+  startDate: z.string(), // MM/DD format
+  endDate: z.string(), // MM/DD format
+  seasonType: z.string(),
+  isActive: z.boolean(),
+});
 
-export type StandardPlanStage = {
-  id: string;
-  stageName: string;
-  sequenceOrder: number;
-  expectedDurationDays: number;
-  isMandatory: boolean;
-  notes?: string;
-  tasks: StandardPlanTask[];
-};
+export type CreateSeasonRequest = z.infer<typeof createSeasonRequestSchema>;
 
-export type StandardPlanDetail = {
-  id: string;
-  planName: string;
-  description?: string;
-  totalDurationDays: number;
-  isActive: boolean;
-  categoryId: string;
-  categoryName: string;
-  createdBy: string;
-  creatorName: string;
-  createdAt: string;
-  lastModified: string;
-  stages: StandardPlanStage[];
-  totalStages: number;
-  totalTasks: number;
-  totalMaterialTypes: number;
-};
+export const updateSeasonRequestSchema = createSeasonRequestSchema.extend({
+  seasonId: z.string(),
+});
 
-export type StandardPlanReview = {
-  standardPlanId: string;
-  planName: string;
-  description?: string;
-  categoryId: string;
-  categoryName: string;
-  sowDate: string;
-  areaInHectares: number;
-  estimatedStartDate: string;
-  estimatedEndDate: string;
-  totalDurationDays: number;
-  estimatedTotalCost: number;
-  estimatedCostPerHectare: number;
-  stages: StandardPlanStage[];
-  totalStages: number;
-  totalTasks: number;
-  totalMaterialTypes: number;
-  totalMaterialQuantity: number;
-};
+export type UpdateSeasonRequest = z.infer<typeof updateSeasonRequestSchema>;
 
-export type UpdateStandardPlanRequest = {
-  standardPlanId: string;
-  planName: string;
-  description?: string;
-  totalDurationDays: number;
-  isActive: boolean;
-};
+// Rice Variety Season Association CRUD Types
+export const createRiceVarietySeasonRequestSchema = z.object({
+  riceVarietyId: z.string(),
+  seasonId: z.string(),
+  growthDurationDays: z.number(),
+  expectedYieldPerHectare: z.number(),
+  optimalPlantingStart: z.string(), // MM/DD format
+  optimalPlantingEnd: z.string(), // MM/DD format
+  riskLevel: z.number(),
+  seasonalNotes: z.string().optional(),
+  isRecommended: z.boolean(),
+});
+
+export type CreateRiceVarietySeasonRequest = z.infer<typeof createRiceVarietySeasonRequestSchema>;
+
+export const updateRiceVarietySeasonRequestSchema = createRiceVarietySeasonRequestSchema
+  .omit({ riceVarietyId: true, seasonId: true })
+  .extend({
+    riceVarietySeasonId: z.string(),
+  });
+
+export type UpdateRiceVarietySeasonRequest = z.infer<typeof updateRiceVarietySeasonRequestSchema>;
 
-export type DownloadStandardPlansRequest = {
-  inputDate: string;
-  categoryId?: string;
-  isActive?: boolean;
-};
+// Standard Plan Types
+// The list endpoint has returned both the category-based and the variety-based shape,
+// so everything beyond the common fields is optional
+export const standardPlanSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  categoryId: z.string().optional(),
+  categoryName: z.string().optional(),
+  riceVarietyId: z.string().optional(),
+  riceVarietyName: z.string().optional(),
+  season: z.string().optional(),
+  totalDuration: z.number().optional(),
+  isActive: z.boolean(),
+  totalTasks: z.number().optional(),
+  totalStages: z.number().optional(),
+  createdAt: z.string().optional(),
+  createdBy: z.string().optional(),
+  lastModified: z.string().optional(),
+  lastModifiedBy: z.string().optional(),
+});
+
+export type StandardPlan = z.infer<typeof standardPlanSchema>;
+
+export const standardPlanTaskSchema = z.object({
+  id: z.string(),
+  taskName: z.string(),
+  sequenceOrder: z.number(),
+  taskType: z.string(),
+  priority: z.string(),
+  description: z.string().optional(),
+  materials: z.array(z.any()), // Material usage details
+});
+
+export type StandardPlanTask = z.infer<typeof standardPlanTaskSchema>;
+
+export const standardPlanStageSchema = z.object({
+  id: z.string(),
+  stageName: z.string(),
+  sequenceOrder: z.number(),
+  expectedDurationDays: z.number(),
+  isMandatory: z.boolean(),
+  notes: z.string().optional(),
+  tasks: z.array(standardPlanTaskSchema),
+});
+
+export type StandardPlanStage = z.infer<typeof standardPlanStageSchema>;
+
+export const standardPlanDetailSchema = z.object({
+  id: z.string(),
+  planName: z.string(),
+  description: z.string().optional(),
+  totalDurationDays: z.number(),
+  isActive: z.boolean(),
+  categoryId: z.string(),
+  categoryName: z.string(),
+  createdBy: z.string(),
+  creatorName: z.string(),
+  createdAt: z.string(),
+  lastModified: z.string(),
+  stages: z.array(standardPlanStageSchema),
+  totalStages: z.number(),
+  totalTasks: z.number(),
+  totalMaterialTypes: z.number(),
+});
+
+export type StandardPlanDetail = z.infer<typeof standardPlanDetailSchema>;
+
+export const standardPlanReviewSchema = z.object({
+  standardPlanId: z.string(),
+  planName: z.string(),
+  description: z.string().optional(),
+  categoryId: z.string(),
+  categoryName: z.string(),
+  sowDate: z.string(),
+  areaInHectares: z.number(),
+  estimatedStartDate: z.string(),
+  estimatedEndDate: z.string(),
+  totalDurationDays: z.number(),
+  estimatedTotalCost: z.number(),
+  estimatedCostPerHectare: z.number(),
+  stages: z.array(standardPlanStageSchema),
+  totalStages: z.number(),
+  totalTasks: z.number(),
+  totalMaterialTypes: z.number(),
+  totalMaterialQuantity: z.number(),
+});
+
+export type StandardPlanReview = z.infer<typeof standardPlanReviewSchema>;
+
+export const updateStandardPlanRequestSchema = z.object({
+  standardPlanId: z.string(),
+  planName: z.string(),
+  description: z.string().optional(),
+  totalDurationDays: z.number(),
+  isActive: z.boolean(),
+});
+
+export type UpdateStandardPlanRequest = z.infer<typeof updateStandardPlanRequestSchema>;
+
+export const downloadStandardPlansRequestSchema = z.object({
+  inputDate: z.string(),
+  categoryId: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type DownloadStandardPlansRequest = z.infer<typeof downloadStandardPlansRequestSchema>;
 
 // Task and Project Types for Farmer UI
-export type TaskStatus = 'To-do' | 'In Progress' | 'Completed' | 'Done';
-
-export type Task = Entity<{
-  title: string;
-  projectName: string;
-  projectId: string;
-  status: TaskStatus;
-  scheduledTime?: string; // Time in HH:mm format
-  scheduledDate: string; // Date in ISO format
-  description?: string;
-  priority?: 'Low' | 'Medium' | 'High';
-  category?: string;
-  progress?: number; // 0-100
-}>;
-
-export type TaskGroup = {
-  id: string;
-  name: string;
-  icon?: string;
-  color?: string;
-};
-
-export type Project = Entity<{
-  name: string;
-  description?: string;
-  taskGroupId: string;
-  taskGroupName: string;
-  startDate: string; // ISO date string
-  endDate: string; // ISO date string
-  logo?: string;
-  brandColor?: string;
-  totalTasks: number;
-  completedTasks: number;
-  progress: number; // 0-100
-}>;
-
-export type CreateProjectRequest = {
-  name: string;
-  description?: string;
-  taskGroupId: string;
-  startDate: string; // ISO date string
-  endDate: string; // ISO date string
-  logo?: string;
-  brandColor?: string;
-};
+export const taskStatusSchema = z.enum(['To-do', 'In Progress', 'Completed', 'Done']);
+
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+
+export const taskSchema = baseEntitySchema.extend({
+  title: z.string(),
+  projectName: z.string(),
+  projectId: z.string(),
+  status: taskStatusSchema,
+  scheduledTime: z.string().optional(), // Time in HH:mm format
+  scheduledDate: z.string(), // Date in ISO format
+  description: z.string().optional(),
+  priority: z.enum(['Low', 'Medium', 'High']).optional(),
+  category: z.string().optional(),
+  progress: z.number().optional(), // 0-100
+});
+
+export type Task = z.infer<typeof taskSchema>;
+
+export const taskGroupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+});
+
+export type TaskGroup = z.infer<typeof taskGroupSchema>;
+
+export const projectSchema = baseEntitySchema.extend({
+  name: z.string(),
+  description: z.string().optional(),
+  taskGroupId: z.string(),
+  taskGroupName: z.string(),
+  startDate: z.string(), // ISO date string
+  endDate: z.string(), // ISO date string
+  logo: z.string().optional(),
+  brandColor: z.string().optional(),
+  totalTasks: z.number(),
+  completedTasks: z.number(),
+  progress: z.number(), // 0-100
+});
+
+export type Project = z.infer<typeof projectSchema>;
+
+export const createProjectRequestSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  taskGroupId: z.string(),
+  startDate: z.string(), // ISO date string
+  endDate: z.string(), // ISO date string
+  logo: z.string().optional(),
+  brandColor: z.string().optional(),
+});
+
+export type CreateProjectRequest = z.infer<typeof createProjectRequestSchema>;
 
 // Farmer-specific Types
-export type Field = Entity<{
-  name: string;
-  area: number; // in hectares
-  cropVarietyId: string;
-  cropVarietyName: string;
-  plantingDate: string; // ISO date string
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  polygon?: Array<{ latitude: number; longitude: number }>; // For GIS map
-}>;
-
-export type FarmerPlot = {
-  plotId: string;
-  area: number;
-  soThua: number;
-  soTo: number;
-  status: string;
-  groupId: string;
-  groupName: string;
-  activeCultivations: number;
-  activeAlerts: number;
-  boundary: string | null;
-  coordinate: string; // "POINT (lat lng)" or "POINT (lng lat)" depending on backend
-};
-
-export type PlotCultivationPlan = {
-  plotCultivationId: string;
-  seasonId: string;
-  seasonName: string;
-  riceVarietyId: string;
-  riceVarietyName: string;
-  plantingDate: string;
-  area: number | null;
-  status: string;
-  actualYield?: number | null;
-  productionPlanName: string;
-};
-
-export type FarmerMaterialComparison = {
-  materialId: string;
-  materialName: string;
-  materialUnit: string;
-  plannedQuantityPerHa: number;
-  plannedEstimatedAmount: number;
-  actualQuantity: number;
-  actualCost: number;
-};
-
-export type PlotPlanTask = {
-  id: string;
-  taskName: string;
-  description?: string | null;
-  taskType: string;
-  scheduledDate: string;
-  status: string;
-  priority: string;
-  isContingency: boolean;
-  actualMaterialCost?: number | null;
-  materials: FarmerMaterialComparison[];
-};
-
-export type PlotPlanStage = {
-  stageName: string;
-  sequenceOrder: number;
-  tasks: PlotPlanTask[];
-};
-
-export type PlotPlanView = {
-  plotCultivationId: string;
-  productionPlanId: string;
-  planName: string;
-  basePlantingDate: string;
-  planStatus: string;
-  plotArea: number;
-  stages: PlotPlanStage[];
-};
+const latLngSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+export const fieldSchema = baseEntitySchema.extend({
+  name: z.string(),
+  area: z.number(), // in hectares
+  cropVarietyId: z.string(),
+  cropVarietyName: z.string(),
+  plantingDate: z.string(), // ISO date string
+  coordinates: latLngSchema.optional(),
+  polygon: z.array(latLngSchema).optional(), // For GIS map
+});
+
+export type Field = z.infer<typeof fieldSchema>;
+
+// WKT point, e.g. "POINT (105.78 10.03)"
+export const wktPointSchema = z
+  .string()
+  .regex(/^POINT\s*\(\s*-?\d+(\.\d+)?\s+-?\d+(\.\d+)?\s*\)$/i, 'Expected WKT "POINT (x y)"');
+
+export const farmerPlotSchema = z.object({
+  plotId: z.string(),
+  area: z.number(),
+  soThua: z.number(),
+  soTo: z.number(),
+  status: z.string(),
+  groupId: z.string(),
+  groupName: z.string(),
+  activeCultivations: z.number(),
+  activeAlerts: z.number(),
+  boundary: z.string().nullable(),
+  coordinate: wktPointSchema, // "POINT (lat lng)" or "POINT (lng lat)" depending on backend
+});
+
+export type FarmerPlot = z.infer<typeof farmerPlotSchema>;
+
+export const plotCultivationPlanSchema = z.object({
+  plotCultivationId: z.string(),
+  seasonId: z.string(),
+  seasonName: z.string(),
+  riceVarietyId: z.string(),
+  riceVarietyName: z.string(),
+  plantingDate: z.string(),
+  area: z.number().nullable(),
+  status: z.string(),
+  actualYield: z.number().nullish(), // kg at standard moisture
+  salePricePerKg: z.number().nullish(), // VND, recorded with the harvest
+  harvestedAt: z.string().nullish(),
+  productionPlanName: z.string(),
+});
+
+export type PlotCultivationPlan = z.infer<typeof plotCultivationPlanSchema>;
+
+export const farmerMaterialComparisonSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  materialUnit: z.string(),
+  plannedQuantityPerHa: z.number(),
+  plannedEstimatedAmount: z.number(),
+  actualQuantity: z.number(),
+  actualCost: z.number(),
+});
+
+export type FarmerMaterialComparison = z.infer<typeof farmerMaterialComparisonSchema>;
+
+export const plotPlanTaskSchema = z.object({
+  id: z.string(),
+  taskName: z.string(),
+  description: z.string().nullish(),
+  taskType: z.string(),
+  scheduledDate: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  isContingency: z.boolean(),
+  actualMaterialCost: z.number().nullish(),
+  materials: z.array(farmerMaterialComparisonSchema),
+});
+
+export type PlotPlanTask = z.infer<typeof plotPlanTaskSchema>;
+
+export const plotPlanStageSchema = z.object({
+  stageName: z.string(),
+  sequenceOrder: z.number(),
+  tasks: z.array(plotPlanTaskSchema),
+});
+
+export type PlotPlanStage = z.infer<typeof plotPlanStageSchema>;
+
+export const plotPlanViewSchema = z.object({
+  plotCultivationId: z.string(),
+  productionPlanId: z.string(),
+  planName: z.string(),
+  basePlantingDate: z.string(),
+  planStatus: z.string(),
+  plotArea: z.number(),
+  stages: z.array(plotPlanStageSchema),
+});
+
+export type PlotPlanView = z.infer<typeof plotPlanViewSchema>;
 
 // Farm Log detail per cultivation (for /Farmlog/farm-logs/by-cultivation)
-export type FarmLogMaterialRecord = {
-  materialName: string;
-  actualQuantityUsed: number;
-  actualCost: number;
-};
-
-export type FarmLogDetailResponse = {
-  farmLogId: string;
-  cultivationTaskName: string;
-  plotName: string;
-  loggedDate: string;
-  workDescription?: string | null;
-  completionPercentage: number;
-  actualAreaCovered?: number | null;
-  serviceCost?: number | null;
-  serviceNotes?: string | null;
-  photoUrls?: string[] | null;
-  weatherConditions?: string | null;
-  materialsUsed: FarmLogMaterialRecord[];
-};
-
-export type FarmActivity = Entity<{
-  fieldId: string;
-  fieldName: string;
-  activityType: 'planting' | 'fertilizing' | 'spraying' | 'irrigation' | 'harvesting';
-  date: string; // ISO date string
-  materialId?: string;
-  materialName?: string;
-  quantity: number;
-  unit: string;
-  cost: number; // Calculated from material price
-  notes?: string;
-  photos?: string[]; // Photo URLs
-}>;
-
-export type Alert = Entity<{
-  type: 'pest' | 'weather' | 'recommendation';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  title: string;
-  message: string;
-  fieldId?: string;
-  fieldName?: string;
-  pestType?: string;
-  recommendedTreatment?: string;
-  approved: boolean;
-  createdAt: string;
-}>;
-
-export type FarmerTask = Entity<{
-  title: string;
-  description?: string;
-  taskType: 'spraying' | 'fertilizing' | 'harvesting' | 'irrigation' | 'other';
-  fieldId: string;
-  fieldName: string;
-  scheduledDate: string; // ISO date string
-  scheduledTime?: string; // HH:mm format
-  status: 'pending' | 'in-progress' | 'completed';
-  completedDate?: string;
-  completionPhotos?: string[];
-  planId?: string;
-}>;
-
-export type EconomicPerformance = {
-  seasonId: string;
-  seasonName: string;
-  totalCost: number;
-  totalRevenue: number;
-  profit: number;
-  profitPerHectare: number;
-  fields: Array<{
-    fieldId: string;
-    fieldName: string;
-    area: number;
-    cost: number;
-    revenue: number;
-    profit: number;
-  }>;
-};
+export const farmLogMaterialRecordSchema = z.object({
+  materialName: z.string(),
+  actualQuantityUsed: z.number(),
+  actualCost: z.number(),
+});
+
+export type FarmLogMaterialRecord = z.infer<typeof farmLogMaterialRecordSchema>;
+
+export const farmLogDetailResponseSchema = z.object({
+  farmLogId: z.string(),
+  cultivationTaskId: z.string().nullish(),
+  cultivationTaskName: z.string(),
+  plotName: z.string(),
+  loggedDate: z.string(),
+  workDescription: z.string().nullish(),
+  completionPercentage: z.number(),
+  actualAreaCovered: z.number().nullish(),
+  serviceCost: z.number().nullish(),
+  laborCost: z.number().nullish(),
+  serviceNotes: z.string().nullish(),
+  photoUrls: z.array(z.string()).nullish(),
+  weatherConditions: z.string().nullish(),
+  materialsUsed: z.array(farmLogMaterialRecordSchema),
+});
+
+export type FarmLogDetailResponse = z.infer<typeof farmLogDetailResponseSchema>;
+
+export const farmActivitySchema = baseEntitySchema.extend({
+  fieldId: z.string(),
+  fieldName: z.string(),
+  activityType: z.enum(['planting', 'fertilizing', 'spraying', 'irrigation', 'harvesting']),
+  date: z.string(), // ISO date string
+  materialId: z.string().optional(),
+  materialName: z.string().optional(),
+  quantity: z.number(),
+  unit: z.string(),
+  cost: z.number(), // Calculated from material price
+  notes: z.string().optional(),
+  photos: z.array(z.string()).optional(), // Photo URLs
+});
+
+export type FarmActivity = z.infer<typeof farmActivitySchema>;
+
+export const alertSchema = baseEntitySchema.extend({
+  type: z.enum(['pest', 'weather', 'recommendation']),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  title: z.string(),
+  message: z.string(),
+  fieldId: z.string().optional(),
+  fieldName: z.string().optional(),
+  pestType: z.string().optional(),
+  recommendedTreatment: z.string().optional(),
+  approved: z.boolean(),
+  createdAt: z.union([z.string(), z.number()]), // ISO string from the API, epoch ms in local data
+  plotCultivationId: z.string().nullish(),
+  acknowledgedAt: z.string().nullish(),
+  raisedBy: z.string().nullish(), // Supervisor or expert who raised it
+  // Contingency task created from the recommended treatment
+  treatmentTaskId: z.string().nullish(),
+});
+
+export type Alert = z.infer<typeof alertSchema>;
+
+export const farmerTaskSchema = baseEntitySchema.extend({
+  title: z.string(),
+  description: z.string().optional(),
+  taskType: z.enum(['spraying', 'fertilizing', 'harvesting', 'irrigation', 'other']),
+  fieldId: z.string(),
+  fieldName: z.string(),
+  scheduledDate: z.string(), // ISO date string
+  scheduledTime: z.string().optional(), // HH:mm format
+  status: z.enum(['pending', 'in-progress', 'completed']),
+  completedDate: z.string().optional(),
+  completionPhotos: z.array(z.string()).optional(),
+  planId: z.string().optional(),
+});
+
+export type FarmerTask = z.infer<typeof farmerTaskSchema>;
 
 // Today's Tasks Types
-export type TodayTaskMaterialResponse = {
-  materialId: string;
-  materialName: string;
-  materialUnit: string;
-  plannedQuantityTotal: number;
-  estimatedAmount: number;
-};
-
-export type TodayTaskResponse = {
-  cultivationTaskId: string;
-  plotCultivationId: string;
-  taskName: string;
-  description?: string | null;
-  taskType: string;
-  status: string;
-  scheduledDate: string;
-  priority: string;
-  isOverdue: boolean;
-  plotSoThuaSoTo: string;
-  plotArea: number;
-  estimatedMaterialCost: number;
-  materials: TodayTaskMaterialResponse[];
-};
-
-export type UavServiceOrder = {
-  orderId: string;
-  orderName: string;
-  status: string;
-  priority: string;
-  scheduledDate: string;
-  scheduledTime?: string | null;
-  groupId: string;
-  groupName: string;
-  totalArea: number;
-  totalPlots: number;
-  estimatedCost: number;
-  actualCost: number;
-  completionPercentage: number;
-  creatorName?: string | null;
-};
-
-export type PlannedMaterialDto = {
-  materialId: string;
-  materialName: string;
-  materialUnit: string;
-  quantityPerHa: number;
-  totalQuantityRequired: number;
-  totalEstimatedCost: number;
-};
-
-export type UavOrderPlotAssignment = {
-  plotId: string;
-  plotName: string;
-  servicedArea: number;
-  status: string;
-  actualCost?: number | null;
-  completionDate?: string | null;
-  reportNotes?: string | null;
-  plotBoundaryGeoJson?: string | null;
-  proofUrls: string[];
-};
-
-export type UavOrderDetail = UavServiceOrder & {
-  vendorName?: string | null;
-  completedAt?: string | null;
-  startedAt?: string | null;
-  optimizedRouteJson?: string | null;
-  materials: PlannedMaterialDto[];
-  plotAssignments: UavOrderPlotAssignment[];
-};
-
-export type ReportServiceOrderCompletionRequest = {
-  orderId: string;
-  plotId: string;
-  vendorId?: string | null;
-  actualCost: number;
-  notes?: string | null;
-  actualAreaCovered: number;
-};
-
-export type TaskMaterialDetailResponse = {
-  materialId: string;
-  materialName: string;
-  materialUnit: string;
-  plannedQuantityPerHa: number;
-  plannedTotalEstimatedCost: number;
-  actualQuantityUsed: number;
-  actualCost: number;
-  logNotes?: string | null;
-};
-
-export type FarmLogSummaryResponse = {
-  farmLogId: string;
-  loggedDate: string;
-  completionPercentage: number;
-  actualAreaCovered?: number | null;
-  workDescription?: string | null;
-  photoUrls?: string[];
-  actualServiceCost?: number | null;
-};
-
-export type CultivationTaskDetailResponse = {
-  cultivationTaskId: string;
-  plotCultivationId: string;
-  taskName: string;
-  description?: string | null;
-  taskType: string;
-  status: string;
-  priority: string;
-  isContingency: boolean;
-  plannedScheduledDate: string;
-  actualStartDate?: string | null;
-  actualEndDate?: string | null;
-  estimatedMaterialCost: number;
-  actualMaterialCost: number;
-  actualServiceCost: number;
-  plotName: string;
-  plotArea: number;
-  materials: TaskMaterialDetailResponse[];
-  farmLogs: FarmLogSummaryResponse[];
-};
+export const todayTaskMaterialResponseSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  materialUnit: z.string(),
+  plannedQuantityTotal: z.number(),
+  estimatedAmount: z.number(),
+});
+
+export type TodayTaskMaterialResponse = z.infer<typeof todayTaskMaterialResponseSchema>;
+
+export const todayTaskResponseSchema = z.object({
+  cultivationTaskId: z.string(),
+  plotCultivationId: z.string(),
+  taskName: z.string(),
+  description: z.string().nullish(),
+  taskType: z.string(),
+  status: z.string(),
+  scheduledDate: z.string(),
+  priority: z.string(),
+  isOverdue: z.boolean(),
+  plotSoThuaSoTo: z.string(),
+  plotArea: z.number(),
+  estimatedMaterialCost: z.number(),
+  materials: z.array(todayTaskMaterialResponseSchema),
+});
+
+export type TodayTaskResponse = z.infer<typeof todayTaskResponseSchema>;
+
+export const uavServiceOrderSchema = z.object({
+  orderId: z.string(),
+  orderName: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  scheduledDate: z.string(),
+  scheduledTime: z.string().nullish(),
+  groupId: z.string(),
+  groupName: z.string(),
+  totalArea: z.number(),
+  totalPlots: z.number(),
+  estimatedCost: z.number(),
+  actualCost: z.number(),
+  completionPercentage: z.number(),
+  creatorName: z.string().nullish(),
+});
+
+export type UavServiceOrder = z.infer<typeof uavServiceOrderSchema>;
+
+export const plannedMaterialDtoSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  materialUnit: z.string(),
+  quantityPerHa: z.number(),
+  totalQuantityRequired: z.number(),
+  totalEstimatedCost: z.number(),
+});
+
+export type PlannedMaterialDto = z.infer<typeof plannedMaterialDtoSchema>;
+
+export const uavOrderPlotAssignmentSchema = z.object({
+  plotId: z.string(),
+  plotName: z.string(),
+  servicedArea: z.number(),
+  status: z.string(),
+  actualCost: z.number().nullish(),
+  completionDate: z.string().nullish(),
+  reportNotes: z.string().nullish(),
+  plotBoundaryGeoJson: z.string().nullish(),
+  proofUrls: z.array(z.string()),
+});
+
+export type UavOrderPlotAssignment = z.infer<typeof uavOrderPlotAssignmentSchema>;
+
+export const uavOrderDetailSchema = uavServiceOrderSchema.extend({
+  vendorName: z.string().nullish(),
+  completedAt: z.string().nullish(),
+  startedAt: z.string().nullish(),
+  optimizedRouteJson: z.string().nullish(),
+  materials: z.array(plannedMaterialDtoSchema),
+  plotAssignments: z.array(uavOrderPlotAssignmentSchema),
+});
+
+export type UavOrderDetail = z.infer<typeof uavOrderDetailSchema>;
+
+export const reportServiceOrderCompletionRequestSchema = z.object({
+  orderId: z.string(),
+  plotId: z.string(),
+  vendorId: z.string().nullish(),
+  actualCost: z.number(),
+  notes: z.string().nullish(),
+  actualAreaCovered: z.number(),
+});
+
+export type ReportServiceOrderCompletionRequest = z.infer<
+  typeof reportServiceOrderCompletionRequestSchema
+>;
+
+export const taskMaterialDetailResponseSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  materialUnit: z.string(),
+  plannedQuantityPerHa: z.number(),
+  plannedTotalEstimatedCost: z.number(),
+  actualQuantityUsed: z.number(),
+  actualCost: z.number(),
+  logNotes: z.string().nullish(),
+});
+
+export type TaskMaterialDetailResponse = z.infer<typeof taskMaterialDetailResponseSchema>;
+
+export const farmLogSummaryResponseSchema = z.object({
+  farmLogId: z.string(),
+  loggedDate: z.string(),
+  completionPercentage: z.number(),
+  actualAreaCovered: z.number().nullish(),
+  workDescription: z.string().nullish(),
+  photoUrls: z.array(z.string()).optional(),
+  actualServiceCost: z.number().nullish(),
+});
+
+export type FarmLogSummaryResponse = z.infer<typeof farmLogSummaryResponseSchema>;
+
+export const cultivationTaskDetailResponseSchema = z.object({
+  cultivationTaskId: z.string(),
+  plotCultivationId: z.string(),
+  taskName: z.string(),
+  description: z.string().nullish(),
+  taskType: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  isContingency: z.boolean(),
+  plannedScheduledDate: z.string(),
+  actualStartDate: z.string().nullish(),
+  actualEndDate: z.string().nullish(),
+  estimatedMaterialCost: z.number(),
+  actualMaterialCost: z.number(),
+  actualServiceCost: z.number(),
+  plotName: z.string(),
+  plotArea: z.number(),
+  materials: z.array(taskMaterialDetailResponseSchema),
+  farmLogs: z.array(farmLogSummaryResponseSchema),
+});
+
+export type CultivationTaskDetailResponse = z.infer<typeof cultivationTaskDetailResponseSchema>;
 
 // Farm Log Types
-export type FarmLogMaterialRequest = {
-  materialId: string;
-  actualQuantityUsed: number;
-  notes?: string | null;
-};
-
-export type CreateFarmLogRequest = {
-  cultivationTaskId: string;
-  plotCultivationId: string;
-  workDescription?: string | null;
-  actualAreaCovered?: number | null;
-  serviceCost?: number | null;
-  serviceNotes?: string | null;
-  weatherConditions?: string | null;
-  interruptionReason?: string | null;
-  proofImages?: string[]; // Array of image URIs (will be converted to FormData)
-  materials?: FarmLogMaterialRequest[];
-  farmerId?: string | null;
-};
+export const farmLogMaterialRequestSchema = z.object({
+  materialId: z.string(),
+  actualQuantityUsed: z.number(),
+  notes: z.string().nullish(),
+});
+
+export type FarmLogMaterialRequest = z.infer<typeof farmLogMaterialRequestSchema>;
+
+export const createFarmLogRequestSchema = z.object({
+  cultivationTaskId: z.string(),
+  plotCultivationId: z.string(),
+  workDescription: z.string().nullish(),
+  actualAreaCovered: z.number().nullish(),
+  serviceCost: z.number().nullish(),
+  laborCost: z.number().nullish(),
+  serviceNotes: z.string().nullish(),
+  weatherConditions: z.string().nullish(),
+  interruptionReason: z.string().nullish(),
+  proofImages: z.array(z.string()).optional(), // Array of image URIs (will be converted to FormData)
+  materials: z.array(farmLogMaterialRequestSchema).optional(),
+  farmerId: z.string().nullish(),
+});
+
+export type CreateFarmLogRequest = z.infer<typeof createFarmLogRequestSchema>;
+
+// Harvest Types
+export const recordHarvestRequestSchema = z.object({
+  plotCultivationId: z.string(),
+  harvestDate: z.string(),
+  harvestedArea: z.number(), // ha
+  wetWeightKg: z.number(),
+  moisturePercent: z.number(),
+  dryYieldPerHa: z.number(), // kg/ha at standard moisture
+  buyerName: z.string().nullish(),
+  salePricePerKg: z.number(),
+  notes: z.string().nullish(),
+});
+
+export type RecordHarvestRequest = z.infer<typeof recordHarvestRequestSchema>;
 
 // Emergency Report Types
-export type AlertType = 'Pest' | 'Weather' | 'Disease' | 'Other';
-export type Severity = 'Low' | 'Medium' | 'High' | 'Critical';
-
-export type DetectedPestInfo = {
-  pestName: string;
-  confidence: number;
-  confidenceLevel: string;
-};
+export const alertTypeSchema = z.enum(['Pest', 'Weather', 'Disease', 'Other']);
 
-export type ImageDimensions = {
-  width: number;
-  height: number;
-};
+export type AlertType = z.infer<typeof alertTypeSchema>;
 
-export type PestDetectionSummary = {
-  hasPest: boolean;
-  totalDetections: number;
-  detectedPests: DetectedPestInfo[];
-  averageConfidence: number;
-  imageInfo?: ImageDimensions | null;
-};
+export const severitySchema = z.enum(['Low', 'Medium', 'High', 'Critical']);
 
-export type CreateEmergencyReportRequest = {
-  plotCultivationId?: string | null;
-  groupId?: string | null;
-  clusterId?: string | null;
-  alertType: AlertType;
-  title: string;
-  description: string;
-  severity: Severity;
-  imageUrls?: string[] | null;
-  aiDetectionResult?: PestDetectionSummary | null;
-};
+export type Severity = z.infer<typeof severitySchema>;
 
-export type CreateEmergencyReportResponse = {
-  succeeded: boolean;
-  data: string; // The created report ID (GUID)
-  message: string | null;
-  errors: string[] | null;
-};
+export const detectedPestInfoSchema = z.object({
+  pestName: z.string(),
+  confidence: z.number(),
+  confidenceLevel: z.string(),
+});
 
-// Pest Detection Types
-export type PestDetectionLocation = {
-  x1: number;
-  y1: number;
-  x2: number;
-  y2: number;
-};
+export type DetectedPestInfo = z.infer<typeof detectedPestInfoSchema>;
 
-export type DetectedPest = {
-  pestName: string;
-  confidence: number;
-  confidenceLevel: 'Low' | 'Medium' | 'High';
-  location: PestDetectionLocation;
-};
+export const imageDimensionsSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+});
 
-export type PestDetectionImageInfo = {
-  width: number;
-  height: number;
-};
+export type ImageDimensions = z.infer<typeof imageDimensionsSchema>;
 
-export type PestDetectionResponse = {
-  hasPest: boolean;
-  totalDetections: number;
-  detectedPests: DetectedPest[];
-  imageInfo: PestDetectionImageInfo;
-};
+export const pestDetectionSummarySchema = z.object({
+  hasPest: z.boolean(),
+  totalDetections: z.number(),
+  detectedPests: z.array(detectedPestInfoSchema),
+  averageConfidence: z.number(),
+  imageInfo: imageDimensionsSchema.nullish(),
+});
 
-// Standard Plan Types
-export type StandardPlan = {
-  id: string;
-  name: string;
-  description?: string;
-  riceVarietyId?: string;
-  riceVarietyName?: string;
-  season?: string;
-  totalDuration?: number;
-  isActive: boolean;
-  createdAt?: string;
-};
+export type PestDetectionSummary = z.infer<typeof pestDetectionSummarySchema>;
 
-export type MaterialCostItem = {
-  materialId: string;
-  materialName: string;
-  unit: string;
-  quantityPerHa: number;
-  totalQuantityNeeded: number;
-  amountPerMaterial: number;
-  packagesNeeded: number;
-  actualQuantity: number;
-  pricePerMaterial: number;
-  totalCost: number;
-  costPerHa: number;
-  priceValidFrom?: string;
-};
+export const createEmergencyReportRequestSchema = z.object({
+  plotCultivationId: z.string().nullish(),
+  groupId: z.string().nullish(),
+  clusterId: z.string().nullish(),
+  alertType: alertTypeSchema,
+  title: z.string(),
+  description: z.string(),
+  severity: severitySchema,
+  imageUrls: z.array(z.string()).nullish(),
+  aiDetectionResult: pestDetectionSummarySchema.nullish(),
+});
 
-export type StandardPlanMaterialCostRequest = {
-  plotId?: string;
-  area?: number;
-  standardPlanId: string;
-};
+export type CreateEmergencyReportRequest = z.infer<typeof createEmergencyReportRequestSchema>;
 
-export type StandardPlanMaterialCostResponse = {
-  area: number;
-  totalCostPerHa: number;
-  totalCostForArea: number;
-  materialCostItems: MaterialCostItem[];
-  priceWarnings: string[];
-};
+export const createEmergencyReportResponseSchema = z.object({
+  succeeded: z.boolean(),
+  data: z.string(), // The created report ID (GUID)
+  message: z.string().nullable(),
+  errors: z.array(z.string()).nullable(),
+});
 
-export type StandardPlanProfitAnalysisRequest = {
-  plotId?: string;
-  area?: number;
-  standardPlanId: string;
-  pricePerKgRice: number;
-  expectedYieldPerHa: number;
-  otherServiceCostPerHa?: number;
-};
+export type CreateEmergencyReportResponse = z.infer<typeof createEmergencyReportResponseSchema>;
 
-export type MaterialCostDetail = {
-  materialId: string;
-  materialName: string;
-  unit: string;
-  quantityPerHa: number;
-  totalQuantityForArea: number;
-  packagesNeeded: number;
-  totalCost: number;
-  costPerHa: number;
-};
+// Pest Detection Types
+export const pestDetectionLocationSchema = z.object({
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+});
+
+export type PestDetectionLocation = z.infer<typeof pestDetectionLocationSchema>;
+
+export const detectedPestSchema = z.object({
+  pestName: z.string(),
+  confidence: z.number(),
+  confidenceLevel: z.enum(['Low', 'Medium', 'High']),
+  location: pestDetectionLocationSchema,
+});
+
+export type DetectedPest = z.infer<typeof detectedPestSchema>;
+
+export const pestDetectionImageInfoSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+});
+
+export type PestDetectionImageInfo = z.infer<typeof pestDetectionImageInfoSchema>;
+
+export const pestDetectionResponseSchema = z.object({
+  hasPest: z.boolean(),
+  totalDetections: z.number(),
+  detectedPests: z.array(detectedPestSchema),
+  imageInfo: pestDetectionImageInfoSchema,
+});
+
+export type PestDetectionResponse = z.infer<typeof pestDetectionResponseSchema>;
+
+// Expert Pest Report Types
+export const pestReportStatusSchema = z.enum(['Pending', 'Confirmed', 'Dismissed']);
+
+export type PestReportStatus = z.infer<typeof pestReportStatusSchema>;
+
+// An emergency report sent by a farmer or supervisor, waiting for an expert opinion
+export const pestReportSchema = z.object({
+  id: z.string(),
+  plotId: z.string().nullable(),
+  plotName: z.string().nullable(),
+  farmerName: z.string().nullable(),
+  groupName: z.string().nullable(),
+  alertType: alertTypeSchema,
+  severity: severitySchema,
+  title: z.string(),
+  description: z.string(),
+  imageUrls: z.array(z.string()),
+  aiDetectionResult: pestDetectionSummarySchema.nullish(),
+  status: pestReportStatusSchema,
+  reportedAt: z.string(),
+  reviewedAt: z.string().nullish(),
+  recommendedTreatment: z.string().nullish(),
+  expertNotes: z.string().nullish(),
+});
+
+export type PestReport = z.infer<typeof pestReportSchema>;
+
+// Standard Plan Cost Types
+export const materialCostItemSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  unit: z.string(),
+  quantityPerHa: z.number(),
+  totalQuantityNeeded: z.number(),
+  amountPerMaterial: z.number(),
+  packagesNeeded: z.number(),
+  actualQuantity: z.number(),
+  pricePerMaterial: z.number(),
+  totalCost: z.number(),
+  costPerHa: z.number(),
+  priceValidFrom: z.string().optional(),
+});
+
+export type MaterialCostItem = z.infer<typeof materialCostItemSchema>;
+
+export const standardPlanMaterialCostRequestSchema = z.object({
+  plotId: z.string().optional(),
+  area: z.number().optional(),
+  standardPlanId: z.string(),
+});
+
+export type StandardPlanMaterialCostRequest = z.infer<typeof standardPlanMaterialCostRequestSchema>;
+
+export const standardPlanMaterialCostResponseSchema = z.object({
+  area: z.number(),
+  totalCostPerHa: z.number(),
+  totalCostForArea: z.number(),
+  materialCostItems: z.array(materialCostItemSchema),
+  priceWarnings: z.array(z.string()),
+});
+
+export type StandardPlanMaterialCostResponse = z.infer<
+  typeof standardPlanMaterialCostResponseSchema
+>;
+
+export const standardPlanProfitAnalysisRequestSchema = z.object({
+  plotId: z.string().optional(),
+  area: z.number().optional(),
+  standardPlanId: z.string(),
+  pricePerKgRice: z.number(),
+  expectedYieldPerHa: z.number(),
+  otherServiceCostPerHa: z.number().optional(),
+});
+
+export type StandardPlanProfitAnalysisRequest = z.infer<
+  typeof standardPlanProfitAnalysisRequestSchema
+>;
+
+export const materialCostDetailSchema = z.object({
+  materialId: z.string(),
+  materialName: z.string(),
+  unit: z.string(),
+  quantityPerHa: z.number(),
+  totalQuantityForArea: z.number(),
+  packagesNeeded: z.number(),
+  totalCost: z.number(),
+  costPerHa: z.number(),
+});
+
+export type MaterialCostDetail = z.infer<typeof materialCostDetailSchema>;
+
+export const standardPlanProfitAnalysisResponseSchema = z.object({
+  area: z.number(),
+  pricePerKgRice: z.number(),
+  expectedYieldPerHa: z.number(),
+  expectedRevenuePerHa: z.number(),
+  materialCostPerHa: z.number(),
+  otherServiceCostPerHa: z.number(),
+  totalCostPerHa: z.number(),
+  profitPerHa: z.number(),
+  profitMarginPerHa: z.number(),
+  expectedRevenueForArea: z.number(),
+  materialCostForArea: z.number(),
+  otherServiceCostForArea: z.number(),
+  totalCostForArea: z.number(),
+  profitForArea: z.number(),
+  profitMarginForArea: z.number(),
+  materialCostDetails: z.array(materialCostDetailSchema),
+  warnings: z.array(z.string()),
+});
+
+export type StandardPlanProfitAnalysisResponse = z.infer<
+  typeof standardPlanProfitAnalysisResponseSchema
+>;
 
-export type StandardPlanProfitAnalysisResponse = {
-  area: number;
-  pricePerKgRice: number;
-  expectedYieldPerHa: number;
-  expectedRevenuePerHa: number;
-  materialCostPerHa: number;
-  otherServiceCostPerHa: number;
-  totalCostPerHa: number;
-  profitPerHa: number;
-  profitMarginPerHa: number;
-  expectedRevenueForArea: number;
-  materialCostForArea: number;
-  otherServiceCostForArea: number;
-  totalCostForArea: number;
-  profitForArea: number;
-  profitMarginForArea: number;
-  materialCostDetails: MaterialCostDetail[];
-  warnings: string[];
-};
+// Start Task Types
+export const startTaskRequestSchema = z.object({
+  cultivationTaskId: z.string(),
+  weatherConditions: z.string().nullish(),
+  notes: z.string().nullish(),
+});
 
+export type StartTaskRequest = z.infer<typeof startTaskRequestSchema>;
 
-// Start Task Types
-export type StartTaskRequest = {
-  cultivationTaskId: string;
-  weatherConditions?: string | null;
-  notes?: string | null;
-};
+export const startTaskResponseSchema = z.object({
+  succeeded: z.boolean(),
+  data: z.string().nullish(), // Task ID or success message
+  message: z.string().nullish(),
+  errors: z.array(z.string()).optional(),
+});
 
-export type StartTaskResponse = {
-  succeeded: boolean;
-  data?: string | null; // Task ID or success message
-  message?: string | null;
-  errors?: string[];
-};
+export type StartTaskResponse = z.infer<typeof startTaskResponseSchema>;
 
 // Farmer Profile Types
-export type FarmerProfileResponse = {
-  farmerId: string;
-  fullName: string;
-  address: string | null;
-  phoneNumber: string;
-  isActive: boolean;
-  isVerified: boolean;
-  lastActivityAt: string | null;
-  farmCode: string | null;
-  plotCount: number;
-};
\ No newline at end of file
+export const farmerProfileResponseSchema = z.object({
+  farmerId: z.string(),
+  fullName: z.string(),
+  address: z.string().nullable(),
+  phoneNumber: z.string(),
+  isActive: z.boolean(),
+  isVerified: z.boolean(),
+  lastActivityAt: z.string().nullable(),
+  farmCode: z.string().nullable(),
+  plotCount: z.number(),
+});
+
+export type FarmerProfileResponse = z.infer<typeof farmerProfileResponseSchema>;
+
+// Cluster Manager Types
+// Plot counts per PlotStatus, as shown on the cluster dashboards
+export const plotStatusCountsSchema = z.object({
+  active: z.number(),
+  inactive: z.number(),
+  emergency: z.number(),
+  locked: z.number(),
+});
+
+export type PlotStatusCounts = z.infer<typeof plotStatusCountsSchema>;
+
+export const clusterOverviewSchema = z.object({
+  clusterId: z.string(),
+  clusterName: z.string(),
+  totalGroups: z.number(),
+  totalSupervisors: z.number(),
+  totalFarmers: z.number(),
+  totalPlots: z.number(),
+  totalArea: z.number(),
+  openAlerts: z.number(),
+  plotStatus: plotStatusCountsSchema,
+});
+
+export type ClusterOverview = z.infer<typeof clusterOverviewSchema>;
+
+export const clusterGroupSchema = z.object({
+  groupId: z.string(),
+  groupName: z.string(),
+  supervisorId: z.string().nullable(),
+  supervisorName: z.string().nullable(),
+  seasonName: z.string().nullish(),
+  farmerCount: z.number(),
+  plotCount: z.number(),
+  totalArea: z.number(),
+  activeAlerts: z.number(),
+  plotStatus: plotStatusCountsSchema,
+});
+
+export type ClusterGroup = z.infer<typeof clusterGroupSchema>;
+
+export const clusterSupervisorSchema = z.object({
+  supervisorId: z.string(),
+  fullName: z.string(),
+  email: z.string(),
+  phoneNumber: z.string().nullish(),
+  groupNames: z.array(z.string()),
+  farmerCount: z.number(),
+  pendingReviews: z.number(),
+  lastActivityAt: z.string().nullable(),
+});
+
+export type ClusterSupervisor = z.infer<typeof clusterSupervisorSchema>;
@@ -2,3 +2,13 @@ import { default as dayjs } from 'dayjs';
 
 export const formatDate = (date: number) =>
   dayjs(date).format('MMMM D, YYYY h:mm A');
+
+// Short Vietnamese relative time, e.g. "5 phút trước"
+export const formatTimeAgo = (timestamp: number, now = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'vừa xong';
+  if (minutes < 60) return `${minutes} phút trước`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} giờ trước`;
+  return `${Math.floor(hours / 24)} ngày trước`;
+};